@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { trpc } from '@/utils/trpc';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -6,75 +6,277 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { AlertTriangle, Users, FileText, TrendingUp, Plus, Search, Filter } from 'lucide-react';
+import { AlertTriangle, Users, FileText, TrendingUp, Plus, Search, LogOut, FileUp, KeyRound } from 'lucide-react';
 import { CaseList } from '@/components/CaseList';
 import { CreateCaseDialog } from '@/components/CreateCaseDialog';
+import { ImportCasesDialog } from '@/components/ImportCasesDialog';
+import { CaseExportCard } from '@/components/CaseExportCard';
+import { CaseFilterPanel } from '@/components/CaseFilterPanel';
+import { SavedViewsBar } from '@/components/SavedViewsBar';
+import { SlaPolicyCard } from '@/components/SlaPolicyCard';
+import { AutoAssignmentRulesCard } from '@/components/AutoAssignmentRulesCard';
+import { NotificationBell } from '@/components/NotificationBell';
 import { UserManagement } from '@/components/UserManagement';
+import { WebhookCard } from '@/components/WebhookCard';
+import { LoginForm } from '@/components/LoginForm';
+import { ChangePasswordDialog } from '@/components/ChangePasswordDialog';
+import { getAuthToken, setAuthToken } from '@/utils/auth';
+import { can } from '@/utils/permissions';
+import { filtersKey, readCaseQuery, writeCaseQuery } from '@/utils/caseQuery';
+import { SLA_TARGET_LABELS } from '@/utils/sla';
+import { DISPOSITION_LABELS, getDispositionColor, formatAmount } from '@/utils/disposition';
 // Type-only imports from server
-import type { FraudCase, User, CaseStatus, CasePriority, CaseFilters } from '../../server/src/schema';
+import type { FraudCase, User, CaseStatus, CasePriority, CaseDisposition, CaseFilters, CaseSort, CaseSearchResult, CaseListColumn, SavedView, SlaTarget, RolePermissions, TransactionInput } from '../../server/src/schema';
 import type { CaseStatistics } from '../../server/src/handlers/get_case_statistics';
 
+const CASE_PAGE_SIZE = 25;
+const SEARCH_LIMIT = 50;
+// Quiet period before a live update reloads the case list
+const LIVE_REFRESH_DELAY_MS = 250;
+
+// Sort presets offered in the case filters; the server accepts any combination of columns
+const SORT_OPTIONS = {
+  newest: { label: 'Newest first', sort: [{ field: 'created_at', direction: 'desc' }] },
+  oldest: { label: 'Oldest first', sort: [{ field: 'created_at', direction: 'asc' }] },
+  updated: { label: 'Recently updated', sort: [{ field: 'updated_at', direction: 'desc' }] },
+  priority: { label: 'Highest priority', sort: [{ field: 'priority', direction: 'desc' }, { field: 'created_at', direction: 'desc' }] },
+  status: { label: 'Status', sort: [{ field: 'status', direction: 'asc' }, { field: 'priority', direction: 'desc' }] }
+} satisfies Record<string, { label: string; sort: CaseSort[] }>;
+
+type SortOption = keyof typeof SORT_OPTIONS;
+
+// Preset matching a sort order; no sort means the server default, newest first
+const sortOptionFor = (sort: CaseSort[] | null): SortOption | 'custom' => {
+  if (sort === null) return 'newest';
+  const match = (Object.keys(SORT_OPTIONS) as SortOption[])
+    .find(option => JSON.stringify(SORT_OPTIONS[option].sort) === JSON.stringify(sort));
+  return match ?? 'custom';
+};
+
+const ALL_COLUMNS: CaseListColumn[] = ['txid', 'priority', 'disposition', 'sla', 'created_at', 'created_by', 'assigned_to', 'description'];
+
 function App() {
-  // Current user state (in real app, this would come from auth context)
+  // Authenticated user, resolved from the stored session token
   const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [isCheckingSession, setIsCheckingSession] = useState(true);
+  const [permissions, setPermissions] = useState<RolePermissions | null>(null);
   const [users, setUsers] = useState<User[]>([]);
   const [cases, setCases] = useState<FraudCase[]>([]);
   const [statistics, setStatistics] = useState<CaseStatistics | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [activeTab, setActiveTab] = useState('dashboard');
   const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  const [showChangePassword, setShowChangePassword] = useState(false);
   
-  // Filters state
-  const [filters, setFilters] = useState<CaseFilters>({});
-  const [searchTxid, setSearchTxid] = useState('');
+  // Filters state, starting from the URL when it carries any
+  const [initialQuery] = useState(() => readCaseQuery(window.location.search));
+  const [filters, setFilters] = useState<CaseFilters>(initialQuery?.filters ?? {});
+  const [searchQuery, setSearchQuery] = useState(initialQuery?.search ?? '');
+  const [debouncedQuery, setDebouncedQuery] = useState(initialQuery?.search ?? '');
+  const [sort, setSort] = useState<CaseSort[] | null>(initialQuery?.sort ?? null);
+  const [columns, setColumns] = useState<CaseListColumn[]>(ALL_COLUMNS);
+
+  // Saved views; cases wait until the linked or default view has been applied
+  const [savedViews, setSavedViews] = useState<SavedView[]>([]);
+  const [defaultViewId, setDefaultViewId] = useState<number | null>(null);
+  const [activeViewId, setActiveViewId] = useState<number | null>(initialQuery?.viewId ?? null);
+  const [viewsReady, setViewsReady] = useState(false);
+  const initialViewApplied = useRef(false);
+
+  // Cursors of the pages visited so far; the last one is the page on screen
+  const [pageCursors, setPageCursors] = useState<(string | undefined)[]>([undefined]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [totalCases, setTotalCases] = useState<number | null>(null);
+
+  // Ranked matches while the search box is in use, keyed by case id
+  const [searchMatches, setSearchMatches] = useState<Map<number, CaseSearchResult> | null>(null);
+
+  // Restore an existing session on startup
+  useEffect(() => {
+    const restoreSession = async () => {
+      if (!getAuthToken()) {
+        setIsCheckingSession(false);
+        return;
+      }
+      try {
+        setCurrentUser(await trpc.getCurrentUser.query());
+      } catch (error) {
+        console.error('Session expired or invalid:', error);
+        setAuthToken(null);
+      } finally {
+        setIsCheckingSession(false);
+      }
+    };
+    restoreSession();
+  }, []);
 
   // Load initial data
   const loadData = useCallback(async () => {
+    if (!currentUser) return;
+
     setIsLoading(true);
     try {
-      const [usersData, casesData, statsData] = await Promise.all([
+      const [permissionsData, usersData, statsData] = await Promise.all([
+        trpc.getMyPermissions.query(),
         trpc.getUsers.query(),
-        trpc.getFraudCases.query({ 
-          filters: { ...filters, txid: searchTxid || undefined },
-          userId: currentUser?.id 
-        }),
-        trpc.getCaseStatistics.query({ userId: currentUser?.id })
+        trpc.getCaseStatistics.query()
       ]);
       
+      setPermissions(permissionsData);
       setUsers(usersData);
-      setCases(casesData);
       setStatistics(statsData);
     } catch (error) {
       console.error('Failed to load data:', error);
     } finally {
       setIsLoading(false);
     }
-  }, [currentUser?.id, filters, searchTxid]);
+  }, [currentUser]);
 
   useEffect(() => {
     loadData();
   }, [loadData]);
 
-  // Set demo current user (first admin user)
+  const applyView = useCallback((view: SavedView | null) => {
+    setFilters(view?.filters ?? {});
+    setSort(view?.sort ?? null);
+    setColumns(view?.columns ?? ALL_COLUMNS);
+    setActiveViewId(view?.id ?? null);
+    setPageCursors([undefined]);
+  }, []);
+
+  const loadSavedViews = useCallback(async () => {
+    if (!currentUser) return;
+
+    try {
+      const result = await trpc.getSavedViews.query();
+      setSavedViews(result.views);
+      setDefaultViewId(result.default_view_id);
+
+      // A view named in the URL wins over the default; explicit filters in the URL win over the view's own
+      if (!initialViewApplied.current) {
+        initialViewApplied.current = true;
+        if (initialQuery === null) {
+          const defaultView = result.views.find(view => view.id === result.default_view_id);
+          if (defaultView) applyView(defaultView);
+        } else {
+          const linkedView = result.views.find(view => view.id === initialQuery.viewId);
+          if (!linkedView) {
+            setActiveViewId(null);
+          } else if (Object.keys(initialQuery.filters).length === 0 && initialQuery.sort === null) {
+            applyView(linkedView);
+          } else {
+            setColumns(linkedView.columns);
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load saved views:', error);
+    } finally {
+      setViewsReady(true);
+    }
+  }, [currentUser, initialQuery, applyView]);
+
+  useEffect(() => {
+    loadSavedViews();
+  }, [loadSavedViews]);
+
+  // Keep the URL in step with the list so it can be shared
+  useEffect(() => {
+    if (!currentUser || !viewsReady) return;
+    window.history.replaceState(null, '', writeCaseQuery({ filters, sort, search: debouncedQuery, viewId: activeViewId }));
+  }, [currentUser, viewsReady, filters, sort, debouncedQuery, activeViewId]);
+
+  const activeView = savedViews.find(view => view.id === activeViewId) ?? null;
+  const isViewModified = activeView !== null && (
+    filtersKey(activeView.filters) !== filtersKey(filters) ||
+    JSON.stringify(activeView.sort) !== JSON.stringify(sort) ||
+    JSON.stringify(activeView.columns) !== JSON.stringify(columns)
+  );
+
+  // Load the search results, or else the current page of cases
+  const loadCases = useCallback(async () => {
+    if (!currentUser || !viewsReady) return;
+
+    try {
+      if (debouncedQuery.trim()) {
+        const results = await trpc.searchCases.query({ query: debouncedQuery, filters, limit: SEARCH_LIMIT });
+        setCases(results.map(result => result.case));
+        setSearchMatches(new Map(results.map(result => [result.case.id, result])));
+        return;
+      }
+
+      const page = await trpc.getFraudCases.query({
+        filters,
+        sort: sort ?? undefined,
+        cursor: pageCursors[pageCursors.length - 1],
+        limit: CASE_PAGE_SIZE,
+        include_total: true
+      });
+      setCases(page.cases);
+      setSearchMatches(null);
+      setNextCursor(page.next_cursor);
+      setTotalCases(page.total);
+    } catch (error) {
+      console.error('Failed to load cases:', error);
+    }
+  }, [currentUser, viewsReady, filters, debouncedQuery, sort, pageCursors]);
+
+  useEffect(() => {
+    loadCases();
+  }, [loadCases]);
+
+  // Wait for typing to pause before searching
   useEffect(() => {
-    if (users.length > 0 && !currentUser) {
-      const adminUser = users.find(u => u.role === 'admin') || users[0];
-      setCurrentUser(adminUser);
+    const timer = setTimeout(() => {
+      setDebouncedQuery(searchQuery);
+      // Keep the same array on the first page so the initial render does not load twice
+      setPageCursors(prev => prev.length === 1 ? prev : [undefined]);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  // Any change to the query starts again from the first page
+  const updateFilters = (update: (prev: CaseFilters) => CaseFilters) => {
+    setFilters(update);
+    setPageCursors([undefined]);
+  };
+
+  const handleSortChange = (option: SortOption) => {
+    setSort(option === 'newest' ? null : SORT_OPTIONS[option].sort);
+    setPageCursors([undefined]);
+  };
+
+  const clearSession = () => {
+    setAuthToken(null);
+    setCurrentUser(null);
+    setPermissions(null);
+    setIsLoading(true);
+    // The next user starts from their own default view
+    initialViewApplied.current = false;
+    setViewsReady(false);
+  };
+
+  const handleLogout = async () => {
+    try {
+      await trpc.logout.mutate();
+    } catch (error) {
+      console.error('Failed to log out:', error);
+    } finally {
+      clearSession();
     }
-  }, [users, currentUser]);
+  };
 
-  const handleCreateCase = async (caseData: { txid: string; description: string; priority: CasePriority }) => {
+  const handleCreateCase = async (caseData: { transactions: TransactionInput[]; description: string; priority: CasePriority }) => {
     if (!currentUser) return;
     
     try {
-      const newCase = await trpc.createFraudCase.mutate({
-        ...caseData,
-        created_by: currentUser.id
-      });
-      setCases(prev => [newCase, ...prev]);
+      await trpc.createFraudCase.mutate(caseData);
       setShowCreateDialog(false);
+      // Back to the first page, which reloads the list
+      setPageCursors([undefined]);
       // Refresh statistics
-      const updatedStats = await trpc.getCaseStatistics.query({ userId: currentUser.id });
+      const updatedStats = await trpc.getCaseStatistics.query();
       setStatistics(updatedStats);
     } catch (error) {
       console.error('Failed to create case:', error);
@@ -84,7 +286,38 @@ function App() {
   const handleCaseUpdate = useCallback(() => {
     // Reload data when case is updated
     loadData();
-  }, [loadData]);
+    loadCases();
+  }, [loadData, loadCases]);
+
+  // Cases created or changed by anyone arrive over the WebSocket; the list and statistics are
+  // reloaded once a burst of changes has settled
+  const loadCasesRef = useRef(loadCases);
+  loadCasesRef.current = loadCases;
+
+  useEffect(() => {
+    if (!currentUser) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const refresh = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        loadCasesRef.current();
+        trpc.getCaseStatistics.query()
+          .then(setStatistics)
+          .catch((error) => console.error('Failed to refresh statistics:', error));
+      }, LIVE_REFRESH_DELAY_MS);
+    };
+    const onError = (error: unknown) => console.error('Live case updates failed:', error);
+
+    const subscriptions = [
+      trpc.onCaseCreated.subscribe(undefined, { onData: refresh, onError }),
+      trpc.onCaseChanged.subscribe(undefined, { onData: refresh, onError })
+    ];
+    return () => {
+      clearTimeout(timer);
+      subscriptions.forEach(subscription => subscription.unsubscribe());
+    };
+  }, [currentUser]);
 
   const getPriorityColor = (priority: CasePriority) => {
     switch (priority) {
@@ -107,7 +340,11 @@ function App() {
     }
   };
 
-  if (isLoading) {
+  if (!isCheckingSession && !currentUser) {
+    return <LoginForm onLogin={setCurrentUser} />;
+  }
+
+  if (isCheckingSession || isLoading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
@@ -133,10 +370,19 @@ function App() {
             <div className="flex items-center space-x-4">
               {currentUser && (
                 <div className="flex items-center space-x-2">
+                  <NotificationBell />
                   <Badge variant="outline" className="capitalize">
                     {currentUser.role}
                   </Badge>
                   <span className="text-sm text-gray-700">{currentUser.username}</span>
+                  <Button variant="ghost" size="sm" onClick={() => setShowChangePassword(true)}>
+                    <KeyRound className="h-4 w-4 mr-1" />
+                    Password
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={handleLogout}>
+                    <LogOut className="h-4 w-4 mr-1" />
+                    Sign out
+                  </Button>
                 </div>
               )}
             </div>
@@ -144,6 +390,8 @@ function App() {
         </div>
       </header>
 
+      <ChangePasswordDialog open={showChangePassword} onOpenChange={setShowChangePassword} onPasswordChanged={clearSession} />
+
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
           <TabsList className="grid w-full grid-cols-4">
@@ -257,8 +505,69 @@ function App() {
                     </div>
                   </CardContent>
                 </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Case Outcomes</CardTitle>
+                    <CardDescription>
+                      Dispositions of resolved and closed cases · {formatAmount(statistics.totalRecoveredAmount)} recovered
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-3">
+                      {Object.entries(statistics.casesByDisposition).map(([disposition, count]) => (
+                        <div key={disposition} className="flex items-center justify-between">
+                          <Badge className={getDispositionColor(disposition as CaseDisposition)}>
+                            {DISPOSITION_LABELS[disposition as CaseDisposition]}
+                          </Badge>
+                          <span className="font-medium">{count}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>SLA Compliance</CardTitle>
+                    <CardDescription>
+                      Targets met on time · {statistics.casesInSlaBreach} unresolved {statistics.casesInSlaBreach === 1 ? 'case' : 'cases'} in breach
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-3">
+                      {Object.entries(statistics.slaCompliance).map(([target, compliance]) => (
+                        <div key={target} className="flex items-center justify-between">
+                          <div>
+                            <p className="text-sm font-medium">{SLA_TARGET_LABELS[target as SlaTarget]}</p>
+                            <p className="text-xs text-gray-500">
+                              {compliance.met} met · {compliance.breached} breached · {compliance.pending} pending
+                            </p>
+                          </div>
+                          <span className={`font-medium ${compliance.complianceRate !== null && compliance.complianceRate < 90 ? 'text-red-600' : ''}`}>
+                            {compliance.complianceRate === null ? '—' : `${compliance.complianceRate}%`}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
               </div>
             )}
+
+            {can(permissions, 'sla', 'read') && (
+              <SlaPolicyCard
+                permissions={permissions}
+                onPolicyChange={() => {
+                  loadData();
+                  loadCases();
+                }}
+              />
+            )}
+
+            {can(permissions, 'assignment', 'read') && (
+              <AutoAssignmentRulesCard permissions={permissions} />
+            )}
           </TabsContent>
 
           <TabsContent value="cases" className="space-y-6 mt-6">
@@ -268,55 +577,64 @@ function App() {
                 <h2 className="text-2xl font-bold text-gray-900">📋 Fraud Cases</h2>
                 <p className="text-gray-600">Manage and track fraud investigation cases</p>
               </div>
-              <Button onClick={() => setShowCreateDialog(true)} className="bg-red-600 hover:bg-red-700">
-                <Plus className="h-4 w-4 mr-2" />
-                New Case
-              </Button>
+              {can(permissions, 'case', 'create') && (
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={() => setShowImportDialog(true)}>
+                    <FileUp className="h-4 w-4 mr-2" />
+                    Import
+                  </Button>
+                  <Button onClick={() => setShowCreateDialog(true)} className="bg-red-600 hover:bg-red-700">
+                    <Plus className="h-4 w-4 mr-2" />
+                    New Case
+                  </Button>
+                </div>
+              )}
             </div>
 
             {/* Filters */}
             <Card>
-              <CardContent className="pt-6">
+              <CardContent className="pt-6 space-y-4">
+                {currentUser && (
+                  <SavedViewsBar
+                    views={savedViews}
+                    defaultViewId={defaultViewId}
+                    activeView={activeView}
+                    isModified={isViewModified}
+                    current={{ filters, sort, columns }}
+                    currentUser={currentUser}
+                    users={users}
+                    permissions={permissions}
+                    onSelect={applyView}
+                    onViewsChange={loadSavedViews}
+                  />
+                )}
                 <div className="flex flex-col sm:flex-row gap-4">
                   <div className="relative flex-1">
                     <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
                     <Input
-                      placeholder="Search by Transaction ID..."
-                      value={searchTxid}
-                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearchTxid(e.target.value)}
+                      placeholder="Search descriptions, transaction IDs, notes or users..."
+                      value={searchQuery}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearchQuery(e.target.value)}
                       className="pl-10"
                     />
                   </div>
-                  <Select value={filters.status || 'all'} onValueChange={(value) => 
-                    setFilters(prev => ({ ...prev, status: value === 'all' ? undefined : value as CaseStatus }))
-                  }>
+                  <Select
+                    value={sortOptionFor(sort)}
+                    onValueChange={(value: SortOption) => handleSortChange(value)}
+                    disabled={searchMatches !== null} // Search results are ranked by relevance
+                  >
                     <SelectTrigger className="w-full sm:w-48">
-                      <SelectValue placeholder="Filter by status" />
+                      <SelectValue placeholder="Sort by" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="all">All Statuses</SelectItem>
-                      <SelectItem value="open">Open</SelectItem>
-                      <SelectItem value="in_progress">In Progress</SelectItem>
-                      <SelectItem value="escalated">Escalated</SelectItem>
-                      <SelectItem value="resolved">Resolved</SelectItem>
-                      <SelectItem value="closed">Closed</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  <Select value={filters.priority || 'all'} onValueChange={(value) => 
-                    setFilters(prev => ({ ...prev, priority: value === 'all' ? undefined : value as CasePriority }))
-                  }>
-                    <SelectTrigger className="w-full sm:w-48">
-                      <SelectValue placeholder="Filter by priority" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="all">All Priorities</SelectItem>
-                      <SelectItem value="critical">Critical</SelectItem>
-                      <SelectItem value="high">High</SelectItem>
-                      <SelectItem value="medium">Medium</SelectItem>
-                      <SelectItem value="low">Low</SelectItem>
+                      {Object.entries(SORT_OPTIONS).map(([value, option]) => (
+                        <SelectItem key={value} value={value}>{option.label}</SelectItem>
+                      ))}
+                      <SelectItem value="custom" disabled>Saved order</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
+                <CaseFilterPanel filters={filters} users={users} onFiltersChange={updateFilters} />
               </CardContent>
             </Card>
 
@@ -325,7 +643,18 @@ function App() {
               cases={cases}
               users={users}
               currentUser={currentUser}
+              permissions={permissions}
               onCaseUpdate={handleCaseUpdate}
+              searchMatches={searchMatches ?? undefined}
+              columns={columns}
+              pagination={searchMatches ? undefined : {
+                page: pageCursors.length,
+                pageCount: totalCases !== null ? Math.max(1, Math.ceil(totalCases / CASE_PAGE_SIZE)) : null,
+                hasPrevious: pageCursors.length > 1,
+                hasNext: nextCursor !== null,
+                onPrevious: () => setPageCursors(prev => prev.slice(0, -1)),
+                onNext: () => nextCursor && setPageCursors(prev => [...prev, nextCursor])
+              }}
             />
           </TabsContent>
 
@@ -333,26 +662,18 @@ function App() {
             <UserManagement 
               users={users}
               currentUser={currentUser}
+              permissions={permissions}
               onUsersUpdate={loadData}
             />
+            {can(permissions, 'webhook', 'read') && (
+              <WebhookCard permissions={permissions} />
+            )}
           </TabsContent>
 
           <TabsContent value="reports" className="space-y-6 mt-6">
-            <Card>
-              <CardHeader>
-                <CardTitle>📊 Analytics & Reports</CardTitle>
-                <CardDescription>Detailed analytics and reporting features</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="text-center py-12">
-                  <TrendingUp className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-                  <h3 className="text-lg font-medium text-gray-900 mb-2">Advanced Reports Coming Soon</h3>
-                  <p className="text-gray-600">
-                    Detailed analytics, performance metrics, and export capabilities will be available here.
-                  </p>
-                </div>
-              </CardContent>
-            </Card>
+            {can(permissions, 'case', 'read') && (
+              <CaseExportCard filters={filters} />
+            )}
           </TabsContent>
         </Tabs>
       </div>
@@ -363,6 +684,13 @@ function App() {
         onOpenChange={setShowCreateDialog}
         onCreateCase={handleCreateCase}
       />
+
+      {/* Import Cases Dialog */}
+      <ImportCasesDialog
+        open={showImportDialog}
+        onOpenChange={setShowImportDialog}
+        onImported={handleCaseUpdate}
+      />
     </div>
   );
 }
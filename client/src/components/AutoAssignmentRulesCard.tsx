@@ -0,0 +1,143 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { trpc } from '@/utils/trpc';
+import { can } from '@/utils/permissions';
+import { AUTO_ASSIGNMENT_STRATEGY_LABELS } from '@/utils/assignment';
+import type { AutoAssignmentRule, AutoAssignmentStrategy, CasePriority, RolePermissions } from '../../../server/src/schema';
+
+interface AutoAssignmentRulesCardProps {
+  permissions: RolePermissions | null;
+}
+
+type RuleDraft = Pick<AutoAssignmentRule, 'strategy' | 'auto_on_create'>;
+
+const STRATEGY_DESCRIPTIONS: Record<AutoAssignmentStrategy, string> = {
+  round_robin: 'Takes turns through investigators and analysts',
+  least_loaded: 'Picks whoever has the fewest open and in progress cases',
+  skill_based: 'Matches transaction channels to user skills, then the lightest workload'
+};
+
+export function AutoAssignmentRulesCard({ permissions }: AutoAssignmentRulesCardProps) {
+  const [rules, setRules] = useState<AutoAssignmentRule[]>([]);
+  const [drafts, setDrafts] = useState<Partial<Record<CasePriority, RuleDraft>>>({});
+  const [savingPriority, setSavingPriority] = useState<CasePriority | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const canEdit = can(permissions, 'assignment', 'update');
+
+  const loadRules = useCallback(async () => {
+    try {
+      const result = await trpc.getAutoAssignmentRules.query();
+      setRules(result);
+      setDrafts({});
+    } catch (error) {
+      console.error('Failed to load auto-assignment rules:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const draftFor = (rule: AutoAssignmentRule): RuleDraft =>
+    drafts[rule.priority] ?? { strategy: rule.strategy, auto_on_create: rule.auto_on_create };
+
+  const setDraftValue = (rule: AutoAssignmentRule, change: Partial<RuleDraft>) => {
+    setDrafts(prev => ({ ...prev, [rule.priority]: { ...draftFor(rule), ...change } }));
+  };
+
+  const handleSave = async (rule: AutoAssignmentRule) => {
+    setSavingPriority(rule.priority);
+    setError(null);
+    try {
+      await trpc.updateAutoAssignmentRule.mutate({ priority: rule.priority, ...draftFor(rule) });
+      await loadRules();
+    } catch (error) {
+      console.error('Failed to update auto-assignment rule:', error);
+      setError(error instanceof Error ? error.message : 'Could not save the auto-assignment rule');
+    } finally {
+      setSavingPriority(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Auto-Assignment Rules</CardTitle>
+        <CardDescription>
+          How the assignee is picked for each priority, from the Auto-assign button or as soon as a case is created.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Priority</TableHead>
+              <TableHead>Strategy</TableHead>
+              <TableHead>Assign new cases</TableHead>
+              {canEdit && <TableHead />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rules.map(rule => (
+              <TableRow key={rule.priority}>
+                <TableCell className="capitalize">
+                  {rule.priority}
+                  {rule.updated_by === null && <span className="ml-2 text-xs text-gray-500">default</span>}
+                </TableCell>
+                <TableCell>
+                  {canEdit ? (
+                    <Select
+                      value={draftFor(rule).strategy}
+                      onValueChange={(value: AutoAssignmentStrategy) => setDraftValue(rule, { strategy: value })}
+                    >
+                      <SelectTrigger className="w-40" aria-label={`${rule.priority} strategy`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(AUTO_ASSIGNMENT_STRATEGY_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    AUTO_ASSIGNMENT_STRATEGY_LABELS[rule.strategy]
+                  )}
+                  <p className="mt-1 text-xs text-gray-500">{STRATEGY_DESCRIPTIONS[draftFor(rule).strategy]}</p>
+                </TableCell>
+                <TableCell>
+                  {canEdit ? (
+                    <Checkbox
+                      checked={draftFor(rule).auto_on_create}
+                      onCheckedChange={(checked) => setDraftValue(rule, { auto_on_create: checked === true })}
+                      aria-label={`Assign new ${rule.priority} cases automatically`}
+                    />
+                  ) : (
+                    rule.auto_on_create ? 'Yes' : 'No'
+                  )}
+                </TableCell>
+                {canEdit && (
+                  <TableCell>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleSave(rule)}
+                      disabled={!drafts[rule.priority] || savingPriority !== null}
+                    >
+                      {savingPriority === rule.priority ? 'Saving...' : 'Save'}
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,230 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Paperclip, Download, Trash2, Upload, RefreshCw } from 'lucide-react';
+import { trpc } from '@/utils/trpc';
+import { can } from '@/utils/permissions';
+import type { CaseAttachment, User, RolePermissions } from '../../../server/src/schema';
+
+interface CaseAttachmentsProps {
+  caseId: number;
+  users: User[];
+  permissions: RolePermissions | null;
+}
+
+// Mirrors attachmentMimeTypeSchema on the server
+const ACCEPTED_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'application/json',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/zip'
+] as const;
+
+type AcceptedType = typeof ACCEPTED_TYPES[number];
+
+const isAcceptedType = (type: string): type is AcceptedType =>
+  (ACCEPTED_TYPES as readonly string[]).includes(type);
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Base64 payload of a file, without the data URL prefix
+const readAsBase64 = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+export function CaseAttachments({ caseId, users, permissions }: CaseAttachmentsProps) {
+  const [attachments, setAttachments] = useState<CaseAttachment[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [replacing, setReplacing] = useState<CaseAttachment | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const replaceInput = useRef<HTMLInputElement>(null);
+
+  const loadAttachments = useCallback(async () => {
+    try {
+      const result = await trpc.getCaseAttachments.query({ caseId });
+      setAttachments(result);
+    } catch (error) {
+      console.error('Failed to load attachments:', error);
+      setAttachments([]);
+    }
+  }, [caseId]);
+
+  useEffect(() => {
+    loadAttachments();
+  }, [loadAttachments]);
+
+  const getUsername = (userId: number) =>
+    users.find(user => user.id === userId)?.username || `User #${userId}`;
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!isAcceptedType(file.type)) {
+      setError(`Files of type ${file.type || 'unknown'} cannot be attached`);
+      return;
+    }
+
+    setIsUploading(true);
+    setError(null);
+    try {
+      await trpc.uploadAttachment.mutate({
+        case_id: caseId,
+        filename: file.name,
+        mime_type: file.type,
+        content_base64: await readAsBase64(file)
+      });
+      await loadAttachments();
+    } catch (error) {
+      console.error('Failed to upload attachment:', error);
+      setError('Upload failed');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleReplace = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    const target = replacing;
+    setReplacing(null);
+    if (!file || !target) return;
+
+    if (!isAcceptedType(file.type)) {
+      setError(`Files of type ${file.type || 'unknown'} cannot be attached`);
+      return;
+    }
+
+    setIsUploading(true);
+    setError(null);
+    try {
+      await trpc.replaceAttachment.mutate({
+        attachment_id: target.id,
+        filename: file.name,
+        mime_type: file.type,
+        content_base64: await readAsBase64(file)
+      });
+      await loadAttachments();
+    } catch (error) {
+      console.error('Failed to replace attachment:', error);
+      setError(`Could not replace ${target.filename}`);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const startReplace = (attachment: CaseAttachment) => {
+    setReplacing(attachment);
+    replaceInput.current?.click();
+  };
+
+  const handleDownload = async (attachment: CaseAttachment) => {
+    try {
+      const result = await trpc.getAttachmentContent.query({ attachmentId: attachment.id });
+      const bytes = Uint8Array.from(atob(result.content_base64), char => char.charCodeAt(0));
+      const url = URL.createObjectURL(new Blob([bytes], { type: attachment.mime_type }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = attachment.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to download attachment:', error);
+      setError(`Could not download ${attachment.filename}`);
+    }
+  };
+
+  const handleDelete = async (attachment: CaseAttachment) => {
+    try {
+      await trpc.deleteAttachment.mutate({ attachmentId: attachment.id });
+      await loadAttachments();
+    } catch (error) {
+      console.error('Failed to delete attachment:', error);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-gray-600 flex items-center gap-1">
+          <Paperclip className="h-4 w-4" />
+          Evidence
+        </label>
+        {can(permissions, 'attachment', 'create') && (
+          <>
+            <input
+              ref={fileInput}
+              type="file"
+              accept={ACCEPTED_TYPES.join(',')}
+              className="hidden"
+              onChange={handleUpload}
+            />
+            <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()} disabled={isUploading}>
+              <Upload className="h-4 w-4 mr-1" />
+              {isUploading ? 'Uploading...' : 'Attach File'}
+            </Button>
+          </>
+        )}
+      </div>
+      {can(permissions, 'attachment', 'update') && (
+        <input
+          ref={replaceInput}
+          type="file"
+          accept={ACCEPTED_TYPES.join(',')}
+          className="hidden"
+          onChange={handleReplace}
+        />
+      )}
+      {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+      {attachments.length === 0 ? (
+        <p className="mt-1 text-sm text-gray-500">No evidence attached</p>
+      ) : (
+        <ul className="mt-2 space-y-2">
+          {attachments.map((attachment: CaseAttachment) => (
+            <li key={attachment.id} className="flex items-center justify-between rounded bg-gray-50 p-2 text-sm">
+              <div>
+                <p className="font-medium text-gray-900">{attachment.filename}</p>
+                <p className="text-xs text-gray-500">
+                  {formatSize(attachment.size_bytes)} · {getUsername(attachment.uploaded_by)} · {attachment.created_at.toLocaleString()}
+                </p>
+                <p className="font-mono text-xs text-gray-400" title={attachment.sha256}>
+                  SHA-256 {attachment.sha256.slice(0, 16)}…
+                </p>
+              </div>
+              <div className="flex gap-1">
+                <Button variant="ghost" size="sm" onClick={() => handleDownload(attachment)}>
+                  <Download className="h-4 w-4" />
+                </Button>
+                {can(permissions, 'attachment', 'update') && (
+                  <Button variant="ghost" size="sm" onClick={() => startReplace(attachment)} disabled={isUploading} title="Replace file">
+                    <RefreshCw className="h-4 w-4" />
+                  </Button>
+                )}
+                {can(permissions, 'attachment', 'delete') && (
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(attachment)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,318 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
+import { trpc } from '@/utils/trpc';
+import { can } from '@/utils/permissions';
+import { DISPOSITION_LABELS } from '@/utils/disposition';
+import type {
+  BulkCaseActionResult,
+  CaseDisposition,
+  CasePriority,
+  CaseStatus,
+  FraudCase,
+  RolePermissions,
+  User
+} from '../../../server/src/schema';
+
+interface CaseBulkActionsProps {
+  selectedCases: FraudCase[];
+  users: User[];
+  permissions: RolePermissions | null;
+  onSelectionChange: (caseIds: number[]) => void;
+  onCaseUpdate: () => void;
+}
+
+const STATUS_LABELS: Record<CaseStatus, string> = {
+  open: 'Open',
+  in_progress: 'In Progress',
+  escalated: 'Escalated',
+  resolved: 'Resolved',
+  closed: 'Closed'
+};
+
+const PRIORITY_LABELS: Record<CasePriority, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+  critical: 'Critical'
+};
+
+// Moving into these statuses records the case outcome
+const OUTCOME_STATUSES: CaseStatus[] = ['resolved', 'closed'];
+
+// Acts on every selected case at once. Each case succeeds or fails on its own; the ones that
+// failed stay selected with the reason shown, so they can be fixed up and tried again.
+export function CaseBulkActions({ selectedCases, users, permissions, onSelectionChange, onCaseUpdate }: CaseBulkActionsProps) {
+  const [pendingStatus, setPendingStatus] = useState<CaseStatus | null>(null);
+  const [statusNote, setStatusNote] = useState('');
+  const [disposition, setDisposition] = useState<CaseDisposition | null>(null);
+  const [recoveredAmount, setRecoveredAmount] = useState('');
+  const [showEscalateDialog, setShowEscalateDialog] = useState(false);
+  const [newPriority, setNewPriority] = useState<CasePriority>('high');
+  const [escalationReason, setEscalationReason] = useState('');
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [lastResult, setLastResult] = useState<BulkCaseActionResult | null>(null);
+  const [actionCount, setActionCount] = useState(0); // Remounts the action pickers so they show their placeholder again
+
+  const targets = selectedCases.map(fraudCase => ({ id: fraudCase.id, expected_version: fraudCase.version }));
+
+  const runAction = async (action: () => Promise<BulkCaseActionResult>) => {
+    setIsUpdating(true);
+    try {
+      const result = await action();
+      setLastResult(result);
+      onSelectionChange(result.results.filter(r => !r.success).map(r => r.case_id));
+      onCaseUpdate();
+      return true;
+    } catch (error) {
+      console.error('Bulk case action failed:', error);
+      return false;
+    } finally {
+      setIsUpdating(false);
+      setActionCount(count => count + 1);
+    }
+  };
+
+  const handleAssign = (assignedTo: number) =>
+    runAction(() => trpc.bulkAssign.mutate({ cases: targets, assigned_to: assignedTo }));
+
+  const resetStatusDialog = () => {
+    setPendingStatus(null);
+    setStatusNote('');
+    setDisposition(null);
+    setRecoveredAmount('');
+    setActionCount(count => count + 1);
+  };
+
+  const handleUpdateStatus = async () => {
+    if (!pendingStatus) return;
+    const done = await runAction(() => trpc.bulkUpdateStatus.mutate({
+      cases: targets,
+      status: pendingStatus,
+      status_note: statusNote.trim() || undefined,
+      disposition: disposition ?? undefined,
+      recovered_amount: recoveredAmount.trim() ? parseFloat(recoveredAmount) : undefined
+    }));
+    if (done) resetStatusDialog();
+  };
+
+  const handleEscalate = async () => {
+    const done = await runAction(() => trpc.bulkEscalate.mutate({
+      cases: targets,
+      new_priority: newPriority,
+      reason: escalationReason
+    }));
+    if (done) {
+      setShowEscalateDialog(false);
+      setEscalationReason('');
+    }
+  };
+
+  const isOutcomeStatus = pendingStatus !== null && OUTCOME_STATUSES.includes(pendingStatus);
+  const noteLength = statusNote.trim().length;
+  const amountIsValid = recoveredAmount.trim() === '' || parseFloat(recoveredAmount) >= 0;
+  // Whether a note is required depends on each case's transition, which the server checks case by case
+  const canConfirmStatus = (noteLength === 0 || noteLength >= 10) && amountIsValid;
+
+  const failures = lastResult?.results.filter(r => !r.success) ?? [];
+
+  if (selectedCases.length === 0 && !lastResult) {
+    return null;
+  }
+
+  return (
+    <Card className="border-blue-200 bg-blue-50">
+      <CardContent className="pt-6 space-y-3">
+        {selectedCases.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-medium text-gray-700 mr-2">
+              {selectedCases.length} case{selectedCases.length === 1 ? '' : 's'} selected
+            </span>
+            {can(permissions, 'case', 'assign') && (
+              <Select key={`assign-${actionCount}`} onValueChange={(value) => handleAssign(parseInt(value))} disabled={isUpdating}>
+                <SelectTrigger className="w-40 bg-white">
+                  <SelectValue placeholder="Assign to..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {users
+                    .filter(user => user.role === 'investigator' || user.role === 'analyst')
+                    .map(user => (
+                      <SelectItem key={user.id} value={user.id.toString()}>
+                        {user.username}
+                      </SelectItem>
+                    ))
+                  }
+                </SelectContent>
+              </Select>
+            )}
+            {can(permissions, 'case', 'update') && (
+              <Select key={`status-${actionCount}`} onValueChange={(value: CaseStatus) => setPendingStatus(value)} disabled={isUpdating}>
+                <SelectTrigger className="w-40 bg-white">
+                  <SelectValue placeholder="Move to..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {can(permissions, 'case', 'escalate') && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowEscalateDialog(true)}
+                disabled={isUpdating}
+                className="text-red-600 border-red-200 hover:bg-red-50"
+              >
+                Escalate
+              </Button>
+            )}
+            <Button variant="ghost" size="sm" onClick={() => onSelectionChange([])} disabled={isUpdating}>
+              Clear selection
+            </Button>
+          </div>
+        )}
+
+        {lastResult && (
+          <div className="text-sm">
+            <div className="flex items-center justify-between">
+              <p className={lastResult.failed > 0 ? 'text-orange-700' : 'text-green-700'}>
+                Updated {lastResult.succeeded} of {lastResult.results.length} cases
+                {lastResult.failed > 0 && '; the cases that failed are still selected'}
+              </p>
+              <Button variant="ghost" size="sm" onClick={() => setLastResult(null)}>
+                Dismiss
+              </Button>
+            </div>
+            {failures.length > 0 && (
+              <ul className="mt-1 space-y-1 text-gray-700">
+                {failures.map(failure => (
+                  <li key={failure.case_id}>
+                    Case #{failure.case_id}: {failure.conflict
+                      ? 'changed by someone else in the meantime, review it and try again'
+                      : failure.error}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={pendingStatus !== null} onOpenChange={(open) => !open && resetStatusDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              Move {selectedCases.length} cases to {pendingStatus ? STATUS_LABELS[pendingStatus].toLowerCase() : ''}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            {isOutcomeStatus && (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="text-sm font-medium text-gray-700">Disposition</label>
+                  <Select value={disposition ?? undefined} onValueChange={(value: CaseDisposition) => setDisposition(value)}>
+                    <SelectTrigger className="mt-1">
+                      <SelectValue placeholder={pendingStatus === 'closed' ? 'Keep recorded outcome' : 'Select outcome'} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(DISPOSITION_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <label className="text-sm font-medium text-gray-700">Recovered Amount</label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={recoveredAmount}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setRecoveredAmount(e.target.value)}
+                    placeholder="0.00"
+                    className="mt-1"
+                  />
+                </div>
+              </div>
+            )}
+            <div>
+              <label className="text-sm font-medium text-gray-700">
+                {isOutcomeStatus ? 'Resolution' : 'Reason'}
+              </label>
+              <Textarea
+                value={statusNote}
+                onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setStatusNote(e.target.value)}
+                placeholder="Applied to every selected case..."
+                className="mt-1"
+                rows={4}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                At least 10 characters. Cases whose transition needs a note fail without one.
+              </p>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={resetStatusDialog}>
+                Cancel
+              </Button>
+              <Button onClick={handleUpdateStatus} disabled={!canConfirmStatus || isUpdating}>
+                {isUpdating ? 'Saving...' : 'Confirm'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showEscalateDialog} onOpenChange={setShowEscalateDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>🚨 Escalate {selectedCases.length} cases</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <label className="text-sm font-medium text-gray-700">New Priority</label>
+              <Select value={newPriority} onValueChange={(value: CasePriority) => setNewPriority(value)}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PRIORITY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700">Escalation Reason</label>
+              <Textarea
+                value={escalationReason}
+                onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setEscalationReason(e.target.value)}
+                placeholder="Explain why these cases need escalation..."
+                className="mt-1"
+                rows={4}
+              />
+              <p className="text-xs text-gray-500 mt-1">At least 10 characters</p>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setShowEscalateDialog(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleEscalate}
+                disabled={escalationReason.trim().length < 10 || isUpdating}
+                className="bg-red-600 hover:bg-red-700"
+              >
+                {isUpdating ? 'Escalating...' : 'Escalate Cases'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { DISPOSITION_LABELS, formatAmount } from '@/utils/disposition';
+import type { CaseConflict } from '@/utils/caseConflict';
+import type { FraudCase, User } from '../../../server/src/schema';
+
+interface CaseConflictDialogProps {
+  conflict: CaseConflict | null;
+  users: User[];
+  onDiscard: () => void; // Drops the user's change and reloads the case
+}
+
+type ComparedField = 'status' | 'priority' | 'assigned_to' | 'description' | 'txid' | 'disposition' | 'resolution_note' | 'recovered_amount';
+
+const FIELD_LABELS: Record<ComparedField, string> = {
+  status: 'Status',
+  priority: 'Priority',
+  assigned_to: 'Assigned To',
+  description: 'Description',
+  txid: 'Transaction ID',
+  disposition: 'Disposition',
+  resolution_note: 'Resolution',
+  recovered_amount: 'Recovered Amount'
+};
+
+export function CaseConflictDialog({ conflict, users, onDiscard }: CaseConflictDialogProps) {
+  const [isRetrying, setIsRetrying] = useState(false);
+
+  const formatValue = (field: ComparedField, fraudCase: FraudCase): string => {
+    switch (field) {
+      case 'assigned_to':
+        return fraudCase.assigned_to === null
+          ? 'Unassigned'
+          : users.find(user => user.id === fraudCase.assigned_to)?.username ?? `User #${fraudCase.assigned_to}`;
+      case 'disposition':
+        return fraudCase.disposition ? DISPOSITION_LABELS[fraudCase.disposition] : '—';
+      case 'recovered_amount':
+        return fraudCase.recovered_amount !== null ? formatAmount(fraudCase.recovered_amount) : '—';
+      case 'status':
+        return fraudCase.status.replace('_', ' ');
+      default:
+        return fraudCase[field] ?? '—';
+    }
+  };
+
+  const changedFields = conflict
+    ? (Object.keys(FIELD_LABELS) as ComparedField[]).filter(field => formatValue(field, conflict.base) !== formatValue(field, conflict.current))
+    : [];
+
+  const handleRetry = async () => {
+    if (!conflict) return;
+    setIsRetrying(true);
+    try {
+      await conflict.retry();
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  return (
+    <Dialog open={conflict !== null} onOpenChange={(open) => !open && onDiscard()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Case #{conflict?.current.id} was changed in the meantime</DialogTitle>
+        </DialogHeader>
+        {conflict && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-700">
+              Someone else changed this case after you opened it, so your change was not saved:{' '}
+              <span className="font-medium">{conflict.action}</span>.
+            </p>
+            {changedFields.length === 0 ? (
+              <p className="text-sm text-gray-500">Only details not shown here changed, such as notes on the timeline.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Field</TableHead>
+                    <TableHead>When you opened it</TableHead>
+                    <TableHead>Now</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {changedFields.map(field => (
+                    <TableRow key={field}>
+                      <TableCell className="font-medium">{FIELD_LABELS[field]}</TableCell>
+                      <TableCell className="text-gray-500 line-through break-words">{formatValue(field, conflict.base)}</TableCell>
+                      <TableCell className="break-words">{formatValue(field, conflict.current)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={onDiscard} disabled={isRetrying}>
+                Discard my change
+              </Button>
+              <Button onClick={handleRetry} disabled={isRetrying}>
+                {isRetrying ? 'Applying...' : 'Apply my change on top'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ShieldCheck, FileDown } from 'lucide-react';
+import { trpc } from '@/utils/trpc';
+import type { CustodyVerification } from '../../../server/src/schema';
+
+interface CaseCustodyProps {
+  caseId: number;
+}
+
+export function CaseCustody({ caseId }: CaseCustodyProps) {
+  const [verification, setVerification] = useState<CustodyVerification | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleVerify = async () => {
+    setIsVerifying(true);
+    setError(null);
+    try {
+      const result = await trpc.verifyCustodyChain.query({ caseId });
+      setVerification(result);
+    } catch (error) {
+      console.error('Failed to verify custody chain:', error);
+      setError('Verification failed');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleExport = async () => {
+    setError(null);
+    try {
+      const report = await trpc.exportCustodyReport.query({ caseId });
+      const url = URL.createObjectURL(new Blob([report.content], { type: report.mime_type }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = report.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export custody report:', error);
+      setError('Export failed');
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-gray-600 flex items-center gap-1">
+          <ShieldCheck className="h-4 w-4" />
+          Chain of Custody
+        </label>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={handleVerify} disabled={isVerifying}>
+            {isVerifying ? 'Verifying...' : 'Verify'}
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleExport}>
+            <FileDown className="h-4 w-4 mr-1" />
+            Export
+          </Button>
+        </div>
+      </div>
+      {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+      {verification && (
+        <div className="mt-2 text-sm">
+          <div className="flex items-center gap-2">
+            <Badge className={verification.valid ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}>
+              {verification.valid ? 'Intact' : 'Tampering detected'}
+            </Badge>
+            <span className="text-xs text-gray-500">
+              {verification.entry_count} entries · checked {verification.verified_at.toLocaleString()}
+            </span>
+          </div>
+          {verification.issues.length > 0 && (
+            <ul className="mt-1 list-disc pl-5 text-red-700">
+              {verification.issues.map((issue, index) => (
+                <li key={index}>{issue}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
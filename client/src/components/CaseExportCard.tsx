@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Download } from 'lucide-react';
+import { getAuthToken } from '@/utils/auth';
+import type { CaseFilters, CaseExportFormat } from '../../../server/src/schema';
+
+interface CaseExportCardProps {
+  filters: CaseFilters;
+}
+
+const FORMAT_LABELS: Record<CaseExportFormat, string> = {
+  csv: 'CSV',
+  excel_csv: 'Excel CSV'
+};
+
+const describeFilterValue = (value: unknown): string => {
+  if (value === null) return 'none';
+  if (value instanceof Date) return value.toLocaleDateString();
+  if (Array.isArray(value)) return value.map(describeFilterValue).join(' or ');
+  return String(value).replace(/_/g, ' ');
+};
+
+export function CaseExportCard({ filters }: CaseExportCardProps) {
+  const [exporting, setExporting] = useState<CaseExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const activeFilters = Object.entries(filters).filter(([, value]) => value !== undefined);
+
+  // The export is streamed by a plain HTTP route rather than tRPC, so the token is sent by hand
+  const handleExport = async (format: CaseExportFormat) => {
+    setError(null);
+    setExporting(format);
+    try {
+      const params = new URLSearchParams({ format, filters: JSON.stringify(filters) });
+      const token = getAuthToken();
+      const response = await fetch(`/api/exports/cases.csv?${params}`, {
+        headers: token ? { Authorization: `Bearer ${token}` } : {}
+      });
+      if (!response.ok) {
+        throw new Error(`Export failed with status ${response.status}`);
+      }
+
+      const disposition = response.headers.get('Content-Disposition') ?? '';
+      const filename = disposition.match(/filename="([^"]+)"/)?.[1] ?? 'fraud-cases.csv';
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export cases:', error);
+      setError('Export failed');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Export Cases</CardTitle>
+        <CardDescription>
+          Download the cases you can see, using the filters from the Cases tab
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">
+          {activeFilters.length > 0
+            ? `Filtered by ${activeFilters.map(([key, value]) => `${key.replace(/_/g, ' ')}: ${describeFilterValue(value)}`).join(', ')}`
+            : 'No filters applied - all visible cases will be exported.'}
+        </p>
+        <div className="flex gap-2">
+          {(Object.keys(FORMAT_LABELS) as CaseExportFormat[]).map(format => (
+            <Button
+              key={format}
+              variant="outline"
+              onClick={() => handleExport(format)}
+              disabled={exporting !== null}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              {exporting === format ? 'Exporting...' : FORMAT_LABELS[format]}
+            </Button>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500">
+          Both formats neutralise cell values that spreadsheets would run as formulas; Excel CSV also adds a byte order mark.
+        </p>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,198 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { DISPOSITION_LABELS } from '@/utils/disposition';
+import type { CaseFilters, CaseStatus, CasePriority, CaseDisposition, User } from '../../../server/src/schema';
+
+interface CaseFilterPanelProps {
+  filters: CaseFilters;
+  users: User[];
+  onFiltersChange: (update: (prev: CaseFilters) => CaseFilters) => void;
+}
+
+const STATUS_LABELS: Record<CaseStatus, string> = {
+  open: 'Open',
+  in_progress: 'In Progress',
+  escalated: 'Escalated',
+  resolved: 'Resolved',
+  closed: 'Closed'
+};
+
+const PRIORITY_LABELS: Record<CasePriority, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+  critical: 'Critical'
+};
+
+type DateFilter = 'created_from' | 'created_to' | 'updated_from' | 'updated_to';
+
+// Date inputs work in local days; ranges run from the start of the first day to the end of the last
+const toDateInput = (date: Date | undefined) => {
+  if (!date) return '';
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const fromDateInput = (value: string, endOfDay: boolean) => {
+  if (!value) return undefined;
+  return new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}`);
+};
+
+export function CaseFilterPanel({ filters, users, onFiltersChange }: CaseFilterPanelProps) {
+  const selectedStatuses = filters.status === undefined
+    ? []
+    : Array.isArray(filters.status) ? filters.status : [filters.status];
+
+  const assigneeValue = filters.assigned_to === null
+    ? 'unassigned'
+    : filters.assigned_to?.toString() ?? 'all';
+
+  const hasFilters = Object.values(filters).some(value => value !== undefined);
+
+  const setDate = (key: DateFilter, value: string) => {
+    onFiltersChange(prev => ({ ...prev, [key]: fromDateInput(value, key.endsWith('_to')) }));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col lg:flex-row lg:items-center gap-4">
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          value={selectedStatuses}
+          onValueChange={(values: string[]) =>
+            onFiltersChange(prev => ({ ...prev, status: values.length > 0 ? values as CaseStatus[] : undefined }))
+          }
+          aria-label="Filter by status"
+        >
+          {Object.entries(STATUS_LABELS).map(([value, label]) => (
+            <ToggleGroupItem key={value} value={value} className="px-3">
+              {label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        <Select value={filters.min_priority || 'all'} onValueChange={(value) =>
+          onFiltersChange(prev => ({ ...prev, min_priority: value === 'all' ? undefined : value as CasePriority }))
+        }>
+          <SelectTrigger className="w-full sm:w-48">
+            <SelectValue placeholder="Minimum priority" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Priorities</SelectItem>
+            {Object.entries(PRIORITY_LABELS).reverse().map(([value, label]) => (
+              <SelectItem key={value} value={value}>{value === 'critical' ? label : `${label} and above`}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={assigneeValue} onValueChange={(value) =>
+          onFiltersChange(prev => ({
+            ...prev,
+            assigned_to: value === 'all' ? undefined : value === 'unassigned' ? null : parseInt(value)
+          }))
+        }>
+          <SelectTrigger className="w-full sm:w-48">
+            <SelectValue placeholder="Filter by assignee" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any Assignee</SelectItem>
+            <SelectItem value="unassigned">Unassigned</SelectItem>
+            {users.map(user => (
+              <SelectItem key={user.id} value={user.id.toString()}>{user.username}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={filters.disposition || 'all'} onValueChange={(value) =>
+          onFiltersChange(prev => ({ ...prev, disposition: value === 'all' ? undefined : value as CaseDisposition }))
+        }>
+          <SelectTrigger className="w-full sm:w-48">
+            <SelectValue placeholder="Filter by outcome" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Outcomes</SelectItem>
+            {Object.entries(DISPOSITION_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={filters.sla_breached === undefined ? 'all' : filters.sla_breached ? 'breached' : 'on_track'}
+          onValueChange={(value) =>
+            onFiltersChange(prev => ({ ...prev, sla_breached: value === 'all' ? undefined : value === 'breached' }))
+          }
+        >
+          <SelectTrigger className="w-full sm:w-48">
+            <SelectValue placeholder="Filter by SLA" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any SLA Status</SelectItem>
+            <SelectItem value="breached">SLA Breached</SelectItem>
+            <SelectItem value="on_track">SLA On Track</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex flex-col lg:flex-row lg:items-end gap-4">
+        <div>
+          <label className="text-sm font-medium text-gray-600">Created</label>
+          <div className="flex items-center gap-2 mt-1">
+            <Input
+              type="date"
+              value={toDateInput(filters.created_from)}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDate('created_from', e.target.value)}
+              aria-label="Created from"
+            />
+            <span className="text-gray-500">to</span>
+            <Input
+              type="date"
+              value={toDateInput(filters.created_to)}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDate('created_to', e.target.value)}
+              aria-label="Created to"
+            />
+          </div>
+        </div>
+        <div>
+          <label className="text-sm font-medium text-gray-600">Updated</label>
+          <div className="flex items-center gap-2 mt-1">
+            <Input
+              type="date"
+              value={toDateInput(filters.updated_from)}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDate('updated_from', e.target.value)}
+              aria-label="Updated from"
+            />
+            <span className="text-gray-500">to</span>
+            <Input
+              type="date"
+              value={toDateInput(filters.updated_to)}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDate('updated_to', e.target.value)}
+              aria-label="Updated to"
+            />
+          </div>
+        </div>
+        <div>
+          <label className="text-sm font-medium text-gray-600">Escalated at least</label>
+          <Input
+            type="number"
+            min="1"
+            step="1"
+            value={filters.min_escalations ?? ''}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+              const times = parseInt(e.target.value);
+              onFiltersChange(prev => ({ ...prev, min_escalations: times >= 1 ? times : undefined }));
+            }}
+            placeholder="Times"
+            className="mt-1 w-32"
+          />
+        </div>
+        <Button
+          variant="ghost"
+          onClick={() => onFiltersChange(() => ({}))}
+          disabled={!hasFilters}
+        >
+          Clear filters
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,27 +1,114 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Textarea } from '@/components/ui/textarea';
-import { AlertTriangle, Clock, User as UserIcon, ArrowUp, Eye, Edit, UserPlus } from 'lucide-react';
+import { Pagination, PaginationContent, PaginationItem, PaginationNext, PaginationPrevious } from '@/components/ui/pagination';
+import { AlertTriangle, Clock, User as UserIcon, ArrowUp, Eye, UserPlus, FileDown, Sparkles } from 'lucide-react';
 import { trpc } from '@/utils/trpc';
-import type { FraudCase, User, CaseStatus, CasePriority } from '../../../server/src/schema';
+import { can } from '@/utils/permissions';
+import { DISPOSITION_LABELS, getDispositionColor, formatAmount } from '@/utils/disposition';
+import { CaseStatusSelect } from '@/components/CaseStatusSelect';
+import { CaseConflictDialog } from '@/components/CaseConflictDialog';
+import { CaseBulkActions } from '@/components/CaseBulkActions';
+import { getCaseConflict, type CaseConflict } from '@/utils/caseConflict';
+import { CaseTimeline } from '@/components/CaseTimeline';
+import { CaseNotes } from '@/components/CaseNotes';
+import { CaseAttachments } from '@/components/CaseAttachments';
+import { CaseTransactions } from '@/components/CaseTransactions';
+import { CaseCustody } from '@/components/CaseCustody';
+import { HighlightedText } from '@/components/HighlightedText';
+import { SlaBadge } from '@/components/SlaBadge';
+import { SLA_TARGET_LABELS, formatDuration, getSlaTargets } from '@/utils/sla';
+import type { FraudCase, User, CaseStatus, CasePriority, RolePermissions, CaseSearchResult, SearchMatchField, CaseListColumn } from '../../../server/src/schema';
+
+// Cursor pages can only be walked one step at a time, so there are no numbered page links
+export interface CaseListPagination {
+  page: number;
+  pageCount: number | null;
+  hasPrevious: boolean;
+  hasNext: boolean;
+  onPrevious: () => void;
+  onNext: () => void;
+}
 
 interface CaseListProps {
   cases: FraudCase[];
   users: User[];
   currentUser: User | null;
+  permissions: RolePermissions | null;
   onCaseUpdate: () => void;
+  pagination?: CaseListPagination;
+  searchMatches?: Map<number, CaseSearchResult>; // Set when the list shows search results
+  columns?: CaseListColumn[]; // Parts of each card to show, all of them by default
+}
+
+const MATCH_LABELS: Record<SearchMatchField, string> = {
+  description: 'description',
+  txid: 'transaction ID',
+  note: 'notes',
+  assignee: 'assignee',
+  creator: 'creator'
+};
+
+function CaseListPager({ page, pageCount, hasPrevious, hasNext, onPrevious, onNext }: CaseListPagination) {
+  if (!hasPrevious && !hasNext) return null;
+
+  const disabledClass = 'pointer-events-none opacity-50';
+
+  return (
+    <Pagination>
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            href="#"
+            aria-disabled={!hasPrevious}
+            className={hasPrevious ? undefined : disabledClass}
+            onClick={(e: React.MouseEvent) => {
+              e.preventDefault();
+              onPrevious();
+            }}
+          />
+        </PaginationItem>
+        <PaginationItem className="px-3 text-sm text-gray-600">
+          Page {page}{pageCount !== null && ` of ${pageCount}`}
+        </PaginationItem>
+        <PaginationItem>
+          <PaginationNext
+            href="#"
+            aria-disabled={!hasNext}
+            className={hasNext ? undefined : disabledClass}
+            onClick={(e: React.MouseEvent) => {
+              e.preventDefault();
+              onNext();
+            }}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
 }
 
-export function CaseList({ cases, users, currentUser, onCaseUpdate }: CaseListProps) {
+export function CaseList({ cases, users, currentUser, permissions, onCaseUpdate, pagination, searchMatches, columns }: CaseListProps) {
+  const shows = (column: CaseListColumn) => !columns || columns.includes(column);
+
   const [selectedCase, setSelectedCase] = useState<FraudCase | null>(null);
   const [showEscalateDialog, setShowEscalateDialog] = useState(false);
   const [escalationReason, setEscalationReason] = useState('');
   const [newPriority, setNewPriority] = useState<CasePriority>('high');
   const [isUpdating, setIsUpdating] = useState(false);
+  const [conflict, setConflict] = useState<CaseConflict | null>(null);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+
+  // Keeps SLA countdowns current
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60_000);
+    return () => clearInterval(timer);
+  }, []);
 
   const getPriorityColor = (priority: CasePriority) => {
     switch (priority) {
@@ -53,114 +140,182 @@ export function CaseList({ cases, users, currentUser, onCaseUpdate }: CaseListPr
     return users.find(user => user.id === userId);
   };
 
-  const handleAssignCase = async (caseId: number, assignedTo: number) => {
+  // A change that went through also settles any conflict it was retried from
+  const handleCaseChanged = () => {
+    setConflict(null);
+    onCaseUpdate();
+  };
+
+  // Changes are made against the version of the case shown; a retry after a conflict uses the current one
+  const handleAssignCase = async (fraudCase: FraudCase, assignedTo: number) => {
     if (!currentUser) return;
     
     setIsUpdating(true);
     try {
       await trpc.assignCase.mutate({
-        caseId,
+        caseId: fraudCase.id,
         assignedTo,
-        assignedBy: currentUser.id
+        expectedVersion: fraudCase.version
       });
-      onCaseUpdate();
+      handleCaseChanged();
     } catch (error) {
-      console.error('Failed to assign case:', error);
+      const current = getCaseConflict(error);
+      if (current) {
+        setConflict({
+          base: fraudCase,
+          current,
+          action: `assign to ${getAssignedUser(assignedTo)?.username ?? 'another user'}`,
+          retry: () => handleAssignCase(current, assignedTo)
+        });
+      } else {
+        console.error('Failed to assign case:', error);
+      }
     } finally {
       setIsUpdating(false);
     }
   };
 
-  const handleStatusChange = async (caseId: number, newStatus: CaseStatus) => {
-    if (!currentUser) return;
-    
+  // The server picks the assignee following the auto-assignment rule of the case priority
+  const handleAutoAssignCase = async (fraudCase: FraudCase) => {
     setIsUpdating(true);
     try {
-      await trpc.updateFraudCase.mutate({
-        case: { id: caseId, status: newStatus },
-        userId: currentUser.id
-      });
-      onCaseUpdate();
+      await trpc.autoAssignCase.mutate({ caseId: fraudCase.id, expectedVersion: fraudCase.version });
+      handleCaseChanged();
     } catch (error) {
-      console.error('Failed to update case status:', error);
+      const current = getCaseConflict(error);
+      if (current) {
+        setConflict({
+          base: fraudCase,
+          current,
+          action: 'auto-assign',
+          retry: () => handleAutoAssignCase(current)
+        });
+      } else {
+        console.error('Failed to auto-assign case:', error);
+      }
     } finally {
       setIsUpdating(false);
     }
   };
 
-  const handleEscalateCase = async () => {
-    if (!selectedCase || !currentUser) return;
+  const handleEscalateCase = async (fraudCase: FraudCase) => {
+    if (!currentUser) return;
     
     setIsUpdating(true);
     try {
       await trpc.escalateCase.mutate({
-        case_id: selectedCase.id,
-        escalated_by: currentUser.id,
+        case_id: fraudCase.id,
         new_priority: newPriority,
-        reason: escalationReason
+        reason: escalationReason,
+        expected_version: fraudCase.version
       });
       setShowEscalateDialog(false);
       setEscalationReason('');
       setSelectedCase(null);
-      onCaseUpdate();
+      handleCaseChanged();
     } catch (error) {
-      console.error('Failed to escalate case:', error);
+      const current = getCaseConflict(error);
+      if (current) {
+        setShowEscalateDialog(false);
+        setConflict({
+          base: fraudCase,
+          current,
+          action: `escalate to ${newPriority} priority`,
+          retry: () => handleEscalateCase(current)
+        });
+      } else {
+        console.error('Failed to escalate case:', error);
+      }
     } finally {
       setIsUpdating(false);
     }
   };
 
-  const handleCloseCase = async (caseId: number) => {
-    if (!currentUser) return;
-    
-    setIsUpdating(true);
+  const handleDiscardConflict = () => {
+    setConflict(null);
+    setEscalationReason('');
+    setSelectedCase(null);
+    onCaseUpdate();
+  };
+
+  const handleDownloadPacket = async (caseId: number) => {
     try {
-      await trpc.closeCase.mutate({
-        caseId,
-        userId: currentUser.id,
-        resolution: 'Case resolved successfully'
-      });
-      onCaseUpdate();
+      const packet = await trpc.exportCasePacket.query({ caseId });
+      const bytes = Uint8Array.from(atob(packet.content_base64), char => char.charCodeAt(0));
+      const url = URL.createObjectURL(new Blob([bytes], { type: packet.mime_type }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = packet.filename;
+      link.click();
+      URL.revokeObjectURL(url);
     } catch (error) {
-      console.error('Failed to close case:', error);
-    } finally {
-      setIsUpdating(false);
+      console.error('Failed to export case packet:', error);
     }
   };
 
+  // Same rule as the server: case/update permission, and non-admins only on their own cases
   const canEditCase = (fraudCase: FraudCase) => {
-    if (!currentUser) return false;
-    return currentUser.role === 'admin' || 
-           currentUser.role === 'investigator' || 
-           fraudCase.assigned_to === currentUser.id;
+    if (!currentUser || !can(permissions, 'case', 'update')) return false;
+    return currentUser.role === 'admin' || fraudCase.assigned_to === currentUser.id;
   };
 
-  const canAssignCase = () => {
-    if (!currentUser) return false;
-    return currentUser.role === 'admin' || currentUser.role === 'investigator';
+  const canEscalateCase = () => can(permissions, 'case', 'escalate');
+
+  const canAssignCase = () => can(permissions, 'case', 'assign');
+
+  // Selection only covers cases on the current page; cases that leave the list drop out of it
+  const canActInBulk = canAssignCase() || canEscalateCase() || can(permissions, 'case', 'update');
+  const selectedCases = cases.filter(fraudCase => selectedIds.includes(fraudCase.id));
+  const allSelected = cases.length > 0 && selectedCases.length === cases.length;
+
+  const toggleSelected = (caseId: number, checked: boolean) => {
+    setSelectedIds(prev => checked ? [...prev, caseId] : prev.filter(id => id !== caseId));
   };
 
   if (cases.length === 0) {
     return (
-      <Card>
-        <CardContent className="pt-6">
-          <div className="text-center py-12">
-            <AlertTriangle className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-            <h3 className="text-lg font-medium text-gray-900 mb-2">No Cases Found</h3>
-            <p className="text-gray-600 mb-4">
-              No fraud cases match your current filters. Try adjusting your search criteria.
-            </p>
-          </div>
-        </CardContent>
-      </Card>
+      <div className="space-y-4">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-center py-12">
+              <AlertTriangle className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No Cases Found</h3>
+              <p className="text-gray-600 mb-4">
+                No fraud cases match your current filters. Try adjusting your search criteria.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+        {pagination && <CaseListPager {...pagination} />}
+      </div>
     );
   }
 
   return (
     <div className="space-y-4">
+      {canActInBulk && (
+        <>
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <Checkbox
+              checked={allSelected}
+              onCheckedChange={(checked) => setSelectedIds(checked === true ? cases.map(c => c.id) : [])}
+            />
+            Select all on this page
+          </label>
+          <CaseBulkActions
+            selectedCases={selectedCases}
+            users={users}
+            permissions={permissions}
+            onSelectionChange={setSelectedIds}
+            onCaseUpdate={onCaseUpdate}
+          />
+        </>
+      )}
       {cases.map((fraudCase: FraudCase) => {
         const assignedUser = getAssignedUser(fraudCase.assigned_to);
         const creatorUser = getCreatorUser(fraudCase.created_by);
+        const match = searchMatches?.get(fraudCase.id);
+        const snippetFromNote = match?.snippet && !match.matched_fields.includes('description');
         
         return (
           <Card key={fraudCase.id} className="hover:shadow-md transition-shadow">
@@ -168,22 +323,41 @@ export function CaseList({ cases, users, currentUser, onCaseUpdate }: CaseListPr
               <div className="flex items-start justify-between">
                 <div className="space-y-2">
                   <div className="flex items-center gap-3">
+                    {canActInBulk && (
+                      <Checkbox
+                        checked={selectedIds.includes(fraudCase.id)}
+                        onCheckedChange={(checked) => toggleSelected(fraudCase.id, checked === true)}
+                        aria-label={`Select case #${fraudCase.id}`}
+                      />
+                    )}
                     <CardTitle className="text-lg">Case #{fraudCase.id}</CardTitle>
                     <Badge className={getStatusColor(fraudCase.status)}>
                       {fraudCase.status.replace('_', ' ')}
                     </Badge>
-                    <Badge className={getPriorityColor(fraudCase.priority)}>
-                      {fraudCase.priority}
-                    </Badge>
+                    {shows('priority') && (
+                      <Badge className={getPriorityColor(fraudCase.priority)}>
+                        {fraudCase.priority}
+                      </Badge>
+                    )}
+                    {shows('disposition') && fraudCase.disposition && (
+                      <Badge className={getDispositionColor(fraudCase.disposition)}>
+                        {DISPOSITION_LABELS[fraudCase.disposition]}
+                      </Badge>
+                    )}
+                    {shows('sla') && <SlaBadge fraudCase={fraudCase} now={now} />}
                   </div>
                   <CardDescription className="flex items-center gap-4">
-                    <span className="flex items-center gap-1">
-                      🔗 TXID: <strong>{fraudCase.txid}</strong>
-                    </span>
-                    <span className="flex items-center gap-1">
-                      <Clock className="h-4 w-4" />
-                      {fraudCase.created_at.toLocaleDateString()}
-                    </span>
+                    {shows('txid') && (
+                      <span className="flex items-center gap-1">
+                        🔗 TXID: <strong>{fraudCase.txid}</strong>
+                      </span>
+                    )}
+                    {shows('created_at') && (
+                      <span className="flex items-center gap-1">
+                        <Clock className="h-4 w-4" />
+                        {fraudCase.created_at.toLocaleDateString()}
+                      </span>
+                    )}
                   </CardDescription>
                 </div>
                 <div className="flex gap-2">
@@ -194,14 +368,20 @@ export function CaseList({ cases, users, currentUser, onCaseUpdate }: CaseListPr
                         View
                       </Button>
                     </DialogTrigger>
-                    <DialogContent className="max-w-2xl">
+                    <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
                       <DialogHeader>
-                        <DialogTitle>Case #{fraudCase.id} Details</DialogTitle>
+                        <div className="flex items-center justify-between pr-6">
+                          <DialogTitle>Case #{fraudCase.id} Details</DialogTitle>
+                          <Button variant="outline" size="sm" onClick={() => handleDownloadPacket(fraudCase.id)}>
+                            <FileDown className="h-4 w-4 mr-1" />
+                            Case Packet
+                          </Button>
+                        </div>
                       </DialogHeader>
                       <div className="space-y-4">
                         <div className="grid grid-cols-2 gap-4">
                           <div>
-                            <label className="text-sm font-medium text-gray-600">Transaction ID</label>
+                            <label className="text-sm font-medium text-gray-600">Primary Transaction ID</label>
                             <p className="font-mono text-sm bg-gray-100 p-2 rounded">{fraudCase.txid}</p>
                           </div>
                           <div>
@@ -239,11 +419,74 @@ export function CaseList({ cases, users, currentUser, onCaseUpdate }: CaseListPr
                             {fraudCase.description}
                           </p>
                         </div>
+                        {fraudCase.disposition && (
+                          <div className="grid grid-cols-2 gap-4">
+                            <div>
+                              <label className="text-sm font-medium text-gray-600">Disposition</label>
+                              <p>
+                                <Badge className={getDispositionColor(fraudCase.disposition)}>
+                                  {DISPOSITION_LABELS[fraudCase.disposition]}
+                                </Badge>
+                              </p>
+                            </div>
+                            <div>
+                              <label className="text-sm font-medium text-gray-600">Recovered Amount</label>
+                              <p>{fraudCase.recovered_amount !== null ? formatAmount(fraudCase.recovered_amount) : 'None'}</p>
+                            </div>
+                            {fraudCase.closed_at && (
+                              <>
+                                <div>
+                                  <label className="text-sm font-medium text-gray-600">Closed By</label>
+                                  <p>{fraudCase.closed_by ? getAssignedUser(fraudCase.closed_by)?.username || 'Unknown' : 'Unknown'}</p>
+                                </div>
+                                <div>
+                                  <label className="text-sm font-medium text-gray-600">Closed At</label>
+                                  <p>{fraudCase.closed_at.toLocaleString()}</p>
+                                </div>
+                              </>
+                            )}
+                          </div>
+                        )}
+                        {fraudCase.resolution_note && (
+                          <div>
+                            <label className="text-sm font-medium text-gray-600">Resolution</label>
+                            <p className="mt-1 text-sm text-gray-900 bg-green-50 p-3 rounded">
+                              {fraudCase.resolution_note}
+                            </p>
+                          </div>
+                        )}
+                        <div>
+                          <label className="text-sm font-medium text-gray-600">SLA</label>
+                          <div className="mt-1 grid grid-cols-3 gap-2 text-sm">
+                            {getSlaTargets(fraudCase, now).map(({ target, due, met, breached }) => (
+                              <div key={target} className={`p-2 rounded ${breached ? 'bg-red-50' : 'bg-gray-50'}`}>
+                                <p className="font-medium">{SLA_TARGET_LABELS[target]}</p>
+                                {due === null ? (
+                                  <p className="text-gray-500">No target</p>
+                                ) : (
+                                  <>
+                                    <p className="text-gray-600">Due {due.toLocaleString()}</p>
+                                    <p className={breached ? 'text-red-700' : met ? 'text-green-700' : 'text-gray-700'}>
+                                      {met
+                                        ? `${breached ? 'Met late' : 'Met'} ${met.toLocaleString()}`
+                                        : breached ? 'Overdue' : `${formatDuration(due.getTime() - now.getTime())} left`}
+                                    </p>
+                                  </>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                        <CaseTransactions caseId={fraudCase.id} />
+                        <CaseAttachments caseId={fraudCase.id} users={users} permissions={permissions} />
+                        {can(permissions, 'custody', 'read') && <CaseCustody caseId={fraudCase.id} />}
+                        <CaseNotes caseId={fraudCase.id} users={users} currentUser={currentUser} permissions={permissions} />
+                        <CaseTimeline caseId={fraudCase.id} users={users} />
                       </div>
                     </DialogContent>
                   </Dialog>
                   
-                  {canEditCase(fraudCase) && (
+                  {canEscalateCase() && (
                     <Button 
                       variant="outline" 
                       size="sm"
@@ -262,15 +505,31 @@ export function CaseList({ cases, users, currentUser, onCaseUpdate }: CaseListPr
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
-                <p className="text-gray-700">{fraudCase.description}</p>
+                {match?.snippet && !snippetFromNote ? (
+                  <p className="text-gray-700"><HighlightedText segments={match.snippet} /></p>
+                ) : shows('description') && (
+                  <p className="text-gray-700">{fraudCase.description}</p>
+                )}
+                {match && (
+                  <div className="text-sm text-gray-600 space-y-1">
+                    {snippetFromNote && match.snippet && (
+                      <p>📝 <HighlightedText segments={match.snippet} /></p>
+                    )}
+                    <p className="text-xs text-gray-500">
+                      Matched on {match.matched_fields.map(field => MATCH_LABELS[field]).join(', ')}
+                    </p>
+                  </div>
+                )}
                 
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-4 text-sm text-gray-600">
-                    <span className="flex items-center gap-1">
-                      <UserIcon className="h-4 w-4" />
-                      Created by: {creatorUser?.username || 'Unknown'}
-                    </span>
-                    {assignedUser && (
+                    {shows('created_by') && (
+                      <span className="flex items-center gap-1">
+                        <UserIcon className="h-4 w-4" />
+                        Created by: {creatorUser?.username || 'Unknown'}
+                      </span>
+                    )}
+                    {shows('assigned_to') && assignedUser && (
                       <span className="flex items-center gap-1">
                         <UserPlus className="h-4 w-4" />
                         Assigned to: {assignedUser.username}
@@ -280,7 +539,7 @@ export function CaseList({ cases, users, currentUser, onCaseUpdate }: CaseListPr
                   
                   <div className="flex items-center gap-2">
                     {canAssignCase() && !fraudCase.assigned_to && (
-                      <Select onValueChange={(value) => handleAssignCase(fraudCase.id, parseInt(value))}>
+                      <Select onValueChange={(value) => handleAssignCase(fraudCase, parseInt(value))}>
                         <SelectTrigger className="w-40">
                           <SelectValue placeholder="Assign to..." />
                         </SelectTrigger>
@@ -296,33 +555,22 @@ export function CaseList({ cases, users, currentUser, onCaseUpdate }: CaseListPr
                         </SelectContent>
                       </Select>
                     )}
-                    
-                    {canEditCase(fraudCase) && fraudCase.status !== 'closed' && (
-                      <Select 
-                        value={fraudCase.status} 
-                        onValueChange={(value: CaseStatus) => handleStatusChange(fraudCase.id, value)}
-                      >
-                        <SelectTrigger className="w-40">
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="open">Open</SelectItem>
-                          <SelectItem value="in_progress">In Progress</SelectItem>
-                          <SelectItem value="resolved">Resolved</SelectItem>
-                          <SelectItem value="closed">Close</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    )}
-                    
-                    {canEditCase(fraudCase) && fraudCase.status === 'resolved' && (
-                      <Button 
-                        size="sm" 
-                        onClick={() => handleCloseCase(fraudCase.id)}
+                    {canAssignCase() && !fraudCase.assigned_to && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleAutoAssignCase(fraudCase)}
                         disabled={isUpdating}
+                        title="Pick the assignee by the auto-assignment rule of the case priority"
                       >
-                        Close Case
+                        <Sparkles className="h-4 w-4 mr-1" />
+                        Auto-assign
                       </Button>
                     )}
+                    
+                    {canEditCase(fraudCase) && (
+                      <CaseStatusSelect fraudCase={fraudCase} onCaseUpdate={handleCaseChanged} onConflict={setConflict} />
+                    )}
                   </div>
                 </div>
               </div>
@@ -330,6 +578,8 @@ export function CaseList({ cases, users, currentUser, onCaseUpdate }: CaseListPr
           </Card>
         );
       })}
+
+      {pagination && <CaseListPager {...pagination} />}
       
       {/* Escalation Dialog */}
       <Dialog open={showEscalateDialog} onOpenChange={setShowEscalateDialog}>
@@ -367,7 +617,7 @@ export function CaseList({ cases, users, currentUser, onCaseUpdate }: CaseListPr
                 Cancel
               </Button>
               <Button 
-                onClick={handleEscalateCase}
+                onClick={() => selectedCase && handleEscalateCase(selectedCase)}
                 disabled={!escalationReason.trim() || isUpdating}
                 className="bg-red-600 hover:bg-red-700"
               >
@@ -377,6 +627,8 @@ export function CaseList({ cases, users, currentUser, onCaseUpdate }: CaseListPr
           </div>
         </DialogContent>
       </Dialog>
+
+      <CaseConflictDialog conflict={conflict} users={users} onDiscard={handleDiscardConflict} />
     </div>
   );
 }
\ No newline at end of file
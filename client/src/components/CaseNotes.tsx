@@ -0,0 +1,226 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { MessageSquare, Reply, Pencil, Trash2 } from 'lucide-react';
+import { trpc } from '@/utils/trpc';
+import { can } from '@/utils/permissions';
+import type { CaseNote, NoteVisibility, User, RolePermissions } from '../../../server/src/schema';
+
+interface CaseNotesProps {
+  caseId: number;
+  users: User[];
+  currentUser: User | null;
+  permissions: RolePermissions | null;
+}
+
+interface NoteComposerProps {
+  initialBody?: string;
+  initialVisibility?: NoteVisibility;
+  submitLabel: string;
+  onSubmit: (body: string, visibility: NoteVisibility) => Promise<void>;
+  onCancel?: () => void;
+}
+
+function NoteComposer({ initialBody = '', initialVisibility = 'internal', submitLabel, onSubmit, onCancel }: NoteComposerProps) {
+  const [body, setBody] = useState(initialBody);
+  const [visibility, setVisibility] = useState<NoteVisibility>(initialVisibility);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      await onSubmit(body.trim(), visibility);
+      setBody('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        value={body}
+        onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setBody(e.target.value)}
+        placeholder="Add a note... use @username to mention a colleague"
+        rows={3}
+      />
+      <div className="flex items-center justify-end gap-2">
+        <Select value={visibility} onValueChange={(value: NoteVisibility) => setVisibility(value)}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="internal">Internal</SelectItem>
+            <SelectItem value="shareable">Shareable</SelectItem>
+          </SelectContent>
+        </Select>
+        {onCancel && (
+          <Button variant="outline" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button size="sm" onClick={handleSubmit} disabled={!body.trim() || isSubmitting}>
+          {isSubmitting ? 'Saving...' : submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function CaseNotes({ caseId, users, currentUser, permissions }: CaseNotesProps) {
+  const [notes, setNotes] = useState<CaseNote[]>([]);
+  const [replyingTo, setReplyingTo] = useState<number | null>(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
+
+  const loadNotes = useCallback(async () => {
+    try {
+      const result = await trpc.getCaseNotes.query({ caseId });
+      setNotes(result);
+    } catch (error) {
+      console.error('Failed to load case notes:', error);
+      setNotes([]);
+    }
+  }, [caseId]);
+
+  useEffect(() => {
+    loadNotes();
+  }, [loadNotes]);
+
+  const getUsername = (userId: number) =>
+    users.find(user => user.id === userId)?.username || `User #${userId}`;
+
+  const handleCreate = async (body: string, visibility: NoteVisibility, parentId?: number) => {
+    try {
+      await trpc.createCaseNote.mutate({ case_id: caseId, parent_id: parentId, body, visibility });
+      setReplyingTo(null);
+      await loadNotes();
+    } catch (error) {
+      console.error('Failed to add note:', error);
+    }
+  };
+
+  const handleUpdate = async (id: number, body: string, visibility: NoteVisibility) => {
+    try {
+      await trpc.updateCaseNote.mutate({ id, body, visibility });
+      setEditingId(null);
+      await loadNotes();
+    } catch (error) {
+      console.error('Failed to update note:', error);
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    try {
+      await trpc.deleteCaseNote.mutate({ noteId: id });
+      await loadNotes();
+    } catch (error) {
+      console.error('Failed to delete note:', error);
+    }
+  };
+
+  // Same rules as the server: only authors edit, authors and admins delete
+  const canEditNote = (note: CaseNote) =>
+    can(permissions, 'note', 'update') && note.author_id === currentUser?.id;
+
+  const canDeleteNote = (note: CaseNote) =>
+    can(permissions, 'note', 'delete') && (currentUser?.role === 'admin' || note.author_id === currentUser?.id);
+
+  const canAddNote = can(permissions, 'note', 'create');
+
+  // Highlight @mentions that resolved to a user
+  const renderBody = (note: CaseNote) => {
+    const mentioned = new Set(note.mentions.map(getUsername));
+    return note.body.split(/(@[\w.-]+)/g).map((part, index) => {
+      const username = part.startsWith('@') ? part.slice(1).replace(/[.-]+$/, '') : null;
+      return username && mentioned.has(username)
+        ? <span key={index} className="font-medium text-blue-700">{part}</span>
+        : <span key={index}>{part}</span>;
+    });
+  };
+
+  const renderNote = (note: CaseNote) => (
+    <div className="rounded bg-gray-50 p-3 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <span className="font-medium text-gray-900">{getUsername(note.author_id)}</span>
+          <span className="text-xs text-gray-500">
+            {note.created_at.toLocaleString()}
+            {note.updated_at.getTime() !== note.created_at.getTime() && ' (edited)'}
+          </span>
+          {note.visibility === 'shareable' && (
+            <Badge className="bg-blue-100 text-blue-800 border-blue-200">Shareable</Badge>
+          )}
+        </div>
+        <div className="flex gap-1">
+          {canAddNote && note.parent_id === null && (
+            <Button variant="ghost" size="sm" onClick={() => setReplyingTo(note.id)}>
+              <Reply className="h-3 w-3" />
+            </Button>
+          )}
+          {canEditNote(note) && (
+            <Button variant="ghost" size="sm" onClick={() => setEditingId(note.id)}>
+              <Pencil className="h-3 w-3" />
+            </Button>
+          )}
+          {canDeleteNote(note) && (
+            <Button variant="ghost" size="sm" onClick={() => handleDelete(note.id)}>
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+      </div>
+      {editingId === note.id ? (
+        <div className="mt-2">
+          <NoteComposer
+            initialBody={note.body}
+            initialVisibility={note.visibility}
+            submitLabel="Save"
+            onSubmit={(body, visibility) => handleUpdate(note.id, body, visibility)}
+            onCancel={() => setEditingId(null)}
+          />
+        </div>
+      ) : (
+        <p className="mt-1 whitespace-pre-wrap text-gray-900">{renderBody(note)}</p>
+      )}
+    </div>
+  );
+
+  const threads = notes.filter(note => note.parent_id === null);
+
+  return (
+    <div>
+      <label className="text-sm font-medium text-gray-600 flex items-center gap-1">
+        <MessageSquare className="h-4 w-4" />
+        Notes
+      </label>
+      <div className="mt-2 space-y-3 max-h-80 overflow-y-auto">
+        {threads.length === 0 && <p className="text-sm text-gray-500">No notes yet</p>}
+        {threads.map(thread => (
+          <div key={thread.id} className="space-y-2">
+            {renderNote(thread)}
+            <div className="ml-6 space-y-2 border-l border-gray-200 pl-3">
+              {notes.filter(note => note.parent_id === thread.id).map(reply => (
+                <div key={reply.id}>{renderNote(reply)}</div>
+              ))}
+              {replyingTo === thread.id && (
+                <NoteComposer
+                  submitLabel="Reply"
+                  initialVisibility={thread.visibility}
+                  onSubmit={(body, visibility) => handleCreate(body, visibility, thread.id)}
+                  onCancel={() => setReplyingTo(null)}
+                />
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+      {canAddNote && (
+        <div className="mt-3">
+          <NoteComposer submitLabel="Add Note" onSubmit={(body, visibility) => handleCreate(body, visibility)} />
+        </div>
+      )}
+    </div>
+  );
+}
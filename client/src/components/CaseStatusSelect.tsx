@@ -0,0 +1,218 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
+import { trpc } from '@/utils/trpc';
+import { DISPOSITION_LABELS } from '@/utils/disposition';
+import { getCaseConflict, type CaseConflict } from '@/utils/caseConflict';
+import type { FraudCase, CaseStatus, CaseDisposition, AllowedTransition } from '../../../server/src/schema';
+
+interface CaseStatusSelectProps {
+  fraudCase: FraudCase;
+  onCaseUpdate: () => void;
+  onConflict: (conflict: CaseConflict) => void; // Someone else changed the case first
+}
+
+const STATUS_LABELS: Record<CaseStatus, string> = {
+  open: 'Open',
+  in_progress: 'In Progress',
+  escalated: 'Escalated',
+  resolved: 'Resolved',
+  closed: 'Close'
+};
+
+// Moving into these statuses records the case outcome
+const OUTCOME_STATUSES: CaseStatus[] = ['resolved', 'closed'];
+
+export function CaseStatusSelect({ fraudCase, onCaseUpdate, onConflict }: CaseStatusSelectProps) {
+  const [transitions, setTransitions] = useState<AllowedTransition[]>([]);
+  const [pendingStatus, setPendingStatus] = useState<CaseStatus | null>(null);
+  const [statusNote, setStatusNote] = useState('');
+  const [disposition, setDisposition] = useState<CaseDisposition | null>(null);
+  const [recoveredAmount, setRecoveredAmount] = useState('');
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  const loadTransitions = useCallback(async () => {
+    try {
+      const result = await trpc.getAllowedTransitions.query({ caseId: fraudCase.id });
+      setTransitions(result);
+    } catch (error) {
+      console.error('Failed to load allowed transitions:', error);
+      setTransitions([]);
+    }
+  }, [fraudCase.id]);
+
+  // Reload whenever the case moves to another status
+  useEffect(() => {
+    loadTransitions();
+  }, [loadTransitions, fraudCase.status]);
+
+  // Always set: every case has a status, so the select never renders without a value
+  const currentStatus: CaseStatus = fraudCase.status;
+  const isOutcomeStatus = pendingStatus !== null && OUTCOME_STATUSES.includes(pendingStatus);
+
+  const resetDialog = () => {
+    setPendingStatus(null);
+    setStatusNote('');
+    setDisposition(null);
+    setRecoveredAmount('');
+  };
+
+  // A retry after a conflict sends the same change against the current version of the case
+  const applyStatus = async (status: CaseStatus, base: FraudCase = fraudCase) => {
+    const note = statusNote.trim() || undefined;
+    const amount = recoveredAmount.trim() ? parseFloat(recoveredAmount) : null;
+    const expectedVersion = base.version;
+
+    setIsUpdating(true);
+    try {
+      if (status === 'closed') {
+        await trpc.closeCase.mutate({
+          caseId: base.id,
+          disposition: disposition ?? undefined,
+          resolution_note: note,
+          recovered_amount: amount,
+          expectedVersion
+        });
+      } else if (status === 'resolved') {
+        await trpc.updateFraudCase.mutate({
+          case: { id: base.id, status, status_note: note, disposition: disposition ?? undefined, recovered_amount: amount, expected_version: expectedVersion }
+        });
+      } else {
+        await trpc.updateFraudCase.mutate({
+          case: { id: base.id, status, status_note: note, expected_version: expectedVersion }
+        });
+      }
+      resetDialog();
+      onCaseUpdate();
+    } catch (error) {
+      const current = getCaseConflict(error);
+      if (current) {
+        resetDialog();
+        onConflict({
+          base,
+          current,
+          action: `move to ${STATUS_LABELS[status].toLowerCase()}`,
+          retry: () => applyStatus(status, current)
+        });
+      } else {
+        console.error('Failed to update case status:', error);
+      }
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleSelect = (status: CaseStatus) => {
+    const transition = transitions.find(t => t.to === status);
+    if (!transition) return;
+
+    if (OUTCOME_STATUSES.includes(status)) {
+      // Prefill with the outcome recorded so far so closing a resolved case is a confirmation
+      setDisposition(fraudCase.disposition);
+      setStatusNote(fraudCase.resolution_note ?? '');
+      setRecoveredAmount(fraudCase.recovered_amount !== null ? fraudCase.recovered_amount.toString() : '');
+      setPendingStatus(status);
+    } else if (transition.requires_note) {
+      setPendingStatus(status);
+    } else {
+      applyStatus(status);
+    }
+  };
+
+  const amountIsValid = recoveredAmount.trim() === '' || parseFloat(recoveredAmount) >= 0;
+  const canConfirm = statusNote.trim().length >= 10 && (!isOutcomeStatus || (disposition !== null && amountIsValid));
+
+  if (transitions.length === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      <Select value={currentStatus} onValueChange={(value: CaseStatus) => handleSelect(value)} disabled={isUpdating}>
+        <SelectTrigger className="w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={currentStatus} disabled>
+            {STATUS_LABELS[currentStatus]}
+          </SelectItem>
+          {transitions.map(transition => (
+            <SelectItem key={transition.to} value={transition.to}>
+              {STATUS_LABELS[transition.to]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Dialog open={pendingStatus !== null} onOpenChange={(open) => !open && resetDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              Move Case #{fraudCase.id} to {pendingStatus ? STATUS_LABELS[pendingStatus].toLowerCase() : ''}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            {isOutcomeStatus && (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="text-sm font-medium text-gray-700">Disposition</label>
+                  <Select value={disposition ?? undefined} onValueChange={(value: CaseDisposition) => setDisposition(value)}>
+                    <SelectTrigger className="mt-1">
+                      <SelectValue placeholder="Select outcome" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(DISPOSITION_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <label className="text-sm font-medium text-gray-700">Recovered Amount</label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={recoveredAmount}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setRecoveredAmount(e.target.value)}
+                    placeholder="0.00"
+                    className="mt-1"
+                  />
+                </div>
+              </div>
+            )}
+            <div>
+              <label className="text-sm font-medium text-gray-700">
+                {isOutcomeStatus ? 'Resolution' : 'Reason'}
+              </label>
+              <Textarea
+                value={statusNote}
+                onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setStatusNote(e.target.value)}
+                placeholder={isOutcomeStatus
+                  ? 'Describe how the case was resolved...'
+                  : 'Explain why the case is being reopened...'}
+                className="mt-1"
+                rows={4}
+              />
+              <p className="text-xs text-gray-500 mt-1">At least 10 characters</p>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={resetDialog}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => pendingStatus && applyStatus(pendingStatus)}
+                disabled={!canConfirm || isUpdating}
+              >
+                {isUpdating ? 'Saving...' : 'Confirm'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
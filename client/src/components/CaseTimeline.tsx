@@ -0,0 +1,110 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { History } from 'lucide-react';
+import { trpc } from '@/utils/trpc';
+import { AUTO_ASSIGNMENT_STRATEGY_LABELS } from '@/utils/assignment';
+import type { AutoAssignmentStrategy, CaseEvent, CaseEventType, User } from '../../../server/src/schema';
+
+interface CaseTimelineProps {
+  caseId: number;
+  users: User[];
+}
+
+const EVENT_LABELS: Record<CaseEventType, string> = {
+  created: 'Created',
+  updated: 'Updated',
+  assigned: 'Assigned',
+  escalated: 'Escalated',
+  closed: 'Closed'
+};
+
+const EVENT_COLORS: Record<CaseEventType, string> = {
+  created: 'bg-blue-100 text-blue-800',
+  updated: 'bg-gray-100 text-gray-800',
+  assigned: 'bg-yellow-100 text-yellow-800',
+  escalated: 'bg-red-100 text-red-800',
+  closed: 'bg-green-100 text-green-800'
+};
+
+// Fields holding user ids are shown by username
+const USER_FIELDS = new Set(['assigned_to', 'created_by']);
+
+export function CaseTimeline({ caseId, users }: CaseTimelineProps) {
+  const [events, setEvents] = useState<CaseEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadTimeline = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await trpc.getCaseTimeline.query({ caseId });
+      setEvents(result);
+    } catch (error) {
+      console.error('Failed to load case timeline:', error);
+      setEvents([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [caseId]);
+
+  useEffect(() => {
+    loadTimeline();
+  }, [loadTimeline]);
+
+  const getUsername = (userId: number | null) => {
+    if (userId === null) return 'System';
+    return users.find(user => user.id === userId)?.username || `User #${userId}`;
+  };
+
+  const formatValue = (field: string, value: string | number | null) => {
+    if (value === null) return '—';
+    if (USER_FIELDS.has(field) && typeof value === 'number') return getUsername(value);
+    return String(value).replace('_', ' ');
+  };
+
+  return (
+    <div>
+      <label className="text-sm font-medium text-gray-600 flex items-center gap-1">
+        <History className="h-4 w-4" />
+        History
+      </label>
+      {isLoading ? (
+        <p className="mt-1 text-sm text-gray-500">Loading history...</p>
+      ) : events.length === 0 ? (
+        <p className="mt-1 text-sm text-gray-500">No recorded history</p>
+      ) : (
+        <ol className="mt-2 space-y-3 border-l border-gray-200 pl-4 max-h-64 overflow-y-auto">
+          {events.map((event: CaseEvent) => (
+            <li key={event.id} className="text-sm">
+              <div className="flex items-center gap-2">
+                <Badge className={EVENT_COLORS[event.event_type]}>
+                  {EVENT_LABELS[event.event_type]}
+                </Badge>
+                <span className="text-gray-900">{getUsername(event.actor_id)}</span>
+                <span className="text-xs text-gray-500">{event.created_at.toLocaleString()}</span>
+              </div>
+              {event.event_type !== 'created' && (
+                <ul className="mt-1 text-xs text-gray-600">
+                  {Object.entries(event.changes).map(([field, change]) => (
+                    <li key={field}>
+                      <span className="font-medium">{field.replace('_', ' ')}</span>:{' '}
+                      {formatValue(field, change.from)} → {formatValue(field, change.to)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {event.metadata && Object.entries(event.metadata).map(([key, value]) => (
+                typeof value === 'string' && (
+                  <p key={key} className="mt-1 text-xs text-gray-500 italic">
+                    {key === 'strategy'
+                      ? `Auto-assigned: ${AUTO_ASSIGNMENT_STRATEGY_LABELS[value as AutoAssignmentStrategy] ?? value}`
+                      : value}
+                  </p>
+                )
+              ))}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
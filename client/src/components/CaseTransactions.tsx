@@ -0,0 +1,64 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CreditCard } from 'lucide-react';
+import { trpc } from '@/utils/trpc';
+import { formatAmount } from '@/utils/disposition';
+import { CHANNEL_LABELS } from '@/utils/transactions';
+import type { Transaction } from '../../../server/src/schema';
+
+interface CaseTransactionsProps {
+  caseId: number;
+}
+
+export function CaseTransactions({ caseId }: CaseTransactionsProps) {
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+
+  const loadTransactions = useCallback(async () => {
+    try {
+      const result = await trpc.getCaseTransactions.query({ caseId });
+      setTransactions(result);
+    } catch (error) {
+      console.error('Failed to load transactions:', error);
+      setTransactions([]);
+    }
+  }, [caseId]);
+
+  useEffect(() => {
+    loadTransactions();
+  }, [loadTransactions]);
+
+  return (
+    <div>
+      <label className="text-sm font-medium text-gray-600 flex items-center gap-1">
+        <CreditCard className="h-4 w-4" />
+        Transactions ({transactions.length})
+      </label>
+      {transactions.length === 0 ? (
+        <p className="mt-1 text-sm text-gray-500">No transactions recorded</p>
+      ) : (
+        <ul className="mt-2 space-y-2">
+          {transactions.map((transaction: Transaction) => (
+            <li key={transaction.id} className="rounded bg-gray-50 p-2 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="font-mono text-gray-900">{transaction.txid}</span>
+                {transaction.amount !== null && (
+                  <span className="font-medium text-gray-900">
+                    {formatAmount(transaction.amount)} {transaction.currency ?? ''}
+                  </span>
+                )}
+              </div>
+              <p className="text-xs text-gray-500">
+                {[
+                  transaction.occurred_at?.toLocaleString(),
+                  transaction.channel && CHANNEL_LABELS[transaction.channel],
+                  transaction.merchant,
+                  transaction.account && `from ${transaction.account}`,
+                  transaction.counterparty && `to ${transaction.counterparty}`
+                ].filter(Boolean).join(' · ') || 'No further details'}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
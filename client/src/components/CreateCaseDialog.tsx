@@ -5,22 +5,57 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
-import { AlertTriangle, FileText } from 'lucide-react';
-import type { CasePriority } from '../../../server/src/schema';
+import { AlertTriangle, FileText, Plus, X } from 'lucide-react';
+import { CHANNEL_LABELS } from '@/utils/transactions';
+import type { CasePriority, TransactionChannel, TransactionInput } from '../../../server/src/schema';
 
 interface CreateCaseDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onCreateCase: (caseData: { 
-    txid: string; 
+    transactions: TransactionInput[];
     description: string; 
     priority: CasePriority;
   }) => Promise<void>;
 }
 
+// Form state of one transaction; every field is kept as typed until submit
+interface TransactionDraft {
+  txid: string;
+  amount: string;
+  currency: string;
+  occurred_at: string;
+  merchant: string;
+  channel: TransactionChannel | null;
+  account: string;
+  counterparty: string;
+}
+
+const emptyTransaction = (): TransactionDraft => ({
+  txid: '',
+  amount: '',
+  currency: '',
+  occurred_at: '',
+  merchant: '',
+  channel: null,
+  account: '',
+  counterparty: ''
+});
+
+const toTransactionInput = (draft: TransactionDraft): TransactionInput => ({
+  txid: draft.txid.trim(),
+  amount: draft.amount.trim() ? parseFloat(draft.amount) : null,
+  currency: draft.currency.trim() ? draft.currency.trim().toUpperCase() : null,
+  occurred_at: draft.occurred_at ? new Date(draft.occurred_at) : null,
+  merchant: draft.merchant.trim() || null,
+  channel: draft.channel,
+  account: draft.account.trim() || null,
+  counterparty: draft.counterparty.trim() || null
+});
+
 export function CreateCaseDialog({ open, onOpenChange, onCreateCase }: CreateCaseDialogProps) {
   const [formData, setFormData] = useState({
-    txid: '',
+    transactions: [emptyTransaction()],
     description: '',
     priority: 'medium' as CasePriority
   });
@@ -30,11 +65,25 @@ export function CreateCaseDialog({ open, onOpenChange, onCreateCase }: CreateCas
   const validateForm = () => {
     const newErrors: { [key: string]: string } = {};
     
-    if (!formData.txid.trim()) {
-      newErrors.txid = 'Transaction ID is required';
-    } else if (formData.txid.length < 3) {
-      newErrors.txid = 'Transaction ID must be at least 3 characters';
-    }
+    const seen = new Set<string>();
+    formData.transactions.forEach((transaction, index) => {
+      const txid = transaction.txid.trim();
+      if (!txid) {
+        newErrors[`txid_${index}`] = 'Transaction ID is required';
+      } else if (txid.length < 3) {
+        newErrors[`txid_${index}`] = 'Transaction ID must be at least 3 characters';
+      } else if (seen.has(txid)) {
+        newErrors[`txid_${index}`] = 'This transaction is already listed';
+      }
+      seen.add(txid);
+
+      if (transaction.amount.trim() && !(parseFloat(transaction.amount) >= 0)) {
+        newErrors[`amount_${index}`] = 'Amount must be zero or more';
+      }
+      if (transaction.currency.trim() && !/^[A-Za-z]{3}$/.test(transaction.currency.trim())) {
+        newErrors[`currency_${index}`] = 'Use a three-letter currency code';
+      }
+    });
     
     if (!formData.description.trim()) {
       newErrors.description = 'Description is required';
@@ -53,10 +102,10 @@ export function CreateCaseDialog({ open, onOpenChange, onCreateCase }: CreateCas
     
     setIsSubmitting(true);
     try {
-      await onCreateCase(formData);
+      await onCreateCase({ ...formData, transactions: formData.transactions.map(toTransactionInput) });
       // Reset form on success
       setFormData({
-        txid: '',
+        transactions: [emptyTransaction()],
         description: '',
         priority: 'medium'
       });
@@ -71,7 +120,7 @@ export function CreateCaseDialog({ open, onOpenChange, onCreateCase }: CreateCas
   const handleClose = () => {
     if (!isSubmitting) {
       setFormData({
-        txid: '',
+        transactions: [emptyTransaction()],
         description: '',
         priority: 'medium'
       });
@@ -80,6 +129,18 @@ export function CreateCaseDialog({ open, onOpenChange, onCreateCase }: CreateCas
     }
   };
 
+  const updateTransaction = (index: number, changes: Partial<TransactionDraft>) =>
+    setFormData(prev => ({
+      ...prev,
+      transactions: prev.transactions.map((transaction, i) => i === index ? { ...transaction, ...changes } : transaction)
+    }));
+
+  const addTransaction = () =>
+    setFormData(prev => ({ ...prev, transactions: [...prev.transactions, emptyTransaction()] }));
+
+  const removeTransaction = (index: number) =>
+    setFormData(prev => ({ ...prev, transactions: prev.transactions.filter((_, i) => i !== index) }));
+
   const getPriorityDescription = (priority: CasePriority) => {
     switch (priority) {
       case 'critical': return '🔴 Immediate attention required - potential major financial loss';
@@ -91,7 +152,7 @@ export function CreateCaseDialog({ open, onOpenChange, onCreateCase }: CreateCas
 
   return (
     <Dialog open={open} onOpenChange={handleClose}>
-      <DialogContent className="max-w-2xl">
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <AlertTriangle className="h-5 w-5 text-red-600" />
@@ -101,26 +162,118 @@ export function CreateCaseDialog({ open, onOpenChange, onCreateCase }: CreateCas
         
         <form onSubmit={handleSubmit} className="space-y-6">
           <div className="grid gap-4">
-            {/* Transaction ID */}
-            <div className="space-y-2">
-              <Label htmlFor="txid" className="text-sm font-medium">
-                Transaction ID *
-              </Label>
-              <Input
-                id="txid"
-                value={formData.txid}
-                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                  setFormData(prev => ({ ...prev, txid: e.target.value }))
-                }
-                placeholder="Enter the suspicious transaction ID..."
-                className={errors.txid ? 'border-red-300 focus:border-red-500' : ''}
-                disabled={isSubmitting}
-              />
-              {errors.txid && (
-                <p className="text-sm text-red-600">{errors.txid}</p>
-              )}
+            {/* Transactions */}
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm font-medium">
+                  Transactions *
+                </Label>
+                <Button type="button" variant="outline" size="sm" onClick={addTransaction} disabled={isSubmitting}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Transaction
+                </Button>
+              </div>
+              {formData.transactions.map((transaction, index) => (
+                <div key={index} className="space-y-2 rounded-lg border p-3">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      id={`txid_${index}`}
+                      value={transaction.txid}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        updateTransaction(index, { txid: e.target.value })
+                      }
+                      placeholder={index === 0 ? 'Primary transaction ID' : 'Linked transaction ID'}
+                      className={errors[`txid_${index}`] ? 'border-red-300 focus:border-red-500' : ''}
+                      disabled={isSubmitting}
+                    />
+                    {index > 0 && (
+                      <Button type="button" variant="ghost" size="sm" onClick={() => removeTransaction(index)} disabled={isSubmitting}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                  {errors[`txid_${index}`] && (
+                    <p className="text-sm text-red-600">{errors[`txid_${index}`]}</p>
+                  )}
+                  <div className="grid grid-cols-3 gap-2">
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={transaction.amount}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        updateTransaction(index, { amount: e.target.value })
+                      }
+                      placeholder="Amount"
+                      className={errors[`amount_${index}`] ? 'border-red-300 focus:border-red-500' : ''}
+                      disabled={isSubmitting}
+                    />
+                    <Input
+                      value={transaction.currency}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        updateTransaction(index, { currency: e.target.value })
+                      }
+                      placeholder="Currency (USD)"
+                      maxLength={3}
+                      className={errors[`currency_${index}`] ? 'border-red-300 focus:border-red-500' : ''}
+                      disabled={isSubmitting}
+                    />
+                    <Input
+                      type="datetime-local"
+                      value={transaction.occurred_at}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        updateTransaction(index, { occurred_at: e.target.value })
+                      }
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                  {(errors[`amount_${index}`] || errors[`currency_${index}`]) && (
+                    <p className="text-sm text-red-600">{errors[`amount_${index}`] ?? errors[`currency_${index}`]}</p>
+                  )}
+                  <div className="grid grid-cols-2 gap-2">
+                    <Input
+                      value={transaction.merchant}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        updateTransaction(index, { merchant: e.target.value })
+                      }
+                      placeholder="Merchant"
+                      disabled={isSubmitting}
+                    />
+                    <Select
+                      value={transaction.channel ?? undefined}
+                      onValueChange={(value: TransactionChannel) => updateTransaction(index, { channel: value })}
+                      disabled={isSubmitting}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Channel" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(CHANNEL_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      value={transaction.account}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        updateTransaction(index, { account: e.target.value })
+                      }
+                      placeholder="Customer account"
+                      disabled={isSubmitting}
+                    />
+                    <Input
+                      value={transaction.counterparty}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        updateTransaction(index, { counterparty: e.target.value })
+                      }
+                      placeholder="Counterparty"
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                </div>
+              ))}
               <p className="text-xs text-gray-500">
-                The unique identifier for the suspicious transaction
+                The first transaction is the primary one; add every transaction that belongs to the same incident
               </p>
             </div>
 
@@ -185,7 +338,7 @@ export function CreateCaseDialog({ open, onOpenChange, onCreateCase }: CreateCas
                   📋 Case Creation Guidelines
                 </h4>
                 <ul className="text-blue-700 space-y-1 text-xs">
-                  <li>• Provide a unique and accurate Transaction ID</li>
+                  <li>• List every transaction involved; each can belong to only one case</li>
                   <li>• Select appropriate priority based on potential impact</li>
                   <li>• Include all available evidence and suspicious indicators</li>
                   <li>• Cases will be automatically assigned status: "Open"</li>
@@ -0,0 +1,17 @@
+import type { HighlightSegment } from '../../../server/src/schema';
+
+interface HighlightedTextProps {
+  segments: HighlightSegment[];
+}
+
+// Renders a search snippet as text, so nothing in the matched content is treated as markup
+export function HighlightedText({ segments }: HighlightedTextProps) {
+  return (
+    <>
+      {segments.map((segment, index) => segment.highlighted
+        ? <mark key={index} className="bg-yellow-200 rounded px-0.5">{segment.text}</mark>
+        : <span key={index}>{segment.text}</span>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,176 @@
+import { useState, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { FileUp, Upload } from 'lucide-react';
+import { trpc } from '@/utils/trpc';
+import type { ImportCasesResult, ImportRowStatus } from '../../../server/src/schema';
+
+interface ImportCasesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+type ImportFormat = 'csv' | 'json';
+
+const STATUS_COLORS: Record<ImportRowStatus, string> = {
+  valid: 'bg-green-100 text-green-800',
+  created: 'bg-green-100 text-green-800',
+  invalid: 'bg-red-100 text-red-800',
+  duplicate: 'bg-orange-100 text-orange-800'
+};
+
+const detectFormat = (file: File): ImportFormat | null => {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.csv') || file.type === 'text/csv') return 'csv';
+  if (name.endsWith('.json') || file.type === 'application/json') return 'json';
+  return null;
+};
+
+export function ImportCasesDialog({ open, onOpenChange, onImported }: ImportCasesDialogProps) {
+  const [file, setFile] = useState<{ name: string; format: ImportFormat; content: string } | null>(null);
+  const [result, setResult] = useState<ImportCasesResult | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const reset = () => {
+    setFile(null);
+    setResult(null);
+    setError(null);
+  };
+
+  const handleClose = (nextOpen: boolean) => {
+    if (isWorking) return;
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const runImport = async (dryRun: boolean, selected = file) => {
+    if (!selected) return;
+
+    setIsWorking(true);
+    setError(null);
+    try {
+      const response = await trpc.importCases.mutate({
+        format: selected.format,
+        content: selected.content,
+        dry_run: dryRun
+      });
+      setResult(response);
+      if (response.created_count > 0) {
+        onImported();
+      }
+    } catch (error) {
+      console.error('Failed to import cases:', error);
+      setError(error instanceof Error ? error.message : 'Import failed');
+      setResult(null);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // Every selected file is previewed straight away
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+
+    const format = detectFormat(selected);
+    if (!format) {
+      setError('Choose a .csv or .json file');
+      return;
+    }
+
+    const next = { name: selected.name, format, content: await selected.text() };
+    setFile(next);
+    setResult(null);
+    await runImport(true, next);
+  };
+
+  const canImport = result !== null && result.dry_run && result.total_rows > 0 && result.valid_rows === result.total_rows;
+  const imported = result !== null && !result.dry_run && result.created_count > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileUp className="h-5 w-5" />
+            Import Cases
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Upload a CSV with the columns <span className="font-mono">txid, description, priority, amount, currency,
+            occurred_at, merchant, channel, account, counterparty</span>, or a JSON array of cases. Each row becomes
+            one case; nothing is created unless every row is valid.
+          </p>
+
+          <div className="flex items-center gap-3">
+            <input ref={fileInput} type="file" accept=".csv,.json,text/csv,application/json" className="hidden" onChange={handleFile} />
+            <Button variant="outline" onClick={() => fileInput.current?.click()} disabled={isWorking}>
+              <Upload className="h-4 w-4 mr-2" />
+              Choose File
+            </Button>
+            {file && <span className="text-sm text-gray-700">{file.name}</span>}
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {result && (
+            <div className="space-y-2">
+              <p className="text-sm text-gray-700">
+                {imported
+                  ? `Created ${result.created_count} cases.`
+                  : `${result.valid_rows} of ${result.total_rows} rows are ready to import.`}
+              </p>
+              <div className="max-h-80 overflow-y-auto rounded border">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-left text-gray-600">
+                    <tr>
+                      <th className="p-2">Row</th>
+                      <th className="p-2">Transactions</th>
+                      <th className="p-2">Status</th>
+                      <th className="p-2">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.rows.map(row => (
+                      <tr key={row.row} className="border-t align-top">
+                        <td className="p-2">{row.row}</td>
+                        <td className="p-2 font-mono text-xs">{row.txids.join(', ') || '—'}</td>
+                        <td className="p-2">
+                          <Badge className={STATUS_COLORS[row.status]}>{row.status}</Badge>
+                        </td>
+                        <td className="p-2 text-xs">
+                          {row.case_id !== null && <span>Case #{row.case_id}</span>}
+                          {row.errors.map((rowError, index) => (
+                            <p key={index} className="text-red-700">{rowError}</p>
+                          ))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2 border-t pt-4">
+            <Button variant="outline" onClick={() => handleClose(false)} disabled={isWorking}>
+              {imported ? 'Done' : 'Cancel'}
+            </Button>
+            {!imported && (
+              <Button onClick={() => runImport(false)} disabled={!canImport || isWorking}>
+                {isWorking ? 'Working...' : `Import ${result?.valid_rows ?? 0} Cases`}
+              </Button>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
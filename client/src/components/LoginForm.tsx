@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertTriangle, LogIn } from 'lucide-react';
+import { trpc } from '@/utils/trpc';
+import { setAuthToken } from '@/utils/auth';
+import type { User, LoginInput } from '../../../server/src/schema';
+
+interface LoginFormProps {
+  onLogin: (user: User) => void;
+}
+
+export function LoginForm({ onLogin }: LoginFormProps) {
+  const [formData, setFormData] = useState<LoginInput>({
+    username: '',
+    password: ''
+  });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.username.trim() || !formData.password) {
+      setError('Username and password are required');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const session = await trpc.login.mutate(formData);
+      setAuthToken(session.token);
+      onLogin(session.user);
+    } catch (error) {
+      console.error('Login failed:', error);
+      setError('Invalid username or password');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-6 w-6 text-red-600" />
+            🔒 Fraud Case Management System
+          </CardTitle>
+          <CardDescription>Sign in to access fraud investigation cases</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="login-username">Username</Label>
+              <Input
+                id="login-username"
+                autoComplete="username"
+                value={formData.username}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData(prev => ({ ...prev, username: e.target.value }))
+                }
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="login-password">Password</Label>
+              <Input
+                id="login-password"
+                type="password"
+                autoComplete="current-password"
+                value={formData.password}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData(prev => ({ ...prev, password: e.target.value }))
+                }
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <Button type="submit" className="w-full" disabled={isSubmitting}>
+              <LogIn className="h-4 w-4 mr-2" />
+              {isSubmitting ? 'Signing in...' : 'Sign In'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
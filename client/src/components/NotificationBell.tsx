@@ -0,0 +1,132 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { NotificationPreferencesDialog } from '@/components/NotificationPreferencesDialog';
+import { Bell } from 'lucide-react';
+import { trpc } from '@/utils/trpc';
+import type { Notification } from '../../../server/src/schema';
+
+// Until the server pushes notifications, the unread count is polled
+const POLL_INTERVAL_MS = 30_000;
+
+export function NotificationBell() {
+  const [open, setOpen] = useState(false);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [showPreferences, setShowPreferences] = useState(false);
+
+  const loadUnreadCount = useCallback(async () => {
+    try {
+      setUnreadCount(await trpc.getUnreadNotificationCount.query());
+    } catch (error) {
+      console.error('Failed to load unread notification count:', error);
+    }
+  }, []);
+
+  const loadNotifications = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setNotifications(await trpc.getNotifications.query());
+    } catch (error) {
+      console.error('Failed to load notifications:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUnreadCount();
+    const timer = setInterval(loadUnreadCount, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [loadUnreadCount]);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (isOpen) {
+      loadNotifications();
+      loadUnreadCount();
+    }
+  };
+
+  const handleMarkRead = async (notification: Notification) => {
+    if (notification.read_at) return;
+    try {
+      const updated = await trpc.markNotificationRead.mutate({ notificationId: notification.id });
+      setNotifications(prev => prev.map(n => n.id === updated.id ? updated : n));
+      setUnreadCount(prev => Math.max(0, prev - 1));
+    } catch (error) {
+      console.error('Failed to mark notification as read:', error);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await trpc.markAllNotificationsRead.mutate();
+      await loadNotifications();
+      setUnreadCount(0);
+    } catch (error) {
+      console.error('Failed to mark notifications as read:', error);
+    }
+  };
+
+  return (
+    <>
+      <Popover open={open} onOpenChange={handleOpenChange}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="sm" className="relative" aria-label={`Notifications (${unreadCount} unread)`}>
+            <Bell className="h-5 w-5" />
+            {unreadCount > 0 && (
+              <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-red-600 text-white text-xs leading-5 text-center">
+                {unreadCount > 99 ? '99+' : unreadCount}
+              </span>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-96 p-0">
+          <div className="flex items-center justify-between px-4 py-2 border-b">
+            <span className="font-medium">Notifications</span>
+            <Button variant="ghost" size="sm" onClick={handleMarkAllRead} disabled={unreadCount === 0}>
+              Mark all read
+            </Button>
+          </div>
+          <div className="max-h-96 overflow-y-auto">
+            {isLoading && notifications.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-gray-500 text-center">Loading...</p>
+            ) : notifications.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-gray-500 text-center">No notifications yet</p>
+            ) : (
+              notifications.map(notification => (
+                <button
+                  key={notification.id}
+                  type="button"
+                  onClick={() => handleMarkRead(notification)}
+                  className={`block w-full text-left px-4 py-3 border-b last:border-b-0 hover:bg-gray-50 ${notification.read_at ? '' : 'bg-blue-50'}`}
+                >
+                  <p className={`text-sm ${notification.read_at ? 'text-gray-600' : 'font-medium text-gray-900'}`}>
+                    {notification.message}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">{notification.created_at.toLocaleString()}</p>
+                </button>
+              ))
+            )}
+          </div>
+          <div className="px-4 py-2 border-t">
+            <Button
+              variant="link"
+              size="sm"
+              className="px-0"
+              onClick={() => {
+                setOpen(false);
+                setShowPreferences(true);
+              }}
+            >
+              Email settings
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+      <NotificationPreferencesDialog open={showPreferences} onOpenChange={setShowPreferences} />
+    </>
+  );
+}
@@ -0,0 +1,140 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import type { CasePriority, EmailMode, NotificationPreferences, NotificationType } from '../../../server/src/schema';
+
+interface NotificationPreferencesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const EMAIL_MODE_LABELS: Record<EmailMode, string> = {
+  off: 'No emails',
+  immediate: 'One email per notification',
+  digest: 'Daily digest'
+};
+
+const TYPE_LABELS: Record<NotificationType, string> = {
+  assigned: 'A case is assigned to me',
+  escalated: 'A case is escalated to me',
+  closed: 'A case I created or work on is closed',
+  mentioned: 'I am mentioned in a note'
+};
+
+const PRIORITY_LABELS: Record<CasePriority, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+  critical: 'Critical'
+};
+
+export function NotificationPreferencesDialog({ open, onOpenChange }: NotificationPreferencesDialogProps) {
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setError(null);
+    trpc.getNotificationPreferences.query()
+      .then(setPreferences)
+      .catch((error) => console.error('Failed to load notification preferences:', error));
+  }, [open]);
+
+  const toggleType = (type: NotificationType, checked: boolean) => {
+    setPreferences(prev => prev && {
+      ...prev,
+      email_types: checked ? [...prev.email_types, type] : prev.email_types.filter(t => t !== type)
+    });
+  };
+
+  const handleSave = async () => {
+    if (!preferences) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await trpc.updateNotificationPreferences.mutate({
+        email_mode: preferences.email_mode,
+        email_types: preferences.email_types,
+        min_priority: preferences.min_priority
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to update notification preferences:', error);
+      setError(error instanceof Error ? error.message : 'Could not save the email settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Email Notifications</DialogTitle>
+        </DialogHeader>
+        {preferences && (
+          <div className="space-y-4">
+            <div>
+              <label className="text-sm font-medium text-gray-700">Delivery</label>
+              <Select value={preferences.email_mode || 'immediate'} onValueChange={(value) =>
+                setPreferences(prev => prev && { ...prev, email_mode: value as EmailMode })
+              }>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(EMAIL_MODE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700">Email me when</label>
+              <div className="space-y-2 mt-2">
+                {Object.entries(TYPE_LABELS).map(([type, label]) => (
+                  <label key={type} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={preferences.email_types.includes(type as NotificationType)}
+                      onCheckedChange={(checked) => toggleType(type as NotificationType, checked === true)}
+                      disabled={preferences.email_mode === 'off'}
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700">For cases of priority</label>
+              <Select value={preferences.min_priority || 'critical'} onValueChange={(value) =>
+                setPreferences(prev => prev && { ...prev, min_priority: value as CasePriority })
+              } disabled={preferences.email_mode === 'off'}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PRIORITY_LABELS).reverse().map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{value === 'critical' ? label : `${label} and above`}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={isSaving}>
+                {isSaving ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,230 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Bookmark, Link, Pencil, Star, Trash2 } from 'lucide-react';
+import { trpc } from '@/utils/trpc';
+import { can } from '@/utils/permissions';
+import type { CaseFilters, CaseListColumn, CaseSort, RolePermissions, SavedView, User } from '../../../server/src/schema';
+
+interface SavedViewsBarProps {
+  views: SavedView[];
+  defaultViewId: number | null;
+  activeView: SavedView | null;
+  isModified: boolean; // The list no longer matches the active view
+  current: { filters: CaseFilters; sort: CaseSort[] | null; columns: CaseListColumn[] };
+  currentUser: User;
+  users: User[];
+  permissions: RolePermissions | null;
+  onSelect: (view: SavedView | null) => void;
+  onViewsChange: () => void;
+}
+
+const COLUMN_LABELS: Record<CaseListColumn, string> = {
+  txid: 'Transaction ID',
+  priority: 'Priority',
+  disposition: 'Outcome',
+  sla: 'SLA status',
+  created_at: 'Created date',
+  created_by: 'Creator',
+  assigned_to: 'Assignee',
+  description: 'Description'
+};
+
+export function SavedViewsBar({
+  views,
+  defaultViewId,
+  activeView,
+  isModified,
+  current,
+  currentUser,
+  users,
+  permissions,
+  onSelect,
+  onViewsChange
+}: SavedViewsBarProps) {
+  const [dialogMode, setDialogMode] = useState<'create' | 'edit' | null>(null);
+  const [name, setName] = useState('');
+  const [shared, setShared] = useState(false);
+  const [columns, setColumns] = useState<CaseListColumn[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  const ownsActiveView = activeView !== null && activeView.owner_id === currentUser.id;
+  const canDeleteActiveView = activeView !== null && can(permissions, 'view', 'delete')
+    && (ownsActiveView || currentUser.role === 'admin');
+
+  const ownerName = (view: SavedView) => users.find(user => user.id === view.owner_id)?.username ?? 'another user';
+
+  const openDialog = (mode: 'create' | 'edit') => {
+    setName(mode === 'edit' && activeView ? activeView.name : '');
+    setShared(mode === 'edit' && activeView ? activeView.shared : false);
+    setColumns(current.columns);
+    setError(null);
+    setDialogMode(mode);
+  };
+
+  // Saving always stores the filters and sort currently on screen
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const fields = { name: name.trim(), filters: current.filters, sort: current.sort, columns, shared };
+      const view = dialogMode === 'edit' && activeView
+        ? await trpc.updateSavedView.mutate({ id: activeView.id, ...fields })
+        : await trpc.createSavedView.mutate(fields);
+      setDialogMode(null);
+      onSelect(view);
+      onViewsChange();
+    } catch (error) {
+      console.error('Failed to save view:', error);
+      setError(error instanceof Error ? error.message : 'Could not save the view');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleDefault = async () => {
+    if (!activeView) return;
+    try {
+      await trpc.setDefaultSavedView.mutate({ viewId: defaultViewId === activeView.id ? null : activeView.id });
+      onViewsChange();
+    } catch (error) {
+      console.error('Failed to set default view:', error);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!activeView) return;
+    try {
+      await trpc.deleteSavedView.mutate({ viewId: activeView.id });
+      onSelect(null);
+      onViewsChange();
+    } catch (error) {
+      console.error('Failed to delete view:', error);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy link:', error);
+    }
+  };
+
+  const toggleColumn = (column: CaseListColumn, checked: boolean) => {
+    setColumns(prev => checked ? [...prev, column] : prev.filter(c => c !== column));
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+      <Select
+        value={activeView ? activeView.id.toString() : 'none'}
+        onValueChange={(value) => onSelect(views.find(view => view.id.toString() === value) ?? null)}
+      >
+        <SelectTrigger className="w-full sm:w-64">
+          <SelectValue placeholder="Saved views" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">All cases</SelectItem>
+          {views.map(view => (
+            <SelectItem key={view.id} value={view.id.toString()}>
+              {view.id === defaultViewId ? '★ ' : ''}{view.name}
+              {view.owner_id !== currentUser.id && ` (shared by ${ownerName(view)})`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {activeView && isModified && <span className="text-xs text-gray-500">Modified</span>}
+
+      <div className="flex gap-1">
+        {can(permissions, 'view', 'create') && (
+          <Button variant="outline" size="sm" onClick={() => openDialog('create')}>
+            <Bookmark className="h-4 w-4 mr-1" />
+            Save view
+          </Button>
+        )}
+        {ownsActiveView && can(permissions, 'view', 'update') && (
+          <Button variant="ghost" size="sm" onClick={() => openDialog('edit')} title="Update this view">
+            <Pencil className="h-4 w-4" />
+          </Button>
+        )}
+        {activeView && can(permissions, 'view', 'update') && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleToggleDefault}
+            title={defaultViewId === activeView.id ? 'Stop starting from this view' : 'Start from this view'}
+          >
+            <Star className={`h-4 w-4 ${defaultViewId === activeView.id ? 'fill-yellow-400 text-yellow-500' : ''}`} />
+          </Button>
+        )}
+        {canDeleteActiveView && (
+          <Button variant="ghost" size="sm" onClick={handleDelete} title="Delete this view" className="text-red-600">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+        <Button variant="ghost" size="sm" onClick={handleCopyLink} title="Copy a link to this list">
+          <Link className="h-4 w-4 mr-1" />
+          {linkCopied ? 'Copied' : 'Link'}
+        </Button>
+      </div>
+
+      <Dialog open={dialogMode !== null} onOpenChange={(open) => !open && setDialogMode(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{dialogMode === 'edit' ? 'Update Saved View' : 'Save View'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              The view keeps the current filters and sort order.
+            </p>
+            <div>
+              <label className="text-sm font-medium text-gray-700">Name</label>
+              <Input
+                value={name}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+                placeholder="e.g. My critical open cases"
+                className="mt-1"
+                maxLength={100}
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700">Show on each case</label>
+              <div className="grid grid-cols-2 gap-2 mt-2">
+                {Object.entries(COLUMN_LABELS).map(([column, label]) => (
+                  <label key={column} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={columns.includes(column as CaseListColumn)}
+                      onCheckedChange={(checked) => toggleColumn(column as CaseListColumn, checked === true)}
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={shared} onCheckedChange={(checked) => setShared(checked === true)} />
+              Share with the team
+            </label>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setDialogMode(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={!name.trim() || columns.length === 0 || isSaving}>
+                {isSaving ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { Badge } from '@/components/ui/badge';
+import { SLA_TARGET_LABELS, formatDuration, getSlaTargets } from '@/utils/sla';
+import type { FraudCase } from '../../../server/src/schema';
+
+interface SlaBadgeProps {
+  fraudCase: FraudCase;
+  now: Date;
+}
+
+const DUE_SOON_MS = 60 * 60_000;
+
+// Shows a missed SLA target, or else a countdown to the next deadline
+export function SlaBadge({ fraudCase, now }: SlaBadgeProps) {
+  const targets = getSlaTargets(fraudCase, now).filter(({ due }) => due !== null);
+  if (targets.length === 0) return null;
+
+  const breached = targets.filter(({ breached }) => breached);
+  if (breached.length > 0) {
+    return (
+      <Badge className="bg-red-100 text-red-800 border-red-200" title={`Missed: ${breached.map(({ target }) => SLA_TARGET_LABELS[target]).join(', ')}`}>
+        SLA breached
+      </Badge>
+    );
+  }
+
+  const next = targets
+    .filter(({ met }) => met === null)
+    .sort((a, b) => a.due!.getTime() - b.due!.getTime())[0];
+
+  if (!next) {
+    return <Badge className="bg-green-100 text-green-800 border-green-200">SLA met</Badge>;
+  }
+
+  const remaining = next.due!.getTime() - now.getTime();
+  return (
+    <Badge
+      className={remaining < DUE_SOON_MS ? 'bg-amber-100 text-amber-800 border-amber-200' : 'bg-gray-100 text-gray-700 border-gray-200'}
+      title={`${SLA_TARGET_LABELS[next.target]} due ${next.due!.toLocaleString()}`}
+    >
+      {SLA_TARGET_LABELS[next.target]} due in {formatDuration(remaining)}
+    </Badge>
+  );
+}
@@ -0,0 +1,148 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { trpc } from '@/utils/trpc';
+import { can } from '@/utils/permissions';
+import { SLA_TARGET_LABELS } from '@/utils/sla';
+import type { CasePriority, RolePermissions, SlaPolicy, SlaTarget } from '../../../server/src/schema';
+
+interface SlaPolicyCardProps {
+  permissions: RolePermissions | null;
+  onPolicyChange: () => void;
+}
+
+type PolicyMinutes = 'assignment_minutes' | 'first_action_minutes' | 'resolution_minutes';
+
+const TARGET_FIELDS: Record<SlaTarget, PolicyMinutes> = {
+  assignment: 'assignment_minutes',
+  first_action: 'first_action_minutes',
+  resolution: 'resolution_minutes'
+};
+
+// Policies are stored in minutes and edited in hours; an empty field means no target
+const toHours = (minutes: number | null) => minutes === null ? '' : (minutes / 60).toString();
+const toMinutes = (hours: string) => {
+  const value = parseFloat(hours);
+  return value > 0 ? Math.max(1, Math.round(value * 60)) : null;
+};
+
+export function SlaPolicyCard({ permissions, onPolicyChange }: SlaPolicyCardProps) {
+  const [policies, setPolicies] = useState<SlaPolicy[]>([]);
+  const [drafts, setDrafts] = useState<Partial<Record<CasePriority, Record<PolicyMinutes, string>>>>({});
+  const [savingPriority, setSavingPriority] = useState<CasePriority | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const canEdit = can(permissions, 'sla', 'update');
+
+  const loadPolicies = useCallback(async () => {
+    try {
+      const result = await trpc.getSlaPolicies.query();
+      setPolicies(result);
+      setDrafts({});
+    } catch (error) {
+      console.error('Failed to load SLA policies:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPolicies();
+  }, [loadPolicies]);
+
+  const draftFor = (policy: SlaPolicy): Record<PolicyMinutes, string> => drafts[policy.priority] ?? {
+    assignment_minutes: toHours(policy.assignment_minutes),
+    first_action_minutes: toHours(policy.first_action_minutes),
+    resolution_minutes: toHours(policy.resolution_minutes)
+  };
+
+  const setDraftValue = (policy: SlaPolicy, field: PolicyMinutes, value: string) => {
+    setDrafts(prev => ({ ...prev, [policy.priority]: { ...draftFor(policy), [field]: value } }));
+  };
+
+  const handleSave = async (policy: SlaPolicy) => {
+    const draft = draftFor(policy);
+    setSavingPriority(policy.priority);
+    setError(null);
+    try {
+      await trpc.updateSlaPolicy.mutate({
+        priority: policy.priority,
+        assignment_minutes: toMinutes(draft.assignment_minutes),
+        first_action_minutes: toMinutes(draft.first_action_minutes),
+        resolution_minutes: toMinutes(draft.resolution_minutes)
+      });
+      await loadPolicies();
+      onPolicyChange();
+    } catch (error) {
+      console.error('Failed to update SLA policy:', error);
+      setError(error instanceof Error ? error.message : 'Could not save the SLA policy');
+    } finally {
+      setSavingPriority(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>SLA Policies</CardTitle>
+        <CardDescription>
+          Hours allowed per target, counted from case creation. Changes apply to every unresolved case of the priority.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Priority</TableHead>
+              {Object.values(SLA_TARGET_LABELS).map(label => (
+                <TableHead key={label}>{label}</TableHead>
+              ))}
+              {canEdit && <TableHead />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {policies.map(policy => (
+              <TableRow key={policy.priority}>
+                <TableCell className="capitalize">
+                  {policy.priority}
+                  {policy.updated_by === null && <span className="ml-2 text-xs text-gray-500">default</span>}
+                </TableCell>
+                {(Object.keys(TARGET_FIELDS) as SlaTarget[]).map(target => (
+                  <TableCell key={target}>
+                    {canEdit ? (
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.25"
+                        value={draftFor(policy)[TARGET_FIELDS[target]]}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDraftValue(policy, TARGET_FIELDS[target], e.target.value)}
+                        placeholder="No target"
+                        className="w-28"
+                        aria-label={`${policy.priority} ${SLA_TARGET_LABELS[target]} hours`}
+                      />
+                    ) : (
+                      policy[TARGET_FIELDS[target]] === null ? 'No target' : `${toHours(policy[TARGET_FIELDS[target]])}h`
+                    )}
+                  </TableCell>
+                ))}
+                {canEdit && (
+                  <TableCell>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleSave(policy)}
+                      disabled={!drafts[policy.priority] || savingPriority !== null}
+                    >
+                      {savingPriority === policy.priority ? 'Saving...' : 'Save'}
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
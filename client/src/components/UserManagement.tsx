@@ -7,25 +7,37 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Users, Plus, Shield, User as UserIcon, Eye } from 'lucide-react';
 import { trpc } from '@/utils/trpc';
-import type { User, UserRole, CreateUserInput } from '../../../server/src/schema';
+import { can } from '@/utils/permissions';
+import { CHANNEL_LABELS } from '@/utils/transactions';
+import type { User, UserRole, CreateUserInput, RolePermissions, TransactionChannel } from '../../../server/src/schema';
 
 interface UserManagementProps {
   users: User[];
   currentUser: User | null;
+  permissions: RolePermissions | null;
   onUsersUpdate: () => void;
 }
 
-export function UserManagement({ users, currentUser, onUsersUpdate }: UserManagementProps) {
+export function UserManagement({ users, currentUser, permissions, onUsersUpdate }: UserManagementProps) {
   const [showCreateDialog, setShowCreateDialog] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
   const [formData, setFormData] = useState<CreateUserInput>({
     username: '',
     email: '',
-    role: 'viewer'
+    role: 'viewer',
+    password: ''
   });
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
+  const [skillsUser, setSkillsUser] = useState<User | null>(null);
+  const [skillsDraft, setSkillsDraft] = useState<TransactionChannel[]>([]);
+  const [isSavingSkills, setIsSavingSkills] = useState(false);
+  const [passwordUser, setPasswordUser] = useState<User | null>(null);
+  const [passwordDraft, setPasswordDraft] = useState('');
+  const [isSavingPassword, setIsSavingPassword] = useState(false);
+  const [passwordError, setPasswordError] = useState<string | null>(null);
 
   const getRoleColor = (role: UserRole) => {
     switch (role) {
@@ -74,6 +86,12 @@ export function UserManagement({ users, currentUser, onUsersUpdate }: UserManage
     } else if (users.some(u => u.email === formData.email)) {
       newErrors.email = 'Email already exists';
     }
+
+    if (!formData.password) {
+      newErrors.password = 'Password is required';
+    } else if (formData.password.length < 8) {
+      newErrors.password = 'Password must be at least 8 characters';
+    }
     
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -90,7 +108,8 @@ export function UserManagement({ users, currentUser, onUsersUpdate }: UserManage
       setFormData({
         username: '',
         email: '',
-        role: 'viewer'
+        role: 'viewer',
+        password: ''
       });
       setErrors({});
       setShowCreateDialog(false);
@@ -103,7 +122,56 @@ export function UserManagement({ users, currentUser, onUsersUpdate }: UserManage
   };
 
   const canManageUsers = () => {
-    return currentUser?.role === 'admin';
+    return can(permissions, 'user', 'create');
+  };
+
+  // Skills only matter for users cases can be assigned to
+  const isAssignable = (user: User) => user.role === 'investigator' || user.role === 'analyst';
+
+  const openSkillsDialog = (user: User) => {
+    setSkillsUser(user);
+    setSkillsDraft(user.skills);
+  };
+
+  const toggleSkill = (channel: TransactionChannel, checked: boolean) => {
+    setSkillsDraft(prev => checked ? [...prev, channel] : prev.filter(skill => skill !== channel));
+  };
+
+  const handleSaveSkills = async () => {
+    if (!skillsUser) return;
+
+    setIsSavingSkills(true);
+    try {
+      await trpc.updateUserSkills.mutate({ id: skillsUser.id, skills: skillsDraft });
+      setSkillsUser(null);
+      onUsersUpdate();
+    } catch (error) {
+      console.error('Failed to update user skills:', error);
+    } finally {
+      setIsSavingSkills(false);
+    }
+  };
+
+  const openPasswordDialog = (user: User) => {
+    setPasswordUser(user);
+    setPasswordDraft('');
+    setPasswordError(null);
+  };
+
+  const handleSavePassword = async () => {
+    if (!passwordUser) return;
+
+    setIsSavingPassword(true);
+    setPasswordError(null);
+    try {
+      await trpc.setUserPassword.mutate({ id: passwordUser.id, password: passwordDraft });
+      setPasswordUser(null);
+    } catch (error) {
+      console.error('Failed to set user password:', error);
+      setPasswordError(error instanceof Error ? error.message : 'Could not set the password');
+    } finally {
+      setIsSavingPassword(false);
+    }
   };
 
   const getUserStats = () => {
@@ -174,6 +242,23 @@ export function UserManagement({ users, currentUser, onUsersUpdate }: UserManage
                   />
                   {errors.email && <p className="text-sm text-red-600">{errors.email}</p>}
                 </div>
+
+                <div>
+                  <Label htmlFor="password">Initial Password *</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    autoComplete="new-password"
+                    value={formData.password || ''}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setFormData(prev => ({ ...prev, password: e.target.value }))
+                    }
+                    placeholder="At least 8 characters"
+                    className={errors.password ? 'border-red-300' : ''}
+                    disabled={isCreating}
+                  />
+                  {errors.password && <p className="text-sm text-red-600">{errors.password}</p>}
+                </div>
                 
                 <div>
                   <Label>Role *</Label>
@@ -277,6 +362,7 @@ export function UserManagement({ users, currentUser, onUsersUpdate }: UserManage
                   <TableHead>User</TableHead>
                   <TableHead>Email</TableHead>
                   <TableHead>Role</TableHead>
+                  <TableHead>Skills</TableHead>
                   <TableHead>Created</TableHead>
                   <TableHead>Status</TableHead>
                 </TableRow>
@@ -301,6 +387,24 @@ export function UserManagement({ users, currentUser, onUsersUpdate }: UserManage
                         {user.role}
                       </Badge>
                     </TableCell>
+                    <TableCell>
+                      {isAssignable(user) && (
+                        <div className="flex flex-wrap items-center gap-1">
+                          {user.skills.length === 0 ? (
+                            <span className="text-sm text-gray-500">None</span>
+                          ) : (
+                            user.skills.map(skill => (
+                              <Badge key={skill} variant="outline">{CHANNEL_LABELS[skill]}</Badge>
+                            ))
+                          )}
+                          {can(permissions, 'user', 'update') && (
+                            <Button variant="ghost" size="sm" onClick={() => openSkillsDialog(user)}>
+                              Edit
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                    </TableCell>
                     <TableCell className="text-gray-600">
                       {user.created_at.toLocaleDateString()}
                     </TableCell>
@@ -308,6 +412,11 @@ export function UserManagement({ users, currentUser, onUsersUpdate }: UserManage
                       <Badge variant="outline" className="text-green-700 border-green-200">
                         Active
                       </Badge>
+                      {can(permissions, 'user', 'update') && (
+                        <Button variant="ghost" size="sm" onClick={() => openPasswordDialog(user)}>
+                          Set password
+                        </Button>
+                      )}
                     </TableCell>
                   </TableRow>
                 ))}
@@ -317,6 +426,72 @@ export function UserManagement({ users, currentUser, onUsersUpdate }: UserManage
         </CardContent>
       </Card>
 
+      {/* Skills used by skill-based auto-assignment */}
+      <Dialog open={skillsUser !== null} onOpenChange={(open) => !open && setSkillsUser(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Skills of {skillsUser?.username}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Transaction channels this user handles. Skill-based auto-assignment prefers users whose skills cover the channels of a case.
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              {(Object.entries(CHANNEL_LABELS) as [TransactionChannel, string][]).map(([channel, label]) => (
+                <label key={channel} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={skillsDraft.includes(channel)}
+                    onCheckedChange={(checked) => toggleSkill(channel, checked === true)}
+                    disabled={isSavingSkills}
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setSkillsUser(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSaveSkills} disabled={isSavingSkills}>
+                {isSavingSkills ? 'Saving...' : 'Save Skills'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Passwords set by an admin, for accounts without one or for recovery */}
+      <Dialog open={passwordUser !== null} onOpenChange={(open) => !open && setPasswordUser(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Password of {passwordUser?.username}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="user-password">New Password</Label>
+              <Input
+                id="user-password"
+                type="password"
+                autoComplete="new-password"
+                value={passwordDraft}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPasswordDraft(e.target.value)}
+                disabled={isSavingPassword}
+              />
+              <p className="text-xs text-gray-500 mt-1">At least 8 characters. The user is signed out everywhere.</p>
+            </div>
+            {passwordError && <p className="text-sm text-red-600">{passwordError}</p>}
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setPasswordUser(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSavePassword} disabled={isSavingPassword || passwordDraft.length < 8}>
+                {isSavingPassword ? 'Saving...' : 'Set Password'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* Role Permissions Info */}
       <Card>
         <CardHeader>
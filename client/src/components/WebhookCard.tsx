@@ -0,0 +1,277 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { trpc } from '@/utils/trpc';
+import { can } from '@/utils/permissions';
+import type {
+  RolePermissions,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+  WebhookSubscription
+} from '../../../server/src/schema';
+
+interface WebhookCardProps {
+  permissions: RolePermissions | null;
+}
+
+const EVENT_LABELS: Record<WebhookEvent, string> = {
+  'case.created': 'Created',
+  'case.assigned': 'Assigned',
+  'case.escalated': 'Escalated',
+  'case.closed': 'Closed'
+};
+
+const STATUS_VARIANTS: Record<WebhookDeliveryStatus, 'default' | 'secondary' | 'destructive'> = {
+  pending: 'secondary',
+  succeeded: 'default',
+  failed: 'destructive'
+};
+
+const ALL_EVENTS = Object.keys(EVENT_LABELS) as WebhookEvent[];
+
+export function WebhookCard({ permissions }: WebhookCardProps) {
+  const [subscriptions, setSubscriptions] = useState<WebhookSubscription[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [url, setUrl] = useState('');
+  const [events, setEvents] = useState<WebhookEvent[]>(ALL_EVENTS);
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canCreate = can(permissions, 'webhook', 'create');
+  const canUpdate = can(permissions, 'webhook', 'update');
+  const canDelete = can(permissions, 'webhook', 'delete');
+
+  const loadSubscriptions = useCallback(async () => {
+    try {
+      setSubscriptions(await trpc.getWebhookSubscriptions.query());
+    } catch (error) {
+      console.error('Failed to load webhook subscriptions:', error);
+    }
+  }, []);
+
+  const loadDeliveries = useCallback(async (subscriptionId: number) => {
+    try {
+      setDeliveries(await trpc.getWebhookDeliveries.query({ subscription_id: subscriptionId }));
+    } catch (error) {
+      console.error('Failed to load webhook deliveries:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSubscriptions();
+  }, [loadSubscriptions]);
+
+  useEffect(() => {
+    if (selectedId === null) {
+      setDeliveries([]);
+    } else {
+      loadDeliveries(selectedId);
+    }
+  }, [selectedId, loadDeliveries]);
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    setEvents(prev => checked ? [...prev, event] : prev.filter(e => e !== event));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    try {
+      const subscription = await trpc.createWebhookSubscription.mutate({ url, events });
+      setCreatedSecret(subscription.secret);
+      setUrl('');
+      setEvents(ALL_EVENTS);
+      await loadSubscriptions();
+    } catch (error) {
+      console.error('Failed to create webhook subscription:', error);
+      setError(error instanceof Error ? error.message : 'Could not add the webhook');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (subscription: WebhookSubscription, active: boolean) => {
+    try {
+      await trpc.updateWebhookSubscription.mutate({ id: subscription.id, active });
+      await loadSubscriptions();
+    } catch (error) {
+      console.error('Failed to update webhook subscription:', error);
+    }
+  };
+
+  const handleDelete = async (subscription: WebhookSubscription) => {
+    if (!confirm(`Delete the webhook to ${subscription.url} and its delivery log?`)) return;
+    try {
+      await trpc.deleteWebhookSubscription.mutate({ subscriptionId: subscription.id });
+      if (selectedId === subscription.id) setSelectedId(null);
+      await loadSubscriptions();
+    } catch (error) {
+      console.error('Failed to delete webhook subscription:', error);
+    }
+  };
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    try {
+      await trpc.redeliverWebhook.mutate({ deliveryId: delivery.id });
+      await loadDeliveries(delivery.subscription_id);
+    } catch (error) {
+      console.error('Failed to redeliver webhook:', error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Webhooks</CardTitle>
+        <CardDescription>
+          Case lifecycle events are posted as signed JSON to these endpoints. Failed deliveries are retried with a growing delay.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {subscriptions.length === 0 ? (
+          <p className="text-sm text-gray-500">No webhooks yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Endpoint</TableHead>
+                <TableHead>Events</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {subscriptions.map(subscription => (
+                <TableRow key={subscription.id} className={selectedId === subscription.id ? 'bg-gray-50' : ''}>
+                  <TableCell className="font-mono text-xs break-all">{subscription.url}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {subscription.events.map(event => (
+                        <Badge key={event} variant="outline">{EVENT_LABELS[event]}</Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={subscription.active}
+                      onCheckedChange={(checked) => handleToggleActive(subscription, checked)}
+                      disabled={!canUpdate}
+                      aria-label={`Webhook to ${subscription.url} active`}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setSelectedId(selectedId === subscription.id ? null : subscription.id)}
+                    >
+                      {selectedId === subscription.id ? 'Hide deliveries' : 'Deliveries'}
+                    </Button>
+                    {canDelete && (
+                      <Button size="sm" variant="outline" onClick={() => handleDelete(subscription)}>
+                        Delete
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {selectedId !== null && (
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Recent deliveries</h4>
+            {deliveries.length === 0 ? (
+              <p className="text-sm text-gray-500">Nothing delivered yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Queued</TableHead>
+                    <TableHead>Event</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Attempts</TableHead>
+                    <TableHead>Last result</TableHead>
+                    {canUpdate && <TableHead />}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {deliveries.map(delivery => (
+                    <TableRow key={delivery.id}>
+                      <TableCell className="text-xs">
+                        {delivery.created_at.toLocaleString()}
+                        {delivery.redelivery_of !== null && <span className="ml-1 text-gray-500">(redelivery)</span>}
+                      </TableCell>
+                      <TableCell>{EVENT_LABELS[delivery.event]}</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[delivery.status]}>{delivery.status}</Badge>
+                      </TableCell>
+                      <TableCell>{delivery.attempts}</TableCell>
+                      <TableCell className="text-xs text-gray-600">
+                        {delivery.last_error ?? (delivery.response_status !== null ? `HTTP ${delivery.response_status}` : '—')}
+                      </TableCell>
+                      {canUpdate && (
+                        <TableCell>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleRedeliver(delivery)}
+                            disabled={delivery.status === 'pending'}
+                          >
+                            Redeliver
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+
+        {canCreate && (
+          <form onSubmit={handleCreate} className="space-y-3 border-t pt-4">
+            <Input
+              type="url"
+              value={url}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setUrl(e.target.value)}
+              placeholder="https://siem.example.com/hooks/fraud"
+              required
+            />
+            <div className="flex flex-wrap gap-4">
+              {ALL_EVENTS.map(event => (
+                <label key={event} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={events.includes(event)}
+                    onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                  />
+                  {EVENT_LABELS[event]}
+                </label>
+              ))}
+            </div>
+            <Button type="submit" disabled={isSaving || events.length === 0}>
+              {isSaving ? 'Adding...' : 'Add Webhook'}
+            </Button>
+            {createdSecret && (
+              <p className="text-sm text-gray-700">
+                Signing secret for the new webhook: <code className="font-mono break-all">{createdSecret}</code>
+              </p>
+            )}
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
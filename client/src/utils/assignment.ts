@@ -0,0 +1,7 @@
+import type { AutoAssignmentStrategy } from '../../../server/src/schema';
+
+export const AUTO_ASSIGNMENT_STRATEGY_LABELS: Record<AutoAssignmentStrategy, string> = {
+  round_robin: 'Round robin',
+  least_loaded: 'Least loaded',
+  skill_based: 'Skill based'
+};
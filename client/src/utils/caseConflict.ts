@@ -0,0 +1,19 @@
+import { TRPCClientError } from '@trpc/client';
+import type { AppRouter } from '../../../server/src';
+import type { FraudCase } from '../../../server/src/schema';
+
+// Case changes carry the version the user last saw. When someone else changed the case in the
+// meantime the server answers with CONFLICT and the case as it is now.
+export function getCaseConflict(error: unknown): FraudCase | null {
+  if (!(error instanceof TRPCClientError)) return null;
+  const { data } = error as TRPCClientError<AppRouter>;
+  return data?.code === 'CONFLICT' ? data.current_case : null;
+}
+
+// A change that hit a conflict, shown to the user to discard or retry on top of the current case
+export interface CaseConflict {
+  base: FraudCase; // The case as the user saw it
+  current: FraudCase;
+  action: string;
+  retry: () => Promise<void>; // Settles the conflict itself, or raises a new one
+}
@@ -0,0 +1,79 @@
+import type { CaseFilters, CaseSort, CaseSortField } from '../../../server/src/schema';
+
+// Case list state carried in the URL so a filtered list or saved view can be linked
+export interface CaseQueryState {
+  filters: CaseFilters;
+  sort: CaseSort[] | null;
+  search: string;
+  viewId: number | null;
+}
+
+const DATE_FILTERS = ['created_from', 'created_to', 'updated_from', 'updated_to'] as const;
+const SORT_FIELDS: CaseSortField[] = ['created_at', 'updated_at', 'priority', 'status'];
+
+const parseFilters = (value: string | null): CaseFilters => {
+  if (!value) return {};
+  try {
+    const parsed = JSON.parse(value);
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) return {};
+
+    // Dates travel as ISO strings; anything unparseable is dropped rather than sent to the server
+    for (const key of DATE_FILTERS) {
+      if (parsed[key] !== undefined) {
+        const date = new Date(parsed[key]);
+        parsed[key] = isNaN(date.getTime()) ? undefined : date;
+      }
+    }
+    return parsed as CaseFilters;
+  } catch {
+    return {};
+  }
+};
+
+// Sort is written as "priority:desc,created_at:desc"
+const parseSort = (value: string | null): CaseSort[] | null => {
+  if (!value) return null;
+  const sort = value.split(',').map(part => {
+    const [field, direction] = part.split(':');
+    return { field, direction } as CaseSort;
+  });
+  const valid = sort.every(({ field, direction }) =>
+    SORT_FIELDS.includes(field) && (direction === 'asc' || direction === 'desc'));
+  return valid ? sort : null;
+};
+
+// Returns null when the URL says nothing about the case list
+export function readCaseQuery(search: string): CaseQueryState | null {
+  const params = new URLSearchParams(search);
+  if (!['filters', 'sort', 'q', 'view'].some(key => params.has(key))) {
+    return null;
+  }
+
+  const viewId = parseInt(params.get('view') ?? '');
+  return {
+    filters: parseFilters(params.get('filters')),
+    sort: parseSort(params.get('sort')),
+    search: params.get('q') ?? '',
+    viewId: isNaN(viewId) ? null : viewId
+  };
+}
+
+export function writeCaseQuery({ filters, sort, search, viewId }: CaseQueryState): string {
+  const params = new URLSearchParams();
+  const activeFilters = Object.fromEntries(Object.entries(filters).filter(([, value]) => value !== undefined));
+
+  if (viewId !== null) params.set('view', viewId.toString());
+  if (Object.keys(activeFilters).length > 0) params.set('filters', JSON.stringify(activeFilters));
+  if (sort) params.set('sort', sort.map(({ field, direction }) => `${field}:${direction}`).join(','));
+  if (search) params.set('q', search);
+
+  const query = params.toString();
+  return query ? `?${query}` : window.location.pathname;
+}
+
+// Order-independent key for comparing filters, ignoring unset ones
+export function filtersKey(filters: CaseFilters): string {
+  return JSON.stringify(Object.entries(filters)
+    .filter(([, value]) => value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b)));
+}
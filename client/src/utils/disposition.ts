@@ -0,0 +1,22 @@
+import type { CaseDisposition } from '../../../server/src/schema';
+
+export const DISPOSITION_LABELS: Record<CaseDisposition, string> = {
+  confirmed_fraud: 'Confirmed Fraud',
+  false_positive: 'False Positive',
+  customer_error: 'Customer Error',
+  inconclusive: 'Inconclusive'
+};
+
+export const getDispositionColor = (disposition: CaseDisposition) => {
+  switch (disposition) {
+    case 'confirmed_fraud': return 'bg-red-100 text-red-800 border-red-200';
+    case 'false_positive': return 'bg-green-100 text-green-800 border-green-200';
+    case 'customer_error': return 'bg-blue-100 text-blue-800 border-blue-200';
+    case 'inconclusive': return 'bg-gray-100 text-gray-800 border-gray-200';
+    default: return 'bg-gray-100 text-gray-800 border-gray-200';
+  }
+};
+
+// Recovered amounts are stored in the transaction currency, so no currency symbol is shown
+export const formatAmount = (amount: number) =>
+  amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
@@ -0,0 +1,10 @@
+import type { PermissionAction, PermissionResource, RolePermissions } from '../../../server/src/schema';
+
+// Mirrors the server-side permission matrix returned by `getMyPermissions`
+export function can(
+  permissions: RolePermissions | null,
+  resource: PermissionResource,
+  action: PermissionAction
+): boolean {
+  return permissions?.[resource]?.includes(action) ?? false;
+}
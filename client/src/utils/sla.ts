@@ -0,0 +1,40 @@
+import type { FraudCase, SlaTarget } from '../../../server/src/schema';
+
+export const SLA_TARGET_LABELS: Record<SlaTarget, string> = {
+  assignment: 'Assignment',
+  first_action: 'First action',
+  resolution: 'Resolution'
+};
+
+export interface SlaTargetState {
+  target: SlaTarget;
+  due: Date | null; // null when the case's policy sets no target
+  met: Date | null;
+  breached: boolean;
+}
+
+// Same rule as the server: a target is breached when met late, or unmet past its deadline
+export const getSlaTargets = (fraudCase: FraudCase, now: Date): SlaTargetState[] => {
+  const targets: [SlaTarget, Date | null, Date | null][] = [
+    ['assignment', fraudCase.assignment_due_at, fraudCase.first_assigned_at],
+    ['first_action', fraudCase.first_action_due_at, fraudCase.first_action_at],
+    ['resolution', fraudCase.resolution_due_at, fraudCase.resolved_at]
+  ];
+
+  return targets.map(([target, due, met]) => ({
+    target,
+    due,
+    met,
+    breached: due !== null && (met ?? now) > due
+  }));
+};
+
+// Compact countdown such as "2d 4h", "3h 20m" or "12m"
+export const formatDuration = (ms: number) => {
+  const minutes = Math.max(0, Math.round(ms / 60_000));
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+};
@@ -0,0 +1,12 @@
+import type { TransactionChannel } from '../../../server/src/schema';
+
+export const CHANNEL_LABELS: Record<TransactionChannel, string> = {
+  card_present: 'Card Present',
+  card_not_present: 'Card Not Present',
+  online_banking: 'Online Banking',
+  mobile: 'Mobile',
+  atm: 'ATM',
+  wire: 'Wire Transfer',
+  ach: 'ACH',
+  other: 'Other'
+};
@@ -1,10 +1,33 @@
-import { createTRPCClient, httpBatchLink, loggerLink } from '@trpc/client';
+import { createTRPCClient, createWSClient, httpBatchLink, loggerLink, splitLink, wsLink } from '@trpc/client';
 import type { AppRouter } from '../../../server/src';
 import superjson from 'superjson';
+import { getAuthToken } from '@/utils/auth';
+
+// Subscriptions share one WebSocket, opened while any is active. Browsers cannot set headers on
+// WebSockets, so the session token is sent as a connection parameter instead.
+const wsClient = createWSClient({
+  url: `${window.location.protocol === 'https:' ? 'wss' : 'ws'}://${window.location.host}/api`,
+  lazy: { enabled: true, closeMs: 0 },
+  connectionParams() {
+    const token = getAuthToken();
+    return token ? { token } : {};
+  },
+});
 
 export const trpc = createTRPCClient<AppRouter>({
   links: [
-    httpBatchLink({ url: '/api', transformer: superjson }),
+    splitLink({
+      condition: (op) => op.type === 'subscription',
+      true: wsLink({ client: wsClient, transformer: superjson }),
+      false: httpBatchLink({
+        url: '/api',
+        transformer: superjson,
+        headers() {
+          const token = getAuthToken();
+          return token ? { Authorization: `Bearer ${token}` } : {};
+        },
+      }),
+    }),
     loggerLink({
           enabled: (opts) =>
             (typeof window !== 'undefined') ||
@@ -0,0 +1,34 @@
+import { runAutoEscalation, type AutoEscalationOptions, type AutoEscalationOutcome } from './handlers/auto_escalation';
+
+export interface AutoEscalationSchedulerOptions extends AutoEscalationOptions {
+  intervalMs: number;
+  clock?: () => Date; // Injectable for tests
+  onRun?: (outcomes: AutoEscalationOutcome[]) => void;
+}
+
+// Runs the auto-escalation rules in the server process every intervalMs. A run that is still going
+// when the next one is due is not overlapped; the next tick simply skips. Returns a stop function.
+export function startAutoEscalationScheduler(options: AutoEscalationSchedulerOptions): () => void {
+  const clock = options.clock ?? (() => new Date());
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const outcomes = await runAutoEscalation(clock(), options);
+      const escalated = outcomes.filter(outcome => outcome.escalation_id !== null).length;
+      if (outcomes.length > 0) {
+        console.log(`Auto-escalation escalated ${escalated} of ${outcomes.length} matching cases`);
+      }
+      options.onRun?.(outcomes);
+    } catch {
+      // Already logged by runAutoEscalation; the next tick tries again
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, options.intervalMs);
+  return () => clearInterval(timer);
+}
@@ -1,10 +1,32 @@
-import { serial, text, pgTable, timestamp, integer, pgEnum } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { serial, text, pgTable, timestamp, integer, pgEnum, jsonb, customType, unique, index, boolean } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
+import type { CaseFieldChanges, CaseFilters, CaseListColumn, CaseSort, NotificationType, TransactionChannel, WebhookEvent } from '../schema';
 
 // Define enums for PostgreSQL
 export const userRoleEnum = pgEnum('user_role', ['admin', 'investigator', 'analyst', 'viewer']);
 export const caseStatusEnum = pgEnum('case_status', ['open', 'in_progress', 'escalated', 'resolved', 'closed']);
 export const casePriorityEnum = pgEnum('case_priority', ['low', 'medium', 'high', 'critical']);
+export const caseDispositionEnum = pgEnum('case_disposition', ['confirmed_fraud', 'false_positive', 'customer_error', 'inconclusive']);
+export const noteVisibilityEnum = pgEnum('note_visibility', ['internal', 'shareable']);
+export const custodyActionEnum = pgEnum('custody_action', ['uploaded', 'viewed', 'downloaded', 'superseded', 'replaced', 'deleted']);
+export const transactionChannelEnum = pgEnum('transaction_channel', ['card_present', 'card_not_present', 'online_banking', 'mobile', 'atm', 'wire', 'ach', 'other']);
+export const caseEventTypeEnum = pgEnum('case_event_type', ['created', 'updated', 'assigned', 'escalated', 'closed']);
+export const notificationTypeEnum = pgEnum('notification_type', ['assigned', 'escalated', 'closed', 'mentioned']);
+export const emailModeEnum = pgEnum('email_mode', ['off', 'immediate', 'digest']);
+export const emailDeliveryStatusEnum = pgEnum('email_delivery_status', ['pending', 'sent', 'failed']);
+export const webhookEventEnum = pgEnum('webhook_event', ['case.created', 'case.assigned', 'case.escalated', 'case.closed']);
+export const webhookDeliveryStatusEnum = pgEnum('webhook_delivery_status', ['pending', 'succeeded', 'failed']);
+export const autoAssignmentStrategyEnum = pgEnum('auto_assignment_strategy', ['round_robin', 'least_loaded', 'skill_based']);
+
+// Fixed-point money column that is read back as a number instead of the driver's string
+const money = customType<{ data: number; driverData: string }>({
+  dataType() {
+    return 'numeric(14, 2)';
+  },
+  fromDriver(value) {
+    return parseFloat(value);
+  }
+});
 
 // Users table
 export const usersTable = pgTable('users', {
@@ -12,6 +34,8 @@ export const usersTable = pgTable('users', {
   username: text('username').notNull().unique(),
   email: text('email').notNull().unique(),
   role: userRoleEnum('role').notNull(),
+  password_hash: text('password_hash'), // scrypt hash, nullable until a password is set
+  skills: jsonb('skills').$type<TransactionChannel[]>().notNull().default([]), // Channels the user handles, used by skill-based auto-assignment
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
@@ -19,36 +43,275 @@ export const usersTable = pgTable('users', {
 // Fraud cases table
 export const fraudCasesTable = pgTable('fraud_cases', {
   id: serial('id').primaryKey(),
-  txid: text('txid').notNull().unique(), // Transaction ID - unique identifier
+  txid: text('txid').notNull(), // Primary transaction ID, also recorded in transactions
   description: text('description').notNull(),
   status: caseStatusEnum('status').notNull().default('open'),
   priority: casePriorityEnum('priority').notNull().default('medium'),
   assigned_to: integer('assigned_to'), // Foreign key to users, nullable
   created_by: integer('created_by').notNull(), // Foreign key to users
+  disposition: caseDispositionEnum('disposition'), // Nullable, set when the case is resolved or closed
+  resolution_note: text('resolution_note'), // Nullable, resolution narrative
+  recovered_amount: money('recovered_amount'), // Nullable
+  closed_by: integer('closed_by'), // Foreign key to users, set when the case is closed
+  closed_at: timestamp('closed_at'),
+  // SLA deadlines, computed from the SLA policy of the case priority; null when there is no target
+  assignment_due_at: timestamp('assignment_due_at'),
+  first_action_due_at: timestamp('first_action_due_at'),
+  resolution_due_at: timestamp('resolution_due_at'),
+  // When each SLA target was met, nullable
+  first_assigned_at: timestamp('first_assigned_at'),
+  first_action_at: timestamp('first_action_at'),
+  resolved_at: timestamp('resolved_at'),
+  version: integer('version').notNull().default(1), // Bumped by every change, for optimistic concurrency
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
-});
+}, (table) => [
+  // Keyset pagination walks these in both directions, with the id breaking ties
+  index('fraud_cases_created_at_idx').on(table.created_at, table.id),
+  index('fraud_cases_updated_at_idx').on(table.updated_at, table.id),
+  // Full-text search; queries must use the same to_tsvector expression to hit it
+  index('fraud_cases_description_search_idx').using('gin', sql`to_tsvector('english', ${table.description})`)
+]);
+
+// Transactions under investigation; a case groups one or more of them
+export const transactionsTable = pgTable('transactions', {
+  id: serial('id').primaryKey(),
+  case_id: integer('case_id').notNull(), // Foreign key to fraud_cases
+  txid: text('txid').notNull().unique(), // A transaction belongs to at most one case
+  amount: money('amount'), // Nullable
+  currency: text('currency'), // ISO 4217 code, nullable
+  occurred_at: timestamp('occurred_at'), // Nullable
+  merchant: text('merchant'), // Nullable
+  channel: transactionChannelEnum('channel'), // Nullable
+  account: text('account'), // Customer account the transaction was made from, nullable
+  counterparty: text('counterparty'), // Receiving party or account, nullable
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  // Case-insensitive prefix search on transaction IDs
+  index('transactions_txid_prefix_idx').using('btree', sql`lower(${table.txid}) text_pattern_ops`)
+]);
 
 // Case escalations table for tracking escalation history
 export const caseEscalationsTable = pgTable('case_escalations', {
   id: serial('id').primaryKey(),
   case_id: integer('case_id').notNull(), // Foreign key to fraud_cases
-  escalated_by: integer('escalated_by').notNull(), // Foreign key to users
+  escalated_by: integer('escalated_by'), // Foreign key to users, null for automatic escalations
   escalated_to: integer('escalated_to'), // Foreign key to users, nullable
   previous_status: caseStatusEnum('previous_status').notNull(),
   new_status: caseStatusEnum('new_status').notNull(),
   previous_priority: casePriorityEnum('previous_priority').notNull(),
   new_priority: casePriorityEnum('new_priority').notNull(),
   reason: text('reason').notNull(),
+  rule: text('rule'), // Auto-escalation rule key, null for manual escalations
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  unique('case_escalations_case_rule_unique').on(table.case_id, table.rule) // A rule escalates a case once
+]);
+
+// Append-only audit log of every case mutation; rows are never updated or deleted
+export const caseEventsTable = pgTable('case_events', {
+  id: serial('id').primaryKey(),
+  case_id: integer('case_id').notNull(), // Foreign key to fraud_cases
+  actor_id: integer('actor_id'), // Foreign key to users, null for system actions
+  event_type: caseEventTypeEnum('event_type').notNull(),
+  changes: jsonb('changes').$type<CaseFieldChanges>().notNull(), // Per-field before/after values
+  metadata: jsonb('metadata').$type<Record<string, string | number | null>>(), // Event specific context
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Case notes table; replies point at a top-level note through parent_id
+export const caseNotesTable = pgTable('case_notes', {
+  id: serial('id').primaryKey(),
+  case_id: integer('case_id').notNull(), // Foreign key to fraud_cases
+  author_id: integer('author_id').notNull(), // Foreign key to users
+  parent_id: integer('parent_id'), // Foreign key to case_notes, null for top-level notes
+  body: text('body').notNull(),
+  visibility: noteVisibilityEnum('visibility').notNull().default('internal'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+}, (table) => [
+  index('case_notes_body_search_idx').using('gin', sql`to_tsvector('english', ${table.body})`)
+]);
+
+// Users @mentioned in a case note
+export const caseNoteMentionsTable = pgTable('case_note_mentions', {
+  id: serial('id').primaryKey(),
+  note_id: integer('note_id').notNull(), // Foreign key to case_notes
+  user_id: integer('user_id').notNull(), // Foreign key to users
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Evidence files attached to a case; the content lives in attachment storage under storage_key
+export const caseAttachmentsTable = pgTable('case_attachments', {
+  id: serial('id').primaryKey(),
+  case_id: integer('case_id').notNull(), // Foreign key to fraud_cases
+  uploaded_by: integer('uploaded_by').notNull(), // Foreign key to users
+  filename: text('filename').notNull(),
+  mime_type: text('mime_type').notNull(),
+  size_bytes: integer('size_bytes').notNull(),
+  sha256: text('sha256').notNull(), // Hex digest computed on upload
+  storage_key: text('storage_key').notNull().unique(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Chain-of-custody ledger, hash-chained per case. Entries outlive the attachment they describe,
+// so attachment_id is not a foreign key. Rows are never updated or deleted.
+export const custodyEntriesTable = pgTable('custody_entries', {
+  id: serial('id').primaryKey(),
+  case_id: integer('case_id').notNull(), // Foreign key to fraud_cases
+  attachment_id: integer('attachment_id').notNull(),
+  actor_id: integer('actor_id').notNull(), // Foreign key to users
+  action: custodyActionEnum('action').notNull(),
+  attachment_sha256: text('attachment_sha256').notNull(),
+  details: jsonb('details').$type<Record<string, string | number | null>>(),
+  previous_hash: text('previous_hash').notNull(), // entry_hash of the previous entry of the case
+  entry_hash: text('entry_hash').notNull(),
+  created_at: timestamp('created_at').notNull() // Set by the server so it is covered by entry_hash
+}, (table) => [
+  unique('custody_entries_case_previous_hash_unique').on(table.case_id, table.previous_hash) // A chain cannot fork
+]);
+
+// Sessions table for authenticated API access
+export const sessionsTable = pgTable('sessions', {
+  id: serial('id').primaryKey(),
+  token_hash: text('token_hash').notNull().unique(), // SHA-256 of the bearer token, never the raw token
+  user_id: integer('user_id').notNull(), // Foreign key to users
+  expires_at: timestamp('expires_at').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Saved case list views; shared views are offered to every user
+export const savedViewsTable = pgTable('saved_views', {
+  id: serial('id').primaryKey(),
+  owner_id: integer('owner_id').notNull(), // Foreign key to users
+  name: text('name').notNull(),
+  filters: jsonb('filters').$type<CaseFilters>().notNull(), // Dates are stored as ISO strings
+  sort: jsonb('sort').$type<CaseSort[]>(), // Nullable, the default order
+  columns: jsonb('columns').$type<CaseListColumn[]>().notNull(),
+  shared: boolean('shared').notNull().default(false),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+}, (table) => [
+  unique('saved_views_owner_name_unique').on(table.owner_id, table.name)
+]);
+
+// The saved view each user starts from, which may be a view shared by someone else
+export const defaultSavedViewsTable = pgTable('default_saved_views', {
+  user_id: integer('user_id').primaryKey(), // Foreign key to users
+  view_id: integer('view_id').notNull() // Foreign key to saved_views
+});
+
+// SLA policy per case priority; priorities without a row use the built-in defaults
+export const slaPoliciesTable = pgTable('sla_policies', {
+  priority: casePriorityEnum('priority').primaryKey(),
+  assignment_minutes: integer('assignment_minutes'), // Nullable, no target
+  first_action_minutes: integer('first_action_minutes'), // Nullable, no target
+  resolution_minutes: integer('resolution_minutes'), // Nullable, no target
+  updated_by: integer('updated_by').notNull(), // Foreign key to users
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Auto-assignment rule per case priority; priorities without a row use the built-in defaults
+export const autoAssignmentRulesTable = pgTable('auto_assignment_rules', {
+  priority: casePriorityEnum('priority').primaryKey(),
+  strategy: autoAssignmentStrategyEnum('strategy').notNull(),
+  auto_on_create: boolean('auto_on_create').notNull().default(false), // Assign new cases as soon as they are created
+  last_assigned_to: integer('last_assigned_to'), // Foreign key to users, nullable; where the round-robin rotation continues
+  updated_by: integer('updated_by'), // Foreign key to users, null while the built-in default applies
+  updated_at: timestamp('updated_at') // Nullable, set with updated_by
+});
+
+// In-app notifications, one row per recipient
+export const notificationsTable = pgTable('notifications', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull(), // Foreign key to users, the recipient
+  type: notificationTypeEnum('type').notNull(),
+  case_id: integer('case_id').notNull(), // Foreign key to fraud_cases
+  actor_id: integer('actor_id'), // Foreign key to users, null for system actions
+  message: text('message').notNull(),
+  read_at: timestamp('read_at'), // Nullable, unread until set
   created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  index('notifications_user_read_idx').on(table.user_id, table.read_at)
+]);
+
+// Email settings per user; users without a row get the defaults in email_delivery
+export const notificationPreferencesTable = pgTable('notification_preferences', {
+  user_id: integer('user_id').primaryKey(), // Foreign key to users
+  email_mode: emailModeEnum('email_mode').notNull(),
+  email_types: jsonb('email_types').$type<NotificationType[]>().notNull(),
+  min_priority: casePriorityEnum('min_priority').notNull(), // Only cases of at least this priority are emailed
+  last_digest_at: timestamp('last_digest_at'), // Nullable, when the last digest was queued
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Outgoing email queue; failed sends are retried with a backoff until they are marked failed
+export const emailDeliveriesTable = pgTable('email_deliveries', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull(), // Foreign key to users
+  notification_id: integer('notification_id'), // Foreign key to notifications, null for digests
+  to_address: text('to_address').notNull(),
+  subject: text('subject').notNull(),
+  body: text('body').notNull(),
+  status: emailDeliveryStatusEnum('status').notNull().default('pending'),
+  attempts: integer('attempts').notNull().default(0),
+  next_attempt_at: timestamp('next_attempt_at').defaultNow().notNull(),
+  last_error: text('last_error'), // Nullable, the reason the last attempt failed
+  sent_at: timestamp('sent_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  index('email_deliveries_status_next_attempt_idx').on(table.status, table.next_attempt_at)
+]);
+
+// Outbound webhook endpoints, managed by admins
+export const webhookSubscriptionsTable = pgTable('webhook_subscriptions', {
+  id: serial('id').primaryKey(),
+  url: text('url').notNull(),
+  secret: text('secret').notNull(), // HMAC key for the payload signature
+  events: jsonb('events').$type<WebhookEvent[]>().notNull(),
+  active: boolean('active').notNull().default(true),
+  created_by: integer('created_by').notNull(), // Foreign key to users
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
 });
 
+// Webhook delivery queue and log; a redelivery is a new row pointing at the delivery it repeats
+export const webhookDeliveriesTable = pgTable('webhook_deliveries', {
+  id: serial('id').primaryKey(),
+  subscription_id: integer('subscription_id').notNull(), // Foreign key to webhook_subscriptions
+  event: webhookEventEnum('event').notNull(),
+  event_id: text('event_id').notNull(), // Shared by every delivery of the same event, for deduplication by receivers
+  payload: text('payload').notNull(), // The exact JSON body, so signatures can be reproduced
+  status: webhookDeliveryStatusEnum('status').notNull().default('pending'),
+  attempts: integer('attempts').notNull().default(0),
+  next_attempt_at: timestamp('next_attempt_at').defaultNow().notNull(),
+  response_status: integer('response_status'), // Nullable, HTTP status of the last attempt
+  last_error: text('last_error'), // Nullable, why the last attempt failed
+  delivered_at: timestamp('delivered_at'),
+  redelivery_of: integer('redelivery_of'), // Foreign key to webhook_deliveries, nullable
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  index('webhook_deliveries_status_next_attempt_idx').on(table.status, table.next_attempt_at),
+  index('webhook_deliveries_subscription_idx').on(table.subscription_id, table.created_at)
+]);
+
 // Define relations
 export const usersRelations = relations(usersTable, ({ many }) => ({
   createdCases: many(fraudCasesTable, { relationName: 'created_cases' }),
   assignedCases: many(fraudCasesTable, { relationName: 'assigned_cases' }),
+  closedCases: many(fraudCasesTable, { relationName: 'closed_cases' }),
   escalationsInitiated: many(caseEscalationsTable, { relationName: 'escalations_initiated' }),
-  escalationsReceived: many(caseEscalationsTable, { relationName: 'escalations_received' })
+  escalationsReceived: many(caseEscalationsTable, { relationName: 'escalations_received' }),
+  sessions: many(sessionsTable),
+  savedViews: many(savedViewsTable),
+  caseEvents: many(caseEventsTable),
+  notifications: many(notificationsTable, { relationName: 'notifications_received' }),
+  emailDeliveries: many(emailDeliveriesTable),
+  webhookSubscriptions: many(webhookSubscriptionsTable),
+  caseNotes: many(caseNotesTable),
+  noteMentions: many(caseNoteMentionsTable),
+  attachments: many(caseAttachmentsTable),
+  custodyEntries: many(custodyEntriesTable)
 }));
 
 export const fraudCasesRelations = relations(fraudCasesTable, ({ one, many }) => ({
@@ -62,7 +325,24 @@ export const fraudCasesRelations = relations(fraudCasesTable, ({ one, many }) =>
     references: [usersTable.id],
     relationName: 'assigned_cases'
   }),
-  escalations: many(caseEscalationsTable)
+  closer: one(usersTable, {
+    fields: [fraudCasesTable.closed_by],
+    references: [usersTable.id],
+    relationName: 'closed_cases'
+  }),
+  transactions: many(transactionsTable),
+  escalations: many(caseEscalationsTable),
+  events: many(caseEventsTable),
+  notes: many(caseNotesTable),
+  attachments: many(caseAttachmentsTable),
+  custodyEntries: many(custodyEntriesTable)
+}));
+
+export const transactionsRelations = relations(transactionsTable, ({ one }) => ({
+  fraudCase: one(fraudCasesTable, {
+    fields: [transactionsTable.case_id],
+    references: [fraudCasesTable.id]
+  })
 }));
 
 export const caseEscalationsRelations = relations(caseEscalationsTable, ({ one }) => ({
@@ -82,6 +362,164 @@ export const caseEscalationsRelations = relations(caseEscalationsTable, ({ one }
   })
 }));
 
+export const caseEventsRelations = relations(caseEventsTable, ({ one }) => ({
+  case: one(fraudCasesTable, {
+    fields: [caseEventsTable.case_id],
+    references: [fraudCasesTable.id]
+  }),
+  actor: one(usersTable, {
+    fields: [caseEventsTable.actor_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const caseNotesRelations = relations(caseNotesTable, ({ one, many }) => ({
+  case: one(fraudCasesTable, {
+    fields: [caseNotesTable.case_id],
+    references: [fraudCasesTable.id]
+  }),
+  author: one(usersTable, {
+    fields: [caseNotesTable.author_id],
+    references: [usersTable.id]
+  }),
+  parent: one(caseNotesTable, {
+    fields: [caseNotesTable.parent_id],
+    references: [caseNotesTable.id],
+    relationName: 'note_replies'
+  }),
+  replies: many(caseNotesTable, { relationName: 'note_replies' }),
+  mentions: many(caseNoteMentionsTable)
+}));
+
+export const caseNoteMentionsRelations = relations(caseNoteMentionsTable, ({ one }) => ({
+  note: one(caseNotesTable, {
+    fields: [caseNoteMentionsTable.note_id],
+    references: [caseNotesTable.id]
+  }),
+  user: one(usersTable, {
+    fields: [caseNoteMentionsTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const caseAttachmentsRelations = relations(caseAttachmentsTable, ({ one }) => ({
+  case: one(fraudCasesTable, {
+    fields: [caseAttachmentsTable.case_id],
+    references: [fraudCasesTable.id]
+  }),
+  uploader: one(usersTable, {
+    fields: [caseAttachmentsTable.uploaded_by],
+    references: [usersTable.id]
+  })
+}));
+
+export const custodyEntriesRelations = relations(custodyEntriesTable, ({ one }) => ({
+  case: one(fraudCasesTable, {
+    fields: [custodyEntriesTable.case_id],
+    references: [fraudCasesTable.id]
+  }),
+  actor: one(usersTable, {
+    fields: [custodyEntriesTable.actor_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const sessionsRelations = relations(sessionsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [sessionsTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const savedViewsRelations = relations(savedViewsTable, ({ one }) => ({
+  owner: one(usersTable, {
+    fields: [savedViewsTable.owner_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const defaultSavedViewsRelations = relations(defaultSavedViewsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [defaultSavedViewsTable.user_id],
+    references: [usersTable.id]
+  }),
+  view: one(savedViewsTable, {
+    fields: [defaultSavedViewsTable.view_id],
+    references: [savedViewsTable.id]
+  })
+}));
+
+export const notificationsRelations = relations(notificationsTable, ({ one }) => ({
+  recipient: one(usersTable, {
+    fields: [notificationsTable.user_id],
+    references: [usersTable.id],
+    relationName: 'notifications_received'
+  }),
+  case: one(fraudCasesTable, {
+    fields: [notificationsTable.case_id],
+    references: [fraudCasesTable.id]
+  }),
+  actor: one(usersTable, {
+    fields: [notificationsTable.actor_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const notificationPreferencesRelations = relations(notificationPreferencesTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [notificationPreferencesTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const emailDeliveriesRelations = relations(emailDeliveriesTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [emailDeliveriesTable.user_id],
+    references: [usersTable.id]
+  }),
+  notification: one(notificationsTable, {
+    fields: [emailDeliveriesTable.notification_id],
+    references: [notificationsTable.id]
+  })
+}));
+
+export const webhookSubscriptionsRelations = relations(webhookSubscriptionsTable, ({ one, many }) => ({
+  creator: one(usersTable, {
+    fields: [webhookSubscriptionsTable.created_by],
+    references: [usersTable.id]
+  }),
+  deliveries: many(webhookDeliveriesTable)
+}));
+
+export const webhookDeliveriesRelations = relations(webhookDeliveriesTable, ({ one }) => ({
+  subscription: one(webhookSubscriptionsTable, {
+    fields: [webhookDeliveriesTable.subscription_id],
+    references: [webhookSubscriptionsTable.id]
+  }),
+  original: one(webhookDeliveriesTable, {
+    fields: [webhookDeliveriesTable.redelivery_of],
+    references: [webhookDeliveriesTable.id]
+  })
+}));
+
+export const slaPoliciesRelations = relations(slaPoliciesTable, ({ one }) => ({
+  updatedBy: one(usersTable, {
+    fields: [slaPoliciesTable.updated_by],
+    references: [usersTable.id]
+  })
+}));
+
+export const autoAssignmentRulesRelations = relations(autoAssignmentRulesTable, ({ one }) => ({
+  updatedBy: one(usersTable, {
+    fields: [autoAssignmentRulesTable.updated_by],
+    references: [usersTable.id]
+  }),
+  lastAssignedTo: one(usersTable, {
+    fields: [autoAssignmentRulesTable.last_assigned_to],
+    references: [usersTable.id]
+  })
+}));
+
 // TypeScript types for the tables
 export type User = typeof usersTable.$inferSelect;
 export type NewUser = typeof usersTable.$inferInsert;
@@ -89,18 +527,95 @@ export type NewUser = typeof usersTable.$inferInsert;
 export type FraudCase = typeof fraudCasesTable.$inferSelect;
 export type NewFraudCase = typeof fraudCasesTable.$inferInsert;
 
+export type Transaction = typeof transactionsTable.$inferSelect;
+export type NewTransaction = typeof transactionsTable.$inferInsert;
+
 export type CaseEscalation = typeof caseEscalationsTable.$inferSelect;
 export type NewCaseEscalation = typeof caseEscalationsTable.$inferInsert;
 
+export type CaseEvent = typeof caseEventsTable.$inferSelect;
+export type NewCaseEvent = typeof caseEventsTable.$inferInsert;
+
+export type CaseNote = typeof caseNotesTable.$inferSelect;
+export type NewCaseNote = typeof caseNotesTable.$inferInsert;
+
+export type CaseNoteMention = typeof caseNoteMentionsTable.$inferSelect;
+export type NewCaseNoteMention = typeof caseNoteMentionsTable.$inferInsert;
+
+export type CaseAttachment = typeof caseAttachmentsTable.$inferSelect;
+export type NewCaseAttachment = typeof caseAttachmentsTable.$inferInsert;
+
+export type CustodyEntry = typeof custodyEntriesTable.$inferSelect;
+export type NewCustodyEntry = typeof custodyEntriesTable.$inferInsert;
+
+export type Session = typeof sessionsTable.$inferSelect;
+export type NewSession = typeof sessionsTable.$inferInsert;
+
+export type SavedView = typeof savedViewsTable.$inferSelect;
+export type NewSavedView = typeof savedViewsTable.$inferInsert;
+
+export type SlaPolicy = typeof slaPoliciesTable.$inferSelect;
+export type NewSlaPolicy = typeof slaPoliciesTable.$inferInsert;
+
+export type AutoAssignmentRule = typeof autoAssignmentRulesTable.$inferSelect;
+export type NewAutoAssignmentRule = typeof autoAssignmentRulesTable.$inferInsert;
+
+export type Notification = typeof notificationsTable.$inferSelect;
+export type NewNotification = typeof notificationsTable.$inferInsert;
+
+export type NotificationPreferences = typeof notificationPreferencesTable.$inferSelect;
+export type NewNotificationPreferences = typeof notificationPreferencesTable.$inferInsert;
+
+export type EmailDelivery = typeof emailDeliveriesTable.$inferSelect;
+export type NewEmailDelivery = typeof emailDeliveriesTable.$inferInsert;
+
+export type WebhookSubscription = typeof webhookSubscriptionsTable.$inferSelect;
+export type NewWebhookSubscription = typeof webhookSubscriptionsTable.$inferInsert;
+
+export type WebhookDelivery = typeof webhookDeliveriesTable.$inferSelect;
+export type NewWebhookDelivery = typeof webhookDeliveriesTable.$inferInsert;
+
 // Export all tables and relations for proper query building
 export const tables = {
   users: usersTable,
   fraudCases: fraudCasesTable,
-  caseEscalations: caseEscalationsTable
+  transactions: transactionsTable,
+  caseEscalations: caseEscalationsTable,
+  caseEvents: caseEventsTable,
+  caseNotes: caseNotesTable,
+  caseNoteMentions: caseNoteMentionsTable,
+  caseAttachments: caseAttachmentsTable,
+  custodyEntries: custodyEntriesTable,
+  sessions: sessionsTable,
+  savedViews: savedViewsTable,
+  defaultSavedViews: defaultSavedViewsTable,
+  slaPolicies: slaPoliciesTable,
+  autoAssignmentRules: autoAssignmentRulesTable,
+  notifications: notificationsTable,
+  notificationPreferences: notificationPreferencesTable,
+  emailDeliveries: emailDeliveriesTable,
+  webhookSubscriptions: webhookSubscriptionsTable,
+  webhookDeliveries: webhookDeliveriesTable
 };
 
 export const tableRelations = {
   usersRelations,
   fraudCasesRelations,
-  caseEscalationsRelations
+  transactionsRelations,
+  caseEscalationsRelations,
+  caseEventsRelations,
+  caseNotesRelations,
+  caseNoteMentionsRelations,
+  caseAttachmentsRelations,
+  custodyEntriesRelations,
+  sessionsRelations,
+  savedViewsRelations,
+  defaultSavedViewsRelations,
+  slaPoliciesRelations,
+  autoAssignmentRulesRelations,
+  notificationsRelations,
+  notificationPreferencesRelations,
+  emailDeliveriesRelations,
+  webhookSubscriptionsRelations,
+  webhookDeliveriesRelations
 };
\ No newline at end of file
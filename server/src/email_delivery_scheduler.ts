@@ -0,0 +1,37 @@
+import { processEmailOutbox, queueEmailDigests, type EmailOutboxResult } from './handlers/email_delivery';
+import { type MailTransport } from './helpers/mail_transport';
+
+export interface EmailDeliverySchedulerOptions {
+  intervalMs: number;
+  transport: MailTransport;
+  clock?: () => Date; // Injectable for tests
+  onRun?: (result: EmailOutboxResult) => void;
+}
+
+// Queues due digests and works through the email outbox every intervalMs. As with auto-escalation,
+// a run that is still going when the next one is due is not overlapped. Returns a stop function.
+export function startEmailDeliveryScheduler(options: EmailDeliverySchedulerOptions): () => void {
+  const clock = options.clock ?? (() => new Date());
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const now = clock();
+      await queueEmailDigests(now);
+      const result = await processEmailOutbox(now, options.transport);
+      if (result.sent + result.retrying + result.failed > 0) {
+        console.log(`Email delivery sent ${result.sent}, will retry ${result.retrying}, gave up on ${result.failed}`);
+      }
+      options.onRun?.(result);
+    } catch {
+      // Already logged by the email delivery handlers; the next tick tries again
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, options.intervalMs);
+  return () => clearInterval(timer);
+}
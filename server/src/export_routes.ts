@@ -0,0 +1,107 @@
+import { type IncomingMessage, type ServerResponse } from 'node:http';
+import { caseExportFormatSchema, caseFiltersSchema } from './schema';
+import { getSessionUser } from './handlers/get_session_user';
+import { hasPermission } from './handlers/check_permissions';
+import { caseExportFilename, streamCaseExport } from './handlers/export_cases';
+
+const sendError = (res: ServerResponse, status: number, message: string) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ error: message }));
+};
+
+// Waits for the socket to drain when the client reads slower than the export is produced
+const writeChunk = (res: ServerResponse, chunk: string) => new Promise<void>((resolve, reject) => {
+  if (res.write(chunk)) {
+    resolve();
+    return;
+  }
+  const onDrain = () => {
+    res.off('close', onClose);
+    resolve();
+  };
+  const onClose = () => {
+    res.off('drain', onDrain);
+    reject(new Error('Client disconnected during export'));
+  };
+  res.once('drain', onDrain);
+  res.once('close', onClose);
+});
+
+// Downloads streamed over plain HTTP, next to the tRPC API which has to buffer whole responses.
+// Returns false for requests that are not export routes so they fall through to tRPC.
+export async function handleExportRequest(req: IncomingMessage, res: ServerResponse): Promise<boolean> {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+
+  if (url.pathname !== '/exports/cases.csv') {
+    return false;
+  }
+
+  if (req.method !== 'GET') {
+    sendError(res, 405, 'Method not allowed');
+    return true;
+  }
+
+  const header = req.headers['authorization'];
+  const token = header?.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : null;
+  const user = token ? await getSessionUser(token) : null;
+
+  if (!user) {
+    sendError(res, 401, 'Authentication required');
+    return true;
+  }
+
+  if (!hasPermission(user.role, 'case', 'read')) {
+    sendError(res, 403, `Role ${user.role} is not allowed to read case`);
+    return true;
+  }
+
+  // Filters use the same shape as getFraudCases, JSON encoded in the `filters` query parameter
+  let filtersJson: unknown;
+  try {
+    filtersJson = JSON.parse(url.searchParams.get('filters') ?? '{}');
+  } catch {
+    sendError(res, 400, 'filters must be JSON');
+    return true;
+  }
+
+  const filters = caseFiltersSchema.safeParse(filtersJson);
+  const format = caseExportFormatSchema.safeParse(url.searchParams.get('format') ?? 'csv');
+
+  if (!filters.success || !format.success) {
+    sendError(res, 400, 'Invalid export parameters');
+    return true;
+  }
+
+  // The first chunk is read before the headers go out so that setup errors still get a proper status
+  const chunks = streamCaseExport(filters.data, user.id, format.data);
+  let first: IteratorResult<string>;
+  try {
+    first = await chunks.next();
+  } catch (error) {
+    console.error('Case export failed:', error);
+    sendError(res, 500, 'Export failed');
+    return true;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/csv; charset=utf-8',
+    'Content-Disposition': `attachment; filename="${caseExportFilename()}"`,
+    'Cache-Control': 'no-store'
+  });
+
+  try {
+    if (!first.done) {
+      await writeChunk(res, first.value);
+    }
+    for await (const chunk of chunks) {
+      await writeChunk(res, chunk);
+    }
+    res.end();
+  } catch (error) {
+    // Headers are already sent; cutting the connection marks the download as failed
+    console.error('Case export failed:', error);
+    res.destroy(error as Error);
+  }
+
+  return true;
+}
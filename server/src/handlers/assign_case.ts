@@ -1,38 +1,47 @@
-import { db } from '../db';
+import { db, type DbExecutor } from '../db';
 import { fraudCasesTable, usersTable } from '../db/schema';
-import { type FraudCase } from '../schema';
-import { eq, and } from 'drizzle-orm';
+import { type AutoAssignmentDecision, type FraudCase, type UserRole } from '../schema';
+import { resolveStatusChange } from './case_workflow';
+import { diffCaseFields, recordCaseEvent } from './record_case_event';
+import { resolveSlaMilestones } from './case_sla';
+import { createNotifications } from './create_notifications';
+import { queueWebhookEvent } from './webhook_delivery';
+import { publishCaseChange } from './case_change_feed';
+import { assertCaseVersion, lockCase, nextCaseVersion } from './case_version';
+import { eq } from 'drizzle-orm';
 
-export async function assignCase(caseId: number, assignedTo: number, assignedBy: number): Promise<FraudCase> {
-  try {
-    // Validate that the case exists
-    const existingCase = await db.select()
-      .from(fraudCasesTable)
-      .where(eq(fraudCasesTable.id, caseId))
-      .execute();
+// Automatic assignments of new cases have no user behind them and move the case with admin rights
+const SYSTEM_ROLE: UserRole = 'admin';
 
-    if (existingCase.length === 0) {
-      throw new Error('Case not found');
-    }
+// Assigns a case read with lockCase in `tx`. `autoAssignment` is the decision of the auto-assignment service,
+// recorded with the assignment in the case history. The caller publishes the change once `tx` commits.
+export async function applyAssignment(
+  tx: DbExecutor,
+  existingCase: FraudCase,
+  assignedTo: number,
+  assignedBy: number | null,
+  autoAssignment?: AutoAssignmentDecision
+): Promise<FraudCase> {
+  // Validate that the assignee exists and has proper role
+  const assignee = await tx.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, assignedTo))
+    .execute();
 
-    // Validate that the assignee exists and has proper role
-    const assignee = await db.select()
-      .from(usersTable)
-      .where(eq(usersTable.id, assignedTo))
-      .execute();
-
-    if (assignee.length === 0) {
-      throw new Error('Assignee user not found');
-    }
+  if (assignee.length === 0) {
+    throw new Error('Assignee user not found');
+  }
 
-    // Check if assignee has proper role (investigator or analyst can be assigned cases)
-    const validRoles = ['investigator', 'analyst'];
-    if (!validRoles.includes(assignee[0].role)) {
-      throw new Error('Assignee must have investigator or analyst role');
-    }
+  // Check if assignee has proper role (investigator or analyst can be assigned cases)
+  const validRoles = ['investigator', 'analyst'];
+  if (!validRoles.includes(assignee[0].role)) {
+    throw new Error('Assignee must have investigator or analyst role');
+  }
 
-    // Validate that the assigner exists and has authority (admin, investigator, or analyst)
-    const assigner = await db.select()
+  // Validate that the assigner exists; role authority is enforced by the case/assign permission
+  let role: UserRole = SYSTEM_ROLE;
+  if (assignedBy !== null) {
+    const assigner = await tx.select()
       .from(usersTable)
       .where(eq(usersTable.id, assignedBy))
       .execute();
@@ -41,26 +50,79 @@ export async function assignCase(caseId: number, assignedTo: number, assignedBy:
       throw new Error('Assigner user not found');
     }
 
-    // Check if assigner has authority to assign cases
-    const authorizedRoles = ['admin', 'investigator', 'analyst'];
-    if (!authorizedRoles.includes(assigner[0].role)) {
-      throw new Error('Assigner must have admin, investigator, or analyst role');
-    }
+    role = assigner[0].role;
+  }
 
-    // Update the case assignment and status
-    const result = await db.update(fraudCasesTable)
-      .set({
-        assigned_to: assignedTo,
-        status: 'in_progress',
-        updated_at: new Date()
-      })
-      .where(eq(fraudCasesTable.id, caseId))
-      .returning()
-      .execute();
+  // Assignment moves the case to in_progress, subject to the status workflow
+  const statusChange = resolveStatusChange(role, existingCase.status, 'in_progress');
+
+  // The status change that comes with an assignment does not count as the first action
+  const now = new Date();
+  const milestones = resolveSlaMilestones(existingCase, { ...statusChange, assigned_to: assignedTo }, now);
+
+  // Update the case assignment and status
+  const result = await tx.update(fraudCasesTable)
+    .set({
+      assigned_to: assignedTo,
+      ...statusChange,
+      ...milestones,
+      version: nextCaseVersion,
+      updated_at: now
+    })
+    .where(eq(fraudCasesTable.id, existingCase.id))
+    .returning()
+    .execute();
+
+  const updatedCase = result[0];
+
+  // History, notifications and webhooks are committed with the assignment or not at all
+  await recordCaseEvent({
+    case_id: existingCase.id,
+    actor_id: assignedBy,
+    event_type: 'assigned',
+    changes: diffCaseFields(existingCase, updatedCase),
+    metadata: autoAssignment ? { strategy: autoAssignment.strategy, reason: autoAssignment.reason } : null
+  }, tx);
+
+  await createNotifications([assignedTo], {
+    type: 'assigned',
+    case_id: existingCase.id,
+    actor_id: assignedBy,
+    message: `Case ${updatedCase.txid} was assigned to you`
+  }, tx);
+
+  await queueWebhookEvent('case.assigned', { case: updatedCase }, now, tx);
+
+  return updatedCase;
+}
+
+export async function assignCase(
+  caseId: number,
+  assignedTo: number,
+  assignedBy: number | null,
+  expectedVersion?: number
+): Promise<FraudCase> {
+  try {
+    const { previous, updatedCase } = await db.transaction(async (tx) => {
+      // Validate that the case exists, locking it until the assignment is recorded
+      const existingCase = await lockCase(tx, caseId);
+
+      if (!existingCase) {
+        throw new Error('Case not found');
+      }
+
+      assertCaseVersion(existingCase, expectedVersion);
+
+      const updatedCase = await applyAssignment(tx, existingCase, assignedTo, assignedBy);
+
+      return { previous: existingCase, updatedCase };
+    });
+
+    publishCaseChange({ type: 'assigned', actor_id: assignedBy, case: updatedCase, previous });
 
-    return result[0];
+    return updatedCase;
   } catch (error) {
     console.error('Case assignment failed:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
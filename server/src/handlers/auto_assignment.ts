@@ -0,0 +1,231 @@
+import { db, type DbExecutor } from '../db';
+import { autoAssignmentRulesTable, fraudCasesTable, transactionsTable, usersTable } from '../db/schema';
+import {
+  type AutoAssignmentDecision,
+  type AutoAssignmentRule,
+  type AutoAssignmentStrategy,
+  type CasePriority,
+  type CaseStatus,
+  type FraudCase,
+  type TransactionChannel,
+  type User,
+  type UserRole
+} from '../schema';
+import { applyAssignment } from './assign_case';
+import { assertCaseVersion, lockCase } from './case_version';
+import { publishCaseChange } from './case_change_feed';
+import { and, asc, count, eq, inArray, isNotNull } from 'drizzle-orm';
+
+// Roles cases can be assigned to, as enforced by assignCase
+const ASSIGNABLE_ROLES: UserRole[] = ['investigator', 'analyst'];
+
+// Cases counted towards a user's workload
+const WORKLOAD_STATUSES: CaseStatus[] = ['open', 'in_progress'];
+
+type AutoAssignmentSettings = Pick<AutoAssignmentRule, 'strategy' | 'auto_on_create'>;
+
+// Rules for priorities an admin has not configured; new cases wait for a human unless a rule says otherwise
+export const DEFAULT_AUTO_ASSIGNMENT_RULES: Record<CasePriority, AutoAssignmentSettings> = {
+  critical: { strategy: 'skill_based', auto_on_create: false },
+  high: { strategy: 'skill_based', auto_on_create: false },
+  medium: { strategy: 'least_loaded', auto_on_create: false },
+  low: { strategy: 'round_robin', auto_on_create: false }
+};
+
+// A user cases can be assigned to, with the number of open and in progress cases they hold
+export interface AssignmentCandidate {
+  user: Pick<User, 'id' | 'username' | 'skills'>;
+  workload: number;
+}
+
+// Effective rule of every priority, falling back to the defaults
+export async function loadAutoAssignmentRules(): Promise<Record<CasePriority, AutoAssignmentRule>> {
+  const rows = await db.select()
+    .from(autoAssignmentRulesTable)
+    .execute();
+
+  const rules = {} as Record<CasePriority, AutoAssignmentRule>;
+  for (const priority of Object.keys(DEFAULT_AUTO_ASSIGNMENT_RULES) as CasePriority[]) {
+    const row = rows.find(rule => rule.priority === priority);
+    rules[priority] = row ?? {
+      priority,
+      ...DEFAULT_AUTO_ASSIGNMENT_RULES[priority],
+      last_assigned_to: null,
+      updated_by: null,
+      updated_at: null
+    };
+  }
+
+  return rules;
+}
+
+// Reads the rule of a priority and holds its row until the transaction ends, so concurrent assignments
+// take turns on the round-robin rotation. A priority still on its default gets its row created first.
+async function lockAutoAssignmentRule(tx: DbExecutor, priority: CasePriority): Promise<AutoAssignmentRule> {
+  await tx.insert(autoAssignmentRulesTable)
+    .values({ priority, ...DEFAULT_AUTO_ASSIGNMENT_RULES[priority] })
+    .onConflictDoNothing()
+    .execute();
+
+  const result = await tx.select()
+    .from(autoAssignmentRulesTable)
+    .where(eq(autoAssignmentRulesTable.priority, priority))
+    .for('update')
+    .execute();
+
+  return result[0];
+}
+
+// Investigators and analysts ordered by ID, with their current workload
+async function loadCandidates(executor: DbExecutor): Promise<AssignmentCandidate[]> {
+  const users = await executor.select()
+    .from(usersTable)
+    .where(inArray(usersTable.role, ASSIGNABLE_ROLES))
+    .orderBy(asc(usersTable.id))
+    .execute();
+
+  const workloads = await executor.select({ user_id: fraudCasesTable.assigned_to, cases: count() })
+    .from(fraudCasesTable)
+    .where(and(isNotNull(fraudCasesTable.assigned_to), inArray(fraudCasesTable.status, WORKLOAD_STATUSES)))
+    .groupBy(fraudCasesTable.assigned_to)
+    .execute();
+
+  return users.map(user => ({
+    user: { id: user.id, username: user.username, skills: user.skills },
+    workload: workloads.find(workload => workload.user_id === user.id)?.cases ?? 0
+  }));
+}
+
+const describeWorkload = (workload: number) => `${workload} open case${workload === 1 ? '' : 's'}`;
+
+// Fewest open cases wins; ties go to the candidate listed first
+const pickLeastLoaded = (candidates: AssignmentCandidate[]): AssignmentCandidate =>
+  candidates.reduce((best, candidate) => candidate.workload < best.workload ? candidate : best);
+
+// Picks the assignee for a case. Candidates must be ordered by user ID, which is the round-robin order.
+export function chooseAssignee(
+  strategy: AutoAssignmentStrategy,
+  candidates: AssignmentCandidate[],
+  caseChannels: TransactionChannel[],
+  lastAssignedTo: number | null
+): AutoAssignmentDecision {
+  if (candidates.length === 0) {
+    throw new Error('No investigators or analysts to assign the case to');
+  }
+
+  const decide = (candidate: AssignmentCandidate, reason: string): AutoAssignmentDecision =>
+    ({ strategy, assigned_to: candidate.user.id, reason });
+
+  switch (strategy) {
+    case 'round_robin': {
+      // Continue after the last user the rotation picked, wrapping around to the start
+      const next = lastAssignedTo === null
+        ? candidates[0]
+        : candidates.find(candidate => candidate.user.id > lastAssignedTo) ?? candidates[0];
+      const previous = candidates.find(candidate => candidate.user.id === lastAssignedTo);
+      return decide(next, previous
+        ? `${next.user.username} is next in the round-robin rotation after ${previous.user.username}`
+        : `${next.user.username} is first in the round-robin rotation`);
+    }
+    case 'least_loaded': {
+      const assignee = pickLeastLoaded(candidates);
+      return decide(assignee, `${assignee.user.username} has the lightest workload with ${describeWorkload(assignee.workload)}`);
+    }
+    case 'skill_based': {
+      // Prefer whoever covers most of the case's channels, then the lightest workload among them
+      const coverage = candidates.map(candidate => ({
+        candidate,
+        covered: caseChannels.filter(channel => candidate.user.skills.includes(channel))
+      }));
+      const bestCoverage = Math.max(...coverage.map(entry => entry.covered.length));
+
+      if (bestCoverage === 0) {
+        const assignee = pickLeastLoaded(candidates);
+        const missing = caseChannels.length === 0
+          ? 'The case has no transaction channels to match'
+          : `Nobody has skills for ${caseChannels.join(', ')}`;
+        return decide(assignee, `${missing}; ${assignee.user.username} has the lightest workload with ${describeWorkload(assignee.workload)}`);
+      }
+
+      const matching = coverage.filter(entry => entry.covered.length === bestCoverage);
+      const assignee = pickLeastLoaded(matching.map(entry => entry.candidate));
+      const covered = matching.find(entry => entry.candidate === assignee)!.covered;
+      return decide(assignee, `${assignee.user.username} covers ${covered.join(', ')}` +
+        (covered.length < caseChannels.length ? ` of ${caseChannels.join(', ')}` : '') +
+        ` and has the lightest workload of the ${matching.length} matching user${matching.length === 1 ? '' : 's'} with ${describeWorkload(assignee.workload)}`);
+    }
+  }
+}
+
+// Assigns an unassigned case following the rule of its priority. `assignedBy` is null when the
+// system assigns a new case on its own. Returns the assigned case and the decision behind it.
+export async function autoAssignCase(
+  caseId: number,
+  assignedBy: number | null,
+  expectedVersion?: number
+): Promise<{ case: FraudCase; decision: AutoAssignmentDecision }> {
+  try {
+    const { previous, assigned, decision } = await db.transaction(async (tx) => {
+      // Validate that the case exists, locking it until the assignment is recorded
+      const fraudCase = await lockCase(tx, caseId);
+
+      if (!fraudCase) {
+        throw new Error('Case not found');
+      }
+
+      assertCaseVersion(fraudCase, expectedVersion);
+
+      if (fraudCase.assigned_to !== null) {
+        throw new Error('Case is already assigned');
+      }
+
+      // The rotation pointer is read and moved under the rule's lock, so two cases never get the same turn
+      const rule = await lockAutoAssignmentRule(tx, fraudCase.priority);
+
+      const transactions = await tx.select({ channel: transactionsTable.channel })
+        .from(transactionsTable)
+        .where(eq(transactionsTable.case_id, caseId))
+        .execute();
+
+      const channels = [...new Set(transactions.map(transaction => transaction.channel))]
+        .filter((channel): channel is TransactionChannel => channel !== null);
+
+      const decision = chooseAssignee(rule.strategy, await loadCandidates(tx), channels, rule.last_assigned_to);
+
+      const assigned = await applyAssignment(tx, fraudCase, decision.assigned_to, assignedBy, decision);
+
+      if (decision.strategy === 'round_robin') {
+        await tx.update(autoAssignmentRulesTable)
+          .set({ last_assigned_to: decision.assigned_to })
+          .where(eq(autoAssignmentRulesTable.priority, fraudCase.priority))
+          .execute();
+      }
+
+      return { previous: fraudCase, assigned, decision };
+    });
+
+    publishCaseChange({ type: 'assigned', actor_id: assignedBy, case: assigned, previous });
+
+    return { case: assigned, decision };
+  } catch (error) {
+    console.error('Automatic case assignment failed:', error);
+    throw error;
+  }
+}
+
+// Assigns a newly created case when the rule of its priority says so. The case already exists at this
+// point, so a failed assignment is logged and leaves it unassigned for a human to pick up.
+export async function autoAssignNewCase(fraudCase: FraudCase): Promise<FraudCase> {
+  try {
+    const rule = (await loadAutoAssignmentRules())[fraudCase.priority];
+    if (!rule.auto_on_create) {
+      return fraudCase;
+    }
+
+    const result = await autoAssignCase(fraudCase.id, null, fraudCase.version);
+    return result.case;
+  } catch (error) {
+    console.error('Auto-assignment of new case failed:', error);
+    return fraudCase;
+  }
+}
@@ -0,0 +1,170 @@
+import { db } from '../db';
+import { caseEscalationsTable, caseNotesTable, fraudCasesTable, usersTable } from '../db/schema';
+import { type CasePriority, type CaseStatus, type SlaTarget } from '../schema';
+import { escalateCase } from './escalate_case';
+import { slaTargetBreachedCondition } from './case_sla';
+import { and, asc, eq, gt, inArray, isNull, lte, notExists, type SQL } from 'drizzle-orm';
+
+const HOUR = 60;
+const DAY = 24 * HOUR;
+
+// Cases escalated per rule and run; the rest are picked up by the next run
+export const AUTO_ESCALATION_BATCH_SIZE = 100;
+
+export interface AutoEscalationRule {
+  key: string; // Stored on the escalation; a rule escalates a case at most once
+  reason: string; // Recorded as the escalation reason
+  match: {
+    statuses: CaseStatus[];
+    priorities?: CasePriority[];
+    unassigned?: boolean;
+    age_minutes?: number; // Created at least this long ago
+    idle_minutes?: number; // Not updated and no notes added for this long
+    sla_breached?: SlaTarget;
+  };
+  action: {
+    status?: 'escalated';
+    raise_priority?: boolean; // One level up, up to critical
+    assign_on_call?: boolean; // Hand the case to the on-call user, when one is configured
+  };
+}
+
+// Declarative escalation rules, evaluated in order by runAutoEscalation
+export const AUTO_ESCALATION_RULES: AutoEscalationRule[] = [
+  {
+    key: 'critical_unassigned',
+    reason: 'Critical case left unassigned for over an hour',
+    match: { statuses: ['open'], priorities: ['critical'], unassigned: true, age_minutes: HOUR },
+    action: { status: 'escalated', assign_on_call: true }
+  },
+  {
+    key: 'stale_in_progress',
+    reason: 'No activity on the case for 3 days',
+    match: { statuses: ['in_progress'], priorities: ['low', 'medium', 'high'], idle_minutes: 3 * DAY },
+    action: { raise_priority: true }
+  },
+  {
+    key: 'resolution_sla_breached',
+    reason: 'Case missed its resolution SLA',
+    match: { statuses: ['open', 'in_progress'], sla_breached: 'resolution' },
+    action: { status: 'escalated', raise_priority: true }
+  }
+];
+
+const PRIORITY_ORDER: CasePriority[] = ['low', 'medium', 'high', 'critical'];
+
+const raisePriority = (priority: CasePriority): CasePriority =>
+  PRIORITY_ORDER[Math.min(PRIORITY_ORDER.indexOf(priority) + 1, PRIORITY_ORDER.length - 1)];
+
+const minutesBefore = (now: Date, minutes: number) => new Date(now.getTime() - minutes * 60_000);
+
+export interface AutoEscalationOptions {
+  rules?: AutoEscalationRule[];
+  onCallUsername?: string; // Receives cases of rules that assign on call
+}
+
+export interface AutoEscalationOutcome {
+  case_id: number;
+  rule: string;
+  escalation_id: number | null;
+  error: string | null; // Set when the case could not be escalated; it is retried on the next run
+}
+
+function ruleConditions(rule: AutoEscalationRule, now: Date): SQL[] {
+  const { match } = rule;
+  const conditions: SQL[] = [inArray(fraudCasesTable.status, match.statuses)];
+
+  if (match.priorities) {
+    conditions.push(inArray(fraudCasesTable.priority, match.priorities));
+  }
+
+  if (match.unassigned) {
+    conditions.push(isNull(fraudCasesTable.assigned_to));
+  }
+
+  if (match.age_minutes !== undefined) {
+    conditions.push(lte(fraudCasesTable.created_at, minutesBefore(now, match.age_minutes)));
+  }
+
+  if (match.idle_minutes !== undefined) {
+    const since = minutesBefore(now, match.idle_minutes);
+    conditions.push(lte(fraudCasesTable.updated_at, since));
+    conditions.push(notExists(db.select({ id: caseNotesTable.id })
+      .from(caseNotesTable)
+      .where(and(eq(caseNotesTable.case_id, fraudCasesTable.id), gt(caseNotesTable.created_at, since)))));
+  }
+
+  if (match.sla_breached) {
+    conditions.push(slaTargetBreachedCondition(match.sla_breached, now));
+  }
+
+  // Idempotent across runs: skip cases this rule already escalated
+  conditions.push(notExists(db.select({ id: caseEscalationsTable.id })
+    .from(caseEscalationsTable)
+    .where(and(eq(caseEscalationsTable.case_id, fraudCasesTable.id), eq(caseEscalationsTable.rule, rule.key)))));
+
+  return conditions;
+}
+
+// Evaluates every rule as of `now` and escalates the matching cases through escalateCase, as the system
+export async function runAutoEscalation(now: Date = new Date(), options: AutoEscalationOptions = {}): Promise<AutoEscalationOutcome[]> {
+  try {
+    const rules = options.rules ?? AUTO_ESCALATION_RULES;
+    const outcomes: AutoEscalationOutcome[] = [];
+
+    let onCallUserId: number | undefined;
+    if (options.onCallUsername) {
+      const onCall = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.username, options.onCallUsername))
+        .execute();
+
+      if (onCall.length === 0) {
+        console.error(`On-call user ${options.onCallUsername} not found; escalating without reassigning`);
+      } else if (onCall[0].role !== 'investigator' && onCall[0].role !== 'analyst') {
+        console.error(`On-call user ${options.onCallUsername} cannot be assigned cases; escalating without reassigning`);
+      } else {
+        onCallUserId = onCall[0].id;
+      }
+    }
+
+    // Rules run one after another, so a later rule sees the escalations of an earlier one
+    for (const rule of rules) {
+      const cases = await db.select()
+        .from(fraudCasesTable)
+        .where(and(...ruleConditions(rule, now)))
+        .orderBy(asc(fraudCasesTable.created_at), asc(fraudCasesTable.id))
+        .limit(AUTO_ESCALATION_BATCH_SIZE)
+        .execute();
+
+      for (const fraudCase of cases) {
+        try {
+          const { escalation } = await escalateCase({
+            case_id: fraudCase.id,
+            escalated_by: null,
+            escalated_to: rule.action.assign_on_call ? onCallUserId : undefined,
+            new_status: rule.action.status,
+            new_priority: rule.action.raise_priority ? raisePriority(fraudCase.priority) : fraudCase.priority,
+            reason: rule.reason,
+            rule: rule.key
+          });
+          outcomes.push({ case_id: fraudCase.id, rule: rule.key, escalation_id: escalation.id, error: null });
+        } catch (error) {
+          // One failing case must not hold up the rest
+          console.error(`Auto-escalation of case ${fraudCase.id} by rule ${rule.key} failed:`, error);
+          outcomes.push({
+            case_id: fraudCase.id,
+            rule: rule.key,
+            escalation_id: null,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      }
+    }
+
+    return outcomes;
+  } catch (error) {
+    console.error('Auto-escalation run failed:', error);
+    throw error;
+  }
+}
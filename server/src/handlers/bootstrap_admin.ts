@@ -0,0 +1,51 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type User } from '../schema';
+import { hashPassword, toPublicUser } from '../helpers/auth';
+import { eq } from 'drizzle-orm';
+
+// Ensures an admin account with a password exists so the first login is possible.
+// Existing passwords are never overwritten.
+export const bootstrapAdmin = async (username: string, email: string, password: string): Promise<User> => {
+  try {
+    const existing = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.username, username))
+      .execute();
+
+    if (existing.length > 0) {
+      const user = existing[0];
+
+      if (user.role !== 'admin') {
+        throw new Error(`User ${username} exists but is not an admin`);
+      }
+
+      if (user.password_hash) {
+        return toPublicUser(user);
+      }
+
+      const updated = await db.update(usersTable)
+        .set({ password_hash: await hashPassword(password), updated_at: new Date() })
+        .where(eq(usersTable.id, user.id))
+        .returning()
+        .execute();
+
+      return toPublicUser(updated[0]);
+    }
+
+    const result = await db.insert(usersTable)
+      .values({
+        username,
+        email,
+        role: 'admin',
+        password_hash: await hashPassword(password)
+      })
+      .returning()
+      .execute();
+
+    return toPublicUser(result[0]);
+  } catch (error) {
+    console.error('Admin bootstrap failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,119 @@
+import { db } from '../db';
+import { fraudCasesTable, usersTable } from '../db/schema';
+import {
+  type BulkAssignInput,
+  type BulkCaseActionResult,
+  type BulkCaseResult,
+  type BulkEscalateInput,
+  type BulkUpdateStatusInput,
+  type FraudCase
+} from '../schema';
+import { canViewCase } from './check_permissions';
+import { assignCase } from './assign_case';
+import { escalateCase } from './escalate_case';
+import { updateFraudCase } from './update_fraud_case';
+import { closeCase } from './close_case';
+import { getConflictingCase } from './case_version';
+import { eq, inArray } from 'drizzle-orm';
+
+type BulkCaseTarget = BulkAssignInput['cases'][number];
+
+// Applies the single-case action to each case in turn. Every case is changed in its own transaction
+// and gets its own history entry, so a case that fails (a conflict, a transition it does not allow)
+// does not hold back the others; the result reports the outcome case by case.
+async function runBulkCaseAction(
+  userId: number,
+  targets: BulkCaseTarget[],
+  action: (target: BulkCaseTarget) => Promise<FraudCase>
+): Promise<BulkCaseActionResult> {
+  const users = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  if (users.length === 0) {
+    throw new Error(`User with ID ${userId} not found`);
+  }
+
+  const caseIds = targets.map(target => target.id);
+  if (new Set(caseIds).size !== caseIds.length) {
+    throw new Error('Each case can only be picked once');
+  }
+
+  const cases = await db.select()
+    .from(fraudCasesTable)
+    .where(inArray(fraudCasesTable.id, caseIds))
+    .execute();
+
+  const results: BulkCaseResult[] = [];
+  for (const target of targets) {
+    // Cases the user cannot see are reported like missing ones
+    const fraudCase = cases.find(c => c.id === target.id);
+    if (!fraudCase || !canViewCase(users[0], fraudCase)) {
+      results.push({ case_id: target.id, success: false, error: 'Case not found', conflict: false, case: null });
+      continue;
+    }
+
+    try {
+      const updated = await action(target);
+      results.push({ case_id: target.id, success: true, error: null, conflict: false, case: updated });
+    } catch (error) {
+      results.push({
+        case_id: target.id,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        conflict: getConflictingCase(error) !== null,
+        case: null
+      });
+    }
+  }
+
+  const succeeded = results.filter(result => result.success).length;
+  return { succeeded, failed: results.length - succeeded, results };
+}
+
+export async function bulkAssign(input: BulkAssignInput): Promise<BulkCaseActionResult> {
+  try {
+    return await runBulkCaseAction(input.assigned_by, input.cases, target =>
+      assignCase(target.id, input.assigned_to, input.assigned_by, target.expected_version));
+  } catch (error) {
+    console.error('Bulk assignment failed:', error);
+    throw error;
+  }
+}
+
+// Closing goes through closeCase so the outcome is recorded; every other status through updateFraudCase
+export async function bulkUpdateStatus(input: BulkUpdateStatusInput): Promise<BulkCaseActionResult> {
+  try {
+    return await runBulkCaseAction(input.updated_by, input.cases, target => input.status === 'closed'
+      ? closeCase(target.id, input.updated_by, {
+        disposition: input.disposition,
+        resolution_note: input.status_note,
+        recovered_amount: input.recovered_amount
+      }, target.expected_version)
+      : updateFraudCase({
+        id: target.id,
+        status: input.status,
+        status_note: input.status_note,
+        disposition: input.disposition,
+        recovered_amount: input.recovered_amount,
+        expected_version: target.expected_version
+      }, input.updated_by));
+  } catch (error) {
+    console.error('Bulk status update failed:', error);
+    throw error;
+  }
+}
+
+export async function bulkEscalate(input: BulkEscalateInput): Promise<BulkCaseActionResult> {
+  try {
+    const { cases, ...escalation } = input;
+    return await runBulkCaseAction(input.escalated_by, cases, async target => {
+      const result = await escalateCase({ ...escalation, case_id: target.id, expected_version: target.expected_version });
+      return result.case;
+    });
+  } catch (error) {
+    console.error('Bulk escalation failed:', error);
+    throw error;
+  }
+}
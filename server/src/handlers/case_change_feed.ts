@@ -0,0 +1,51 @@
+import { EventEmitter, on } from 'node:events';
+import { type CaseChange, type CaseEventType, type FraudCase, type User } from '../schema';
+import { canViewCase } from './check_permissions';
+
+export type CaseFeedTopic = 'created' | 'changed';
+
+interface PublishedCaseChange {
+  type: CaseEventType;
+  actor_id: number | null;
+  case: FraudCase;
+  previous: Pick<FraudCase, 'assigned_to' | 'created_by'> | null; // Null for new cases
+}
+
+// In-process fan-out of case changes to open subscriptions. Only changes made through this server
+// process are seen, which is enough for the single-process deployment.
+const feed = new EventEmitter();
+feed.setMaxListeners(0); // One listener per open subscription
+
+// Called by the handlers once a case change is stored. New cases go to `created` subscribers and
+// every other change to `changed` subscribers.
+export function publishCaseChange(change: PublishedCaseChange): void {
+  feed.emit(change.type === 'created' ? 'created' : 'changed', change);
+}
+
+// Yields the changes the user may see, applying the same visibility rule as getFraudCases. Users who
+// lose sight of a case through the change still hear of it, without the case itself, so their list
+// can drop it. Ends when the signal aborts.
+export async function* subscribeToCaseChanges(
+  user: Pick<User, 'id' | 'role'>,
+  topic: CaseFeedTopic,
+  signal?: AbortSignal
+): AsyncGenerator<CaseChange> {
+  try {
+    for await (const [change] of on(feed, topic, { signal }) as AsyncIterableIterator<[PublishedCaseChange]>) {
+      const visible = canViewCase(user, change.case);
+      if (!visible && !(change.previous && canViewCase(user, change.previous))) {
+        continue;
+      }
+
+      yield {
+        type: change.type,
+        case_id: change.case.id,
+        actor_id: change.actor_id,
+        case: visible ? change.case : null
+      };
+    }
+  } catch (error) {
+    if (signal?.aborted) return;
+    throw error;
+  }
+}
@@ -0,0 +1,119 @@
+import { db } from '../db';
+import { fraudCasesTable, slaPoliciesTable } from '../db/schema';
+import { type CasePriority, type CaseStatus, type FraudCase, type SlaPolicy, type SlaTarget } from '../schema';
+import { OUTCOME_STATUSES } from './case_workflow';
+import { and, gt, isNotNull, isNull, lt, or, type SQL } from 'drizzle-orm';
+
+const HOUR = 60;
+const DAY = 24 * HOUR;
+
+type SlaPolicyTargets = Pick<SlaPolicy, 'assignment_minutes' | 'first_action_minutes' | 'resolution_minutes'>;
+
+// Targets for priorities an admin has not configured, in minutes from case creation
+export const DEFAULT_SLA_POLICIES: Record<CasePriority, SlaPolicyTargets> = {
+  critical: { assignment_minutes: 15, first_action_minutes: HOUR, resolution_minutes: DAY },
+  high: { assignment_minutes: HOUR, first_action_minutes: 4 * HOUR, resolution_minutes: 3 * DAY },
+  medium: { assignment_minutes: 4 * HOUR, first_action_minutes: DAY, resolution_minutes: 7 * DAY },
+  low: { assignment_minutes: DAY, first_action_minutes: 3 * DAY, resolution_minutes: 14 * DAY }
+};
+
+export type SlaDueDates = Pick<FraudCase, 'assignment_due_at' | 'first_action_due_at' | 'resolution_due_at'>;
+export type SlaMilestones = Pick<FraudCase, 'first_assigned_at' | 'first_action_at' | 'resolved_at'>;
+
+// The policy setting each target, and the case columns holding its deadline and when it was met
+export const SLA_TARGETS: Record<SlaTarget, {
+  minutes: keyof SlaPolicyTargets;
+  due: keyof SlaDueDates;
+  met: keyof SlaMilestones;
+}> = {
+  assignment: { minutes: 'assignment_minutes', due: 'assignment_due_at', met: 'first_assigned_at' },
+  first_action: { minutes: 'first_action_minutes', due: 'first_action_due_at', met: 'first_action_at' },
+  resolution: { minutes: 'resolution_minutes', due: 'resolution_due_at', met: 'resolved_at' }
+};
+
+// Effective policy of every priority, falling back to the defaults
+export async function loadSlaPolicies(): Promise<Record<CasePriority, SlaPolicy>> {
+  const rows = await db.select()
+    .from(slaPoliciesTable)
+    .execute();
+
+  const policies = {} as Record<CasePriority, SlaPolicy>;
+  for (const priority of Object.keys(DEFAULT_SLA_POLICIES) as CasePriority[]) {
+    const row = rows.find(policy => policy.priority === priority);
+    policies[priority] = row ?? { priority, ...DEFAULT_SLA_POLICIES[priority], updated_by: null, updated_at: null };
+  }
+
+  return policies;
+}
+
+export async function getSlaPolicy(priority: CasePriority): Promise<SlaPolicy> {
+  const policies = await loadSlaPolicies();
+  return policies[priority];
+}
+
+export function computeSlaDueDates(createdAt: Date, policy: SlaPolicyTargets): SlaDueDates {
+  const dueAt = (minutes: number | null) => minutes === null ? null : new Date(createdAt.getTime() + minutes * 60_000);
+
+  return {
+    assignment_due_at: dueAt(policy.assignment_minutes),
+    first_action_due_at: dueAt(policy.first_action_minutes),
+    resolution_due_at: dueAt(policy.resolution_minutes)
+  };
+}
+
+// Returns the SLA milestones a change to the case reaches. The first assignment and first action are
+// stamped once; resolution is stamped on entering resolved or closed and cleared when the case is reopened.
+export function resolveSlaMilestones(
+  fraudCase: FraudCase,
+  change: { status?: CaseStatus; assigned_to?: number | null; action?: boolean },
+  now: Date = new Date()
+): Partial<SlaMilestones> {
+  const milestones: Partial<SlaMilestones> = {};
+
+  if (fraudCase.first_assigned_at === null && change.assigned_to !== undefined && change.assigned_to !== null) {
+    milestones.first_assigned_at = now;
+  }
+
+  if (fraudCase.first_action_at === null && change.action) {
+    milestones.first_action_at = now;
+  }
+
+  if (change.status !== undefined) {
+    const wasResolved = OUTCOME_STATUSES.includes(fraudCase.status);
+    const isResolved = OUTCOME_STATUSES.includes(change.status);
+    if (isResolved && !wasResolved) {
+      milestones.resolved_at = now;
+    } else if (!isResolved && wasResolved) {
+      milestones.resolved_at = null;
+    }
+  }
+
+  return milestones;
+}
+
+// Targets the case has missed: met after the deadline, or still unmet with the deadline passed
+export function getSlaBreaches(fraudCase: FraudCase, now: Date = new Date()): SlaTarget[] {
+  return (Object.keys(SLA_TARGETS) as SlaTarget[]).filter(target => {
+    const due = fraudCase[SLA_TARGETS[target].due];
+    const met = fraudCase[SLA_TARGETS[target].met];
+    return due !== null && (met ?? now) > due;
+  });
+}
+
+// SQL counterpart of getSlaBreaches for a single target; never null, so it can also be negated
+export function slaTargetBreachedCondition(target: SlaTarget, now: Date = new Date()): SQL {
+  const due = fraudCasesTable[SLA_TARGETS[target].due];
+  const met = fraudCasesTable[SLA_TARGETS[target].met];
+
+  return and(
+    isNotNull(due),
+    or(
+      and(isNull(met), lt(due, now)),
+      and(isNotNull(met), gt(met, due))
+    )
+  )!;
+}
+
+export function slaBreachedCondition(now: Date = new Date()): SQL {
+  return or(...(Object.keys(SLA_TARGETS) as SlaTarget[]).map(target => slaTargetBreachedCondition(target, now)))!;
+}
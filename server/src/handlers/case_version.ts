@@ -0,0 +1,56 @@
+import { TRPCError } from '@trpc/server';
+import { type DbExecutor } from '../db';
+import { fraudCasesTable } from '../db/schema';
+import { type FraudCase } from '../schema';
+import { eq, sql } from 'drizzle-orm';
+
+// Concurrency for cases. Every change bumps the case version, and callers send back the version
+// they last saw. When someone else changed the case in between, the change fails with CONFLICT and
+// the current case, so the client can show what changed and retry on top of it. Internal callers
+// such as auto-escalation pass no version and always write.
+//
+// Changes run in a transaction that reads the case with lockCase first, so concurrent changes to
+// one case are applied one after the other and each sees the version the previous one left.
+
+interface CaseConflictCause extends Error {
+  current_case: FraudCase;
+}
+
+// Set alongside every case change
+export const nextCaseVersion = sql<number>`${fraudCasesTable.version} + 1`;
+
+export function caseConflictError(current: FraudCase): TRPCError {
+  const cause = Object.assign(new Error(`Case ${current.id} is at version ${current.version}`), { current_case: current });
+  return new TRPCError({
+    code: 'CONFLICT',
+    message: `Case ${current.txid} was changed by someone else in the meantime`,
+    cause
+  });
+}
+
+// Reads the case and holds its row until the transaction ends. NO KEY UPDATE still lets other
+// transactions add rows that reference the case, such as notes.
+export async function lockCase(tx: DbExecutor, caseId: number): Promise<FraudCase | null> {
+  const result = await tx.select()
+    .from(fraudCasesTable)
+    .where(eq(fraudCasesTable.id, caseId))
+    .for('no key update')
+    .execute();
+
+  return result[0] ?? null;
+}
+
+// Checked against the case as read under lockCase, so no one can change it before the write
+export function assertCaseVersion(current: FraudCase, expectedVersion: number | undefined): void {
+  if (expectedVersion !== undefined && current.version !== expectedVersion) {
+    throw caseConflictError(current);
+  }
+}
+
+// The current case carried by a CONFLICT error, for the error formatter
+export function getConflictingCase(error: unknown): FraudCase | null {
+  if (!(error instanceof TRPCError) || error.code !== 'CONFLICT') {
+    return null;
+  }
+  return (error.cause as CaseConflictCause | undefined)?.current_case ?? null;
+}
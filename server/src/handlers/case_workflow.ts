@@ -0,0 +1,118 @@
+import {
+  type CaseStatus,
+  type CaseStatusTransition,
+  type AllowedTransition,
+  type UserRole,
+  type FraudCase,
+  type CaseOutcomeInput
+} from '../schema';
+
+// Declarative case status workflow. Every handler that changes a case status goes through
+// `resolveStatusChange`, so a transition that is not listed here cannot happen.
+export const CASE_STATUS_TRANSITIONS: CaseStatusTransition[] = [
+  { from: 'open', to: 'in_progress', roles: ['admin', 'investigator', 'analyst'], requires_note: false },
+  { from: 'open', to: 'escalated', roles: ['admin', 'investigator', 'analyst'], requires_note: false },
+  { from: 'open', to: 'resolved', roles: ['admin', 'investigator'], requires_note: true }, // e.g. false positive at triage
+  { from: 'in_progress', to: 'open', roles: ['admin'], requires_note: false }, // Return to the queue
+  { from: 'in_progress', to: 'escalated', roles: ['admin', 'investigator', 'analyst'], requires_note: false },
+  { from: 'in_progress', to: 'resolved', roles: ['admin', 'investigator', 'analyst'], requires_note: true },
+  { from: 'escalated', to: 'in_progress', roles: ['admin', 'investigator'], requires_note: false },
+  { from: 'escalated', to: 'resolved', roles: ['admin', 'investigator'], requires_note: true },
+  { from: 'resolved', to: 'in_progress', roles: ['admin', 'investigator'], requires_note: true }, // Reopen
+  { from: 'resolved', to: 'closed', roles: ['admin', 'investigator', 'analyst'], requires_note: false },
+  { from: 'closed', to: 'in_progress', roles: ['admin'], requires_note: true } // Reopen a closed case
+];
+
+export function findTransition(from: CaseStatus, to: CaseStatus): CaseStatusTransition | undefined {
+  return CASE_STATUS_TRANSITIONS.find(transition => transition.from === from && transition.to === to);
+}
+
+export function getTransitionsForRole(role: UserRole, from: CaseStatus): AllowedTransition[] {
+  return CASE_STATUS_TRANSITIONS
+    .filter(transition => transition.from === from && transition.roles.includes(role))
+    .map(({ to, requires_note }) => ({ to, requires_note }));
+}
+
+// Shortest note accepted by transitions that require one, not counting surrounding whitespace
+export const MIN_STATUS_NOTE_LENGTH = 10;
+
+// Validates a status change and returns the case fields it sets; throws if the transition is not allowed
+export function resolveStatusChange(
+  role: UserRole,
+  from: CaseStatus,
+  to: CaseStatus,
+  note?: string | null
+): { status: CaseStatus; resolution_note?: string } {
+  if (from === to) {
+    return { status: to };
+  }
+
+  const transition = findTransition(from, to);
+  if (!transition) {
+    const sources = CASE_STATUS_TRANSITIONS.filter(t => t.to === to).map(t => t.from);
+    const hint = sources.length > 0 ? `: case must be in ${sources.join(' or ')} status to be ${to}` : '';
+    throw new Error(`Cannot move case from ${from} to ${to}${hint}`);
+  }
+
+  if (!transition.roles.includes(role)) {
+    throw new Error(`Role ${role} cannot move a case from ${from} to ${to}`);
+  }
+
+  const trimmedNote = note?.trim();
+  if (transition.requires_note && (!trimmedNote || trimmedNote.length < MIN_STATUS_NOTE_LENGTH)) {
+    throw new Error(`A note is required to move a case from ${from} to ${to} (at least ${MIN_STATUS_NOTE_LENGTH} characters)`);
+  }
+
+  return to === 'resolved' && trimmedNote
+    ? { status: to, resolution_note: trimmedNote }
+    : { status: to };
+}
+
+// Statuses in which a case carries a recorded outcome
+export const OUTCOME_STATUSES: CaseStatus[] = ['resolved', 'closed'];
+
+export type CaseOutcomeFields = Pick<FraudCase, 'disposition' | 'resolution_note' | 'recovered_amount' | 'closed_by' | 'closed_at'>;
+
+// Returns the outcome fields a case ends up with after moving to `to`. Entering resolved or closed
+// requires a disposition and resolution narrative, either supplied now or recorded at resolution;
+// reopening a case clears its outcome (the previous one remains in the case timeline).
+export function resolveCaseOutcome(
+  fraudCase: FraudCase,
+  to: CaseStatus,
+  actorId: number | null, // null for system actions
+  outcome: CaseOutcomeInput = {}
+): Partial<CaseOutcomeFields> {
+  if (!OUTCOME_STATUSES.includes(to)) {
+    if (outcome.disposition !== undefined || outcome.recovered_amount !== undefined) {
+      throw new Error('An outcome can only be recorded on a resolved or closed case');
+    }
+
+    return OUTCOME_STATUSES.includes(fraudCase.status)
+      ? { disposition: null, resolution_note: null, recovered_amount: null, closed_by: null, closed_at: null }
+      : {};
+  }
+
+  const disposition = outcome.disposition ?? fraudCase.disposition;
+  if (!disposition) {
+    throw new Error(`A disposition is required to move a case to ${to}`);
+  }
+
+  const resolutionNote = outcome.resolution_note?.trim() || fraudCase.resolution_note;
+  if (!resolutionNote) {
+    throw new Error(`A resolution narrative is required to move a case to ${to}`);
+  }
+
+  const fields: Partial<CaseOutcomeFields> = {
+    disposition,
+    resolution_note: resolutionNote,
+    recovered_amount: outcome.recovered_amount !== undefined ? outcome.recovered_amount : fraudCase.recovered_amount
+  };
+
+  // Closing stamps who closed the case and when; re-saving a closed case keeps the original stamp
+  if (to === 'closed' && fraudCase.status !== 'closed') {
+    fields.closed_by = actorId;
+    fields.closed_at = new Date();
+  }
+
+  return fields;
+}
@@ -0,0 +1,28 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type ChangePasswordInput } from '../schema';
+import { verifyPassword } from '../helpers/auth';
+import { setUserPassword } from './set_user_password';
+import { eq } from 'drizzle-orm';
+
+// Self-service password change; every session of the user ends, including the one making the change
+export async function changePassword(userId: number, input: ChangePasswordInput): Promise<{ success: boolean }> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    const user = users[0];
+    if (!user || !user.password_hash || !(await verifyPassword(input.current_password, user.password_hash))) {
+      throw new Error('Current password is incorrect');
+    }
+
+    await setUserPassword({ id: userId, password: input.new_password });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Password change failed:', error);
+    throw error;
+  }
+}
@@ -1,7 +1,101 @@
 import { db } from '../db';
 import { usersTable } from '../db/schema';
 import { eq } from 'drizzle-orm';
-import { type PermissionCheck, type UserRole } from '../schema';
+import {
+  type FraudCase,
+  type PermissionAction,
+  type PermissionCheck,
+  type PermissionResource,
+  type RolePermissions,
+  type User,
+  type UserRole
+} from '../schema';
+
+const ALL_ACTIONS: PermissionAction[] = ['create', 'read', 'update', 'delete', 'escalate', 'assign'];
+
+// Single source of truth for role based access; enforced by the tRPC authorization middleware
+export const PERMISSIONS: Record<UserRole, RolePermissions> = {
+  admin: {
+    case: ALL_ACTIONS,
+    user: ALL_ACTIONS,
+    escalation: ALL_ACTIONS,
+    note: ALL_ACTIONS,
+    attachment: ALL_ACTIONS,
+    custody: ALL_ACTIONS,
+    view: ALL_ACTIONS,
+    sla: ALL_ACTIONS,
+    assignment: ALL_ACTIONS,
+    notification: ['read', 'update'], // Limited to their own notifications; they are created by the system
+    webhook: ALL_ACTIONS
+  },
+  investigator: {
+    case: ['create', 'read', 'update', 'escalate', 'assign'],
+    user: ['read'], // Can read user info for assignments
+    escalation: ['create', 'read'],
+    note: ['create', 'read', 'update', 'delete'], // Edits and deletes are limited to their own notes
+    attachment: ['create', 'read', 'update'], // Evidence can only be removed by an admin
+    custody: ['read'],
+    view: ['create', 'read', 'update', 'delete'], // Changes are limited to their own saved views
+    sla: ['read'], // SLA policies are set by admins
+    assignment: ['read'], // Auto-assignment rules are set by admins
+    notification: ['read', 'update'], // Limited to their own notifications
+    webhook: [] // Webhooks are managed by admins
+  },
+  analyst: {
+    case: ['read', 'update', 'escalate'], // Cannot create or assign cases
+    user: ['read'], // Can read user info
+    escalation: ['create', 'read'], // Can escalate with restrictions
+    note: ['create', 'read', 'update', 'delete'], // Edits and deletes are limited to their own notes
+    attachment: ['create', 'read'],
+    custody: ['read'],
+    view: ['create', 'read', 'update', 'delete'], // Changes are limited to their own saved views
+    sla: ['read'], // SLA policies are set by admins
+    assignment: ['read'], // Auto-assignment rules are set by admins
+    notification: ['read', 'update'], // Limited to their own notifications
+    webhook: [] // Webhooks are managed by admins
+  },
+  viewer: {
+    case: ['read'], // Read-only access
+    user: ['read'], // Can read user info
+    escalation: ['read'], // Can view escalation history
+    note: ['read'], // Shareable notes only
+    attachment: ['read'],
+    custody: [], // Custody records show who accessed evidence and are kept from viewers
+    view: ['create', 'read', 'update', 'delete'], // Changes are limited to their own saved views
+    sla: ['read'], // SLA policies are set by admins
+    assignment: ['read'], // Auto-assignment rules are set by admins
+    notification: ['read', 'update'], // Limited to their own notifications
+    webhook: [] // Webhooks are managed by admins
+  }
+};
+
+export function hasPermission(role: UserRole, resource: PermissionResource, action: PermissionAction): boolean {
+  return PERMISSIONS[role]?.[resource]?.includes(action) ?? false;
+}
+
+// Object level rule on top of the role matrix: non-admins may only modify cases assigned to them
+export function canModifyCase(user: Pick<User, 'id' | 'role'>, fraudCase: Pick<FraudCase, 'assigned_to'>): boolean {
+  return user.role === 'admin' || fraudCase.assigned_to === user.id;
+}
+
+// Object level read rule, matching the filtering applied by getFraudCases: viewers see cases assigned
+// to them, analysts cases they created or are assigned to, investigators and admins every case
+export function canViewCase(
+  user: Pick<User, 'id' | 'role'>,
+  fraudCase: Pick<FraudCase, 'assigned_to' | 'created_by'>
+): boolean {
+  switch (user.role) {
+    case 'admin':
+    case 'investigator':
+      return true;
+    case 'analyst':
+      return fraudCase.assigned_to === user.id || fraudCase.created_by === user.id;
+    case 'viewer':
+      return fraudCase.assigned_to === user.id;
+    default:
+      return false;
+  }
+}
 
 export async function checkPermissions(check: PermissionCheck): Promise<boolean> {
   try {
@@ -12,37 +106,7 @@ export async function checkPermissions(check: PermissionCheck): Promise<boolean>
       return false; // User not found
     }
 
-    // Admin has full access to everything
-    if (userRole === 'admin') {
-      return true;
-    }
-
-    // Define permissions matrix based on role
-    const permissions = {
-      investigator: {
-        case: ['create', 'read', 'update', 'escalate', 'assign'],
-        user: ['read'], // Can read user info for assignments
-        escalation: ['create', 'read']
-      },
-      analyst: {
-        case: ['read', 'update', 'escalate'], // Cannot create or assign cases
-        user: ['read'], // Can read user info
-        escalation: ['create', 'read'] // Can escalate with restrictions
-      },
-      viewer: {
-        case: ['read'], // Read-only access
-        user: ['read'], // Can read user info
-        escalation: ['read'] // Can view escalation history
-      }
-    };
-
-    // Check if the role has permission for the requested action on the resource
-    const rolePermissions = permissions[userRole];
-    if (!rolePermissions || !rolePermissions[check.resource]) {
-      return false;
-    }
-
-    return rolePermissions[check.resource].includes(check.action);
+    return hasPermission(userRole, check.resource, check.action);
   } catch (error) {
     console.error('Permission check failed:', error);
     return false; // Fail closed - deny access on error
@@ -65,4 +129,8 @@ export async function getUserRole(userId: number): Promise<UserRole | null> {
     console.error('Failed to get user role:', error);
     return null;
   }
-}
\ No newline at end of file
+}
+
+export function getRolePermissions(role: UserRole): RolePermissions {
+  return PERMISSIONS[role];
+}
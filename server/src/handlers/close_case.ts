@@ -1,59 +1,93 @@
 import { db } from '../db';
 import { fraudCasesTable, usersTable } from '../db/schema';
-import { type FraudCase } from '../schema';
-import { eq, and } from 'drizzle-orm';
+import { type FraudCase, type CaseOutcomeInput } from '../schema';
+import { canModifyCase } from './check_permissions';
+import { resolveCaseOutcome, resolveStatusChange } from './case_workflow';
+import { diffCaseFields, recordCaseEvent } from './record_case_event';
+import { resolveSlaMilestones } from './case_sla';
+import { createNotifications } from './create_notifications';
+import { queueWebhookEvent } from './webhook_delivery';
+import { publishCaseChange } from './case_change_feed';
+import { assertCaseVersion, lockCase, nextCaseVersion } from './case_version';
+import { eq } from 'drizzle-orm';
 
-export const closeCase = async (caseId: number, userId: number, resolution?: string): Promise<FraudCase> => {
+export const closeCase = async (caseId: number, userId: number, outcome?: CaseOutcomeInput, expectedVersion?: number): Promise<FraudCase> => {
   try {
-    // First, verify the user exists and get their role
-    const users = await db.select()
-      .from(usersTable)
-      .where(eq(usersTable.id, userId))
-      .execute();
-
-    if (users.length === 0) {
-      throw new Error('User not found');
-    }
-
-    const user = users[0];
-
-    // Get the current case
-    const cases = await db.select()
-      .from(fraudCasesTable)
-      .where(eq(fraudCasesTable.id, caseId))
-      .execute();
-
-    if (cases.length === 0) {
-      throw new Error('Case not found');
-    }
-
-    const fraudCase = cases[0];
-
-    // Validate that the case is in 'resolved' status
-    if (fraudCase.status !== 'resolved') {
-      throw new Error('Case must be in resolved status to be closed');
-    }
-
-    // Check permissions: only assigned investigator or admin can close cases
-    const canClose = user.role === 'admin' || 
-                    (fraudCase.assigned_to === userId && 
-                     (user.role === 'investigator' || user.role === 'analyst'));
-
-    if (!canClose) {
-      throw new Error('Insufficient permissions to close this case');
-    }
-
-    // Update the case status to closed
-    const result = await db.update(fraudCasesTable)
-      .set({
-        status: 'closed',
-        updated_at: new Date()
-      })
-      .where(eq(fraudCasesTable.id, caseId))
-      .returning()
-      .execute();
-
-    return result[0];
+    const { previous, closedCase } = await db.transaction(async (tx) => {
+      // First, verify the user exists and get their role
+      const users = await tx.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      if (users.length === 0) {
+        throw new Error('User not found');
+      }
+
+      const user = users[0];
+
+      // Get the current case, locking it until the closure is recorded
+      const fraudCase = await lockCase(tx, caseId);
+
+      if (!fraudCase) {
+        throw new Error('Case not found');
+      }
+
+      assertCaseVersion(fraudCase, expectedVersion);
+
+      // Only the assignee or an admin can close cases; role access is checked by the router
+      if (!canModifyCase(user, fraudCase)) {
+        throw new Error('Insufficient permissions to close this case');
+      }
+
+      // Validate the move to 'closed' against the status workflow (only resolved cases can be closed)
+      const statusChange = resolveStatusChange(user.role, fraudCase.status, 'closed');
+
+      // A closed case must carry its outcome; values recorded at resolution are kept unless overridden
+      const outcomeFields = resolveCaseOutcome(fraudCase, 'closed', user.id, outcome);
+
+      const now = new Date();
+      const milestones = resolveSlaMilestones(fraudCase, { ...statusChange, action: true }, now);
+
+      // Update the case status to closed
+      const result = await tx.update(fraudCasesTable)
+        .set({
+          ...statusChange,
+          ...outcomeFields,
+          ...milestones,
+          version: nextCaseVersion,
+          updated_at: now
+        })
+        .where(eq(fraudCasesTable.id, caseId))
+        .returning()
+        .execute();
+
+      const closedCase = result[0];
+
+      // History, notifications and webhooks are committed with the closure or not at all
+      await recordCaseEvent({
+        case_id: caseId,
+        actor_id: userId,
+        event_type: 'closed',
+        changes: diffCaseFields(fraudCase, closedCase)
+      }, tx);
+
+      // The assignee and the creator follow the case to its end
+      await createNotifications([closedCase.assigned_to, closedCase.created_by], {
+        type: 'closed',
+        case_id: caseId,
+        actor_id: userId,
+        message: `Case ${closedCase.txid} was closed`
+      }, tx);
+
+      await queueWebhookEvent('case.closed', { case: closedCase }, now, tx);
+
+      return { previous: fraudCase, closedCase };
+    });
+
+    publishCaseChange({ type: 'closed', actor_id: userId, case: closedCase, previous });
+
+    return closedCase;
   } catch (error) {
     console.error('Case closure failed:', error);
     throw error;
@@ -0,0 +1,79 @@
+import { db } from '../db';
+import { caseNotesTable, fraudCasesTable, usersTable } from '../db/schema';
+import { type CaseNote, type CreateCaseNoteInput } from '../schema';
+import { canViewCase } from './check_permissions';
+import { syncNoteMentions } from './note_mentions';
+import { resolveSlaMilestones } from './case_sla';
+import { notifyMentionedUsers } from './create_notifications';
+import { eq } from 'drizzle-orm';
+
+export const createCaseNote = async (input: CreateCaseNoteInput): Promise<CaseNote> => {
+  try {
+    const authors = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, input.author_id))
+      .execute();
+
+    if (authors.length === 0) {
+      throw new Error(`User with ID ${input.author_id} not found`);
+    }
+
+    const cases = await db.select()
+      .from(fraudCasesTable)
+      .where(eq(fraudCasesTable.id, input.case_id))
+      .execute();
+
+    if (cases.length === 0) {
+      throw new Error('Case not found');
+    }
+
+    // Notes can only be added to cases the author is allowed to see
+    if (!canViewCase(authors[0], cases[0])) {
+      throw new Error('Insufficient permissions to add notes to this case');
+    }
+
+    let parentId: number | null = null;
+    if (input.parent_id !== undefined && input.parent_id !== null) {
+      const parents = await db.select()
+        .from(caseNotesTable)
+        .where(eq(caseNotesTable.id, input.parent_id))
+        .execute();
+
+      if (parents.length === 0 || parents[0].case_id !== input.case_id) {
+        throw new Error('Parent note not found');
+      }
+
+      // Threads are one level deep: a reply to a reply joins the thread of its top-level note
+      parentId = parents[0].parent_id ?? parents[0].id;
+    }
+
+    const result = await db.insert(caseNotesTable)
+      .values({
+        case_id: input.case_id,
+        author_id: input.author_id,
+        parent_id: parentId,
+        body: input.body,
+        visibility: input.visibility
+      })
+      .returning()
+      .execute();
+
+    const note = result[0];
+    const mentions = await syncNoteMentions(note.id, note.body);
+    await notifyMentionedUsers(note, cases[0], mentions);
+
+    // The first note on a case counts as acting on it
+    const milestones = resolveSlaMilestones(cases[0], { action: true }, note.created_at);
+    if (Object.keys(milestones).length > 0) {
+      await db.update(fraudCasesTable)
+        .set(milestones)
+        .where(eq(fraudCasesTable.id, input.case_id))
+        .execute();
+    }
+
+    return { ...note, mentions };
+  } catch (error) {
+    console.error('Case note creation failed:', error);
+    throw error;
+  }
+};
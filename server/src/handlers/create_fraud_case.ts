@@ -1,7 +1,12 @@
 import { db } from '../db';
-import { fraudCasesTable, usersTable } from '../db/schema';
+import { fraudCasesTable, transactionsTable, usersTable } from '../db/schema';
 import { type CreateFraudCaseInput, type FraudCase } from '../schema';
-import { eq } from 'drizzle-orm';
+import { diffCaseFields, recordCaseEvent } from './record_case_event';
+import { computeSlaDueDates, getSlaPolicy } from './case_sla';
+import { queueWebhookEvent } from './webhook_delivery';
+import { publishCaseChange } from './case_change_feed';
+import { autoAssignNewCase } from './auto_assignment';
+import { eq, inArray } from 'drizzle-orm';
 
 export const createFraudCase = async (input: CreateFraudCaseInput): Promise<FraudCase> => {
   try {
@@ -15,20 +20,58 @@ export const createFraudCase = async (input: CreateFraudCaseInput): Promise<Frau
       throw new Error(`User with ID ${input.created_by} does not exist`);
     }
 
-    // Insert fraud case record
-    const result = await db.insert(fraudCasesTable)
-      .values({
-        txid: input.txid,
-        description: input.description,
-        status: 'open', // Always starts as 'open'
-        priority: input.priority, // Priority is required in input type
-        assigned_to: null, // Initially unassigned
-        created_by: input.created_by
-      })
-      .returning()
+    // A transaction can only be investigated in one case
+    const existing = await db.select()
+      .from(transactionsTable)
+      .where(inArray(transactionsTable.txid, input.transactions.map(transaction => transaction.txid)))
       .execute();
 
-    return result[0];
+    if (existing.length > 0) {
+      throw new Error(`Transaction ${existing[0].txid} is already linked to case #${existing[0].case_id}`);
+    }
+
+    // SLA deadlines are counted from creation
+    const createdAt = new Date();
+    const dueDates = computeSlaDueDates(createdAt, await getSlaPolicy(input.priority));
+
+    const fraudCase = await db.transaction(async (tx) => {
+      // Insert fraud case record
+      const result = await tx.insert(fraudCasesTable)
+        .values({
+          txid: input.transactions[0].txid,
+          description: input.description,
+          status: 'open', // Always starts as 'open'
+          priority: input.priority, // Priority is required in input type
+          assigned_to: null, // Initially unassigned
+          created_by: input.created_by,
+          ...dueDates,
+          created_at: createdAt,
+          updated_at: createdAt
+        })
+        .returning()
+        .execute();
+
+      await tx.insert(transactionsTable)
+        .values(input.transactions.map(transaction => ({ ...transaction, case_id: result[0].id })))
+        .execute();
+
+      await recordCaseEvent({
+        case_id: result[0].id,
+        actor_id: input.created_by,
+        event_type: 'created',
+        changes: diffCaseFields(null, result[0]),
+        metadata: { transaction_count: input.transactions.length }
+      }, tx);
+
+      await queueWebhookEvent('case.created', { case: result[0] }, createdAt, tx);
+
+      return result[0];
+    });
+
+    publishCaseChange({ type: 'created', actor_id: input.created_by, case: fraudCase, previous: null });
+
+    // Picked up by the auto-assignment rule of its priority, if it assigns new cases
+    return await autoAssignNewCase(fraudCase);
   } catch (error) {
     console.error('Fraud case creation failed:', error);
     throw error;
@@ -0,0 +1,69 @@
+import { db, type DbExecutor } from '../db';
+import { notificationsTable, usersTable } from '../db/schema';
+import { type CaseNote, type FraudCase, type Notification, type NotificationType } from '../schema';
+import { canViewCase } from './check_permissions';
+import { queueNotificationEmails } from './email_delivery';
+import { inArray } from 'drizzle-orm';
+
+export interface NotificationContent {
+  type: NotificationType;
+  case_id: number;
+  actor_id: number | null; // null for system actions
+  message: string;
+}
+
+// Sends the same notification to each recipient once, and queues emails for those who want them.
+// Nobody is notified of their own action, and null recipients (an unassigned case, say) are skipped.
+export const createNotifications = async (
+  recipients: (number | null | undefined)[],
+  content: NotificationContent,
+  executor: DbExecutor = db
+): Promise<Notification[]> => {
+  try {
+    const userIds = [...new Set(recipients)]
+      .filter((id): id is number => id !== null && id !== undefined && id !== content.actor_id);
+
+    if (userIds.length === 0) {
+      return [];
+    }
+
+    const notifications = await executor.insert(notificationsTable)
+      .values(userIds.map(user_id => ({ ...content, user_id })))
+      .returning()
+      .execute();
+
+    await queueNotificationEmails(notifications, executor);
+
+    return notifications;
+  } catch (error) {
+    console.error('Failed to create notifications:', error);
+    throw error;
+  }
+};
+
+// Notifies users @mentioned in a note, leaving out those who cannot read it
+export async function notifyMentionedUsers(
+  note: Pick<CaseNote, 'case_id' | 'author_id' | 'visibility'>,
+  fraudCase: Pick<FraudCase, 'txid' | 'assigned_to' | 'created_by'>,
+  mentionedUserIds: number[]
+): Promise<Notification[]> {
+  if (mentionedUserIds.length === 0) {
+    return [];
+  }
+
+  const mentionedUsers = await db.select()
+    .from(usersTable)
+    .where(inArray(usersTable.id, mentionedUserIds))
+    .execute();
+
+  // Same rules as getCaseNotes: viewers only read shareable notes
+  const readers = mentionedUsers.filter(user =>
+    canViewCase(user, fraudCase) && (user.role !== 'viewer' || note.visibility === 'shareable'));
+
+  return createNotifications(readers.map(user => user.id), {
+    type: 'mentioned',
+    case_id: note.case_id,
+    actor_id: note.author_id,
+    message: `You were mentioned in a note on case ${fraudCase.txid}`
+  });
+}
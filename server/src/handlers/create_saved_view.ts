@@ -0,0 +1,35 @@
+import { db } from '../db';
+import { savedViewsTable } from '../db/schema';
+import { caseListColumnSchema, type CreateSavedViewInput, type SavedView } from '../schema';
+import { toSavedView } from './get_saved_views';
+import { and, eq } from 'drizzle-orm';
+
+export async function createSavedView(input: CreateSavedViewInput): Promise<SavedView> {
+  try {
+    const existing = await db.select()
+      .from(savedViewsTable)
+      .where(and(eq(savedViewsTable.owner_id, input.owner_id), eq(savedViewsTable.name, input.name)))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error(`You already have a view named "${input.name}"`);
+    }
+
+    const result = await db.insert(savedViewsTable)
+      .values({
+        owner_id: input.owner_id,
+        name: input.name,
+        filters: input.filters,
+        sort: input.sort ?? null,
+        columns: input.columns ?? caseListColumnSchema.options,
+        shared: input.shared ?? false
+      })
+      .returning()
+      .execute();
+
+    return toSavedView(result[0]);
+  } catch (error) {
+    console.error('Saved view creation failed:', error);
+    throw error;
+  }
+}
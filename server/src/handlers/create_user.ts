@@ -1,6 +1,7 @@
 import { db } from '../db';
 import { usersTable } from '../db/schema';
 import { type CreateUserInput, type User } from '../schema';
+import { hashPassword, toPublicUser } from '../helpers/auth';
 
 export const createUser = async (input: CreateUserInput): Promise<User> => {
   try {
@@ -9,12 +10,14 @@ export const createUser = async (input: CreateUserInput): Promise<User> => {
       .values({
         username: input.username,
         email: input.email,
-        role: input.role
+        role: input.role,
+        skills: input.skills ?? [],
+        password_hash: input.password ? await hashPassword(input.password) : null
       })
       .returning()
       .execute();
 
-    return result[0];
+    return toPublicUser(result[0]);
   } catch (error) {
     console.error('User creation failed:', error);
     throw error;
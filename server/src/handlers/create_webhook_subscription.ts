@@ -0,0 +1,25 @@
+import { randomBytes } from 'node:crypto';
+import { db } from '../db';
+import { webhookSubscriptionsTable } from '../db/schema';
+import { type CreateWebhookSubscriptionInput, type WebhookSubscription } from '../schema';
+
+export async function createWebhookSubscription(input: CreateWebhookSubscriptionInput): Promise<WebhookSubscription> {
+  try {
+    const result = await db.insert(webhookSubscriptionsTable)
+      .values({
+        url: input.url,
+        // Receivers need the secret to verify signatures, so a generated one is returned like any other
+        secret: input.secret ?? randomBytes(32).toString('hex'),
+        events: [...new Set(input.events)],
+        active: input.active ?? true,
+        created_by: input.created_by
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Webhook subscription creation failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,40 @@
+import { db } from '../db';
+import { caseAttachmentsTable } from '../db/schema';
+import { getAttachmentStorage } from '../helpers/attachment_storage';
+import { recordCustodyEntry } from './record_custody_entry';
+import { eq } from 'drizzle-orm';
+
+// Removal of evidence is restricted to admins through the attachment/delete permission
+export const deleteAttachment = async (attachmentId: number, userId: number): Promise<{ success: boolean }> => {
+  try {
+    // The record and its custody entry are removed and written together or not at all
+    const attachment = await db.transaction(async (tx) => {
+      const result = await tx.delete(caseAttachmentsTable)
+        .where(eq(caseAttachmentsTable.id, attachmentId))
+        .returning()
+        .execute();
+
+      if (result.length === 0) {
+        throw new Error('Attachment not found');
+      }
+
+      await recordCustodyEntry(result[0].case_id, {
+        attachment_id: result[0].id,
+        actor_id: userId,
+        action: 'deleted',
+        attachment_sha256: result[0].sha256,
+        details: { filename: result[0].filename }
+      }, tx);
+
+      return result[0];
+    });
+
+    // Only once the deletion is committed
+    await getAttachmentStorage().delete(attachment.storage_key);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Attachment deletion failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,49 @@
+import { db } from '../db';
+import { caseNoteMentionsTable, caseNotesTable, usersTable } from '../db/schema';
+import { eq, inArray, or } from 'drizzle-orm';
+
+export const deleteCaseNote = async (noteId: number, userId: number): Promise<{ success: boolean }> => {
+  try {
+    const notes = await db.select()
+      .from(caseNotesTable)
+      .where(eq(caseNotesTable.id, noteId))
+      .execute();
+
+    if (notes.length === 0) {
+      throw new Error('Note not found');
+    }
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    // Authors may delete their own notes; admins may delete any note for moderation
+    if (users[0].role !== 'admin' && notes[0].author_id !== userId) {
+      throw new Error('Insufficient permissions to delete this note');
+    }
+
+    // Deleting a top-level note removes its replies with it
+    const thread = or(eq(caseNotesTable.id, noteId), eq(caseNotesTable.parent_id, noteId));
+
+    await db.delete(caseNoteMentionsTable)
+      .where(inArray(
+        caseNoteMentionsTable.note_id,
+        db.select({ id: caseNotesTable.id }).from(caseNotesTable).where(thread)
+      ))
+      .execute();
+
+    await db.delete(caseNotesTable)
+      .where(thread)
+      .execute();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Case note deletion failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,44 @@
+import { db } from '../db';
+import { defaultSavedViewsTable, savedViewsTable, usersTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+
+export const deleteSavedView = async (viewId: number, userId: number): Promise<{ success: boolean }> => {
+  try {
+    const views = await db.select()
+      .from(savedViewsTable)
+      .where(eq(savedViewsTable.id, viewId))
+      .execute();
+
+    if (views.length === 0) {
+      throw new Error('Saved view not found');
+    }
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    // Owners may delete their own views; admins may tidy up shared ones
+    if (users[0].role !== 'admin' && views[0].owner_id !== userId) {
+      throw new Error('Insufficient permissions to delete this view');
+    }
+
+    // Users who started from this view fall back to the default list
+    await db.delete(defaultSavedViewsTable)
+      .where(eq(defaultSavedViewsTable.view_id, viewId))
+      .execute();
+
+    await db.delete(savedViewsTable)
+      .where(eq(savedViewsTable.id, viewId))
+      .execute();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Saved view deletion failed:', error);
+    throw error;
+  }
+};
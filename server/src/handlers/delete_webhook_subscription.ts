@@ -0,0 +1,32 @@
+import { db } from '../db';
+import { webhookDeliveriesTable, webhookSubscriptionsTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+
+export async function deleteWebhookSubscription(subscriptionId: number): Promise<{ success: boolean }> {
+  try {
+    const subscriptions = await db.select()
+      .from(webhookSubscriptionsTable)
+      .where(eq(webhookSubscriptionsTable.id, subscriptionId))
+      .execute();
+
+    if (subscriptions.length === 0) {
+      throw new Error('Webhook subscription not found');
+    }
+
+    // The delivery log goes with the subscription; pausing it instead keeps the log
+    await db.transaction(async (tx) => {
+      await tx.delete(webhookDeliveriesTable)
+        .where(eq(webhookDeliveriesTable.subscription_id, subscriptionId))
+        .execute();
+
+      await tx.delete(webhookSubscriptionsTable)
+        .where(eq(webhookSubscriptionsTable.id, subscriptionId))
+        .execute();
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Webhook subscription deletion failed:', error);
+    throw error;
+  }
+}
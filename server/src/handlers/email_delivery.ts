@@ -0,0 +1,231 @@
+import { db, type DbExecutor } from '../db';
+import {
+  emailDeliveriesTable,
+  fraudCasesTable,
+  notificationPreferencesTable,
+  notificationsTable,
+  usersTable
+} from '../db/schema';
+import {
+  casePrioritySchema,
+  type CasePriority,
+  type Notification,
+  type NotificationPreferences,
+  type NotificationType
+} from '../schema';
+import { getMailTransport, type MailTransport } from '../helpers/mail_transport';
+import { renderDigestEmail, renderNotificationEmail, type EmailNotification } from '../helpers/email_templates';
+import { and, asc, eq, gt, inArray, isNull, lte, or } from 'drizzle-orm';
+
+// Without settings of their own, users are emailed right away about critical cases handed to them
+export const DEFAULT_NOTIFICATION_PREFERENCES: Omit<NotificationPreferences, 'user_id' | 'updated_at'> = {
+  email_mode: 'immediate',
+  email_types: ['assigned', 'escalated'],
+  min_priority: 'critical'
+};
+
+// Minutes to wait before each retry of a failed send; a send that fails once more is given up on
+export const EMAIL_RETRY_DELAYS_MINUTES = [1, 5, 30, 120];
+
+export const DIGEST_INTERVAL_MINUTES = 24 * 60;
+
+// Emails sent per outbox run; the rest wait for the next run
+export const EMAIL_BATCH_SIZE = 50;
+
+const minutesAfter = (date: Date, minutes: number) => new Date(date.getTime() + minutes * 60_000);
+
+export async function loadNotificationPreferences(
+  userIds: number[],
+  executor: DbExecutor = db
+): Promise<Map<number, NotificationPreferences>> {
+  const stored = userIds.length === 0 ? [] : await executor.select()
+    .from(notificationPreferencesTable)
+    .where(inArray(notificationPreferencesTable.user_id, userIds))
+    .execute();
+
+  const preferences = new Map<number, NotificationPreferences>(
+    userIds.map(user_id => [user_id, { user_id, ...DEFAULT_NOTIFICATION_PREFERENCES, updated_at: null }])
+  );
+  for (const { user_id, email_mode, email_types, min_priority, updated_at } of stored) {
+    preferences.set(user_id, { user_id, email_mode, email_types, min_priority, updated_at });
+  }
+  return preferences;
+}
+
+const wantsEmail = (preferences: NotificationPreferences, type: NotificationType, priority: CasePriority) =>
+  preferences.email_types.includes(type) &&
+  casePrioritySchema.options.indexOf(priority) >= casePrioritySchema.options.indexOf(preferences.min_priority);
+
+// Queues an email for each notification whose recipient wants them one by one. Nothing is queued
+// while no mail transport is configured. Runs in the caller's transaction when given one, so it sees the case as changed.
+export async function queueNotificationEmails(notifications: Notification[], executor: DbExecutor = db): Promise<number> {
+  try {
+    if (notifications.length === 0 || !getMailTransport()) {
+      return 0;
+    }
+
+    const userIds = [...new Set(notifications.map(notification => notification.user_id))];
+    const preferences = await loadNotificationPreferences(userIds, executor);
+
+    const recipients = await executor.select()
+      .from(usersTable)
+      .where(inArray(usersTable.id, userIds))
+      .execute();
+
+    const cases = await executor.select()
+      .from(fraudCasesTable)
+      .where(inArray(fraudCasesTable.id, [...new Set(notifications.map(notification => notification.case_id))]))
+      .execute();
+
+    const now = new Date();
+    const deliveries = notifications.flatMap(notification => {
+      const recipient = recipients.find(user => user.id === notification.user_id);
+      const fraudCase = cases.find(c => c.id === notification.case_id);
+      const userPreferences = preferences.get(notification.user_id)!;
+
+      if (!recipient || !fraudCase || userPreferences.email_mode !== 'immediate' ||
+        !wantsEmail(userPreferences, notification.type, fraudCase.priority)) {
+        return [];
+      }
+
+      const email = renderNotificationEmail(recipient.username, { ...notification, fraudCase });
+      return [{
+        user_id: recipient.id,
+        notification_id: notification.id,
+        to_address: recipient.email,
+        subject: email.subject,
+        body: email.text,
+        next_attempt_at: now
+      }];
+    });
+
+    if (deliveries.length > 0) {
+      await executor.insert(emailDeliveriesTable)
+        .values(deliveries)
+        .execute();
+    }
+
+    return deliveries.length;
+  } catch (error) {
+    console.error('Failed to queue notification emails:', error);
+    throw error;
+  }
+}
+
+// Queues one digest email per digest user whose last digest is a day old, covering the matching
+// notifications since then. Users with nothing new get no email but still start a new period.
+export async function queueEmailDigests(now: Date = new Date()): Promise<number> {
+  try {
+    if (!getMailTransport()) {
+      return 0;
+    }
+
+    const periodStart = minutesAfter(now, -DIGEST_INTERVAL_MINUTES);
+    const due = await db.select()
+      .from(notificationPreferencesTable)
+      .innerJoin(usersTable, eq(notificationPreferencesTable.user_id, usersTable.id))
+      .where(and(
+        eq(notificationPreferencesTable.email_mode, 'digest'),
+        or(isNull(notificationPreferencesTable.last_digest_at), lte(notificationPreferencesTable.last_digest_at, periodStart))
+      ))
+      .execute();
+
+    let queued = 0;
+    for (const { notification_preferences: preferences, users: user } of due) {
+      const rows = await db.select()
+        .from(notificationsTable)
+        .innerJoin(fraudCasesTable, eq(notificationsTable.case_id, fraudCasesTable.id))
+        .where(and(
+          eq(notificationsTable.user_id, user.id),
+          gt(notificationsTable.created_at, preferences.last_digest_at ?? periodStart),
+          lte(notificationsTable.created_at, now)
+        ))
+        .orderBy(asc(notificationsTable.created_at), asc(notificationsTable.id))
+        .execute();
+
+      const included: EmailNotification[] = rows
+        .filter(row => wantsEmail(preferences, row.notifications.type, row.fraud_cases.priority))
+        .map(row => ({ ...row.notifications, fraudCase: row.fraud_cases }));
+
+      await db.transaction(async (tx) => {
+        if (included.length > 0) {
+          const email = renderDigestEmail(user.username, included);
+          await tx.insert(emailDeliveriesTable)
+            .values({ user_id: user.id, to_address: user.email, subject: email.subject, body: email.text, next_attempt_at: now })
+            .execute();
+          queued++;
+        }
+
+        await tx.update(notificationPreferencesTable)
+          .set({ last_digest_at: now })
+          .where(eq(notificationPreferencesTable.user_id, user.id))
+          .execute();
+      });
+    }
+
+    return queued;
+  } catch (error) {
+    console.error('Failed to queue email digests:', error);
+    throw error;
+  }
+}
+
+export interface EmailOutboxResult {
+  sent: number;
+  retrying: number;
+  failed: number; // Given up after the last retry
+}
+
+// Sends the queued emails that are due. A failed send is retried after the next delay in
+// EMAIL_RETRY_DELAYS_MINUTES and marked failed once those run out.
+export async function processEmailOutbox(
+  now: Date = new Date(),
+  transport: MailTransport | null = getMailTransport()
+): Promise<EmailOutboxResult> {
+  try {
+    const result: EmailOutboxResult = { sent: 0, retrying: 0, failed: 0 };
+    if (!transport) {
+      return result;
+    }
+
+    const deliveries = await db.select()
+      .from(emailDeliveriesTable)
+      .where(and(eq(emailDeliveriesTable.status, 'pending'), lte(emailDeliveriesTable.next_attempt_at, now)))
+      .orderBy(asc(emailDeliveriesTable.next_attempt_at), asc(emailDeliveriesTable.id))
+      .limit(EMAIL_BATCH_SIZE)
+      .execute();
+
+    for (const delivery of deliveries) {
+      const attempts = delivery.attempts + 1;
+      try {
+        await transport.send({ to: delivery.to_address, subject: delivery.subject, text: delivery.body });
+
+        await db.update(emailDeliveriesTable)
+          .set({ status: 'sent', attempts, sent_at: new Date(), last_error: null })
+          .where(eq(emailDeliveriesTable.id, delivery.id))
+          .execute();
+        result.sent++;
+      } catch (error) {
+        const retryDelay = EMAIL_RETRY_DELAYS_MINUTES[attempts - 1];
+        console.error(`Email delivery ${delivery.id} failed on attempt ${attempts}:`, error);
+
+        await db.update(emailDeliveriesTable)
+          .set({
+            attempts,
+            status: retryDelay === undefined ? 'failed' : 'pending',
+            next_attempt_at: retryDelay === undefined ? delivery.next_attempt_at : minutesAfter(now, retryDelay),
+            last_error: error instanceof Error ? error.message : String(error)
+          })
+          .where(eq(emailDeliveriesTable.id, delivery.id))
+          .execute();
+
+        if (retryDelay === undefined) result.failed++; else result.retrying++;
+      }
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Email outbox run failed:', error);
+    throw error;
+  }
+}
@@ -1,63 +1,159 @@
 import { db } from '../db';
-import { fraudCasesTable, caseEscalationsTable } from '../db/schema';
-import { type EscalateCaseInput, type CaseEscalation, type FraudCase } from '../schema';
+import { fraudCasesTable, caseEscalationsTable, usersTable } from '../db/schema';
+import { type EscalateCaseInput, type CaseEscalation, type FraudCase, type UserRole } from '../schema';
+import { canViewCase } from './check_permissions';
+import { resolveCaseOutcome, resolveStatusChange } from './case_workflow';
+import { diffCaseFields, recordCaseEvent } from './record_case_event';
+import { computeSlaDueDates, getSlaPolicy, resolveSlaMilestones } from './case_sla';
+import { createNotifications } from './create_notifications';
+import { queueWebhookEvent } from './webhook_delivery';
+import { publishCaseChange } from './case_change_feed';
+import { assertCaseVersion, lockCase, nextCaseVersion } from './case_version';
 import { eq } from 'drizzle-orm';
 
-export const escalateCase = async (input: EscalateCaseInput): Promise<{ case: FraudCase; escalation: CaseEscalation }> => {
+// Automatic escalations have no user behind them and name the rule that raised them
+export type EscalationRequest = Omit<EscalateCaseInput, 'escalated_by'> & {
+  escalated_by: number | null;
+  rule?: string;
+};
+
+// The auto-escalation engine moves cases through the workflow with admin rights
+const SYSTEM_ROLE: UserRole = 'admin';
+
+// Escalating to someone assigns the case to them, so only roles assignCase accepts qualify
+const ESCALATION_TARGET_ROLES: UserRole[] = ['investigator', 'analyst'];
+
+export const escalateCase = async (input: EscalationRequest): Promise<{ case: FraudCase; escalation: CaseEscalation }> => {
   try {
-    // First, fetch the current case to get the previous status and priority
-    const existingCases = await db.select()
-      .from(fraudCasesTable)
-      .where(eq(fraudCasesTable.id, input.case_id))
-      .execute();
-
-    if (existingCases.length === 0) {
-      throw new Error(`Case with ID ${input.case_id} not found`);
-    }
-
-    const existingCase = existingCases[0];
-
-    // Prepare the escalation record
-    const escalationData = {
-      case_id: input.case_id,
-      escalated_by: input.escalated_by,
-      escalated_to: input.escalated_to || null,
-      previous_status: existingCase.status,
-      new_status: input.new_status || 'escalated',
-      previous_priority: existingCase.priority,
-      new_priority: input.new_priority,
-      reason: input.reason
-    };
+    const { previous, updatedCase, escalation } = await db.transaction(async (tx) => {
+      // First, fetch the current case to get the previous status and priority, locking it until the escalation is recorded
+      const existingCase = await lockCase(tx, input.case_id);
 
-    // Insert the escalation record
-    const escalationResults = await db.insert(caseEscalationsTable)
-      .values(escalationData)
-      .returning()
-      .execute();
+      if (!existingCase) {
+        throw new Error(`Case with ID ${input.case_id} not found`);
+      }
 
-    const escalation = escalationResults[0];
+      assertCaseVersion(existingCase, input.expected_version);
 
-    // Update the case with new priority and optionally new status and assignee
-    const updateData: any = {
-      priority: input.new_priority,
-      updated_at: new Date()
-    };
+      let role: UserRole = SYSTEM_ROLE;
+      if (input.escalated_by !== null) {
+        const escalators = await tx.select()
+          .from(usersTable)
+          .where(eq(usersTable.id, input.escalated_by))
+          .execute();
+
+        if (escalators.length === 0) {
+          throw new Error(`User with ID ${input.escalated_by} not found`);
+        }
+
+        // Escalators are held to the same visibility as bulk escalation
+        if (!canViewCase(escalators[0], existingCase)) {
+          throw new Error('Insufficient permissions to escalate this case');
+        }
+
+        role = escalators[0].role;
+      }
+
+      // The case is handed to the escalation target, who must be someone cases can be assigned to
+      if (input.escalated_to !== undefined && input.escalated_to !== null) {
+        const targets = await tx.select()
+          .from(usersTable)
+          .where(eq(usersTable.id, input.escalated_to))
+          .execute();
+
+        if (targets.length === 0) {
+          throw new Error(`User with ID ${input.escalated_to} not found`);
+        }
+
+        if (!ESCALATION_TARGET_ROLES.includes(targets[0].role)) {
+          throw new Error('Cases can only be escalated to investigators or analysts');
+        }
+      }
+
+      // Validate an explicit status change up front; the escalation reason doubles as the status note
+      const statusChange = input.new_status
+        ? resolveStatusChange(role, existingCase.status, input.new_status, input.reason)
+        : null;
+      const outcome = input.new_status
+        ? resolveCaseOutcome(existingCase, input.new_status, input.escalated_by, { resolution_note: statusChange?.resolution_note })
+        : null;
+
+      // Prepare the escalation record
+      const escalationData = {
+        case_id: input.case_id,
+        escalated_by: input.escalated_by,
+        escalated_to: input.escalated_to || null,
+        previous_status: existingCase.status,
+        new_status: input.new_status ?? existingCase.status, // Escalations that only raise the priority leave the status as it was
+        previous_priority: existingCase.priority,
+        new_priority: input.new_priority,
+        reason: input.reason,
+        rule: input.rule ?? null
+      };
+
+      // Update the case with new priority and optionally new status and assignee
+      const updateData: any = {
+        priority: input.new_priority,
+        version: nextCaseVersion,
+        updated_at: new Date()
+      };
+
+      if (statusChange) {
+        Object.assign(updateData, statusChange, outcome);
+      }
+
+      if (input.escalated_to !== undefined) {
+        updateData.assigned_to = input.escalated_to;
+      }
+
+      if (input.new_priority !== existingCase.priority) {
+        Object.assign(updateData, computeSlaDueDates(existingCase.created_at, await getSlaPolicy(input.new_priority)));
+      }
+
+      // Escalating counts as acting on the case
+      Object.assign(updateData, resolveSlaMilestones(existingCase, {
+        status: statusChange?.status,
+        assigned_to: input.escalated_to,
+        action: true
+      }, updateData.updated_at));
+
+      const updatedCaseResults = await tx.update(fraudCasesTable)
+        .set(updateData)
+        .where(eq(fraudCasesTable.id, input.case_id))
+        .returning()
+        .execute();
+
+      const updatedCase = updatedCaseResults[0];
+
+      // The escalation record, history, notifications and webhooks are committed with the case change or not at all
+      const escalationResults = await tx.insert(caseEscalationsTable)
+        .values(escalationData)
+        .returning()
+        .execute();
+
+      const escalation = escalationResults[0];
+
+      await recordCaseEvent({
+        case_id: input.case_id,
+        actor_id: input.escalated_by,
+        event_type: 'escalated',
+        changes: diffCaseFields(existingCase, updatedCase),
+        metadata: { escalation_id: escalation.id, reason: input.reason, ...(input.rule ? { rule: input.rule } : {}) }
+      }, tx);
 
-    if (input.new_status) {
-      updateData.status = input.new_status;
-    }
+      await createNotifications([escalation.escalated_to], {
+        type: 'escalated',
+        case_id: input.case_id,
+        actor_id: input.escalated_by,
+        message: `Case ${updatedCase.txid} was escalated to you: ${input.reason}`
+      }, tx);
 
-    if (input.escalated_to !== undefined) {
-      updateData.assigned_to = input.escalated_to;
-    }
+      await queueWebhookEvent('case.escalated', { case: updatedCase, escalation }, updateData.updated_at, tx);
 
-    const updatedCaseResults = await db.update(fraudCasesTable)
-      .set(updateData)
-      .where(eq(fraudCasesTable.id, input.case_id))
-      .returning()
-      .execute();
+      return { previous: existingCase, updatedCase, escalation };
+    });
 
-    const updatedCase = updatedCaseResults[0];
+    publishCaseChange({ type: 'escalated', actor_id: input.escalated_by, case: updatedCase, previous });
 
     return {
       case: updatedCase,
@@ -0,0 +1,146 @@
+import { db } from '../db';
+import {
+  caseAttachmentsTable,
+  caseNotesTable,
+  fraudCasesTable,
+  transactionsTable,
+  usersTable
+} from '../db/schema';
+import { type CasePacket } from '../schema';
+import { renderPdf, type PdfBlock } from '../helpers/pdf';
+import { canViewCase } from './check_permissions';
+import { getCaseEscalations } from './get_case_escalations';
+import { and, asc, eq } from 'drizzle-orm';
+
+const formatDate = (date: Date | null) => date ? date.toISOString().replace('T', ' ').slice(0, 19) + ' UTC' : null;
+
+const humanize = (value: string | null) => value ? value.replace(/_/g, ' ') : null;
+
+// PDF packet of a case for handing over to law enforcement. Internal notes stay out of it; only shareable notes are included.
+export async function exportCasePacket(caseId: number, userId: number): Promise<CasePacket> {
+  try {
+    const users = await db.select({ id: usersTable.id, username: usersTable.username, role: usersTable.role })
+      .from(usersTable)
+      .execute();
+    const requester = users.find(user => user.id === userId);
+
+    if (!requester) {
+      throw new Error('User not found');
+    }
+
+    const cases = await db.select()
+      .from(fraudCasesTable)
+      .where(eq(fraudCasesTable.id, caseId))
+      .execute();
+
+    if (cases.length === 0) {
+      throw new Error('Case not found');
+    }
+
+    const fraudCase = cases[0];
+
+    if (!canViewCase(requester, fraudCase)) {
+      throw new Error('Insufficient permissions to export this case');
+    }
+
+    const username = (id: number | null) => id === null ? null : users.find(user => user.id === id)?.username ?? `user #${id}`;
+
+    const transactions = await db.select()
+      .from(transactionsTable)
+      .where(eq(transactionsTable.case_id, caseId))
+      .orderBy(asc(transactionsTable.occurred_at), asc(transactionsTable.id))
+      .execute();
+
+    const escalations = await getCaseEscalations(caseId, userId);
+
+    const notes = await db.select()
+      .from(caseNotesTable)
+      .where(and(eq(caseNotesTable.case_id, caseId), eq(caseNotesTable.visibility, 'shareable')))
+      .orderBy(asc(caseNotesTable.created_at), asc(caseNotesTable.id))
+      .execute();
+
+    const attachments = await db.select()
+      .from(caseAttachmentsTable)
+      .where(eq(caseAttachmentsTable.case_id, caseId))
+      .orderBy(asc(caseAttachmentsTable.id))
+      .execute();
+
+    const generatedAt = new Date();
+    const blocks: PdfBlock[] = [
+      { type: 'title', text: `Fraud Case Packet - Case #${fraudCase.id}` },
+      { type: 'text', text: `Generated ${formatDate(generatedAt)} by ${requester.username}` },
+
+      { type: 'heading', text: 'Case Details' },
+      { type: 'field', label: 'Primary transaction', value: fraudCase.txid },
+      { type: 'field', label: 'Status', value: humanize(fraudCase.status) },
+      { type: 'field', label: 'Priority', value: fraudCase.priority },
+      { type: 'field', label: 'Created by', value: username(fraudCase.created_by) },
+      { type: 'field', label: 'Created at', value: formatDate(fraudCase.created_at) },
+      { type: 'field', label: 'Assigned to', value: username(fraudCase.assigned_to) },
+      { type: 'field', label: 'Description', value: fraudCase.description },
+
+      { type: 'heading', text: `Transactions (${transactions.length})` },
+      ...transactions.flatMap((transaction): PdfBlock[] => [
+        { type: 'text', text: transaction.txid },
+        {
+          type: 'text',
+          indent: 12,
+          text: [
+            transaction.amount !== null ? `${transaction.amount.toFixed(2)} ${transaction.currency ?? ''}`.trim() : null,
+            formatDate(transaction.occurred_at),
+            humanize(transaction.channel),
+            transaction.merchant && `merchant ${transaction.merchant}`,
+            transaction.account && `from ${transaction.account}`,
+            transaction.counterparty && `to ${transaction.counterparty}`
+          ].filter(Boolean).join(', ') || 'No further details'
+        }
+      ]),
+
+      { type: 'heading', text: 'Outcome' },
+      ...(fraudCase.disposition
+        ? [
+            { type: 'field', label: 'Disposition', value: humanize(fraudCase.disposition) },
+            { type: 'field', label: 'Recovered amount', value: fraudCase.recovered_amount?.toFixed(2) },
+            { type: 'field', label: 'Resolution', value: fraudCase.resolution_note },
+            { type: 'field', label: 'Closed by', value: username(fraudCase.closed_by) },
+            { type: 'field', label: 'Closed at', value: formatDate(fraudCase.closed_at) }
+          ] satisfies PdfBlock[]
+        : [{ type: 'text', text: 'The case has not been resolved yet.' } satisfies PdfBlock]),
+
+      { type: 'heading', text: `Escalation History (${escalations.length})` },
+      ...escalations.flatMap((escalation): PdfBlock[] => [
+        {
+          type: 'text',
+          text: `${formatDate(escalation.created_at)} - ${username(escalation.escalated_by) ?? 'System'}: ` +
+            `${escalation.previous_priority} -> ${escalation.new_priority} priority` +
+            (escalation.escalated_to !== null ? `, escalated to ${username(escalation.escalated_to)}` : '')
+        },
+        { type: 'text', text: escalation.reason, indent: 12 }
+      ]),
+
+      { type: 'heading', text: `Notes (${notes.length})` },
+      ...notes.flatMap((note): PdfBlock[] => [
+        { type: 'text', text: `${formatDate(note.created_at)} - ${username(note.author_id)}${note.parent_id !== null ? ' (reply)' : ''}` },
+        { type: 'text', text: note.body, indent: 12 }
+      ]),
+
+      { type: 'heading', text: `Evidence (${attachments.length})` },
+      ...attachments.flatMap((attachment): PdfBlock[] => [
+        { type: 'text', text: `${attachment.filename} (${attachment.mime_type}, ${attachment.size_bytes} bytes)` },
+        { type: 'text', text: `SHA-256 ${attachment.sha256}`, indent: 12 },
+        { type: 'text', text: `Uploaded ${formatDate(attachment.created_at)} by ${username(attachment.uploaded_by)}`, indent: 12 }
+      ])
+    ];
+
+    const pdf = renderPdf(blocks, `Case #${fraudCase.id} - confidential`);
+
+    return {
+      filename: `case-${fraudCase.id}-packet.pdf`,
+      mime_type: 'application/pdf',
+      content_base64: pdf.toString('base64')
+    };
+  } catch (error) {
+    console.error('Case packet export failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,51 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type CustodyReport } from '../schema';
+import { toCsv } from '../helpers/csv';
+import { getCustodyLog, loadCaseForCustody } from './get_custody_log';
+import { verifyCustodyChain } from './verify_custody_chain';
+
+// CSV custody report: a commented verification summary followed by one row per ledger entry
+export async function exportCustodyReport(caseId: number, userId?: number): Promise<CustodyReport> {
+  try {
+    const fraudCase = await loadCaseForCustody(caseId, userId);
+    const entries = await getCustodyLog(caseId);
+    const verification = await verifyCustodyChain(caseId);
+
+    const users = await db.select({ id: usersTable.id, username: usersTable.username })
+      .from(usersTable)
+      .execute();
+    const usernames = new Map(users.map(user => [user.id, user.username]));
+
+    const summary = [
+      `# Chain of custody report for case #${fraudCase.id} (transaction ${fraudCase.txid})`,
+      `# Generated at ${verification.verified_at.toISOString()}`,
+      `# Chain verification: ${verification.valid ? 'VALID' : 'INVALID'} (${verification.entry_count} entries)`,
+      ...verification.issues.map(issue => `# Issue: ${issue}`)
+    ].join('\r\n');
+
+    const table = toCsv(
+      ['entry_id', 'recorded_at', 'attachment_id', 'action', 'actor', 'attachment_sha256', 'details', 'previous_hash', 'entry_hash'],
+      entries.map(entry => [
+        entry.id,
+        entry.created_at,
+        entry.attachment_id,
+        entry.action,
+        usernames.get(entry.actor_id) ?? `user #${entry.actor_id}`,
+        entry.attachment_sha256,
+        entry.details ? JSON.stringify(entry.details) : null,
+        entry.previous_hash,
+        entry.entry_hash
+      ])
+    );
+
+    return {
+      filename: `case-${fraudCase.id}-custody-report.csv`,
+      mime_type: 'text/csv',
+      content: `${summary}\r\n${table}`
+    };
+  } catch (error) {
+    console.error('Custody report export failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,41 @@
+import { db } from '../db';
+import { fraudCasesTable, usersTable } from '../db/schema';
+import { type AllowedTransition } from '../schema';
+import { canModifyCase, hasPermission } from './check_permissions';
+import { getTransitionsForRole } from './case_workflow';
+import { eq } from 'drizzle-orm';
+
+export async function getAllowedTransitions(caseId: number, userId: number): Promise<AllowedTransition[]> {
+  try {
+    const cases = await db.select()
+      .from(fraudCasesTable)
+      .where(eq(fraudCasesTable.id, caseId))
+      .execute();
+
+    if (cases.length === 0) {
+      throw new Error(`Fraud case with id ${caseId} not found`);
+    }
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error(`User with id ${userId} not found`);
+    }
+
+    const user = users[0];
+    const fraudCase = cases[0];
+
+    // Status changes need case/update and ownership of the case
+    if (!hasPermission(user.role, 'case', 'update') || !canModifyCase(user, fraudCase)) {
+      return [];
+    }
+
+    return getTransitionsForRole(user.role, fraudCase.status);
+  } catch (error) {
+    console.error('Failed to get allowed transitions:', error);
+    throw error;
+  }
+}
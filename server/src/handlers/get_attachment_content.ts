@@ -0,0 +1,60 @@
+import { createHash } from 'node:crypto';
+import { db } from '../db';
+import { caseAttachmentsTable, fraudCasesTable, usersTable } from '../db/schema';
+import { type AttachmentContent } from '../schema';
+import { getAttachmentStorage } from '../helpers/attachment_storage';
+import { canViewCase } from './check_permissions';
+import { recordCustodyEntry } from './record_custody_entry';
+import { eq } from 'drizzle-orm';
+
+export async function getAttachmentContent(attachmentId: number, userId: number): Promise<AttachmentContent> {
+  try {
+    const attachments = await db.select()
+      .from(caseAttachmentsTable)
+      .where(eq(caseAttachmentsTable.id, attachmentId))
+      .execute();
+
+    if (attachments.length === 0) {
+      throw new Error('Attachment not found');
+    }
+
+    const { storage_key, ...attachment } = attachments[0];
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    const cases = await db.select()
+      .from(fraudCasesTable)
+      .where(eq(fraudCasesTable.id, attachment.case_id))
+      .execute();
+
+    if (cases.length === 0 || !canViewCase(users[0], cases[0])) {
+      throw new Error('Insufficient permissions to view this attachment');
+    }
+
+    const content = await getAttachmentStorage().get(storage_key);
+
+    // Never hand out evidence that no longer matches the hash recorded at upload
+    if (createHash('sha256').update(content).digest('hex') !== attachment.sha256) {
+      throw new Error(`Attachment ${attachmentId} failed its integrity check`);
+    }
+
+    await recordCustodyEntry(attachment.case_id, {
+      attachment_id: attachment.id,
+      actor_id: userId,
+      action: 'downloaded',
+      attachment_sha256: attachment.sha256
+    });
+
+    return { attachment, content_base64: content.toString('base64') };
+  } catch (error) {
+    console.error('Failed to get attachment content:', error);
+    throw error;
+  }
+}
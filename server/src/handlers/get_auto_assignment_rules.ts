@@ -0,0 +1,12 @@
+import { type AutoAssignmentRule } from '../schema';
+import { loadAutoAssignmentRules } from './auto_assignment';
+
+export async function getAutoAssignmentRules(): Promise<AutoAssignmentRule[]> {
+  try {
+    const rules = await loadAutoAssignmentRules();
+    return Object.values(rules);
+  } catch (error) {
+    console.error('Failed to get auto-assignment rules:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,51 @@
+import { db } from '../db';
+import { caseAttachmentsTable, fraudCasesTable, usersTable } from '../db/schema';
+import { type CaseAttachment } from '../schema';
+import { canViewCase } from './check_permissions';
+import { recordCustodyEntries } from './record_custody_entry';
+import { asc, eq } from 'drizzle-orm';
+
+export async function getCaseAttachments(caseId: number, userId: number): Promise<CaseAttachment[]> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    const cases = await db.select()
+      .from(fraudCasesTable)
+      .where(eq(fraudCasesTable.id, caseId))
+      .execute();
+
+    if (cases.length === 0) {
+      throw new Error('Case not found');
+    }
+
+    if (!canViewCase(users[0], cases[0])) {
+      throw new Error('Insufficient permissions to view attachments on this case');
+    }
+
+    const attachments = await db.select()
+      .from(caseAttachmentsTable)
+      .where(eq(caseAttachmentsTable.case_id, caseId))
+      .orderBy(asc(caseAttachmentsTable.created_at), asc(caseAttachmentsTable.id))
+      .execute();
+
+    // Listing exposes the evidence metadata, so every listed item counts as viewed
+    await recordCustodyEntries(caseId, attachments.map(attachment => ({
+      attachment_id: attachment.id,
+      actor_id: userId,
+      action: 'viewed' as const,
+      attachment_sha256: attachment.sha256
+    })));
+
+    return attachments.map(({ storage_key, ...attachment }) => attachment);
+  } catch (error) {
+    console.error('Failed to get case attachments:', error);
+    throw error;
+  }
+}
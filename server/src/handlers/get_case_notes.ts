@@ -0,0 +1,58 @@
+import { db } from '../db';
+import { caseNotesTable, fraudCasesTable, usersTable } from '../db/schema';
+import { type CaseNote } from '../schema';
+import { canViewCase } from './check_permissions';
+import { getNoteMentions } from './note_mentions';
+import { and, asc, eq, type SQL } from 'drizzle-orm';
+
+export async function getCaseNotes(caseId: number, userId: number): Promise<CaseNote[]> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    const user = users[0];
+
+    const cases = await db.select()
+      .from(fraudCasesTable)
+      .where(eq(fraudCasesTable.id, caseId))
+      .execute();
+
+    if (cases.length === 0) {
+      throw new Error('Case not found');
+    }
+
+    if (!canViewCase(user, cases[0])) {
+      throw new Error('Insufficient permissions to view notes on this case');
+    }
+
+    const conditions: SQL<unknown>[] = [eq(caseNotesTable.case_id, caseId)];
+
+    // Viewers are outside the investigation team and only see shareable notes
+    if (user.role === 'viewer') {
+      conditions.push(eq(caseNotesTable.visibility, 'shareable'));
+    }
+
+    const notes = await db.select()
+      .from(caseNotesTable)
+      .where(and(...conditions))
+      .orderBy(asc(caseNotesTable.created_at), asc(caseNotesTable.id))
+      .execute();
+
+    // Drop replies whose top-level note is hidden from this user
+    const visibleIds = new Set(notes.map(note => note.id));
+    const visibleNotes = notes.filter(note => note.parent_id === null || visibleIds.has(note.parent_id));
+
+    const mentions = await getNoteMentions(visibleNotes.map(note => note.id));
+
+    return visibleNotes.map(note => ({ ...note, mentions: mentions.get(note.id) ?? [] }));
+  } catch (error) {
+    console.error('Failed to get case notes:', error);
+    throw error;
+  }
+}
@@ -1,16 +1,28 @@
 import { db } from '../db';
 import { fraudCasesTable, usersTable } from '../db/schema';
-import { type CaseStatus, type CasePriority } from '../schema';
-import { eq, isNull, count, sql, avg, and } from 'drizzle-orm';
+import { type CaseStatus, type CasePriority, type CaseDisposition, type SlaTarget } from '../schema';
+import { SLA_TARGETS, slaBreachedCondition, slaTargetBreachedCondition } from './case_sla';
+import { eq, isNull, isNotNull, count, sql, avg, sum, and, gte, notInArray } from 'drizzle-orm';
 import type { SQL } from 'drizzle-orm';
 
+export interface SlaTargetStatistics {
+    met: number; // Met before the deadline
+    breached: number; // Met late, or still unmet past the deadline
+    pending: number; // Unmet with the deadline still ahead
+    complianceRate: number | null; // Percentage of met and breached targets that were met, null when there are none
+}
+
 export interface CaseStatistics {
     totalCases: number;
     casesByStatus: Record<CaseStatus, number>;
     casesByPriority: Record<CasePriority, number>;
+    casesByDisposition: Record<CaseDisposition, number>;
+    totalRecoveredAmount: number;
     unassignedCases: number;
     averageResolutionTime: number; // in days
     escalatedCases: number;
+    slaCompliance: Record<SlaTarget, SlaTargetStatistics>;
+    casesInSlaBreach: number; // Unresolved cases that missed at least one SLA target
 }
 
 export async function getCaseStatistics(userId?: number): Promise<CaseStatistics> {
@@ -31,9 +43,22 @@ export async function getCaseStatistics(userId?: number): Promise<CaseStatistics
                 high: 0,
                 critical: 0
             },
+            casesByDisposition: {
+                confirmed_fraud: 0,
+                false_positive: 0,
+                customer_error: 0,
+                inconclusive: 0
+            },
+            totalRecoveredAmount: 0,
             unassignedCases: 0,
             averageResolutionTime: 0,
-            escalatedCases: 0
+            escalatedCases: 0,
+            slaCompliance: {
+                assignment: { met: 0, breached: 0, pending: 0, complianceRate: null },
+                first_action: { met: 0, breached: 0, pending: 0, complianceRate: null },
+                resolution: { met: 0, breached: 0, pending: 0, complianceRate: null }
+            },
+            casesInSlaBreach: 0
         };
 
         // Build base query conditions
@@ -107,6 +132,33 @@ export async function getCaseStatistics(userId?: number): Promise<CaseStatistics
             statistics.casesByPriority[priority] = priorityCount;
         });
 
+        // Get cases by disposition
+        const dispositionCounts = await Promise.all([
+            'confirmed_fraud', 'false_positive', 'customer_error', 'inconclusive'
+        ].map(async (disposition) => {
+            const dispositionConditions = [...conditions, eq(fraudCasesTable.disposition, disposition as CaseDisposition)];
+
+            const result = await db.select({ count: count() })
+                .from(fraudCasesTable)
+                .where(and(...dispositionConditions));
+
+            return { disposition: disposition as CaseDisposition, count: result[0]?.count || 0 };
+        }));
+
+        dispositionCounts.forEach(({ disposition, count: dispositionCount }) => {
+            statistics.casesByDisposition[disposition] = dispositionCount;
+        });
+
+        // Get total recovered funds
+        const recoveredQuery = db.select({ total: sum(fraudCasesTable.recovered_amount) })
+            .from(fraudCasesTable);
+
+        const recoveredResult = conditions.length > 0
+            ? await recoveredQuery.where(and(...conditions))
+            : await recoveredQuery;
+        const totalRecovered = recoveredResult[0]?.total;
+        statistics.totalRecoveredAmount = totalRecovered ? parseFloat(totalRecovered) : 0;
+
         // Get unassigned cases count
         const unassignedConditions = [...conditions, isNull(fraudCasesTable.assigned_to)];
         
@@ -128,7 +180,7 @@ export async function getCaseStatistics(userId?: number): Promise<CaseStatistics
         );
 
         const resolutionQuery = db.select({
-            avgDays: avg(sql`EXTRACT(epoch FROM (${fraudCasesTable.updated_at} - ${fraudCasesTable.created_at})) / 86400`)
+            avgDays: avg(sql`EXTRACT(epoch FROM (COALESCE(${fraudCasesTable.closed_at}, ${fraudCasesTable.updated_at}) - ${fraudCasesTable.created_at})) / 86400`)
         }).from(fraudCasesTable);
 
         const resolutionResult = resolutionConditions.length > 0
@@ -137,6 +189,39 @@ export async function getCaseStatistics(userId?: number): Promise<CaseStatistics
         const avgResolutionTime = resolutionResult[0]?.avgDays;
         statistics.averageResolutionTime = avgResolutionTime ? parseFloat(avgResolutionTime.toString()) : 0;
 
+        // SLA compliance per target, over the cases whose policy sets that target
+        const now = new Date();
+        const slaCounts = await Promise.all((Object.keys(SLA_TARGETS) as SlaTarget[]).map(async (target) => {
+            const due = fraudCasesTable[SLA_TARGETS[target].due];
+            const met = fraudCasesTable[SLA_TARGETS[target].met];
+
+            const result = await db.select({
+                tracked: count(),
+                breached: sql<number>`count(*) filter (where ${slaTargetBreachedCondition(target, now)})`.mapWith(Number),
+                pending: sql<number>`count(*) filter (where ${and(isNull(met), gte(due, now))})`.mapWith(Number)
+            })
+                .from(fraudCasesTable)
+                .where(and(...conditions, isNotNull(due)));
+
+            const { tracked, breached, pending } = result[0];
+            return { target, tracked, breached, pending };
+        }));
+
+        slaCounts.forEach(({ target, tracked, breached, pending }) => {
+            const met = tracked - breached - pending;
+            statistics.slaCompliance[target] = {
+                met,
+                breached,
+                pending,
+                complianceRate: met + breached > 0 ? Math.round(met / (met + breached) * 1000) / 10 : null
+            };
+        });
+
+        const breachResult = await db.select({ count: count() })
+            .from(fraudCasesTable)
+            .where(and(...conditions, slaBreachedCondition(now), notInArray(fraudCasesTable.status, ['resolved', 'closed'])));
+        statistics.casesInSlaBreach = breachResult[0]?.count || 0;
+
         return statistics;
     } catch (error) {
         console.error('Failed to get case statistics:', error);
@@ -0,0 +1,38 @@
+import { db } from '../db';
+import { caseEventsTable, fraudCasesTable, usersTable } from '../db/schema';
+import { type CaseEvent } from '../schema';
+import { canViewCase } from './check_permissions';
+import { asc, eq } from 'drizzle-orm';
+
+export async function getCaseTimeline(caseId: number, userId: number): Promise<CaseEvent[]> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    const cases = await db.select()
+      .from(fraudCasesTable)
+      .where(eq(fraudCasesTable.id, caseId))
+      .execute();
+
+    // Cases the user cannot see are reported like missing ones
+    if (cases.length === 0 || !canViewCase(users[0], cases[0])) {
+      throw new Error('Case not found');
+    }
+
+    // Oldest first so the timeline reads top to bottom
+    return await db.select()
+      .from(caseEventsTable)
+      .where(eq(caseEventsTable.case_id, caseId))
+      .orderBy(asc(caseEventsTable.created_at), asc(caseEventsTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to get case timeline:', error);
+    throw error;
+  }
+}
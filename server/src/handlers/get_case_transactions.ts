@@ -0,0 +1,43 @@
+import { db } from '../db';
+import { fraudCasesTable, transactionsTable, usersTable } from '../db/schema';
+import { type Transaction } from '../schema';
+import { canViewCase } from './check_permissions';
+import { asc, eq } from 'drizzle-orm';
+
+export async function getCaseTransactions(caseId: number, userId?: number): Promise<Transaction[]> {
+  try {
+    const cases = await db.select()
+      .from(fraudCasesTable)
+      .where(eq(fraudCasesTable.id, caseId))
+      .execute();
+
+    if (cases.length === 0) {
+      throw new Error('Case not found');
+    }
+
+    if (userId !== undefined) {
+      const users = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      if (users.length === 0) {
+        throw new Error('User not found');
+      }
+
+      if (!canViewCase(users[0], cases[0])) {
+        throw new Error('Insufficient permissions to view transactions for this case');
+      }
+    }
+
+    // In the order they happened; transactions without a timestamp come last
+    return await db.select()
+      .from(transactionsTable)
+      .where(eq(transactionsTable.case_id, caseId))
+      .orderBy(asc(transactionsTable.occurred_at), asc(transactionsTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to get case transactions:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,49 @@
+import { db } from '../db';
+import { custodyEntriesTable, fraudCasesTable, usersTable } from '../db/schema';
+import { type CustodyEntry } from '../schema';
+import { canViewCase } from './check_permissions';
+import { asc, eq } from 'drizzle-orm';
+
+// Loads the case and applies the case visibility rules when a requesting user is given
+export async function loadCaseForCustody(caseId: number, userId?: number) {
+  const cases = await db.select()
+    .from(fraudCasesTable)
+    .where(eq(fraudCasesTable.id, caseId))
+    .execute();
+
+  if (cases.length === 0) {
+    throw new Error('Case not found');
+  }
+
+  if (userId !== undefined) {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    if (!canViewCase(users[0], cases[0])) {
+      throw new Error('Insufficient permissions to view custody records for this case');
+    }
+  }
+
+  return cases[0];
+}
+
+export async function getCustodyLog(caseId: number, userId?: number): Promise<CustodyEntry[]> {
+  try {
+    await loadCaseForCustody(caseId, userId);
+
+    return await db.select()
+      .from(custodyEntriesTable)
+      .where(eq(custodyEntriesTable.case_id, caseId))
+      .orderBy(asc(custodyEntriesTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to get custody log:', error);
+    throw error;
+  }
+}
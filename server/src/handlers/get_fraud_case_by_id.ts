@@ -2,6 +2,7 @@ import { db } from '../db';
 import { fraudCasesTable, usersTable } from '../db/schema';
 import { eq, and } from 'drizzle-orm';
 import { type FraudCase } from '../schema';
+import { canViewCase } from './check_permissions';
 
 export async function getFraudCaseById(id: number, userId?: number): Promise<FraudCase | null> {
   try {
@@ -31,22 +32,9 @@ export async function getFraudCaseById(id: number, userId?: number): Promise<Fra
         return null; // User doesn't exist
       }
 
-      const userRole = userResult[0].role;
-
-      // Permission logic:
-      // - admin: can view all cases
-      // - investigator: can view cases they created or are assigned to
-      // - analyst: can view cases they created or are assigned to
-      // - viewer: can view all cases (read-only role)
-      if (userRole === 'admin' || userRole === 'viewer') {
-        // Admin and viewer can see all cases
-      } else if (userRole === 'investigator' || userRole === 'analyst') {
-        // Can only view cases they created or are assigned to
-        if (caseData.created_by !== userId && caseData.assigned_to !== userId) {
-          return null; // No permission to view this case
-        }
-      } else {
-        return null; // Unknown role
+      // Cases the user cannot see are reported as missing
+      if (!canViewCase(userResult[0], caseData)) {
+        return null;
       }
     }
 
@@ -58,6 +46,18 @@ export async function getFraudCaseById(id: number, userId?: number): Promise<Fra
       priority: caseData.priority,
       assigned_to: caseData.assigned_to,
       created_by: caseData.created_by,
+      disposition: caseData.disposition,
+      resolution_note: caseData.resolution_note,
+      recovered_amount: caseData.recovered_amount,
+      closed_by: caseData.closed_by,
+      closed_at: caseData.closed_at,
+      assignment_due_at: caseData.assignment_due_at,
+      first_action_due_at: caseData.first_action_due_at,
+      resolution_due_at: caseData.resolution_due_at,
+      first_assigned_at: caseData.first_assigned_at,
+      first_action_at: caseData.first_action_at,
+      resolved_at: caseData.resolved_at,
+      version: caseData.version,
       created_at: caseData.created_at,
       updated_at: caseData.updated_at
     };
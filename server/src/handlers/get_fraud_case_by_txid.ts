@@ -1,21 +1,23 @@
 import { db } from '../db';
-import { fraudCasesTable, usersTable } from '../db/schema';
+import { fraudCasesTable, transactionsTable, usersTable } from '../db/schema';
 import { type FraudCase } from '../schema';
+import { canViewCase } from './check_permissions';
 import { eq } from 'drizzle-orm';
 
 export async function getFraudCaseByTxid(txid: string, userId?: number): Promise<FraudCase | null> {
   try {
-    // Query the fraud case by txid
+    // Resolve the case through any of its transactions
     const results = await db.select()
-      .from(fraudCasesTable)
-      .where(eq(fraudCasesTable.txid, txid))
+      .from(transactionsTable)
+      .innerJoin(fraudCasesTable, eq(transactionsTable.case_id, fraudCasesTable.id))
+      .where(eq(transactionsTable.txid, txid))
       .execute();
 
     if (results.length === 0) {
       return null;
     }
 
-    const fraudCase = results[0];
+    const fraudCase = results[0].fraud_cases;
 
     // If userId is provided, perform permission validation
     if (userId !== undefined) {
@@ -29,17 +31,7 @@ export async function getFraudCaseByTxid(txid: string, userId?: number): Promise
         throw new Error('User not found');
       }
 
-      const user = userResults[0];
-
-      // Permission check: viewers and above can read cases they created or are assigned to
-      // Investigators, analysts, and admins can read all cases
-      const canRead = 
-        user.role === 'admin' ||
-        user.role === 'investigator' ||
-        user.role === 'analyst' ||
-        (user.role === 'viewer' && (fraudCase.created_by === userId || fraudCase.assigned_to === userId));
-
-      if (!canRead) {
+      if (!canViewCase(userResults[0], fraudCase)) {
         throw new Error('Insufficient permissions to access this case');
       }
     }
@@ -1,77 +1,229 @@
 import { db } from '../db';
-import { fraudCasesTable, usersTable } from '../db/schema';
-import { type FraudCase, type CaseFilters } from '../schema';
-import { eq, and, or, type SQL } from 'drizzle-orm';
+import { caseEscalationsTable, fraudCasesTable, transactionsTable, usersTable } from '../db/schema';
+import { type CaseFilters, type CaseListOptions, type CasePage, type CaseSort } from '../schema';
+import { slaBreachedCondition } from './case_sla';
+import { eq, and, or, not, inArray, isNull, gte, lte, asc, desc, count, sql, type SQL } from 'drizzle-orm';
 
-export async function getFraudCases(filters?: CaseFilters, userId?: number): Promise<FraudCase[]> {
+export const DEFAULT_CASE_PAGE_SIZE = 50;
+export const DEFAULT_CASE_SORT: CaseSort[] = [{ field: 'created_at', direction: 'desc' }];
+
+const SORT_COLUMNS = {
+  created_at: fraudCasesTable.created_at,
+  updated_at: fraudCasesTable.updated_at,
+  priority: fraudCasesTable.priority,
+  status: fraudCasesTable.status
+};
+
+// Position of the last row of a page, tied to the sort it was produced with
+interface CaseCursor {
+  sort: string;
+  values: string[];
+  id: number;
+}
+
+const sortKey = (sort: CaseSort[]) => sort.map(({ field, direction }) => `${field}:${direction}`).join(',');
+
+function decodeCursor(cursor: string, sort: CaseSort[]): CaseCursor {
+  let decoded: CaseCursor;
   try {
-    // Build conditions array
-    const conditions: SQL<unknown>[] = [];
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid cursor');
+  }
 
-    // Apply filters if provided
-    if (filters) {
-      if (filters.status) {
-        conditions.push(eq(fraudCasesTable.status, filters.status));
-      }
+  if (
+    decoded?.sort !== sortKey(sort) ||
+    !Array.isArray(decoded.values) ||
+    decoded.values.length !== sort.length ||
+    !decoded.values.every(value => typeof value === 'string') ||
+    !Number.isInteger(decoded.id)
+  ) {
+    throw new Error('Invalid cursor');
+  }
 
-      if (filters.priority) {
-        conditions.push(eq(fraudCasesTable.priority, filters.priority));
-      }
+  return decoded;
+}
 
-      if (filters.assigned_to !== undefined) {
-        conditions.push(eq(fraudCasesTable.assigned_to, filters.assigned_to));
-      }
+// Rows strictly after the cursor in sort order, with the case id breaking ties in the direction of the last column
+function afterCursor(sort: CaseSort[], cursor: CaseCursor): SQL {
+  const tiebreak = sort[sort.length - 1].direction;
+  const keys = [
+    ...sort.map(({ field, direction }, index) => ({ column: SORT_COLUMNS[field], direction, value: cursor.values[index] as string | number })),
+    { column: fraudCasesTable.id, direction: tiebreak, value: cursor.id }
+  ];
 
-      if (filters.created_by) {
-        conditions.push(eq(fraudCasesTable.created_by, filters.created_by));
-      }
+  return or(...keys.map((key, index) => and(
+    ...keys.slice(0, index).map(previous => sql`${previous.column} = ${previous.value}`),
+    key.direction === 'asc' ? sql`${key.column} > ${key.value}` : sql`${key.column} < ${key.value}`
+  )))!;
+}
 
-      if (filters.txid) {
-        conditions.push(eq(fraudCasesTable.txid, filters.txid));
-      }
+// WHERE conditions for the given filters and, when userId is provided, the user's case visibility
+export async function buildCaseConditions(filters?: CaseFilters, userId?: number): Promise<SQL<unknown>[]> {
+  // Build conditions array
+  const conditions: SQL<unknown>[] = [];
+
+  // Apply filters if provided
+  if (filters) {
+    if (filters.status) {
+      conditions.push(Array.isArray(filters.status)
+        ? inArray(fraudCasesTable.status, filters.status)
+        : eq(fraudCasesTable.status, filters.status));
     }
 
-    // Apply permission-based filtering if userId is provided
-    if (userId !== undefined) {
-      // Get user role to determine permissions
-      const userResult = await db.select()
-        .from(usersTable)
-        .where(eq(usersTable.id, userId))
-        .execute();
+    if (filters.priority) {
+      conditions.push(eq(fraudCasesTable.priority, filters.priority));
+    }
 
-      if (userResult.length === 0) {
-        throw new Error('User not found');
-      }
+    if (filters.min_priority) {
+      // Enum values compare in their declared order, low to critical
+      conditions.push(gte(fraudCasesTable.priority, filters.min_priority));
+    }
+
+    if (filters.disposition) {
+      conditions.push(eq(fraudCasesTable.disposition, filters.disposition));
+    }
 
-      const user = userResult[0];
-
-      // Apply role-based restrictions
-      if (user.role === 'viewer') {
-        // Viewers can only see cases assigned to them
-        conditions.push(eq(fraudCasesTable.assigned_to, userId));
-      } else if (user.role === 'analyst') {
-        // Analysts can see cases they created OR are assigned to
-        conditions.push(
-          or(
-            eq(fraudCasesTable.assigned_to, userId),
-            eq(fraudCasesTable.created_by, userId)
-          )!
-        );
+    if (filters.assigned_to === null) {
+      conditions.push(isNull(fraudCasesTable.assigned_to));
+    } else if (filters.assigned_to !== undefined) {
+      conditions.push(eq(fraudCasesTable.assigned_to, filters.assigned_to));
+    }
+
+    if (filters.assigned_to_me) {
+      if (userId === undefined) {
+        throw new Error('assigned_to_me needs a user to resolve against');
       }
-      // Investigators and admins can see all cases (no additional restrictions)
+      conditions.push(eq(fraudCasesTable.assigned_to, userId));
+    }
+
+    if (filters.created_by) {
+      conditions.push(eq(fraudCasesTable.created_by, filters.created_by));
+    }
+
+    if (filters.txid) {
+      // Match any transaction of the case, not just the primary one
+      conditions.push(inArray(
+        fraudCasesTable.id,
+        db.select({ case_id: transactionsTable.case_id })
+          .from(transactionsTable)
+          .where(eq(transactionsTable.txid, filters.txid))
+      ));
+    }
+
+    if (filters.created_from) {
+      conditions.push(gte(fraudCasesTable.created_at, filters.created_from));
+    }
+
+    if (filters.created_to) {
+      conditions.push(lte(fraudCasesTable.created_at, filters.created_to));
     }
 
-    // Execute query with or without conditions
-    const results = conditions.length > 0
-      ? await db.select()
-          .from(fraudCasesTable)
-          .where(conditions.length === 1 ? conditions[0] : and(...conditions))
-          .execute()
-      : await db.select()
-          .from(fraudCasesTable)
-          .execute();
+    if (filters.updated_from) {
+      conditions.push(gte(fraudCasesTable.updated_at, filters.updated_from));
+    }
+
+    if (filters.updated_to) {
+      conditions.push(lte(fraudCasesTable.updated_at, filters.updated_to));
+    }
+
+    if (filters.min_age_hours) {
+      conditions.push(lte(fraudCasesTable.created_at, new Date(Date.now() - filters.min_age_hours * 60 * 60 * 1000)));
+    }
+
+    if (filters.min_escalations) {
+      conditions.push(inArray(
+        fraudCasesTable.id,
+        db.select({ case_id: caseEscalationsTable.case_id })
+          .from(caseEscalationsTable)
+          .groupBy(caseEscalationsTable.case_id)
+          .having(gte(count(), filters.min_escalations))
+      ));
+    }
+
+    if (filters.sla_breached !== undefined) {
+      conditions.push(filters.sla_breached ? slaBreachedCondition() : not(slaBreachedCondition()));
+    }
+  }
+
+  // Apply permission-based filtering if userId is provided
+  if (userId !== undefined) {
+    // Get user role to determine permissions
+    const userResult = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (userResult.length === 0) {
+      throw new Error('User not found');
+    }
+
+    const user = userResult[0];
+
+    // Apply role-based restrictions
+    if (user.role === 'viewer') {
+      // Viewers can only see cases assigned to them
+      conditions.push(eq(fraudCasesTable.assigned_to, userId));
+    } else if (user.role === 'analyst') {
+      // Analysts can see cases they created OR are assigned to
+      conditions.push(
+        or(
+          eq(fraudCasesTable.assigned_to, userId),
+          eq(fraudCasesTable.created_by, userId)
+        )!
+      );
+    }
+    // Investigators and admins can see all cases (no additional restrictions)
+  }
+
+  return conditions;
+}
+
+export async function getFraudCases(filters?: CaseFilters, userId?: number, options: CaseListOptions = {}): Promise<CasePage> {
+  try {
+    const sort = options.sort ?? DEFAULT_CASE_SORT;
+    const limit = options.limit ?? DEFAULT_CASE_PAGE_SIZE;
+    const conditions = await buildCaseConditions(filters, userId);
+    const where = and(...conditions);
+
+    const pageConditions = options.cursor
+      ? [...conditions, afterCursor(sort, decodeCursor(options.cursor, sort))]
+      : conditions;
+
+    const orderBy = sort.map(({ field, direction }) => direction === 'asc' ? asc(SORT_COLUMNS[field]) : desc(SORT_COLUMNS[field]));
+    const tiebreak = sort[sort.length - 1].direction === 'asc' ? asc(fraudCasesTable.id) : desc(fraudCasesTable.id);
+
+    // Sort values are read back as text so timestamps keep their full precision in the cursor
+    const sortValues = sql<string[]>`json_build_array(${sql.join(sort.map(({ field }) => sql`${SORT_COLUMNS[field]}::text`), sql`, `)})`;
+
+    // Fetch one extra row to learn whether another page follows
+    const rows = await db.select({ fraudCase: fraudCasesTable, sortValues })
+      .from(fraudCasesTable)
+      .where(and(...pageConditions))
+      .orderBy(...orderBy, tiebreak)
+      .limit(limit + 1)
+      .execute();
+
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    const next_cursor = rows.length > limit
+      ? Buffer.from(JSON.stringify({ sort: sortKey(sort), values: last.sortValues, id: last.fraudCase.id })).toString('base64url')
+      : null;
+
+    let total: number | null = null;
+    if (options.include_total) {
+      const [result] = await db.select({ count: count() })
+        .from(fraudCasesTable)
+        .where(where)
+        .execute();
+      total = result.count;
+    }
 
-    return results;
+    return {
+      cases: page.map(row => row.fraudCase),
+      next_cursor,
+      total
+    };
 
   } catch (error) {
     console.error('Failed to get fraud cases:', error);
@@ -0,0 +1,12 @@
+import { type NotificationPreferences } from '../schema';
+import { loadNotificationPreferences } from './email_delivery';
+
+export async function getNotificationPreferences(userId: number): Promise<NotificationPreferences> {
+  try {
+    const preferences = await loadNotificationPreferences([userId]);
+    return preferences.get(userId)!;
+  } catch (error) {
+    console.error('Failed to get notification preferences:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,27 @@
+import { db } from '../db';
+import { notificationsTable } from '../db/schema';
+import { type GetNotificationsInput, type Notification } from '../schema';
+import { and, desc, eq, isNull, type SQL } from 'drizzle-orm';
+
+const DEFAULT_LIMIT = 20;
+
+// Newest notifications of a user first
+export async function getNotifications(userId: number, options: GetNotificationsInput = {}): Promise<Notification[]> {
+  try {
+    const conditions: SQL[] = [eq(notificationsTable.user_id, userId)];
+
+    if (options.unread_only) {
+      conditions.push(isNull(notificationsTable.read_at));
+    }
+
+    return await db.select()
+      .from(notificationsTable)
+      .where(and(...conditions))
+      .orderBy(desc(notificationsTable.created_at), desc(notificationsTable.id))
+      .limit(options.limit ?? DEFAULT_LIMIT)
+      .execute();
+  } catch (error) {
+    console.error('Failed to get notifications:', error);
+    throw error;
+  }
+}
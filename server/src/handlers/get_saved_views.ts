@@ -0,0 +1,36 @@
+import { db } from '../db';
+import { defaultSavedViewsTable, savedViewsTable, type SavedView as SavedViewRow } from '../db/schema';
+import { caseFiltersSchema, type SavedView, type SavedViewList } from '../schema';
+import { asc, eq, or } from 'drizzle-orm';
+
+// Filters are stored as JSON, so dates come back as strings until parsed again
+export function toSavedView(row: SavedViewRow): SavedView {
+  return { ...row, filters: caseFiltersSchema.parse(row.filters) };
+}
+
+export async function getSavedViews(userId: number): Promise<SavedViewList> {
+  try {
+    const rows = await db.select()
+      .from(savedViewsTable)
+      .where(or(eq(savedViewsTable.owner_id, userId), eq(savedViewsTable.shared, true)))
+      .orderBy(asc(savedViewsTable.name), asc(savedViewsTable.id))
+      .execute();
+
+    const defaults = await db.select()
+      .from(defaultSavedViewsTable)
+      .where(eq(defaultSavedViewsTable.user_id, userId))
+      .execute();
+
+    // A default that has since been unshared or deleted no longer applies
+    const defaultViewId = defaults[0]?.view_id ?? null;
+    const views = rows.map(toSavedView);
+
+    return {
+      views,
+      default_view_id: views.some(view => view.id === defaultViewId) ? defaultViewId : null
+    };
+  } catch (error) {
+    console.error('Failed to get saved views:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,35 @@
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { type User } from '../schema';
+import { hashSessionToken, toPublicUser } from '../helpers/auth';
+import { eq } from 'drizzle-orm';
+
+export async function getSessionUser(token: string): Promise<User | null> {
+  try {
+    const results = await db.select()
+      .from(sessionsTable)
+      .innerJoin(usersTable, eq(sessionsTable.user_id, usersTable.id))
+      .where(eq(sessionsTable.token_hash, hashSessionToken(token)))
+      .limit(1)
+      .execute();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    const session = results[0].sessions;
+
+    // Expired sessions are removed on first use
+    if (session.expires_at <= new Date()) {
+      await db.delete(sessionsTable)
+        .where(eq(sessionsTable.id, session.id))
+        .execute();
+      return null;
+    }
+
+    return toPublicUser(results[0].users);
+  } catch (error) {
+    console.error('Session lookup failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,12 @@
+import { type SlaPolicy } from '../schema';
+import { loadSlaPolicies } from './case_sla';
+
+export async function getSlaPolicies(): Promise<SlaPolicy[]> {
+  try {
+    const policies = await loadSlaPolicies();
+    return Object.values(policies);
+  } catch (error) {
+    console.error('Failed to get SLA policies:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,17 @@
+import { db } from '../db';
+import { notificationsTable } from '../db/schema';
+import { and, count, eq, isNull } from 'drizzle-orm';
+
+export async function getUnreadNotificationCount(userId: number): Promise<number> {
+  try {
+    const result = await db.select({ count: count() })
+      .from(notificationsTable)
+      .where(and(eq(notificationsTable.user_id, userId), isNull(notificationsTable.read_at)))
+      .execute();
+
+    return result[0].count;
+  } catch (error) {
+    console.error('Failed to count unread notifications:', error);
+    throw error;
+  }
+}
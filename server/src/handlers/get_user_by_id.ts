@@ -1,6 +1,7 @@
 import { db } from '../db';
 import { usersTable } from '../db/schema';
 import { type User } from '../schema';
+import { toPublicUser } from '../helpers/auth';
 import { eq } from 'drizzle-orm';
 
 export async function getUserById(id: number): Promise<User | null> {
@@ -15,7 +16,7 @@ export async function getUserById(id: number): Promise<User | null> {
       return null;
     }
 
-    return results[0];
+    return toPublicUser(results[0]);
   } catch (error) {
     console.error('User lookup failed:', error);
     throw error;
@@ -1,6 +1,7 @@
 import { db } from '../db';
 import { usersTable } from '../db/schema';
 import { type User, type UserRole } from '../schema';
+import { toPublicUser } from '../helpers/auth';
 import { eq } from 'drizzle-orm';
 
 export async function getUsers(role?: UserRole): Promise<User[]> {
@@ -15,12 +16,8 @@ export async function getUsers(role?: UserRole): Promise<User[]> {
           .from(usersTable)
           .execute();
 
-    // Return users with proper type conversion
-    return results.map(user => ({
-      ...user,
-      created_at: user.created_at,
-      updated_at: user.updated_at
-    }));
+    // Return users without credential columns
+    return results.map(toPublicUser);
   } catch (error) {
     console.error('Failed to fetch users:', error);
     throw error;
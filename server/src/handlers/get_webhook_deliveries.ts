@@ -0,0 +1,31 @@
+import { db } from '../db';
+import { webhookDeliveriesTable } from '../db/schema';
+import { type GetWebhookDeliveriesInput, type WebhookDelivery } from '../schema';
+import { and, desc, eq, type SQL } from 'drizzle-orm';
+
+const DEFAULT_LIMIT = 50;
+
+// The delivery log, newest first
+export async function getWebhookDeliveries(input: GetWebhookDeliveriesInput = {}): Promise<WebhookDelivery[]> {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (input.subscription_id !== undefined) {
+      conditions.push(eq(webhookDeliveriesTable.subscription_id, input.subscription_id));
+    }
+
+    if (input.status !== undefined) {
+      conditions.push(eq(webhookDeliveriesTable.status, input.status));
+    }
+
+    return await db.select()
+      .from(webhookDeliveriesTable)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(webhookDeliveriesTable.created_at), desc(webhookDeliveriesTable.id))
+      .limit(input.limit ?? DEFAULT_LIMIT)
+      .execute();
+  } catch (error) {
+    console.error('Failed to get webhook deliveries:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,16 @@
+import { db } from '../db';
+import { webhookSubscriptionsTable } from '../db/schema';
+import { type WebhookSubscription } from '../schema';
+import { asc } from 'drizzle-orm';
+
+export async function getWebhookSubscriptions(): Promise<WebhookSubscription[]> {
+  try {
+    return await db.select()
+      .from(webhookSubscriptionsTable)
+      .orderBy(asc(webhookSubscriptionsTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to get webhook subscriptions:', error);
+    throw error;
+  }
+}
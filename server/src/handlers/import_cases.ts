@@ -0,0 +1,205 @@
+import { db } from '../db';
+import { fraudCasesTable, transactionsTable, usersTable } from '../db/schema';
+import {
+  createFraudCaseInputSchema,
+  type FraudCase,
+  type ImportCasesInput,
+  type ImportCasesResult,
+  type ImportRowResult
+} from '../schema';
+import { parseCsvRecords } from '../helpers/csv';
+import { diffCaseFields, recordCaseEvent } from './record_case_event';
+import { computeSlaDueDates, loadSlaPolicies } from './case_sla';
+import { queueWebhookEvent } from './webhook_delivery';
+import { publishCaseChange } from './case_change_feed';
+import { autoAssignNewCase } from './auto_assignment';
+import { eq, inArray } from 'drizzle-orm';
+
+export const IMPORT_MAX_ROWS = 1000;
+
+const importRowSchema = createFraudCaseInputSchema.omit({ created_by: true });
+
+const TRANSACTION_FIELDS = ['txid', 'amount', 'currency', 'occurred_at', 'merchant', 'channel', 'account', 'counterparty'] as const;
+
+type RawRow = Record<string, unknown>;
+
+// Empty CSV cells mean "not provided"; amounts arrive as text
+const fromCsvCell = (field: string, value: unknown): unknown => {
+  if (value === '') return undefined;
+  if (field === 'amount' && typeof value === 'string') return Number(value);
+  return value;
+};
+
+// Rows either list their transactions or describe a single transaction inline, as CSV rows do
+const toCaseInput = (row: RawRow) => {
+  if (Array.isArray(row['transactions'])) {
+    return { description: row['description'], priority: row['priority'], transactions: row['transactions'] };
+  }
+
+  const transaction = Object.fromEntries(
+    TRANSACTION_FIELDS.map(field => [field, fromCsvCell(field, row[field])]).filter(([, value]) => value !== undefined)
+  );
+
+  return {
+    description: row['description'],
+    priority: row['priority'] === '' ? undefined : row['priority'],
+    transactions: [transaction]
+  };
+};
+
+const parseRows = (format: ImportCasesInput['format'], content: string): RawRow[] => {
+  if (format === 'csv') {
+    return parseCsvRecords(content);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error('Import file is not valid JSON');
+  }
+
+  if (!Array.isArray(parsed) || parsed.some(row => typeof row !== 'object' || row === null || Array.isArray(row))) {
+    throw new Error('JSON imports must be an array of case objects');
+  }
+
+  return parsed as RawRow[];
+};
+
+export async function importCases(input: ImportCasesInput): Promise<ImportCasesResult> {
+  try {
+    const creator = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, input.created_by))
+      .execute();
+
+    if (creator.length === 0) {
+      throw new Error(`User with ID ${input.created_by} does not exist`);
+    }
+
+    const rawRows = parseRows(input.format, input.content);
+
+    if (rawRows.length === 0) {
+      throw new Error('Import file contains no rows');
+    }
+
+    if (rawRows.length > IMPORT_MAX_ROWS) {
+      throw new Error(`Imports are limited to ${IMPORT_MAX_ROWS} rows`);
+    }
+
+    // Validate every row before looking for duplicates
+    const validated = rawRows.map((raw, index) => {
+      const parsed = importRowSchema.safeParse(toCaseInput(raw));
+      const result: ImportRowResult = {
+        row: index + 1,
+        status: parsed.success ? 'valid' : 'invalid',
+        txids: parsed.success ? parsed.data.transactions.map(transaction => transaction.txid) : [],
+        case_id: null,
+        errors: parsed.success
+          ? []
+          : parsed.error.issues.map(issue => issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message)
+      };
+
+      return { result, data: parsed.success ? parsed.data : null };
+    });
+
+    // Duplicates are transactions already linked to a case, or listed by an earlier row of the file
+    const allTxids = validated.flatMap(({ result }) => result.txids);
+    const existing = allTxids.length > 0
+      ? await db.select({ txid: transactionsTable.txid, case_id: transactionsTable.case_id })
+          .from(transactionsTable)
+          .where(inArray(transactionsTable.txid, allTxids))
+          .execute()
+      : [];
+    const existingCaseByTxid = new Map(existing.map(transaction => [transaction.txid, transaction.case_id]));
+    const firstRowByTxid = new Map<string, number>();
+
+    for (const { result } of validated) {
+      for (const txid of result.txids) {
+        const caseId = existingCaseByTxid.get(txid);
+        const firstRow = firstRowByTxid.get(txid);
+
+        if (caseId !== undefined) {
+          result.errors.push(`Transaction ${txid} is already linked to case #${caseId}`);
+        } else if (firstRow !== undefined) {
+          result.errors.push(`Transaction ${txid} is also listed in row ${firstRow}`);
+        } else {
+          firstRowByTxid.set(txid, result.row);
+        }
+      }
+
+      if (result.status === 'valid' && result.errors.length > 0) {
+        result.status = 'duplicate';
+      }
+    }
+
+    const rows = validated.map(({ result }) => result);
+    const validRows = rows.filter(row => row.status === 'valid').length;
+
+    // All or nothing: a file with any bad row is reported back without creating cases
+    if (input.dry_run || validRows < rows.length) {
+      return { dry_run: input.dry_run, total_rows: rows.length, valid_rows: validRows, created_count: 0, rows };
+    }
+
+    const slaPolicies = await loadSlaPolicies();
+
+    const createdCases = await db.transaction(async (tx) => {
+      const cases: FraudCase[] = [];
+      for (const { result, data } of validated) {
+        const caseInput = data!;
+        const createdAt = new Date();
+
+        const created = await tx.insert(fraudCasesTable)
+          .values({
+            txid: caseInput.transactions[0].txid,
+            description: caseInput.description,
+            status: 'open',
+            priority: caseInput.priority,
+            assigned_to: null,
+            created_by: input.created_by,
+            ...computeSlaDueDates(createdAt, slaPolicies[caseInput.priority]),
+            created_at: createdAt,
+            updated_at: createdAt
+          })
+          .returning()
+          .execute();
+
+        const fraudCase = created[0];
+
+        await tx.insert(transactionsTable)
+          .values(caseInput.transactions.map(transaction => ({ ...transaction, case_id: fraudCase.id })))
+          .execute();
+
+        await recordCaseEvent({
+          case_id: fraudCase.id,
+          actor_id: input.created_by,
+          event_type: 'created',
+          changes: diffCaseFields(null, fraudCase),
+          metadata: { transaction_count: caseInput.transactions.length, import_row: result.row }
+        }, tx);
+
+        await queueWebhookEvent('case.created', { case: fraudCase }, createdAt, tx);
+
+        result.status = 'created';
+        result.case_id = fraudCase.id;
+        cases.push(fraudCase);
+      }
+      return cases;
+    });
+
+    // Announced once the import has committed, so clients never hear of cases that were rolled back
+    for (const fraudCase of createdCases) {
+      publishCaseChange({ type: 'created', actor_id: input.created_by, case: fraudCase, previous: null });
+    }
+
+    // Imported cases are picked up by the auto-assignment rule of their priority, in file order
+    for (const fraudCase of createdCases) {
+      await autoAssignNewCase(fraudCase);
+    }
+
+    return { dry_run: false, total_rows: rows.length, valid_rows: validRows, created_count: rows.length, rows };
+  } catch (error) {
+    console.error('Case import failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,55 @@
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { type AuthSession, type LoginInput } from '../schema';
+import { generateSessionToken, hashPassword, hashSessionToken, toPublicUser, verifyPassword } from '../helpers/auth';
+import { eq } from 'drizzle-orm';
+
+const DEFAULT_SESSION_TTL_HOURS = 12;
+
+// Checked against when there is no password to check, so those logins take as long as a wrong password
+const dummyPasswordHash = hashPassword(generateSessionToken());
+
+const getSessionTtlMs = (): number => {
+  const hours = parseFloat(process.env['SESSION_TTL_HOURS'] || '');
+  return (hours > 0 ? hours : DEFAULT_SESSION_TTL_HOURS) * 60 * 60 * 1000;
+};
+
+export const login = async (input: LoginInput): Promise<AuthSession> => {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.username, input.username))
+      .execute();
+
+    // Same error for unknown user and wrong password to avoid username enumeration
+    const user = users[0];
+    if (!user || !user.password_hash) {
+      await verifyPassword(input.password, await dummyPasswordHash);
+      throw new Error('Invalid username or password');
+    }
+
+    if (!(await verifyPassword(input.password, user.password_hash))) {
+      throw new Error('Invalid username or password');
+    }
+
+    const token = generateSessionToken();
+    const expiresAt = new Date(Date.now() + getSessionTtlMs());
+
+    await db.insert(sessionsTable)
+      .values({
+        token_hash: hashSessionToken(token),
+        user_id: user.id,
+        expires_at: expiresAt
+      })
+      .execute();
+
+    return {
+      token,
+      expires_at: expiresAt,
+      user: toPublicUser(user)
+    };
+  } catch (error) {
+    console.error('Login failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,18 @@
+import { db } from '../db';
+import { sessionsTable } from '../db/schema';
+import { hashSessionToken } from '../helpers/auth';
+import { eq } from 'drizzle-orm';
+
+export const logout = async (token: string): Promise<{ success: boolean }> => {
+  try {
+    const result = await db.delete(sessionsTable)
+      .where(eq(sessionsTable.token_hash, hashSessionToken(token)))
+      .returning()
+      .execute();
+
+    return { success: result.length > 0 };
+  } catch (error) {
+    console.error('Logout failed:', error);
+    throw error;
+  }
+};
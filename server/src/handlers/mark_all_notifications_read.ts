@@ -0,0 +1,19 @@
+import { db } from '../db';
+import { notificationsTable } from '../db/schema';
+import { and, eq, isNull } from 'drizzle-orm';
+
+// Returns the number of notifications that were unread
+export async function markAllNotificationsRead(userId: number): Promise<{ updated: number }> {
+  try {
+    const result = await db.update(notificationsTable)
+      .set({ read_at: new Date() })
+      .where(and(eq(notificationsTable.user_id, userId), isNull(notificationsTable.read_at)))
+      .returning({ id: notificationsTable.id })
+      .execute();
+
+    return { updated: result.length };
+  } catch (error) {
+    console.error('Failed to mark notifications as read:', error);
+    throw error;
+  }
+}
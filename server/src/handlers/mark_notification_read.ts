@@ -0,0 +1,34 @@
+import { db } from '../db';
+import { notificationsTable } from '../db/schema';
+import { type Notification } from '../schema';
+import { eq } from 'drizzle-orm';
+
+export async function markNotificationRead(notificationId: number, userId: number): Promise<Notification> {
+  try {
+    const notifications = await db.select()
+      .from(notificationsTable)
+      .where(eq(notificationsTable.id, notificationId))
+      .execute();
+
+    // Other users' notifications are reported as missing rather than forbidden
+    if (notifications.length === 0 || notifications[0].user_id !== userId) {
+      throw new Error('Notification not found');
+    }
+
+    // Keep the time it was first read
+    if (notifications[0].read_at !== null) {
+      return notifications[0];
+    }
+
+    const result = await db.update(notificationsTable)
+      .set({ read_at: new Date() })
+      .where(eq(notificationsTable.id, notificationId))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Failed to mark notification as read:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,66 @@
+import { db } from '../db';
+import { caseNoteMentionsTable, usersTable } from '../db/schema';
+import { eq, inArray } from 'drizzle-orm';
+
+// `@username` preceded by start of text or a non-word character, so e-mail addresses do not match
+const MENTION_PATTERN = /(?:^|[^\w@])@([\w.-]+)/g;
+
+export function extractMentionUsernames(body: string): string[] {
+  const usernames = new Set<string>();
+
+  for (const match of body.matchAll(MENTION_PATTERN)) {
+    // Sentence punctuation directly after a mention is not part of the username
+    const username = match[1].replace(/[.-]+$/, '');
+    if (username) {
+      usernames.add(username);
+    }
+  }
+
+  return [...usernames];
+}
+
+// Replaces the recorded mentions of a note with the users @mentioned in its body; unknown usernames are ignored
+export async function syncNoteMentions(noteId: number, body: string): Promise<number[]> {
+  await db.delete(caseNoteMentionsTable)
+    .where(eq(caseNoteMentionsTable.note_id, noteId))
+    .execute();
+
+  const usernames = extractMentionUsernames(body);
+  if (usernames.length === 0) {
+    return [];
+  }
+
+  const mentionedUsers = await db.select({ id: usersTable.id })
+    .from(usersTable)
+    .where(inArray(usersTable.username, usernames))
+    .execute();
+
+  if (mentionedUsers.length === 0) {
+    return [];
+  }
+
+  await db.insert(caseNoteMentionsTable)
+    .values(mentionedUsers.map(user => ({ note_id: noteId, user_id: user.id })))
+    .execute();
+
+  return mentionedUsers.map(user => user.id);
+}
+
+// Mentioned user IDs keyed by note ID
+export async function getNoteMentions(noteIds: number[]): Promise<Map<number, number[]>> {
+  const mentions = new Map<number, number[]>(noteIds.map(id => [id, []]));
+  if (noteIds.length === 0) {
+    return mentions;
+  }
+
+  const rows = await db.select()
+    .from(caseNoteMentionsTable)
+    .where(inArray(caseNoteMentionsTable.note_id, noteIds))
+    .execute();
+
+  for (const row of rows) {
+    mentions.get(row.note_id)?.push(row.user_id);
+  }
+
+  return mentions;
+}
@@ -0,0 +1,55 @@
+import { db, type DbExecutor } from '../db';
+import { caseEventsTable, type NewCaseEvent } from '../db/schema';
+import { type CaseEvent, type CaseFieldChanges, type FraudCase } from '../schema';
+
+// Bookkeeping columns that are not part of the audited case state; SLA deadlines and milestones
+// follow from the audited fields and the SLA policy
+const UNTRACKED_FIELDS = new Set([
+  'id', 'created_at', 'updated_at',
+  'assignment_due_at', 'first_action_due_at', 'resolution_due_at',
+  'first_assigned_at', 'first_action_at', 'resolved_at',
+  'version'
+]);
+
+type CaseFieldValue = CaseFieldChanges[string]['to'];
+
+const toFieldValue = (value: unknown): CaseFieldValue => {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'number' || typeof value === 'string') return value;
+  return String(value);
+};
+
+// Field-level before/after diff of a case; `before` is null for newly created cases
+export function diffCaseFields(before: FraudCase | null, after: FraudCase): CaseFieldChanges {
+  const changes: CaseFieldChanges = {};
+
+  for (const [field, value] of Object.entries(after)) {
+    if (UNTRACKED_FIELDS.has(field)) continue;
+
+    const from = toFieldValue(before ? before[field as keyof FraudCase] : null);
+    const to = toFieldValue(value);
+
+    if (before === null ? to !== null : from !== to) {
+      changes[field] = { from, to };
+    }
+  }
+
+  return changes;
+}
+
+// Appends an entry to the case audit log. There is intentionally no update or delete counterpart.
+// Pass the transaction of the change being recorded so the two are committed together.
+export const recordCaseEvent = async (event: NewCaseEvent, executor: DbExecutor = db): Promise<CaseEvent> => {
+  try {
+    const result = await executor.insert(caseEventsTable)
+      .values(event)
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Failed to record case event:', error);
+    throw error;
+  }
+};
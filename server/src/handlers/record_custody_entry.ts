@@ -0,0 +1,104 @@
+import { createHash } from 'node:crypto';
+import { db, type DbExecutor } from '../db';
+import { custodyEntriesTable } from '../db/schema';
+import { type CustodyAction, type CustodyEntry } from '../schema';
+import { desc, eq, sql } from 'drizzle-orm';
+
+// previous_hash of the first entry in every case chain
+export const GENESIS_HASH = '0'.repeat(64);
+
+// Namespace for the per-case advisory lock that serialises appends to a chain
+const CUSTODY_LOCK_NAMESPACE = 8008;
+
+export interface CustodyEntryInput {
+  attachment_id: number;
+  actor_id: number;
+  action: CustodyAction;
+  attachment_sha256: string;
+  details?: Record<string, string | number | null> | null;
+}
+
+type HashedFields = Omit<CustodyEntry, 'id' | 'entry_hash'>;
+
+// Keys are sorted because jsonb does not preserve key order
+const canonicalDetails = (details: HashedFields['details']): string =>
+  details === null
+    ? 'null'
+    : JSON.stringify(Object.keys(details).sort().map(key => [key, details[key]]));
+
+export function computeCustodyHash(entry: HashedFields): string {
+  return createHash('sha256')
+    .update([
+      entry.previous_hash,
+      entry.case_id,
+      entry.attachment_id,
+      entry.actor_id,
+      entry.action,
+      entry.attachment_sha256,
+      canonicalDetails(entry.details),
+      entry.created_at.toISOString()
+    ].join('|'))
+    .digest('hex');
+}
+
+// Appends entries to the end of a case's custody chain, in order. Pass the transaction of the evidence
+// change being recorded so the two are committed together; without one the entries get their own.
+export const recordCustodyEntries = async (
+  caseId: number,
+  entries: CustodyEntryInput[],
+  executor?: DbExecutor
+): Promise<CustodyEntry[]> => {
+  if (entries.length === 0) {
+    return [];
+  }
+
+  // The advisory lock is held until the surrounding transaction ends
+  const append = async (tx: DbExecutor): Promise<CustodyEntry[]> => {
+    await tx.execute(sql`select pg_advisory_xact_lock(${CUSTODY_LOCK_NAMESPACE}, ${caseId})`);
+
+    const last = await tx.select({ entry_hash: custodyEntriesTable.entry_hash })
+      .from(custodyEntriesTable)
+      .where(eq(custodyEntriesTable.case_id, caseId))
+      .orderBy(desc(custodyEntriesTable.id))
+      .limit(1)
+      .execute();
+
+    let previousHash = last[0]?.entry_hash ?? GENESIS_HASH;
+    const recorded: CustodyEntry[] = [];
+
+    for (const entry of entries) {
+      const fields: HashedFields = {
+        case_id: caseId,
+        attachment_id: entry.attachment_id,
+        actor_id: entry.actor_id,
+        action: entry.action,
+        attachment_sha256: entry.attachment_sha256,
+        details: entry.details ?? null,
+        previous_hash: previousHash,
+        created_at: new Date()
+      };
+
+      const result = await tx.insert(custodyEntriesTable)
+        .values({ ...fields, entry_hash: computeCustodyHash(fields) })
+        .returning()
+        .execute();
+
+      recorded.push(result[0]);
+      previousHash = result[0].entry_hash;
+    }
+
+    return recorded;
+  };
+
+  try {
+    return executor ? await append(executor) : await db.transaction(append);
+  } catch (error) {
+    console.error('Failed to record custody entry:', error);
+    throw error;
+  }
+};
+
+export const recordCustodyEntry = async (caseId: number, entry: CustodyEntryInput, executor?: DbExecutor): Promise<CustodyEntry> => {
+  const [recorded] = await recordCustodyEntries(caseId, [entry], executor);
+  return recorded;
+};
@@ -0,0 +1,46 @@
+import { db } from '../db';
+import { webhookDeliveriesTable, webhookSubscriptionsTable } from '../db/schema';
+import { type WebhookDelivery } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Queues the same payload again as a new delivery, leaving the original in the log as it was.
+// It goes out on the next delivery run, signed with the subscription's current secret.
+export async function redeliverWebhook(deliveryId: number): Promise<WebhookDelivery> {
+  try {
+    const deliveries = await db.select()
+      .from(webhookDeliveriesTable)
+      .where(eq(webhookDeliveriesTable.id, deliveryId))
+      .execute();
+
+    if (deliveries.length === 0) {
+      throw new Error('Webhook delivery not found');
+    }
+
+    const original = deliveries[0];
+    const subscriptions = await db.select()
+      .from(webhookSubscriptionsTable)
+      .where(eq(webhookSubscriptionsTable.id, original.subscription_id))
+      .execute();
+
+    if (!subscriptions[0]?.active) {
+      throw new Error('Cannot redeliver to an inactive webhook subscription');
+    }
+
+    const result = await db.insert(webhookDeliveriesTable)
+      .values({
+        subscription_id: original.subscription_id,
+        event: original.event,
+        event_id: original.event_id,
+        payload: original.payload,
+        next_attempt_at: new Date(),
+        redelivery_of: original.id
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Webhook redelivery failed:', error);
+    throw error;
+  }
+}
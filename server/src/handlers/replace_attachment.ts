@@ -0,0 +1,115 @@
+import { createHash, randomUUID } from 'node:crypto';
+import { db, type DbExecutor } from '../db';
+import { caseAttachmentsTable, fraudCasesTable, usersTable, type CaseAttachment as CaseAttachmentRow } from '../db/schema';
+import { type CaseAttachment, type ReplaceAttachmentInput } from '../schema';
+import { getAttachmentStorage } from '../helpers/attachment_storage';
+import { canViewCase } from './check_permissions';
+import { recordCustodyEntries } from './record_custody_entry';
+import { maxAttachmentBytes, sanitizeFilename } from './upload_attachment';
+import { eq } from 'drizzle-orm';
+
+// Reads the attachment and holds its row until the transaction ends, so replacements of one item run one after the other
+async function lockAttachment(tx: DbExecutor, attachmentId: number): Promise<CaseAttachmentRow | null> {
+  const result = await tx.select()
+    .from(caseAttachmentsTable)
+    .where(eq(caseAttachmentsTable.id, attachmentId))
+    .for('update')
+    .execute();
+
+  return result[0] ?? null;
+}
+
+// Swaps the content of an evidence item. The superseded file stays in storage and the custody ledger
+// records where it is kept, followed by the replacement that took its place.
+export async function replaceAttachment(input: ReplaceAttachmentInput, userId: number): Promise<CaseAttachment> {
+  try {
+    const attachments = await db.select()
+      .from(caseAttachmentsTable)
+      .where(eq(caseAttachmentsTable.id, input.attachment_id))
+      .execute();
+
+    if (attachments.length === 0) {
+      throw new Error('Attachment not found');
+    }
+
+    const existing = attachments[0];
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    const cases = await db.select()
+      .from(fraudCasesTable)
+      .where(eq(fraudCasesTable.id, existing.case_id))
+      .execute();
+
+    if (cases.length === 0 || !canViewCase(users[0], cases[0])) {
+      throw new Error('Insufficient permissions to replace this attachment');
+    }
+
+    const content = Buffer.from(input.content_base64, 'base64');
+    if (content.length > maxAttachmentBytes()) {
+      throw new Error(`Attachment exceeds the maximum size of ${maxAttachmentBytes()} bytes`);
+    }
+
+    const storageKey = `cases/${existing.case_id}/${randomUUID()}`;
+    const storage = getAttachmentStorage();
+    await storage.put(storageKey, content);
+
+    try {
+      // The swap and its custody entry are committed together or not at all
+      return await db.transaction(async (tx) => {
+        // A replacement that got in first is the one superseded here
+        const previous = await lockAttachment(tx, existing.id);
+
+        if (!previous) {
+          throw new Error('Attachment not found');
+        }
+
+        const result = await tx.update(caseAttachmentsTable)
+          .set({
+            filename: sanitizeFilename(input.filename),
+            mime_type: input.mime_type,
+            size_bytes: content.length,
+            sha256: createHash('sha256').update(content).digest('hex'),
+            storage_key: storageKey
+          })
+          .where(eq(caseAttachmentsTable.id, existing.id))
+          .returning()
+          .execute();
+
+        const { storage_key, ...attachment } = result[0];
+
+        await recordCustodyEntries(attachment.case_id, [
+          {
+            attachment_id: attachment.id,
+            actor_id: userId,
+            action: 'superseded',
+            attachment_sha256: previous.sha256,
+            details: { filename: previous.filename, storage_key: previous.storage_key }
+          },
+          {
+            attachment_id: attachment.id,
+            actor_id: userId,
+            action: 'replaced',
+            attachment_sha256: attachment.sha256,
+            details: { filename: attachment.filename, previous_sha256: previous.sha256 }
+          }
+        ], tx);
+
+        return attachment;
+      });
+    } catch (error) {
+      await storage.delete(storageKey);
+      throw error;
+    }
+  } catch (error) {
+    console.error('Attachment replacement failed:', error);
+    throw error;
+  }
+}
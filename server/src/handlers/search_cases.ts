@@ -0,0 +1,199 @@
+import { db } from '../db';
+import { caseNotesTable, fraudCasesTable, transactionsTable, usersTable } from '../db/schema';
+import { type CaseSearchResult, type HighlightSegment, type SearchCasesInput, type SearchMatchField } from '../schema';
+import { buildCaseConditions } from './get_fraud_cases';
+import { alias, union } from 'drizzle-orm/pg-core';
+import { and, desc, eq, exists, ilike, inArray, isNull, like, or, sql, type SQL } from 'drizzle-orm';
+
+export const DEFAULT_SEARCH_LIMIT = 25;
+
+// Highlights are marked with control characters so text in a case can never pass for a marker
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_STOP = '\u0003';
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MinWords=10, MaxWords=30, MaxFragments=2`;
+
+// Every word of the query becomes a prefix term, so "refu card" finds "refunded card payments"
+export function toPrefixTsQuery(query: string): string | null {
+  const words = query.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  return words ? words.map(word => `${word}:*`).join(' & ') : null;
+}
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, '\\$&');
+
+function toSegments(headline: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let highlighted = false;
+
+  for (const part of headline.split(/([\u0002\u0003])/)) {
+    if (part === HIGHLIGHT_START) {
+      highlighted = true;
+    } else if (part === HIGHLIGHT_STOP) {
+      highlighted = false;
+    } else if (part) {
+      segments.push({ text: part, highlighted });
+    }
+  }
+
+  return segments;
+}
+
+export async function searchCases(input: SearchCasesInput, userId: number): Promise<CaseSearchResult[]> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    const user = users[0];
+    const query = input.query.trim();
+    const prefixQuery = toPrefixTsQuery(query);
+
+    // Same expressions as the GIN indexes on fraud_cases and case_notes
+    const tsQuery = sql`to_tsquery('english', ${prefixQuery ?? ''})`;
+    const descriptionVector = sql`to_tsvector('english', ${fraudCasesTable.description})`;
+    const noteVector = sql`to_tsvector('english', ${caseNotesTable.body})`;
+
+    const txidPrefix = `${escapeLike(query.toLowerCase())}%`;
+    const usernamePattern = `%${escapeLike(query)}%`;
+
+    // Viewers only see shareable notes, and not replies to a note hidden from them
+    const parentNote = alias(caseNotesTable, 'parent_note');
+    const noteConditions: SQL<unknown>[] = [sql`${noteVector} @@ ${tsQuery}`];
+    if (user.role === 'viewer') {
+      noteConditions.push(eq(caseNotesTable.visibility, 'shareable'));
+      noteConditions.push(or(
+        isNull(caseNotesTable.parent_id),
+        exists(db.select({ id: parentNote.id })
+          .from(parentNote)
+          .where(and(eq(parentNote.id, caseNotesTable.parent_id), eq(parentNote.visibility, 'shareable'))))
+      )!);
+    }
+
+    // Candidate cases, gathered branch by branch so each one can use its own index
+    const matchingUsers = db.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(ilike(usersTable.username, usernamePattern));
+
+    const txidMatches = db.select({ id: transactionsTable.case_id })
+      .from(transactionsTable)
+      .where(like(sql`lower(${transactionsTable.txid})`, txidPrefix));
+
+    const userMatches = db.select({ id: fraudCasesTable.id })
+      .from(fraudCasesTable)
+      .where(or(
+        inArray(fraudCasesTable.assigned_to, matchingUsers),
+        inArray(fraudCasesTable.created_by, matchingUsers)
+      ));
+
+    const candidates = prefixQuery
+      ? union(
+          txidMatches,
+          userMatches,
+          db.select({ id: fraudCasesTable.id })
+            .from(fraudCasesTable)
+            .where(sql`${descriptionVector} @@ ${tsQuery}`),
+          db.select({ id: caseNotesTable.case_id })
+            .from(caseNotesTable)
+            .where(and(...noteConditions))
+        )
+      : union(txidMatches, userMatches);
+
+    const conditions = await buildCaseConditions(input.filters, userId);
+    conditions.push(inArray(fraudCasesTable.id, candidates));
+
+    const assignee = alias(usersTable, 'assignee');
+    const creator = alias(usersTable, 'creator');
+
+    const caseTransactions = (condition: SQL) => exists(db.select({ id: transactionsTable.id })
+      .from(transactionsTable)
+      .where(and(eq(transactionsTable.case_id, fraudCasesTable.id), condition)));
+
+    const txidExact = caseTransactions(sql`lower(${transactionsTable.txid}) = ${query.toLowerCase()}`);
+    const txidMatch = caseTransactions(like(sql`lower(${transactionsTable.txid})`, txidPrefix));
+    const assigneeMatch = sql`coalesce(${ilike(assignee.username, usernamePattern)}, false)`;
+    const creatorMatch = ilike(creator.username, usernamePattern);
+    const descriptionMatch = prefixQuery ? sql`${descriptionVector} @@ ${tsQuery}` : sql`false`;
+    const descriptionRank = prefixQuery ? sql`ts_rank(${descriptionVector}, ${tsQuery})` : sql`0`;
+    const noteRank = prefixQuery
+      ? sql`(${db.select({ rank: sql`max(ts_rank(${noteVector}, ${tsQuery}))` })
+          .from(caseNotesTable)
+          .where(and(eq(caseNotesTable.case_id, fraudCasesTable.id), ...noteConditions))})`
+      : sql`null`;
+
+    // Transaction IDs outrank words, and a note counts for half as much as the description
+    const rank = sql<number>`(
+      (case when ${txidExact} then 2 when ${txidMatch} then 1 else 0 end)
+      + ${descriptionRank}
+      + coalesce(${noteRank}, 0) * 0.5
+      + (case when ${assigneeMatch} then 0.25 else 0 end)
+      + (case when ${creatorMatch} then 0.25 else 0 end)
+    )::float8`.mapWith(Number);
+
+    const rows = await db.select({
+      fraudCase: fraudCasesTable,
+      rank,
+      txidMatch: sql<boolean>`${txidMatch}`,
+      descriptionMatch: sql<boolean>`${descriptionMatch}`,
+      noteMatch: sql<boolean>`${noteRank} is not null`,
+      assigneeMatch: sql<boolean>`${assigneeMatch}`,
+      creatorMatch: sql<boolean>`${creatorMatch}`,
+      descriptionHeadline: sql<string | null>`case when ${descriptionMatch}
+        then ts_headline('english', ${fraudCasesTable.description}, ${tsQuery}, ${HEADLINE_OPTIONS}) end`
+    })
+      .from(fraudCasesTable)
+      .innerJoin(creator, eq(creator.id, fraudCasesTable.created_by))
+      .leftJoin(assignee, eq(assignee.id, fraudCasesTable.assigned_to))
+      .where(and(...conditions))
+      .orderBy(desc(rank), desc(fraudCasesTable.updated_at), desc(fraudCasesTable.id))
+      .limit(input.limit ?? DEFAULT_SEARCH_LIMIT)
+      .execute();
+
+    // Cases found through their notes get a snippet of the best matching note instead
+    const noteCaseIds = rows
+      .filter(row => row.noteMatch && !row.descriptionMatch)
+      .map(row => row.fraudCase.id);
+
+    const noteHeadlines = new Map<number, string>();
+    if (noteCaseIds.length > 0) {
+      const notes = await db.select({
+        case_id: caseNotesTable.case_id,
+        headline: sql<string>`ts_headline('english', ${caseNotesTable.body}, ${tsQuery}, ${HEADLINE_OPTIONS})`
+      })
+        .from(caseNotesTable)
+        .where(and(inArray(caseNotesTable.case_id, noteCaseIds), ...noteConditions))
+        .orderBy(desc(sql`ts_rank(${noteVector}, ${tsQuery})`), desc(caseNotesTable.id))
+        .execute();
+
+      for (const note of notes) {
+        if (!noteHeadlines.has(note.case_id)) {
+          noteHeadlines.set(note.case_id, note.headline);
+        }
+      }
+    }
+
+    return rows.map(row => {
+      const matched_fields: SearchMatchField[] = [];
+      if (row.descriptionMatch) matched_fields.push('description');
+      if (row.txidMatch) matched_fields.push('txid');
+      if (row.noteMatch) matched_fields.push('note');
+      if (row.assigneeMatch) matched_fields.push('assignee');
+      if (row.creatorMatch) matched_fields.push('creator');
+
+      const headline = row.descriptionHeadline ?? noteHeadlines.get(row.fraudCase.id) ?? null;
+
+      return {
+        case: row.fraudCase,
+        rank: row.rank,
+        matched_fields,
+        snippet: headline !== null ? toSegments(headline) : null
+      };
+    });
+  } catch (error) {
+    console.error('Failed to search cases:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,39 @@
+import { db } from '../db';
+import { defaultSavedViewsTable, savedViewsTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+
+// Pass null to go back to the unfiltered case list
+export async function setDefaultSavedView(viewId: number | null, userId: number): Promise<{ default_view_id: number | null }> {
+  try {
+    if (viewId === null) {
+      await db.delete(defaultSavedViewsTable)
+        .where(eq(defaultSavedViewsTable.user_id, userId))
+        .execute();
+
+      return { default_view_id: null };
+    }
+
+    const views = await db.select()
+      .from(savedViewsTable)
+      .where(eq(savedViewsTable.id, viewId))
+      .execute();
+
+    // Another user's private view is reported as missing rather than revealed
+    if (views.length === 0 || (views[0].owner_id !== userId && !views[0].shared)) {
+      throw new Error('Saved view not found');
+    }
+
+    await db.insert(defaultSavedViewsTable)
+      .values({ user_id: userId, view_id: viewId })
+      .onConflictDoUpdate({
+        target: defaultSavedViewsTable.user_id,
+        set: { view_id: viewId }
+      })
+      .execute();
+
+    return { default_view_id: viewId };
+  } catch (error) {
+    console.error('Failed to set default saved view:', error);
+    throw error;
+  }
+}
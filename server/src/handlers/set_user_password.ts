@@ -0,0 +1,33 @@
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { type SetUserPasswordInput, type User } from '../schema';
+import { hashPassword, toPublicUser } from '../helpers/auth';
+import { eq } from 'drizzle-orm';
+
+// Sets a user's password and signs them out everywhere, so whoever held the old one loses access
+export async function setUserPassword(input: SetUserPasswordInput): Promise<User> {
+  try {
+    const passwordHash = await hashPassword(input.password);
+
+    return await db.transaction(async (tx) => {
+      const result = await tx.update(usersTable)
+        .set({ password_hash: passwordHash, updated_at: new Date() })
+        .where(eq(usersTable.id, input.id))
+        .returning()
+        .execute();
+
+      if (result.length === 0) {
+        throw new Error(`User with ID ${input.id} not found`);
+      }
+
+      await tx.delete(sessionsTable)
+        .where(eq(sessionsTable.user_id, input.id))
+        .execute();
+
+      return toPublicUser(result[0]);
+    });
+  } catch (error) {
+    console.error('Failed to set user password:', error);
+    throw error;
+  }
+}
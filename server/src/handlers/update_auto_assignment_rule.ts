@@ -0,0 +1,29 @@
+import { db } from '../db';
+import { autoAssignmentRulesTable } from '../db/schema';
+import { type AutoAssignmentRule, type UpdateAutoAssignmentRuleInput } from '../schema';
+
+export async function updateAutoAssignmentRule(input: UpdateAutoAssignmentRuleInput): Promise<AutoAssignmentRule> {
+  try {
+    const settings = {
+      strategy: input.strategy,
+      auto_on_create: input.auto_on_create,
+      updated_by: input.updated_by,
+      updated_at: new Date()
+    };
+
+    // The round-robin rotation carries on where it was
+    const result = await db.insert(autoAssignmentRulesTable)
+      .values({ priority: input.priority, ...settings })
+      .onConflictDoUpdate({
+        target: autoAssignmentRulesTable.priority,
+        set: settings
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Failed to update auto-assignment rule:', error);
+    throw error;
+  }
+}
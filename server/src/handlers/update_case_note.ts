@@ -0,0 +1,66 @@
+import { db } from '../db';
+import { caseNotesTable, fraudCasesTable } from '../db/schema';
+import { type CaseNote, type UpdateCaseNoteInput } from '../schema';
+import { getNoteMentions, syncNoteMentions } from './note_mentions';
+import { notifyMentionedUsers } from './create_notifications';
+import { eq } from 'drizzle-orm';
+
+export async function updateCaseNote(input: UpdateCaseNoteInput, userId: number): Promise<CaseNote> {
+  try {
+    const notes = await db.select()
+      .from(caseNotesTable)
+      .where(eq(caseNotesTable.id, input.id))
+      .execute();
+
+    if (notes.length === 0) {
+      throw new Error('Note not found');
+    }
+
+    // A note is the author's own record, so not even admins may reword it
+    if (notes[0].author_id !== userId) {
+      throw new Error('Only the author can edit a note');
+    }
+
+    const updateData: Partial<typeof caseNotesTable.$inferInsert> = {
+      updated_at: new Date()
+    };
+
+    if (input.body !== undefined) {
+      updateData.body = input.body;
+    }
+
+    if (input.visibility !== undefined) {
+      updateData.visibility = input.visibility;
+    }
+
+    const result = await db.update(caseNotesTable)
+      .set(updateData)
+      .where(eq(caseNotesTable.id, input.id))
+      .returning()
+      .execute();
+
+    const note = result[0];
+    const previousMentions = (await getNoteMentions([note.id])).get(note.id) ?? [];
+    if (input.body === undefined) {
+      return { ...note, mentions: previousMentions };
+    }
+
+    const mentions = await syncNoteMentions(note.id, note.body);
+
+    // Only users newly mentioned by the edit are notified
+    const newMentions = mentions.filter(userId => !previousMentions.includes(userId));
+    if (newMentions.length > 0) {
+      const cases = await db.select()
+        .from(fraudCasesTable)
+        .where(eq(fraudCasesTable.id, note.case_id))
+        .execute();
+
+      await notifyMentionedUsers(note, cases[0], newMentions);
+    }
+
+    return { ...note, mentions };
+  } catch (error) {
+    console.error('Case note update failed:', error);
+    throw error;
+  }
+}
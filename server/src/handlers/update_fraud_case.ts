@@ -1,88 +1,152 @@
 import { db } from '../db';
-import { fraudCasesTable, usersTable } from '../db/schema';
+import { fraudCasesTable, transactionsTable, usersTable } from '../db/schema';
 import { type UpdateFraudCaseInput, type FraudCase } from '../schema';
+import { canModifyCase } from './check_permissions';
+import { OUTCOME_STATUSES, resolveCaseOutcome, resolveStatusChange } from './case_workflow';
+import { diffCaseFields, recordCaseEvent } from './record_case_event';
+import { computeSlaDueDates, getSlaPolicy, resolveSlaMilestones } from './case_sla';
+import { createNotifications } from './create_notifications';
+import { queueWebhookEvent } from './webhook_delivery';
+import { publishCaseChange } from './case_change_feed';
+import { assertCaseVersion, lockCase, nextCaseVersion } from './case_version';
 import { eq, and } from 'drizzle-orm';
 
 export async function updateFraudCase(input: UpdateFraudCaseInput, userId: number): Promise<FraudCase> {
   try {
-    // First, verify the case exists
-    const existingCase = await db.select()
-      .from(fraudCasesTable)
-      .where(eq(fraudCasesTable.id, input.id))
-      .execute();
-
-    if (existingCase.length === 0) {
-      throw new Error(`Fraud case with id ${input.id} not found`);
-    }
+    // Everything the update writes, from the transaction rename to its history and webhooks, is committed together
+    const { previous, updatedCase, changed } = await db.transaction(async (tx) => {
+      // First, verify the case exists, locking it until the update is recorded
+      const caseRecord = await lockCase(tx, input.id);
 
-    const caseRecord = existingCase[0];
+      if (!caseRecord) {
+        throw new Error(`Fraud case with id ${input.id} not found`);
+      }
 
-    // Get user's role for permission validation
-    const userResult = await db.select()
-      .from(usersTable)
-      .where(eq(usersTable.id, userId))
-      .execute();
+      assertCaseVersion(caseRecord, input.expected_version);
 
-    if (userResult.length === 0) {
-      throw new Error(`User with id ${userId} not found`);
-    }
+      // Get user's role for permission validation
+      const userResult = await tx.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, userId))
+        .execute();
 
-    const user = userResult[0];
+      if (userResult.length === 0) {
+        throw new Error(`User with id ${userId} not found`);
+      }
 
-    // Permission validation: only assigned investigators/analysts or admins can update cases
-    const canUpdate = user.role === 'admin' || 
-                     (user.role === 'investigator' && caseRecord.assigned_to === userId) ||
-                     (user.role === 'analyst' && caseRecord.assigned_to === userId);
+      const user = userResult[0];
 
-    if (!canUpdate) {
-      throw new Error('Insufficient permissions to update this fraud case');
-    }
+      // Only the assignee or an admin can update a case; role access is checked by the router
+      if (!canModifyCase(user, caseRecord)) {
+        throw new Error('Insufficient permissions to update this fraud case');
+      }
 
-    // If assigned_to is being changed and is not null, verify the assignee exists
-    if (input.assigned_to !== undefined && input.assigned_to !== null) {
-      const assigneeResult = await db.select()
-        .from(usersTable)
-        .where(eq(usersTable.id, input.assigned_to))
-        .execute();
+      // Build update object with only provided fields
+      const updateData: any = {
+        version: nextCaseVersion,
+        updated_at: new Date()
+      };
+
+      // A txid of another transaction of the case promotes it to primary; a new txid renames the primary transaction
+      let renamesPrimaryTransaction = false;
+      if (input.txid !== undefined && input.txid !== caseRecord.txid) {
+        const linked = await tx.select()
+          .from(transactionsTable)
+          .where(eq(transactionsTable.txid, input.txid))
+          .execute();
+
+        if (linked.length > 0 && linked[0].case_id !== caseRecord.id) {
+          throw new Error(`Transaction ${input.txid} is already linked to case #${linked[0].case_id}`);
+        }
+
+        renamesPrimaryTransaction = linked.length === 0;
+        updateData.txid = input.txid;
+      }
 
-      if (assigneeResult.length === 0) {
-        throw new Error(`User with id ${input.assigned_to} not found`);
+      if (input.description !== undefined) {
+        updateData.description = input.description;
       }
-    }
 
-    // Build update object with only provided fields
-    const updateData: any = {
-      updated_at: new Date()
-    };
+      if (input.status !== undefined) {
+        // Validated against the case status workflow
+        Object.assign(updateData, resolveStatusChange(user.role, caseRecord.status, input.status, input.status_note));
+      }
 
-    if (input.txid !== undefined) {
-      updateData.txid = input.txid;
-    }
+      // The outcome follows the status the case ends up in; for resolved cases the status note is the narrative
+      if (input.status !== undefined || input.disposition !== undefined || input.recovered_amount !== undefined) {
+        const targetStatus = input.status ?? caseRecord.status;
+        Object.assign(updateData, resolveCaseOutcome(caseRecord, targetStatus, user.id, {
+          disposition: input.disposition,
+          resolution_note: OUTCOME_STATUSES.includes(targetStatus) ? input.status_note : undefined,
+          recovered_amount: input.recovered_amount
+        }));
+      }
 
-    if (input.description !== undefined) {
-      updateData.description = input.description;
-    }
+      if (input.priority !== undefined) {
+        updateData.priority = input.priority;
 
-    if (input.status !== undefined) {
-      updateData.status = input.status;
-    }
+        // SLA deadlines follow the new priority's policy, still counted from creation
+        if (input.priority !== caseRecord.priority) {
+          Object.assign(updateData, computeSlaDueDates(caseRecord.created_at, await getSlaPolicy(input.priority)));
+        }
+      }
 
-    if (input.priority !== undefined) {
-      updateData.priority = input.priority;
-    }
+      // A status change is the first action on a case
+      Object.assign(updateData, resolveSlaMilestones(caseRecord, {
+        status: input.status,
+        action: input.status !== undefined && input.status !== caseRecord.status
+      }, updateData.updated_at));
+
+      // Update the fraud case
+      if (renamesPrimaryTransaction) {
+        await tx.update(transactionsTable)
+          .set({ txid: input.txid })
+          .where(and(eq(transactionsTable.case_id, caseRecord.id), eq(transactionsTable.txid, caseRecord.txid)))
+          .execute();
+      }
 
-    if (input.assigned_to !== undefined) {
-      updateData.assigned_to = input.assigned_to;
-    }
+      const result = await tx.update(fraudCasesTable)
+        .set(updateData)
+        .where(eq(fraudCasesTable.id, input.id))
+        .returning()
+        .execute();
 
-    // Update the fraud case
-    const result = await db.update(fraudCasesTable)
-      .set(updateData)
-      .where(eq(fraudCasesTable.id, input.id))
-      .returning()
-      .execute();
+      const updatedCase = result[0];
+
+      // Updates that leave every field unchanged are not worth a timeline entry
+      const changes = diffCaseFields(caseRecord, updatedCase);
+      if (Object.keys(changes).length > 0) {
+        await recordCaseEvent({
+          case_id: updatedCase.id,
+          actor_id: user.id,
+          event_type: 'updated',
+          changes,
+          metadata: input.status_note ? { status_note: input.status_note } : null
+        }, tx);
+      }
+
+      // Webhook receivers see the same lifecycle events whether or not the dedicated actions were used
+      // Closing through an update notifies like closeCase does
+      if (updatedCase.status !== caseRecord.status && updatedCase.status === 'closed') {
+        await createNotifications([updatedCase.assigned_to, updatedCase.created_by], {
+          type: 'closed',
+          case_id: updatedCase.id,
+          actor_id: user.id,
+          message: `Case ${updatedCase.txid} was closed`
+        }, tx);
+      }
+      if (updatedCase.status !== caseRecord.status && (updatedCase.status === 'escalated' || updatedCase.status === 'closed')) {
+        await queueWebhookEvent(updatedCase.status === 'escalated' ? 'case.escalated' : 'case.closed', { case: updatedCase }, updateData.updated_at, tx);
+      }
+
+      return { previous: caseRecord, updatedCase, changed: Object.keys(changes).length > 0 };
+    });
+
+    if (changed) {
+      publishCaseChange({ type: 'updated', actor_id: userId, case: updatedCase, previous });
+    }
 
-    return result[0];
+    return updatedCase;
   } catch (error) {
     console.error('Update fraud case failed:', error);
     throw error;
@@ -0,0 +1,39 @@
+import { db } from '../db';
+import { notificationPreferencesTable } from '../db/schema';
+import { type NotificationPreferences, type UpdateNotificationPreferencesInput } from '../schema';
+import { loadNotificationPreferences } from './email_delivery';
+
+// Omitted settings keep their current value, or the default for users who never saved any
+export async function updateNotificationPreferences(input: UpdateNotificationPreferencesInput): Promise<NotificationPreferences> {
+  try {
+    const current = (await loadNotificationPreferences([input.user_id])).get(input.user_id)!;
+    const now = new Date();
+
+    const settings = {
+      email_mode: input.email_mode ?? current.email_mode,
+      email_types: [...new Set(input.email_types ?? current.email_types)],
+      min_priority: input.min_priority ?? current.min_priority,
+      updated_at: now
+    };
+
+    // The first digest comes a full period after switching to digests
+    const digestStart = settings.email_mode === 'digest' && current.email_mode !== 'digest'
+      ? { last_digest_at: now }
+      : {};
+
+    const result = await db.insert(notificationPreferencesTable)
+      .values({ user_id: input.user_id, ...settings, ...digestStart })
+      .onConflictDoUpdate({
+        target: notificationPreferencesTable.user_id,
+        set: { ...settings, ...digestStart }
+      })
+      .returning()
+      .execute();
+
+    const { user_id, email_mode, email_types, min_priority, updated_at } = result[0];
+    return { user_id, email_mode, email_types, min_priority, updated_at };
+  } catch (error) {
+    console.error('Failed to update notification preferences:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,71 @@
+import { db } from '../db';
+import { savedViewsTable } from '../db/schema';
+import { type SavedView, type UpdateSavedViewInput } from '../schema';
+import { toSavedView } from './get_saved_views';
+import { and, eq, ne } from 'drizzle-orm';
+
+export async function updateSavedView(input: UpdateSavedViewInput, userId: number): Promise<SavedView> {
+  try {
+    const views = await db.select()
+      .from(savedViewsTable)
+      .where(eq(savedViewsTable.id, input.id))
+      .execute();
+
+    if (views.length === 0) {
+      throw new Error('Saved view not found');
+    }
+
+    // Shared views can be used by everyone but only changed by their owner
+    if (views[0].owner_id !== userId) {
+      throw new Error('Only the owner can change a saved view');
+    }
+
+    const updateData: Partial<typeof savedViewsTable.$inferInsert> = {
+      updated_at: new Date()
+    };
+
+    if (input.name !== undefined) {
+      const clashes = await db.select()
+        .from(savedViewsTable)
+        .where(and(
+          eq(savedViewsTable.owner_id, userId),
+          eq(savedViewsTable.name, input.name),
+          ne(savedViewsTable.id, input.id)
+        ))
+        .execute();
+
+      if (clashes.length > 0) {
+        throw new Error(`You already have a view named "${input.name}"`);
+      }
+
+      updateData.name = input.name;
+    }
+
+    if (input.filters !== undefined) {
+      updateData.filters = input.filters;
+    }
+
+    if (input.sort !== undefined) {
+      updateData.sort = input.sort;
+    }
+
+    if (input.columns !== undefined) {
+      updateData.columns = input.columns;
+    }
+
+    if (input.shared !== undefined) {
+      updateData.shared = input.shared;
+    }
+
+    const result = await db.update(savedViewsTable)
+      .set(updateData)
+      .where(eq(savedViewsTable.id, input.id))
+      .returning()
+      .execute();
+
+    return toSavedView(result[0]);
+  } catch (error) {
+    console.error('Saved view update failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,45 @@
+import { db } from '../db';
+import { fraudCasesTable, slaPoliciesTable } from '../db/schema';
+import { type SlaPolicy, type SlaTarget, type UpdateSlaPolicyInput } from '../schema';
+import { SLA_TARGETS } from './case_sla';
+import { and, eq, isNull, sql } from 'drizzle-orm';
+
+export async function updateSlaPolicy(input: UpdateSlaPolicyInput): Promise<SlaPolicy> {
+  try {
+    const targets = {
+      assignment_minutes: input.assignment_minutes,
+      first_action_minutes: input.first_action_minutes,
+      resolution_minutes: input.resolution_minutes
+    };
+
+    // Deadlines of unresolved cases move with the policy; resolved cases keep the ones they were held to
+    const dueDates = Object.fromEntries((Object.keys(SLA_TARGETS) as SlaTarget[]).map(target => {
+      const minutes = targets[SLA_TARGETS[target].minutes];
+      return [
+        SLA_TARGETS[target].due,
+        minutes === null ? null : sql`${fraudCasesTable.created_at} + make_interval(mins => ${minutes}::integer)`
+      ];
+    }));
+
+    return await db.transaction(async (tx) => {
+      const result = await tx.insert(slaPoliciesTable)
+        .values({ priority: input.priority, ...targets, updated_by: input.updated_by })
+        .onConflictDoUpdate({
+          target: slaPoliciesTable.priority,
+          set: { ...targets, updated_by: input.updated_by, updated_at: new Date() }
+        })
+        .returning()
+        .execute();
+
+      await tx.update(fraudCasesTable)
+        .set(dueDates)
+        .where(and(eq(fraudCasesTable.priority, input.priority), isNull(fraudCasesTable.resolved_at)))
+        .execute();
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Failed to update SLA policy:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,25 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type UpdateUserSkillsInput, type User } from '../schema';
+import { toPublicUser } from '../helpers/auth';
+import { eq } from 'drizzle-orm';
+
+// Skills are the transaction channels a user handles; skill-based auto-assignment matches them against the case
+export async function updateUserSkills(input: UpdateUserSkillsInput): Promise<User> {
+  try {
+    const result = await db.update(usersTable)
+      .set({ skills: [...new Set(input.skills)], updated_at: new Date() })
+      .where(eq(usersTable.id, input.id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`User with ID ${input.id} not found`);
+    }
+
+    return toPublicUser(result[0]);
+  } catch (error) {
+    console.error('Failed to update user skills:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,43 @@
+import { db } from '../db';
+import { webhookSubscriptionsTable } from '../db/schema';
+import { type UpdateWebhookSubscriptionInput, type WebhookSubscription } from '../schema';
+import { eq } from 'drizzle-orm';
+
+export async function updateWebhookSubscription(input: UpdateWebhookSubscriptionInput): Promise<WebhookSubscription> {
+  try {
+    const updateData: Partial<typeof webhookSubscriptionsTable.$inferInsert> = {
+      updated_at: new Date()
+    };
+
+    if (input.url !== undefined) {
+      updateData.url = input.url;
+    }
+
+    if (input.secret !== undefined) {
+      updateData.secret = input.secret;
+    }
+
+    if (input.events !== undefined) {
+      updateData.events = [...new Set(input.events)];
+    }
+
+    if (input.active !== undefined) {
+      updateData.active = input.active;
+    }
+
+    const result = await db.update(webhookSubscriptionsTable)
+      .set(updateData)
+      .where(eq(webhookSubscriptionsTable.id, input.id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Webhook subscription not found');
+    }
+
+    return result[0];
+  } catch (error) {
+    console.error('Webhook subscription update failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,91 @@
+import { createHash, randomUUID } from 'node:crypto';
+import { db } from '../db';
+import { caseAttachmentsTable, fraudCasesTable, usersTable } from '../db/schema';
+import { type CaseAttachment, type UploadAttachmentInput } from '../schema';
+import { getAttachmentStorage } from '../helpers/attachment_storage';
+import { canViewCase } from './check_permissions';
+import { recordCustodyEntry } from './record_custody_entry';
+import { eq } from 'drizzle-orm';
+
+const DEFAULT_MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+export const maxAttachmentBytes = (): number => {
+  const bytes = parseInt(process.env['ATTACHMENT_MAX_BYTES'] || '', 10);
+  return Number.isFinite(bytes) && bytes > 0 ? bytes : DEFAULT_MAX_ATTACHMENT_BYTES;
+};
+
+// Only the base name is kept so client supplied paths never end up in the record
+export const sanitizeFilename = (filename: string): string =>
+  filename.split(/[\\/]/).pop()!.replace(/[\u0000-\u001f]/g, '').trim() || 'attachment';
+
+export const uploadAttachment = async (input: UploadAttachmentInput): Promise<CaseAttachment> => {
+  try {
+    const uploaders = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, input.uploaded_by))
+      .execute();
+
+    if (uploaders.length === 0) {
+      throw new Error(`User with ID ${input.uploaded_by} not found`);
+    }
+
+    const cases = await db.select()
+      .from(fraudCasesTable)
+      .where(eq(fraudCasesTable.id, input.case_id))
+      .execute();
+
+    if (cases.length === 0) {
+      throw new Error('Case not found');
+    }
+
+    if (!canViewCase(uploaders[0], cases[0])) {
+      throw new Error('Insufficient permissions to attach files to this case');
+    }
+
+    const content = Buffer.from(input.content_base64, 'base64');
+    if (content.length > maxAttachmentBytes()) {
+      throw new Error(`Attachment exceeds the maximum size of ${maxAttachmentBytes()} bytes`);
+    }
+
+    const storageKey = `cases/${input.case_id}/${randomUUID()}`;
+    const storage = getAttachmentStorage();
+    await storage.put(storageKey, content);
+
+    try {
+      // The record and its custody entry are committed together or not at all
+      return await db.transaction(async (tx) => {
+        const result = await tx.insert(caseAttachmentsTable)
+          .values({
+            case_id: input.case_id,
+            uploaded_by: input.uploaded_by,
+            filename: sanitizeFilename(input.filename),
+            mime_type: input.mime_type,
+            size_bytes: content.length,
+            sha256: createHash('sha256').update(content).digest('hex'),
+            storage_key: storageKey
+          })
+          .returning()
+          .execute();
+
+        const { storage_key, ...attachment } = result[0];
+
+        await recordCustodyEntry(attachment.case_id, {
+          attachment_id: attachment.id,
+          actor_id: input.uploaded_by,
+          action: 'uploaded',
+          attachment_sha256: attachment.sha256,
+          details: { filename: attachment.filename }
+        }, tx);
+
+        return attachment;
+      });
+    } catch (error) {
+      // Do not leave an orphaned blob behind when the record cannot be written
+      await storage.delete(storageKey);
+      throw error;
+    }
+  } catch (error) {
+    console.error('Attachment upload failed:', error);
+    throw error;
+  }
+};
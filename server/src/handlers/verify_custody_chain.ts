@@ -0,0 +1,105 @@
+import { createHash } from 'node:crypto';
+import { db } from '../db';
+import { caseAttachmentsTable } from '../db/schema';
+import { type CustodyVerification } from '../schema';
+import { getAttachmentStorage } from '../helpers/attachment_storage';
+import { getCustodyLog } from './get_custody_log';
+import { computeCustodyHash, GENESIS_HASH } from './record_custody_entry';
+import { eq } from 'drizzle-orm';
+
+// Re-walks the case's custody chain and checks the current evidence against it
+export async function verifyCustodyChain(caseId: number, userId?: number): Promise<CustodyVerification> {
+  try {
+    const entries = await getCustodyLog(caseId, userId);
+    const issues: string[] = [];
+    let firstInvalidEntryId: number | null = null;
+
+    const flag = (entryId: number, issue: string) => {
+      issues.push(issue);
+      firstInvalidEntryId ??= entryId;
+    };
+
+    // Chain integrity: every entry links to its predecessor and still hashes to its recorded value
+    let expectedPreviousHash = GENESIS_HASH;
+    const lastEntryByAttachment = new Map<number, (typeof entries)[number]>();
+
+    for (const entry of entries) {
+      if (entry.previous_hash !== expectedPreviousHash) {
+        flag(entry.id, `Entry ${entry.id} does not link to the entry before it`);
+      }
+
+      if (computeCustodyHash(entry) !== entry.entry_hash) {
+        flag(entry.id, `Entry ${entry.id} has been altered`);
+      }
+
+      expectedPreviousHash = entry.entry_hash;
+      lastEntryByAttachment.set(entry.attachment_id, entry);
+    }
+
+    // Evidence integrity: current records and stored content agree with the last custody entry
+    const attachments = await db.select()
+      .from(caseAttachmentsTable)
+      .where(eq(caseAttachmentsTable.case_id, caseId))
+      .execute();
+
+    const storage = getAttachmentStorage();
+
+    for (const attachment of attachments) {
+      const lastEntry = lastEntryByAttachment.get(attachment.id);
+      lastEntryByAttachment.delete(attachment.id);
+
+      if (!lastEntry || lastEntry.action === 'deleted') {
+        issues.push(`Attachment ${attachment.id} has no custody record`);
+        continue;
+      }
+
+      if (lastEntry.attachment_sha256 !== attachment.sha256) {
+        issues.push(`Attachment ${attachment.id} does not match its last custody record`);
+      }
+
+      try {
+        const content = await storage.get(attachment.storage_key);
+        if (createHash('sha256').update(content).digest('hex') !== attachment.sha256) {
+          issues.push(`Attachment ${attachment.id} content does not match its recorded hash`);
+        }
+      } catch {
+        issues.push(`Attachment ${attachment.id} content is missing from storage`);
+      }
+    }
+
+    // Superseded versions are kept as evidence, so each must still be stored unchanged
+    for (const entry of entries) {
+      if (entry.action !== 'superseded') {
+        continue;
+      }
+
+      try {
+        const content = await storage.get(String(entry.details?.['storage_key']));
+        if (createHash('sha256').update(content).digest('hex') !== entry.attachment_sha256) {
+          issues.push(`Superseded version of attachment ${entry.attachment_id} recorded in entry ${entry.id} does not match its recorded hash`);
+        }
+      } catch {
+        issues.push(`Superseded version of attachment ${entry.attachment_id} recorded in entry ${entry.id} is missing from storage`);
+      }
+    }
+
+    // Items still in the ledger but gone from the case must have been deleted through the server
+    for (const [attachmentId, lastEntry] of lastEntryByAttachment) {
+      if (lastEntry.action !== 'deleted') {
+        issues.push(`Attachment ${attachmentId} was removed without a custody record`);
+      }
+    }
+
+    return {
+      case_id: caseId,
+      valid: issues.length === 0,
+      entry_count: entries.length,
+      first_invalid_entry_id: firstInvalidEntryId,
+      issues,
+      verified_at: new Date()
+    };
+  } catch (error) {
+    console.error('Custody chain verification failed:', error);
+    throw error;
+  }
+}
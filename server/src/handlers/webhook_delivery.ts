@@ -0,0 +1,157 @@
+import { createHmac, randomUUID } from 'node:crypto';
+import { db, type DbExecutor } from '../db';
+import { webhookDeliveriesTable, webhookSubscriptionsTable } from '../db/schema';
+import { type CaseEscalation, type FraudCase, type WebhookEvent, type WebhookPayload } from '../schema';
+import { and, asc, eq, lte, sql } from 'drizzle-orm';
+
+// A delivery is retried with an exponential backoff starting at this many minutes (1, 2, 4, ...)
+export const WEBHOOK_RETRY_BASE_MINUTES = 1;
+
+// Attempts before a delivery is given up on, which spreads retries over about two hours
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+
+// Endpoints that take longer to answer count as failed
+export const WEBHOOK_TIMEOUT_MS = 10_000;
+
+// Deliveries sent per run; the rest wait for the next run
+export const WEBHOOK_BATCH_SIZE = 50;
+
+const minutesAfter = (date: Date, minutes: number) => new Date(date.getTime() + minutes * 60_000);
+
+export const webhookRetryDelayMinutes = (attempts: number) => WEBHOOK_RETRY_BASE_MINUTES * 2 ** (attempts - 1);
+
+// Receivers verify requests by computing the same HMAC-SHA256 over "<timestamp>.<body>" with their secret
+export const signWebhookPayload = (secret: string, timestamp: number, body: string): string =>
+  `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+export interface WebhookEventData {
+  case: FraudCase;
+  escalation?: CaseEscalation | null;
+}
+
+// Queues one delivery of the event for each active subscription listening to it, in the caller's
+// transaction when given one so that events are only sent for changes that were committed
+export async function queueWebhookEvent(
+  event: WebhookEvent,
+  data: WebhookEventData,
+  now: Date = new Date(),
+  executor: DbExecutor = db
+): Promise<number> {
+  try {
+    const subscriptions = await executor.select({ id: webhookSubscriptionsTable.id })
+      .from(webhookSubscriptionsTable)
+      .where(and(
+        eq(webhookSubscriptionsTable.active, true),
+        sql`${webhookSubscriptionsTable.events} @> ${JSON.stringify([event])}::jsonb`
+      ))
+      .execute();
+
+    if (subscriptions.length === 0) {
+      return 0;
+    }
+
+    const payload: WebhookPayload = {
+      id: randomUUID(),
+      event,
+      occurred_at: now,
+      data: { case: data.case, escalation: data.escalation ?? null }
+    };
+    const body = JSON.stringify(payload);
+
+    await executor.insert(webhookDeliveriesTable)
+      .values(subscriptions.map(subscription => ({
+        subscription_id: subscription.id,
+        event,
+        event_id: payload.id,
+        payload: body,
+        next_attempt_at: now
+      })))
+      .execute();
+
+    return subscriptions.length;
+  } catch (error) {
+    console.error(`Failed to queue webhook event ${event}:`, error);
+    throw error;
+  }
+}
+
+export type WebhookFetch = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface WebhookDeliveryResult {
+  succeeded: number;
+  retrying: number;
+  failed: number; // Given up after the last attempt
+}
+
+// Posts the deliveries that are due. Any 2xx answer counts as delivered; anything else is retried
+// with an exponential backoff until WEBHOOK_MAX_ATTEMPTS is reached.
+export async function processWebhookDeliveries(
+  now: Date = new Date(),
+  send: WebhookFetch = fetch
+): Promise<WebhookDeliveryResult> {
+  try {
+    const result: WebhookDeliveryResult = { succeeded: 0, retrying: 0, failed: 0 };
+
+    const due = await db.select()
+      .from(webhookDeliveriesTable)
+      .innerJoin(webhookSubscriptionsTable, eq(webhookDeliveriesTable.subscription_id, webhookSubscriptionsTable.id))
+      .where(and(eq(webhookDeliveriesTable.status, 'pending'), lte(webhookDeliveriesTable.next_attempt_at, now)))
+      .orderBy(asc(webhookDeliveriesTable.next_attempt_at), asc(webhookDeliveriesTable.id))
+      .limit(WEBHOOK_BATCH_SIZE)
+      .execute();
+
+    for (const { webhook_deliveries: delivery, webhook_subscriptions: subscription } of due) {
+      const attempts = delivery.attempts + 1;
+      let responseStatus: number | null = null;
+      try {
+        const timestamp = Math.floor(Date.now() / 1000);
+        const response = await send(subscription.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'FraudCaseManagement-Webhooks/1.0',
+            'X-Webhook-Event': delivery.event,
+            'X-Webhook-Delivery': String(delivery.id),
+            'X-Webhook-Timestamp': String(timestamp),
+            'X-Webhook-Signature': signWebhookPayload(subscription.secret, timestamp, delivery.payload)
+          },
+          body: delivery.payload,
+          signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+        });
+        responseStatus = response.status;
+        await response.body?.cancel();
+
+        if (!response.ok) {
+          throw new Error(`Endpoint answered with HTTP ${response.status}`);
+        }
+
+        await db.update(webhookDeliveriesTable)
+          .set({ status: 'succeeded', attempts, response_status: responseStatus, last_error: null, delivered_at: new Date() })
+          .where(eq(webhookDeliveriesTable.id, delivery.id))
+          .execute();
+        result.succeeded++;
+      } catch (error) {
+        const givenUp = attempts >= WEBHOOK_MAX_ATTEMPTS;
+        console.error(`Webhook delivery ${delivery.id} failed on attempt ${attempts}:`, error);
+
+        await db.update(webhookDeliveriesTable)
+          .set({
+            attempts,
+            status: givenUp ? 'failed' : 'pending',
+            next_attempt_at: givenUp ? delivery.next_attempt_at : minutesAfter(now, webhookRetryDelayMinutes(attempts)),
+            response_status: responseStatus,
+            last_error: error instanceof Error ? error.message : String(error)
+          })
+          .where(eq(webhookDeliveriesTable.id, delivery.id))
+          .execute();
+
+        if (givenUp) result.failed++; else result.retrying++;
+      }
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Webhook delivery run failed:', error);
+    throw error;
+  }
+}
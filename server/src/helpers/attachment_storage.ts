@@ -0,0 +1,51 @@
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { dirname, join, resolve, sep } from 'node:path';
+
+// Blob store for attachment contents. Only the storage key is persisted in the database,
+// so any backend (e.g. an S3-compatible bucket) can replace the local disk implementation.
+export interface AttachmentStorage {
+  put(key: string, data: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+export const createLocalDiskStorage = (rootDir: string): AttachmentStorage => {
+  const root = resolve(rootDir);
+
+  // Keys are generated server side, but never let one escape the storage root
+  const pathFor = (key: string): string => {
+    const path = resolve(root, key);
+    if (!path.startsWith(root + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path;
+  };
+
+  return {
+    async put(key, data) {
+      const path = pathFor(key);
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, data, { flag: 'wx' }); // Evidence is write-once
+    },
+    async get(key) {
+      return readFile(pathFor(key));
+    },
+    async delete(key) {
+      await rm(pathFor(key), { force: true });
+    }
+  };
+};
+
+let storage: AttachmentStorage | null = null;
+
+// Local disk under ATTACHMENT_STORAGE_DIR unless another backend has been installed
+export const getAttachmentStorage = (): AttachmentStorage => {
+  if (!storage) {
+    storage = createLocalDiskStorage(process.env['ATTACHMENT_STORAGE_DIR'] || join(process.cwd(), 'data', 'attachments'));
+  }
+  return storage;
+};
+
+export const setAttachmentStorage = (backend: AttachmentStorage | null): void => {
+  storage = backend;
+};
@@ -0,0 +1,39 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+import { type User as UserRecord } from '../db/schema';
+import { type User } from '../schema';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+// Password hashes are stored as `scrypt$<salt hex>$<key hex>`
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(SALT_LENGTH);
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${key.toString('hex')}`;
+};
+
+export const verifyPassword = async (password: string, storedHash: string): Promise<boolean> => {
+  const [algorithm, saltHex, keyHex] = storedHash.split('$');
+  if (algorithm !== 'scrypt' || !saltHex || !keyHex) {
+    return false;
+  }
+
+  const expected = Buffer.from(keyHex, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
+export const generateSessionToken = (): string => randomBytes(32).toString('hex');
+
+// Only the SHA-256 digest of a session token is persisted
+export const hashSessionToken = (token: string): string =>
+  createHash('sha256').update(token).digest('hex');
+
+// Strip credential columns before a user record leaves the server
+export const toPublicUser = (user: UserRecord): User => {
+  const { password_hash, ...publicUser } = user;
+  return publicUser;
+};
@@ -0,0 +1,82 @@
+export type CsvValue = string | number | boolean | Date | null | undefined;
+
+// RFC 4180 quoting: fields containing a delimiter, quote or line break are wrapped in double quotes
+export const escapeCsvValue = (value: CsvValue): string => {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Spreadsheet applications evaluate text cells starting with these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// One CRLF-terminated CSV line. guardFormulas prefixes formula-like text with a quote so spreadsheets show it verbatim.
+export const toCsvRow = (values: CsvValue[], options: { guardFormulas?: boolean } = {}): string =>
+  values
+    .map(value => options.guardFormulas && typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : value)
+    .map(escapeCsvValue)
+    .join(',') + '\r\n';
+
+export const toCsv = (header: string[], rows: CsvValue[][]): string =>
+  [header, ...rows].map(row => toCsvRow(row)).join('');
+
+// Parses RFC 4180 CSV into rows of fields; blank lines are skipped
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0; // Byte order mark written by spreadsheet exports
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('CSV ends inside a quoted field');
+  }
+  endRow();
+
+  return rows;
+};
+
+// Parses CSV with a header row into one record per data row, keyed by the lower-cased header names
+export const parseCsvRecords = (text: string): Record<string, string>[] => {
+  const [header, ...rows] = parseCsv(text);
+
+  if (!header) {
+    throw new Error('CSV is empty');
+  }
+
+  const columns = header.map(column => column.trim().toLowerCase());
+
+  return rows.map(row => Object.fromEntries(columns.map((column, index) => [column, row[index] ?? ''])));
+};
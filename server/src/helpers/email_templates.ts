@@ -0,0 +1,95 @@
+import type { CasePriority, NotificationType } from '../schema';
+
+export interface EmailCase {
+  txid: string;
+  priority: CasePriority;
+  description: string;
+}
+
+export interface EmailNotification {
+  type: NotificationType;
+  message: string;
+  created_at: Date;
+  fraudCase: EmailCase;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+}
+
+const SUBJECTS: Record<NotificationType, (fraudCase: EmailCase) => string> = {
+  assigned: fraudCase => `[${fraudCase.priority}] Case ${fraudCase.txid} assigned to you`,
+  escalated: fraudCase => `[${fraudCase.priority}] Case ${fraudCase.txid} escalated to you`,
+  closed: fraudCase => `Case ${fraudCase.txid} closed`,
+  mentioned: fraudCase => `You were mentioned on case ${fraudCase.txid}`
+};
+
+const INTROS: Record<NotificationType, string> = {
+  assigned: 'A case has been assigned to you and is waiting for your investigation.',
+  escalated: 'A case has been escalated to you and needs your attention.',
+  closed: 'A case you are involved in has been closed.',
+  mentioned: 'Someone mentioned you in a note on a case.'
+};
+
+const MAX_DESCRIPTION_LENGTH = 300;
+
+const summarize = (text: string) =>
+  text.length > MAX_DESCRIPTION_LENGTH ? `${text.slice(0, MAX_DESCRIPTION_LENGTH - 3)}...` : text;
+
+// APP_URL points at the web client; without it emails carry no links
+export const caseLink = (txid: string): string | null => {
+  const appUrl = process.env['APP_URL'];
+  return appUrl ? `${appUrl.replace(/\/+$/, '')}/?q=${encodeURIComponent(txid)}` : null;
+};
+
+const caseLines = (fraudCase: EmailCase): string[] => {
+  const link = caseLink(fraudCase.txid);
+  return [
+    `Case: ${fraudCase.txid}`,
+    `Priority: ${fraudCase.priority}`,
+    `Description: ${summarize(fraudCase.description)}`,
+    ...(link ? [`Open the case: ${link}`] : [])
+  ];
+};
+
+const FOOTER = [
+  '',
+  '--',
+  'You receive this email because of your notification settings in the Fraud Case Management System.'
+];
+
+export function renderNotificationEmail(username: string, notification: EmailNotification): RenderedEmail {
+  return {
+    subject: SUBJECTS[notification.type](notification.fraudCase),
+    text: [
+      `Hello ${username},`,
+      '',
+      INTROS[notification.type],
+      '',
+      notification.message,
+      '',
+      ...caseLines(notification.fraudCase),
+      ...FOOTER
+    ].join('\n')
+  };
+}
+
+// One email summing up the notifications since the previous digest, oldest first
+export function renderDigestEmail(username: string, notifications: EmailNotification[]): RenderedEmail {
+  const count = notifications.length;
+  return {
+    subject: `${count} new notification${count === 1 ? '' : 's'} in the Fraud Case Management System`,
+    text: [
+      `Hello ${username},`,
+      '',
+      'Here is what happened since your last digest:',
+      ...notifications.flatMap(notification => [
+        '',
+        `* ${notification.message} (${notification.created_at.toISOString().replace('T', ' ').slice(0, 16)} UTC)`,
+        ...caseLines(notification.fraudCase).map(line => `  ${line}`)
+      ]),
+      ...FOOTER
+    ].join('\n')
+  };
+}
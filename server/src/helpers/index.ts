@@ -1,5 +1,6 @@
 import { db } from '../db';
-import { sql } from 'drizzle-orm';
+import { getTableName, sql } from 'drizzle-orm';
+import { type PgTable } from 'drizzle-orm/pg-core';
 import * as schema from "../db/schema";
 import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
 
@@ -16,3 +17,15 @@ export const createDB = async () => {
   );
   await db.execute(migrationStatements.join('\n'));
 };
+
+// Makes every insert into the table fail from now on, to check that the writes before it are rolled back
+export const failInsertsInto = async (table: PgTable) => {
+  const name = getTableName(table);
+  await db.execute(sql.raw(`
+    create or replace function fail_insert() returns trigger language plpgsql as $$
+    begin
+      raise exception 'Injected failure writing to %', tg_table_name;
+    end $$;
+    create trigger fail_insert_into_${name} before insert on "${name}" for each row execute function fail_insert();
+  `));
+};
@@ -0,0 +1,210 @@
+import { connect as connectTcp, type Socket } from 'node:net';
+import { connect as connectTls } from 'node:tls';
+import { hostname } from 'node:os';
+import { randomUUID } from 'node:crypto';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Sends email. Only the rendered message is queued in the database, so any backend (e.g. an HTTP mail API)
+// can replace the SMTP implementation.
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure?: boolean; // TLS from the start (usually port 465); otherwise STARTTLS is used when the server offers it
+  username?: string;
+  password?: string;
+  from: string;
+  timeoutMs?: number;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+// Reads SMTP replies off a connection that may be upgraded to TLS half way through
+const openSmtpSession = (initial: Socket, timeoutMs: number) => {
+  let socket = initial;
+  let buffer = '';
+  let replyLines: string[] = [];
+  let failure: Error | null = null;
+  const replies: SmtpReply[] = [];
+  const waiters: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }[] = [];
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newline).replace(/\r$/, '');
+      buffer = buffer.slice(newline + 1);
+      replyLines.push(line.slice(4));
+
+      // "250-..." continues a multi-line reply and "250 ..." ends it
+      if (line[3] !== '-') {
+        const reply = { code: Number(line.slice(0, 3)), lines: replyLines };
+        replyLines = [];
+        const waiter = waiters.shift();
+        if (waiter) waiter.resolve(reply); else replies.push(reply);
+      }
+    }
+  };
+
+  const onError = (error: Error) => {
+    failure ??= error;
+    for (const waiter of waiters.splice(0)) waiter.reject(failure);
+  };
+
+  const onClose = () => onError(new Error('SMTP connection closed'));
+  const onTimeout = () => socket.destroy(new Error('SMTP connection timed out'));
+
+  const attach = (target: Socket) => {
+    socket = target;
+    target.on('data', onData);
+    target.on('error', onError);
+    target.on('close', onClose);
+    target.setTimeout(timeoutMs, onTimeout);
+  };
+
+  const detach = (target: Socket) => {
+    target.off('data', onData);
+    target.off('error', onError);
+    target.off('close', onClose);
+    target.setTimeout(0);
+  };
+
+  attach(initial);
+
+  const read = (): Promise<SmtpReply> => {
+    const reply = replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (failure) return Promise.reject(failure);
+    return new Promise((resolve, reject) => waiters.push({ resolve, reject }));
+  };
+
+  const expect = async (step: string, accepted: number[]): Promise<SmtpReply> => {
+    const reply = await read();
+    if (!accepted.includes(reply.code)) {
+      throw new Error(`SMTP ${step} rejected: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  };
+
+  return {
+    expect,
+    command(line: string, accepted: number[], step = line.split(' ')[0]): Promise<SmtpReply> {
+      socket.write(`${line}\r\n`);
+      return expect(step, accepted);
+    },
+    startTls(servername: string) {
+      detach(socket);
+      attach(connectTls({ socket, servername }));
+    },
+    close() {
+      detach(socket);
+      // Errors from a connection that is being torn down have nothing left to fail
+      socket.on('error', () => undefined);
+      socket.destroy();
+    }
+  };
+};
+
+// Header values must not break out of their line
+const headerValue = (value: string) => value.replace(/[\r\n]+/g, ' ').trim();
+
+// The bare address of "Name <address>"
+const mailAddress = (value: string) => headerValue(value).replace(/^.*<|>.*$/g, '');
+
+const encodeHeader = (value: string) => /^[\x20-\x7e]*$/.test(value)
+  ? value
+  : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+export const formatMailMessage = (from: string, message: MailMessage): string => {
+  const ascii = /^[\x00-\x7f]*$/.test(message.text);
+  const body = ascii
+    ? message.text
+    : Buffer.from(message.text, 'utf8').toString('base64').replace(/.{76}/g, '$&\n');
+
+  const headers = [
+    `From: ${headerValue(from)}`,
+    `To: ${headerValue(message.to)}`,
+    `Subject: ${encodeHeader(headerValue(message.subject))}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${mailAddress(from).split('@')[1] ?? 'localhost'}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    `Content-Transfer-Encoding: ${ascii ? '7bit' : 'base64'}`
+  ];
+
+  // CRLF line endings, and lines starting with a dot are doubled so they do not end the DATA section
+  return [...headers, '', ...body.split(/\r?\n/)]
+    .map(line => line.startsWith('.') ? `.${line}` : line)
+    .join('\r\n');
+};
+
+// Minimal SMTP client: one connection per message, AUTH PLAIN when credentials are given
+export const createSmtpTransport = (options: SmtpOptions): MailTransport => ({
+  async send(message) {
+    const socket = options.secure
+      ? connectTls({ host: options.host, port: options.port, servername: options.host })
+      : connectTcp({ host: options.host, port: options.port });
+    const session = openSmtpSession(socket, options.timeoutMs ?? 30_000);
+
+    try {
+      await session.expect('greeting', [220]);
+      const ehlo = `EHLO ${hostname() || 'localhost'}`;
+      const capabilities = await session.command(ehlo, [250]);
+
+      if (!options.secure && capabilities.lines.some(line => /^STARTTLS\b/i.test(line))) {
+        await session.command('STARTTLS', [220]);
+        session.startTls(options.host);
+        await session.command(ehlo, [250]);
+      }
+
+      if (options.username) {
+        const credentials = Buffer.from(`\0${options.username}\0${options.password ?? ''}`, 'utf8').toString('base64');
+        await session.command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await session.command(`MAIL FROM:<${mailAddress(options.from)}>`, [250]);
+      await session.command(`RCPT TO:<${mailAddress(message.to)}>`, [250, 251]);
+      await session.command('DATA', [354]);
+      await session.command(`${formatMailMessage(options.from, message)}\r\n.`, [250], 'message');
+      // The message is delivered once the data is accepted; a failed goodbye must not cause a resend
+      await session.command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      session.close();
+    }
+  }
+});
+
+let transport: MailTransport | null | undefined;
+
+// SMTP from the SMTP_* environment variables unless another backend has been installed; null when email is not set up
+export const getMailTransport = (): MailTransport | null => {
+  if (transport === undefined) {
+    const host = process.env['SMTP_HOST'];
+    transport = host
+      ? createSmtpTransport({
+        host,
+        port: Number(process.env['SMTP_PORT'] || 25),
+        secure: process.env['SMTP_SECURE'] === 'true',
+        username: process.env['SMTP_USERNAME'] || undefined,
+        password: process.env['SMTP_PASSWORD'] || undefined,
+        from: process.env['MAIL_FROM'] || `Fraud Case Management <noreply@${host}>`
+      })
+      : null;
+  }
+  return transport;
+};
+
+export const setMailTransport = (backend: MailTransport | null | undefined): void => {
+  transport = backend;
+};
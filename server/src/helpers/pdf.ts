@@ -0,0 +1,129 @@
+// Minimal text-only PDF writer for generated documents such as case packets.
+// Uses the standard Helvetica fonts so nothing has to be embedded; text outside Latin-1 is replaced by '?'.
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const USABLE_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+
+// Average Helvetica glyph width as a fraction of the font size; slightly generous so lines never overflow
+const AVERAGE_GLYPH_WIDTH = 0.55;
+
+type FontName = 'F1' | 'F2'; // Regular and bold
+
+interface PdfLine {
+  text: string;
+  font: FontName;
+  size: number;
+  indent: number;
+  gapBefore: number;
+}
+
+const escapePdfText = (text: string) =>
+  text
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .replace(/([\\()])/g, '\\$1');
+
+const wrap = (text: string, size: number, indent: number): string[] => {
+  const maxChars = Math.max(10, Math.floor((USABLE_WIDTH - indent) / (size * AVERAGE_GLYPH_WIDTH)));
+  const lines: string[] = [];
+
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      // Words longer than a line (hashes, URLs) are hard-broken
+      for (let start = 0; start < word.length; start += maxChars) {
+        const piece = word.slice(start, start + maxChars);
+        if (line && line.length + 1 + piece.length > maxChars) {
+          lines.push(line);
+          line = piece;
+        } else {
+          line = line ? `${line} ${piece}` : piece;
+        }
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+};
+
+export type PdfBlock =
+  | { type: 'title' | 'heading'; text: string }
+  | { type: 'text'; text: string; indent?: number }
+  | { type: 'field'; label: string; value: string | number | null | undefined }
+  | { type: 'spacer' };
+
+const toLines = (block: PdfBlock): PdfLine[] => {
+  const lines = (text: string, font: FontName, size: number, indent: number, gapBefore: number): PdfLine[] =>
+    wrap(text, size, indent).map((line, index) => ({ text: line, font, size, indent, gapBefore: index === 0 ? gapBefore : 0 }));
+
+  switch (block.type) {
+    case 'title':
+      return lines(block.text, 'F2', 18, 0, 0);
+    case 'heading':
+      return lines(block.text, 'F2', 13, 0, 16);
+    case 'text':
+      return lines(block.text, 'F1', 10, block.indent ?? 0, 0);
+    case 'field': {
+      const value = block.value === null || block.value === undefined || block.value === '' ? '-' : block.value;
+      return lines(`${block.label}: ${value}`, 'F1', 10, 0, 0);
+    }
+    case 'spacer':
+      return [{ text: '', font: 'F1', size: 10, indent: 0, gapBefore: 0 }];
+  }
+};
+
+// Lays the blocks out on A4 pages, with the footer and page numbers at the bottom of each page
+export function renderPdf(blocks: PdfBlock[], footer: string): Buffer {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const line of blocks.flatMap(toLines)) {
+    const height = line.size * 1.4 + line.gapBefore;
+    if (y - height < MARGIN + 20) {
+      pages.push([]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+    y -= height;
+    if (line.text) {
+      pages[pages.length - 1].push(
+        `BT /${line.font} ${line.size} Tf ${MARGIN + line.indent} ${y.toFixed(2)} Td (${escapePdfText(line.text)}) Tj ET`
+      );
+    }
+  }
+
+  const pageContents = pages.map((commands, index) =>
+    [...commands, `BT /F1 8 Tf ${MARGIN} ${MARGIN - 10} Td (${escapePdfText(`${footer} - page ${index + 1} of ${pages.length}`)}) Tj ET`].join('\n')
+  );
+
+  // Objects 1-4 are fixed; every page then takes a page object and a content stream object
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageContents.map((_, index) => `${5 + index * 2} 0 R`).join(' ')}] /Count ${pageContents.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+  ];
+
+  pageContents.forEach((content, index) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + index * 2} 0 R >>`
+    );
+    objects.push(`<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`);
+  });
+
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(output, 'latin1'));
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(output, 'latin1');
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+}
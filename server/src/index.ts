@@ -1,155 +1,76 @@
-import { initTRPC } from '@trpc/server';
 import { createHTTPServer } from '@trpc/server/adapters/standalone';
+import { applyWSSHandler } from '@trpc/server/adapters/ws';
+import { WebSocketServer } from 'ws';
 import 'dotenv/config';
 import cors from 'cors';
-import superjson from 'superjson';
-import { z } from 'zod';
+import { createContext } from './trpc';
+import { appRouter } from './router';
+import { handleExportRequest } from './export_routes';
+import { bootstrapAdmin } from './handlers/bootstrap_admin';
+import { startAutoEscalationScheduler } from './auto_escalation_scheduler';
+import { startEmailDeliveryScheduler } from './email_delivery_scheduler';
+import { getMailTransport } from './helpers/mail_transport';
+import { startWebhookDeliveryScheduler } from './webhook_delivery_scheduler';
 
-// Import schemas
-import {
-  createUserInputSchema,
-  createFraudCaseInputSchema,
-  updateFraudCaseInputSchema,
-  escalateCaseInputSchema,
-  caseFiltersSchema,
-  permissionCheckSchema,
-  userRoleSchema
-} from './schema';
-
-// Import handlers
-import { createUser } from './handlers/create_user';
-import { getUsers } from './handlers/get_users';
-import { getUserById } from './handlers/get_user_by_id';
-import { createFraudCase } from './handlers/create_fraud_case';
-import { getFraudCases } from './handlers/get_fraud_cases';
-import { getFraudCaseById } from './handlers/get_fraud_case_by_id';
-import { getFraudCaseByTxid } from './handlers/get_fraud_case_by_txid';
-import { updateFraudCase } from './handlers/update_fraud_case';
-import { assignCase } from './handlers/assign_case';
-import { escalateCase } from './handlers/escalate_case';
-import { getCaseEscalations } from './handlers/get_case_escalations';
-import { checkPermissions, getUserRole } from './handlers/check_permissions';
-import { getCaseStatistics } from './handlers/get_case_statistics';
-import { closeCase } from './handlers/close_case';
-
-const t = initTRPC.create({
-  transformer: superjson,
-});
-
-const publicProcedure = t.procedure;
-const router = t.router;
-
-const appRouter = router({
-  // Health check
-  healthcheck: publicProcedure.query(() => {
-    return { status: 'ok', timestamp: new Date().toISOString() };
-  }),
-
-  // User management
-  createUser: publicProcedure
-    .input(createUserInputSchema)
-    .mutation(({ input }) => createUser(input)),
-
-  getUsers: publicProcedure
-    .input(z.object({ role: userRoleSchema.optional() }).optional())
-    .query(({ input }) => getUsers(input?.role)),
-
-  getUserById: publicProcedure
-    .input(z.object({ id: z.number() }))
-    .query(({ input }) => getUserById(input.id)),
-
-  // Fraud case management
-  createFraudCase: publicProcedure
-    .input(createFraudCaseInputSchema)
-    .mutation(({ input }) => createFraudCase(input)),
-
-  getFraudCases: publicProcedure
-    .input(z.object({
-      filters: caseFiltersSchema.optional(),
-      userId: z.number().optional()
-    }).optional())
-    .query(({ input }) => getFraudCases(input?.filters, input?.userId)),
-
-  getFraudCaseById: publicProcedure
-    .input(z.object({
-      id: z.number(),
-      userId: z.number().optional()
-    }))
-    .query(({ input }) => getFraudCaseById(input.id, input.userId)),
-
-  getFraudCaseByTxid: publicProcedure
-    .input(z.object({
-      txid: z.string(),
-      userId: z.number().optional()
-    }))
-    .query(({ input }) => getFraudCaseByTxid(input.txid, input.userId)),
-
-  updateFraudCase: publicProcedure
-    .input(z.object({
-      case: updateFraudCaseInputSchema,
-      userId: z.number()
-    }))
-    .mutation(({ input }) => updateFraudCase(input.case, input.userId)),
-
-  assignCase: publicProcedure
-    .input(z.object({
-      caseId: z.number(),
-      assignedTo: z.number(),
-      assignedBy: z.number()
-    }))
-    .mutation(({ input }) => assignCase(input.caseId, input.assignedTo, input.assignedBy)),
-
-  // Case escalation
-  escalateCase: publicProcedure
-    .input(escalateCaseInputSchema)
-    .mutation(({ input }) => escalateCase(input)),
-
-  getCaseEscalations: publicProcedure
-    .input(z.object({
-      caseId: z.number(),
-      userId: z.number().optional()
-    }))
-    .query(({ input }) => getCaseEscalations(input.caseId, input.userId)),
-
-  // Case closure
-  closeCase: publicProcedure
-    .input(z.object({
-      caseId: z.number(),
-      userId: z.number(),
-      resolution: z.string().optional()
-    }))
-    .mutation(({ input }) => closeCase(input.caseId, input.userId, input.resolution)),
-
-  // Permissions and authorization
-  checkPermissions: publicProcedure
-    .input(permissionCheckSchema)
-    .query(({ input }) => checkPermissions(input)),
-
-  getUserRole: publicProcedure
-    .input(z.object({ userId: z.number() }))
-    .query(({ input }) => getUserRole(input.userId)),
-
-  // Statistics and reporting
-  getCaseStatistics: publicProcedure
-    .input(z.object({ userId: z.number().optional() }).optional())
-    .query(({ input }) => getCaseStatistics(input?.userId))
-});
-
-export type AppRouter = typeof appRouter;
+export type { AppRouter } from './router';
 
 async function start() {
   const port = process.env['SERVER_PORT'] || 2022;
+
+  // Optional first-run admin so the system can be logged into
+  const adminUsername = process.env['ADMIN_USERNAME'];
+  const adminPassword = process.env['ADMIN_PASSWORD'];
+  if (adminUsername && adminPassword) {
+    await bootstrapAdmin(adminUsername, process.env['ADMIN_EMAIL'] || `${adminUsername}@localhost.localdomain`, adminPassword);
+  }
+
   const server = createHTTPServer({
     middleware: (req, res, next) => {
-      cors()(req, res, next);
+      cors()(req, res, () => {
+        handleExportRequest(req, res)
+          .then(handled => {
+            if (!handled) next();
+          })
+          .catch(next);
+      });
     },
     router: appRouter,
-    createContext() {
-      return {};
-    },
+    createContext,
+  });
+
+  // Subscriptions are served over WebSocket on the same port
+  const wss = new WebSocketServer({ server });
+  applyWSSHandler({
+    wss,
+    router: appRouter,
+    createContext,
+    keepAlive: { enabled: true }
   });
+
   server.listen(port);
   console.log(`TRPC Case Management Server listening at port: ${port}`);
+
+  // Auto-escalation runs every few minutes unless disabled with an interval of 0
+  const escalationInterval = Number(process.env['AUTO_ESCALATION_INTERVAL_MINUTES'] ?? 5);
+  if (escalationInterval > 0) {
+    startAutoEscalationScheduler({
+      intervalMs: escalationInterval * 60_000,
+      onCallUsername: process.env['ON_CALL_USERNAME']
+    });
+  }
+
+  // Emails are only queued and sent once SMTP_HOST is set
+  const mailTransport = getMailTransport();
+  if (mailTransport) {
+    startEmailDeliveryScheduler({
+      intervalMs: Number(process.env['EMAIL_DELIVERY_INTERVAL_SECONDS'] ?? 30) * 1000,
+      transport: mailTransport
+    });
+  }
+
+  startWebhookDeliveryScheduler({
+    intervalMs: Number(process.env['WEBHOOK_DELIVERY_INTERVAL_SECONDS'] ?? 15) * 1000
+  });
 }
 
 start();
\ No newline at end of file
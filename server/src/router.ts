@@ -0,0 +1,393 @@
+import { z } from 'zod';
+import { authorizedProcedure, protectedProcedure, publicProcedure, router } from './trpc';
+
+// Import schemas
+import {
+  createUserInputSchema,
+  createFraudCaseInputSchema,
+  importCasesInputSchema,
+  updateFraudCaseInputSchema,
+  escalateCaseInputSchema,
+  caseOutcomeInputSchema,
+  bulkAssignInputSchema,
+  bulkUpdateStatusInputSchema,
+  bulkEscalateInputSchema,
+  createCaseNoteInputSchema,
+  updateCaseNoteInputSchema,
+  uploadAttachmentInputSchema,
+  replaceAttachmentInputSchema,
+  caseFiltersSchema,
+  caseListOptionsSchema,
+  searchCasesInputSchema,
+  createSavedViewInputSchema,
+  updateSavedViewInputSchema,
+  updateSlaPolicyInputSchema,
+  updateAutoAssignmentRuleInputSchema,
+  updateUserSkillsInputSchema,
+  setUserPasswordInputSchema,
+  changePasswordInputSchema,
+  getNotificationsInputSchema,
+  updateNotificationPreferencesInputSchema,
+  createWebhookSubscriptionInputSchema,
+  updateWebhookSubscriptionInputSchema,
+  getWebhookDeliveriesInputSchema,
+  permissionCheckSchema,
+  userRoleSchema,
+  loginInputSchema
+} from './schema';
+
+// Import handlers
+import { createUser } from './handlers/create_user';
+import { updateUserSkills } from './handlers/update_user_skills';
+import { setUserPassword } from './handlers/set_user_password';
+import { changePassword } from './handlers/change_password';
+import { getUsers } from './handlers/get_users';
+import { getUserById } from './handlers/get_user_by_id';
+import { createFraudCase } from './handlers/create_fraud_case';
+import { importCases } from './handlers/import_cases';
+import { getFraudCases } from './handlers/get_fraud_cases';
+import { searchCases } from './handlers/search_cases';
+import { getSavedViews } from './handlers/get_saved_views';
+import { createSavedView } from './handlers/create_saved_view';
+import { updateSavedView } from './handlers/update_saved_view';
+import { deleteSavedView } from './handlers/delete_saved_view';
+import { setDefaultSavedView } from './handlers/set_default_saved_view';
+import { getFraudCaseById } from './handlers/get_fraud_case_by_id';
+import { getFraudCaseByTxid } from './handlers/get_fraud_case_by_txid';
+import { getCaseTransactions } from './handlers/get_case_transactions';
+import { exportCasePacket } from './handlers/export_case_packet';
+import { updateFraudCase } from './handlers/update_fraud_case';
+import { assignCase } from './handlers/assign_case';
+import { autoAssignCase } from './handlers/auto_assignment';
+import { escalateCase } from './handlers/escalate_case';
+import { getCaseEscalations } from './handlers/get_case_escalations';
+import { checkPermissions, getRolePermissions, getUserRole } from './handlers/check_permissions';
+import { getCaseStatistics } from './handlers/get_case_statistics';
+import { getSlaPolicies } from './handlers/get_sla_policies';
+import { updateSlaPolicy } from './handlers/update_sla_policy';
+import { getAutoAssignmentRules } from './handlers/get_auto_assignment_rules';
+import { updateAutoAssignmentRule } from './handlers/update_auto_assignment_rule';
+import { getNotifications } from './handlers/get_notifications';
+import { getUnreadNotificationCount } from './handlers/get_unread_notification_count';
+import { markNotificationRead } from './handlers/mark_notification_read';
+import { markAllNotificationsRead } from './handlers/mark_all_notifications_read';
+import { getNotificationPreferences } from './handlers/get_notification_preferences';
+import { updateNotificationPreferences } from './handlers/update_notification_preferences';
+import { getWebhookSubscriptions } from './handlers/get_webhook_subscriptions';
+import { createWebhookSubscription } from './handlers/create_webhook_subscription';
+import { updateWebhookSubscription } from './handlers/update_webhook_subscription';
+import { deleteWebhookSubscription } from './handlers/delete_webhook_subscription';
+import { getWebhookDeliveries } from './handlers/get_webhook_deliveries';
+import { redeliverWebhook } from './handlers/redeliver_webhook';
+import { subscribeToCaseChanges } from './handlers/case_change_feed';
+import { closeCase } from './handlers/close_case';
+import { bulkAssign, bulkEscalate, bulkUpdateStatus } from './handlers/bulk_case_actions';
+import { getAllowedTransitions } from './handlers/get_allowed_transitions';
+import { getCaseTimeline } from './handlers/get_case_timeline';
+import { createCaseNote } from './handlers/create_case_note';
+import { updateCaseNote } from './handlers/update_case_note';
+import { deleteCaseNote } from './handlers/delete_case_note';
+import { getCaseNotes } from './handlers/get_case_notes';
+import { uploadAttachment } from './handlers/upload_attachment';
+import { getCaseAttachments } from './handlers/get_case_attachments';
+import { getAttachmentContent } from './handlers/get_attachment_content';
+import { deleteAttachment } from './handlers/delete_attachment';
+import { replaceAttachment } from './handlers/replace_attachment';
+import { getCustodyLog } from './handlers/get_custody_log';
+import { verifyCustodyChain } from './handlers/verify_custody_chain';
+import { exportCustodyReport } from './handlers/export_custody_report';
+import { login } from './handlers/login';
+import { logout } from './handlers/logout';
+
+export const appRouter = router({
+  // Health check
+  healthcheck: publicProcedure.query(() => {
+    return { status: 'ok', timestamp: new Date().toISOString() };
+  }),
+
+  // Authentication
+  login: publicProcedure
+    .input(loginInputSchema)
+    .mutation(({ input }) => login(input)),
+
+  logout: protectedProcedure
+    .mutation(({ ctx }) => logout(ctx.token)),
+
+  getCurrentUser: protectedProcedure
+    .query(({ ctx }) => ctx.user),
+
+  getMyPermissions: protectedProcedure
+    .query(({ ctx }) => getRolePermissions(ctx.user.role)),
+
+  changePassword: protectedProcedure
+    .input(changePasswordInputSchema)
+    .mutation(({ input, ctx }) => changePassword(ctx.user.id, input)),
+
+  // User management
+  createUser: authorizedProcedure('user', 'create')
+    .input(createUserInputSchema)
+    .mutation(({ input }) => createUser(input)),
+
+  updateUserSkills: authorizedProcedure('user', 'update')
+    .input(updateUserSkillsInputSchema)
+    .mutation(({ input }) => updateUserSkills(input)),
+
+  setUserPassword: authorizedProcedure('user', 'update')
+    .input(setUserPasswordInputSchema)
+    .mutation(({ input }) => setUserPassword(input)),
+
+  getUsers: authorizedProcedure('user', 'read')
+    .input(z.object({ role: userRoleSchema.optional() }).optional())
+    .query(({ input }) => getUsers(input?.role)),
+
+  getUserById: authorizedProcedure('user', 'read')
+    .input(z.object({ id: z.number() }))
+    .query(({ input }) => getUserById(input.id)),
+
+  // Fraud case management
+  createFraudCase: authorizedProcedure('case', 'create')
+    .input(createFraudCaseInputSchema.omit({ created_by: true }))
+    .mutation(({ input, ctx }) => createFraudCase({ ...input, created_by: ctx.user.id })),
+
+  importCases: authorizedProcedure('case', 'create')
+    .input(importCasesInputSchema.omit({ created_by: true }))
+    .mutation(({ input, ctx }) => importCases({ ...input, created_by: ctx.user.id })),
+
+  getFraudCases: authorizedProcedure('case', 'read')
+    .input(caseListOptionsSchema.extend({
+      filters: caseFiltersSchema.optional()
+    }).optional())
+    .query(({ input, ctx }) => {
+      const { filters, ...options } = input ?? {};
+      return getFraudCases(filters, ctx.user.id, options);
+    }),
+
+  searchCases: authorizedProcedure('case', 'read')
+    .input(searchCasesInputSchema)
+    .query(({ input, ctx }) => searchCases(input, ctx.user.id)),
+
+  // Live case list updates, served over WebSocket
+  onCaseCreated: authorizedProcedure('case', 'read')
+    .subscription(({ ctx, signal }) => subscribeToCaseChanges(ctx.user, 'created', signal)),
+
+  onCaseChanged: authorizedProcedure('case', 'read')
+    .subscription(({ ctx, signal }) => subscribeToCaseChanges(ctx.user, 'changed', signal)),
+
+  // Saved case list views
+  getSavedViews: authorizedProcedure('view', 'read')
+    .query(({ ctx }) => getSavedViews(ctx.user.id)),
+
+  createSavedView: authorizedProcedure('view', 'create')
+    .input(createSavedViewInputSchema.omit({ owner_id: true }))
+    .mutation(({ input, ctx }) => createSavedView({ ...input, owner_id: ctx.user.id })),
+
+  updateSavedView: authorizedProcedure('view', 'update')
+    .input(updateSavedViewInputSchema)
+    .mutation(({ input, ctx }) => updateSavedView(input, ctx.user.id)),
+
+  deleteSavedView: authorizedProcedure('view', 'delete')
+    .input(z.object({ viewId: z.number() }))
+    .mutation(({ input, ctx }) => deleteSavedView(input.viewId, ctx.user.id)),
+
+  setDefaultSavedView: authorizedProcedure('view', 'update')
+    .input(z.object({ viewId: z.number().nullable() }))
+    .mutation(({ input, ctx }) => setDefaultSavedView(input.viewId, ctx.user.id)),
+
+  getFraudCaseById: authorizedProcedure('case', 'read')
+    .input(z.object({ id: z.number() }))
+    .query(({ input, ctx }) => getFraudCaseById(input.id, ctx.user.id)),
+
+  getFraudCaseByTxid: authorizedProcedure('case', 'read')
+    .input(z.object({ txid: z.string() }))
+    .query(({ input, ctx }) => getFraudCaseByTxid(input.txid, ctx.user.id)),
+
+  getCaseTransactions: authorizedProcedure('case', 'read')
+    .input(z.object({ caseId: z.number() }))
+    .query(({ input, ctx }) => getCaseTransactions(input.caseId, ctx.user.id)),
+
+  // Case lists are exported as CSV through the streaming GET /exports/cases.csv route
+  exportCasePacket: authorizedProcedure('case', 'read')
+    .input(z.object({ caseId: z.number() }))
+    .query(({ input, ctx }) => exportCasePacket(input.caseId, ctx.user.id)),
+
+  updateFraudCase: authorizedProcedure('case', 'update')
+    .input(z.object({ case: updateFraudCaseInputSchema.required({ expected_version: true }) }))
+    .mutation(({ input, ctx }) => updateFraudCase(input.case, ctx.user.id)),
+
+  assignCase: authorizedProcedure('case', 'assign')
+    .input(z.object({
+      caseId: z.number(),
+      assignedTo: z.number(),
+      expectedVersion: z.number().int()
+    }))
+    .mutation(({ input, ctx }) => assignCase(input.caseId, input.assignedTo, ctx.user.id, input.expectedVersion)),
+
+  autoAssignCase: authorizedProcedure('case', 'assign')
+    .input(z.object({ caseId: z.number(), expectedVersion: z.number().int() }))
+    .mutation(({ input, ctx }) => autoAssignCase(input.caseId, ctx.user.id, input.expectedVersion)),
+
+  // Case escalation
+  escalateCase: authorizedProcedure('case', 'escalate')
+    .input(escalateCaseInputSchema.omit({ escalated_by: true }).required({ expected_version: true }))
+    .mutation(({ input, ctx }) => escalateCase({ ...input, escalated_by: ctx.user.id })),
+
+  getCaseEscalations: authorizedProcedure('escalation', 'read')
+    .input(z.object({ caseId: z.number() }))
+    .query(({ input, ctx }) => getCaseEscalations(input.caseId, ctx.user.id)),
+
+  // Evidence chain of custody
+  getCustodyLog: authorizedProcedure('custody', 'read')
+    .input(z.object({ caseId: z.number() }))
+    .query(({ input, ctx }) => getCustodyLog(input.caseId, ctx.user.id)),
+
+  verifyCustodyChain: authorizedProcedure('custody', 'read')
+    .input(z.object({ caseId: z.number() }))
+    .query(({ input, ctx }) => verifyCustodyChain(input.caseId, ctx.user.id)),
+
+  exportCustodyReport: authorizedProcedure('custody', 'read')
+    .input(z.object({ caseId: z.number() }))
+    .query(({ input, ctx }) => exportCustodyReport(input.caseId, ctx.user.id)),
+
+  // Case closure
+  closeCase: authorizedProcedure('case', 'update')
+    .input(caseOutcomeInputSchema.extend({ caseId: z.number(), expectedVersion: z.number().int() }))
+    .mutation(({ input: { caseId, expectedVersion, ...outcome }, ctx }) => closeCase(caseId, ctx.user.id, outcome, expectedVersion)),
+
+  // Bulk case actions, checked case by case like their single-case counterparts
+  bulkAssign: authorizedProcedure('case', 'assign')
+    .input(bulkAssignInputSchema.omit({ assigned_by: true }))
+    .mutation(({ input, ctx }) => bulkAssign({ ...input, assigned_by: ctx.user.id })),
+
+  bulkUpdateStatus: authorizedProcedure('case', 'update')
+    .input(bulkUpdateStatusInputSchema.omit({ updated_by: true }))
+    .mutation(({ input, ctx }) => bulkUpdateStatus({ ...input, updated_by: ctx.user.id })),
+
+  bulkEscalate: authorizedProcedure('case', 'escalate')
+    .input(bulkEscalateInputSchema.omit({ escalated_by: true }))
+    .mutation(({ input, ctx }) => bulkEscalate({ ...input, escalated_by: ctx.user.id })),
+
+  // Status workflow
+  getAllowedTransitions: authorizedProcedure('case', 'read')
+    .input(z.object({ caseId: z.number() }))
+    .query(({ input, ctx }) => getAllowedTransitions(input.caseId, ctx.user.id)),
+
+  // Audit trail
+  getCaseTimeline: authorizedProcedure('case', 'read')
+    .input(z.object({ caseId: z.number() }))
+    .query(({ input, ctx }) => getCaseTimeline(input.caseId, ctx.user.id)),
+
+  // Case notes
+  createCaseNote: authorizedProcedure('note', 'create')
+    .input(createCaseNoteInputSchema.omit({ author_id: true }))
+    .mutation(({ input, ctx }) => createCaseNote({ ...input, author_id: ctx.user.id })),
+
+  updateCaseNote: authorizedProcedure('note', 'update')
+    .input(updateCaseNoteInputSchema)
+    .mutation(({ input, ctx }) => updateCaseNote(input, ctx.user.id)),
+
+  deleteCaseNote: authorizedProcedure('note', 'delete')
+    .input(z.object({ noteId: z.number() }))
+    .mutation(({ input, ctx }) => deleteCaseNote(input.noteId, ctx.user.id)),
+
+  getCaseNotes: authorizedProcedure('note', 'read')
+    .input(z.object({ caseId: z.number() }))
+    .query(({ input, ctx }) => getCaseNotes(input.caseId, ctx.user.id)),
+
+  // Evidence attachments
+  uploadAttachment: authorizedProcedure('attachment', 'create')
+    .input(uploadAttachmentInputSchema.omit({ uploaded_by: true }))
+    .mutation(({ input, ctx }) => uploadAttachment({ ...input, uploaded_by: ctx.user.id })),
+
+  getCaseAttachments: authorizedProcedure('attachment', 'read')
+    .input(z.object({ caseId: z.number() }))
+    .query(({ input, ctx }) => getCaseAttachments(input.caseId, ctx.user.id)),
+
+  getAttachmentContent: authorizedProcedure('attachment', 'read')
+    .input(z.object({ attachmentId: z.number() }))
+    .query(({ input, ctx }) => getAttachmentContent(input.attachmentId, ctx.user.id)),
+
+  replaceAttachment: authorizedProcedure('attachment', 'update')
+    .input(replaceAttachmentInputSchema)
+    .mutation(({ input, ctx }) => replaceAttachment(input, ctx.user.id)),
+
+  deleteAttachment: authorizedProcedure('attachment', 'delete')
+    .input(z.object({ attachmentId: z.number() }))
+    .mutation(({ input, ctx }) => deleteAttachment(input.attachmentId, ctx.user.id)),
+
+  // Permissions and authorization
+  checkPermissions: authorizedProcedure('user', 'read')
+    .input(permissionCheckSchema)
+    .query(({ input }) => checkPermissions(input)),
+
+  getUserRole: authorizedProcedure('user', 'read')
+    .input(z.object({ userId: z.number() }))
+    .query(({ input }) => getUserRole(input.userId)),
+
+  // Statistics and reporting
+  getCaseStatistics: authorizedProcedure('case', 'read')
+    .query(({ ctx }) => getCaseStatistics(ctx.user.id)),
+
+  // SLA policies per case priority
+  getSlaPolicies: authorizedProcedure('sla', 'read')
+    .query(() => getSlaPolicies()),
+
+  updateSlaPolicy: authorizedProcedure('sla', 'update')
+    .input(updateSlaPolicyInputSchema.omit({ updated_by: true }))
+    .mutation(({ input, ctx }) => updateSlaPolicy({ ...input, updated_by: ctx.user.id })),
+
+  // Auto-assignment rules per case priority
+  getAutoAssignmentRules: authorizedProcedure('assignment', 'read')
+    .query(() => getAutoAssignmentRules()),
+
+  updateAutoAssignmentRule: authorizedProcedure('assignment', 'update')
+    .input(updateAutoAssignmentRuleInputSchema.omit({ updated_by: true }))
+    .mutation(({ input, ctx }) => updateAutoAssignmentRule({ ...input, updated_by: ctx.user.id })),
+
+  // In-app notifications of the signed-in user
+  getNotifications: authorizedProcedure('notification', 'read')
+    .input(getNotificationsInputSchema.optional())
+    .query(({ input, ctx }) => getNotifications(ctx.user.id, input)),
+
+  getUnreadNotificationCount: authorizedProcedure('notification', 'read')
+    .query(({ ctx }) => getUnreadNotificationCount(ctx.user.id)),
+
+  markNotificationRead: authorizedProcedure('notification', 'update')
+    .input(z.object({ notificationId: z.number() }))
+    .mutation(({ input, ctx }) => markNotificationRead(input.notificationId, ctx.user.id)),
+
+  markAllNotificationsRead: authorizedProcedure('notification', 'update')
+    .mutation(({ ctx }) => markAllNotificationsRead(ctx.user.id)),
+
+  getNotificationPreferences: authorizedProcedure('notification', 'read')
+    .query(({ ctx }) => getNotificationPreferences(ctx.user.id)),
+
+  updateNotificationPreferences: authorizedProcedure('notification', 'update')
+    .input(updateNotificationPreferencesInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => updateNotificationPreferences({ ...input, user_id: ctx.user.id })),
+
+  // Outbound webhooks for case lifecycle events
+  getWebhookSubscriptions: authorizedProcedure('webhook', 'read')
+    .query(() => getWebhookSubscriptions()),
+
+  createWebhookSubscription: authorizedProcedure('webhook', 'create')
+    .input(createWebhookSubscriptionInputSchema.omit({ created_by: true }))
+    .mutation(({ input, ctx }) => createWebhookSubscription({ ...input, created_by: ctx.user.id })),
+
+  updateWebhookSubscription: authorizedProcedure('webhook', 'update')
+    .input(updateWebhookSubscriptionInputSchema)
+    .mutation(({ input }) => updateWebhookSubscription(input)),
+
+  deleteWebhookSubscription: authorizedProcedure('webhook', 'delete')
+    .input(z.object({ subscriptionId: z.number() }))
+    .mutation(({ input }) => deleteWebhookSubscription(input.subscriptionId)),
+
+  getWebhookDeliveries: authorizedProcedure('webhook', 'read')
+    .input(getWebhookDeliveriesInputSchema.optional())
+    .query(({ input }) => getWebhookDeliveries(input)),
+
+  redeliverWebhook: authorizedProcedure('webhook', 'update')
+    .input(z.object({ deliveryId: z.number() }))
+    .mutation(({ input }) => redeliverWebhook(input.deliveryId))
+});
+
+export type AppRouter = typeof appRouter;
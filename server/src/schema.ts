@@ -12,12 +12,21 @@ export type CaseStatus = z.infer<typeof caseStatusSchema>;
 export const casePrioritySchema = z.enum(['low', 'medium', 'high', 'critical']);
 export type CasePriority = z.infer<typeof casePrioritySchema>;
 
+// Case Disposition enum recording the outcome of a resolved or closed case
+export const caseDispositionSchema = z.enum(['confirmed_fraud', 'false_positive', 'customer_error', 'inconclusive']);
+export type CaseDisposition = z.infer<typeof caseDispositionSchema>;
+
+// Payment channel a transaction was made through
+export const transactionChannelSchema = z.enum(['card_present', 'card_not_present', 'online_banking', 'mobile', 'atm', 'wire', 'ach', 'other']);
+export type TransactionChannel = z.infer<typeof transactionChannelSchema>;
+
 // User schema
 export const userSchema = z.object({
   id: z.number(),
   username: z.string(),
   email: z.string().email(),
   role: userRoleSchema,
+  skills: z.array(transactionChannelSchema), // Channels the user handles, used by skill-based auto-assignment
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -27,46 +36,276 @@ export type User = z.infer<typeof userSchema>;
 // Fraud case schema
 export const fraudCaseSchema = z.object({
   id: z.number(),
-  txid: z.string(), // Transaction ID
+  txid: z.string(), // Primary transaction ID; see transactionSchema for all transactions of the case
   description: z.string(),
   status: caseStatusSchema,
   priority: casePrioritySchema,
   assigned_to: z.number().nullable(), // User ID of assigned investigator
   created_by: z.number(), // User ID of creator
+  disposition: caseDispositionSchema.nullable(), // Set when the case is resolved or closed
+  resolution_note: z.string().nullable(), // Resolution narrative, set alongside the disposition
+  recovered_amount: z.number().nullable(), // Funds recovered, in the transaction currency
+  closed_by: z.number().nullable(), // User ID of the user who closed the case
+  closed_at: z.coerce.date().nullable(),
+  // SLA deadlines from the priority's SLA policy; null when the policy sets no target
+  assignment_due_at: z.coerce.date().nullable(),
+  first_action_due_at: z.coerce.date().nullable(),
+  resolution_due_at: z.coerce.date().nullable(),
+  // When each SLA target was met
+  first_assigned_at: z.coerce.date().nullable(),
+  first_action_at: z.coerce.date().nullable(), // First status change, escalation or note
+  resolved_at: z.coerce.date().nullable(), // Cleared when the case is reopened
+  version: z.number().int(), // Bumped by every change; clients send it back as the expected version
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type FraudCase = z.infer<typeof fraudCaseSchema>;
 
+// Transaction linked to a fraud case
+export const transactionSchema = z.object({
+  id: z.number(),
+  case_id: z.number(),
+  txid: z.string(),
+  amount: z.number().nullable(),
+  currency: z.string().nullable(), // ISO 4217 code
+  occurred_at: z.coerce.date().nullable(),
+  merchant: z.string().nullable(),
+  channel: transactionChannelSchema.nullable(),
+  account: z.string().nullable(), // Customer account the transaction was made from
+  counterparty: z.string().nullable(), // Receiving party or account
+  created_at: z.coerce.date()
+});
+
+export type Transaction = z.infer<typeof transactionSchema>;
+
+// Case status workflow transition
+export const caseStatusTransitionSchema = z.object({
+  from: caseStatusSchema,
+  to: caseStatusSchema,
+  roles: z.array(userRoleSchema), // Roles allowed to perform the transition
+  requires_note: z.boolean() // Whether a status note (resolution or reopen reason) is mandatory
+});
+
+export type CaseStatusTransition = z.infer<typeof caseStatusTransitionSchema>;
+
+// Transition available to a user for a specific case
+export const allowedTransitionSchema = z.object({
+  to: caseStatusSchema,
+  requires_note: z.boolean()
+});
+
+export type AllowedTransition = z.infer<typeof allowedTransitionSchema>;
+
 // Case escalation history schema
 export const caseEscalationSchema = z.object({
   id: z.number(),
   case_id: z.number(),
-  escalated_by: z.number(), // User ID
+  escalated_by: z.number().nullable(), // User ID, null for automatic escalations
   escalated_to: z.number().nullable(), // User ID of person escalated to
   previous_status: caseStatusSchema,
   new_status: caseStatusSchema,
   previous_priority: casePrioritySchema,
   new_priority: casePrioritySchema,
   reason: z.string(),
+  rule: z.string().nullable(), // Key of the auto-escalation rule that raised it
   created_at: z.coerce.date()
 });
 
 export type CaseEscalation = z.infer<typeof caseEscalationSchema>;
 
+// Case audit event types
+export const caseEventTypeSchema = z.enum(['created', 'updated', 'assigned', 'escalated', 'closed']);
+export type CaseEventType = z.infer<typeof caseEventTypeSchema>;
+
+// Before/after value of a single case field
+export const caseFieldValueSchema = z.union([z.string(), z.number(), z.null()]);
+
+export const caseFieldChangesSchema = z.record(z.string(), z.object({
+  from: caseFieldValueSchema,
+  to: caseFieldValueSchema
+}));
+
+export type CaseFieldChanges = z.infer<typeof caseFieldChangesSchema>;
+
+// Case audit event schema
+export const caseEventSchema = z.object({
+  id: z.number(),
+  case_id: z.number(),
+  actor_id: z.number().nullable(), // Null for system actions
+  event_type: caseEventTypeSchema,
+  changes: caseFieldChangesSchema,
+  metadata: z.record(z.string(), caseFieldValueSchema).nullable(),
+  created_at: z.coerce.date()
+});
+
+export type CaseEvent = z.infer<typeof caseEventSchema>;
+
+// Live case change pushed to subscribed clients
+export const caseChangeSchema = z.object({
+  type: caseEventTypeSchema,
+  case_id: z.number(),
+  actor_id: z.number().nullable(), // Null for system actions
+  case: fraudCaseSchema.nullable() // Null for subscribers who could see the case before the change but not after it
+});
+
+export type CaseChange = z.infer<typeof caseChangeSchema>;
+
+// Note visibility: internal notes stay with the investigation team, shareable notes are visible to viewers too
+export const noteVisibilitySchema = z.enum(['internal', 'shareable']);
+export type NoteVisibility = z.infer<typeof noteVisibilitySchema>;
+
+// Case note schema
+export const caseNoteSchema = z.object({
+  id: z.number(),
+  case_id: z.number(),
+  author_id: z.number(), // User ID of the author
+  parent_id: z.number().nullable(), // Top-level note this one replies to
+  body: z.string(),
+  visibility: noteVisibilitySchema,
+  mentions: z.array(z.number()), // User IDs @mentioned in the body
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type CaseNote = z.infer<typeof caseNoteSchema>;
+
+// Case attachment (evidence file) schema
+export const caseAttachmentSchema = z.object({
+  id: z.number(),
+  case_id: z.number(),
+  uploaded_by: z.number(), // User ID of the uploader
+  filename: z.string(),
+  mime_type: z.string(),
+  size_bytes: z.number().int(),
+  sha256: z.string(), // Hex digest of the stored content
+  created_at: z.coerce.date()
+});
+
+export type CaseAttachment = z.infer<typeof caseAttachmentSchema>;
+
+// Attachment together with its content, returned for downloads
+export const attachmentContentSchema = z.object({
+  attachment: caseAttachmentSchema,
+  content_base64: z.string()
+});
+
+export type AttachmentContent = z.infer<typeof attachmentContentSchema>;
+
+// Evidence access recorded in the chain-of-custody ledger
+export const custodyActionSchema = z.enum(['uploaded', 'viewed', 'downloaded', 'superseded', 'replaced', 'deleted']);
+export type CustodyAction = z.infer<typeof custodyActionSchema>;
+
+// Chain-of-custody ledger entry; entry_hash covers the entry fields and previous_hash
+export const custodyEntrySchema = z.object({
+  id: z.number(),
+  case_id: z.number(),
+  attachment_id: z.number(),
+  actor_id: z.number(),
+  action: custodyActionSchema,
+  attachment_sha256: z.string(), // Evidence hash at the time of the access
+  details: z.record(z.string(), caseFieldValueSchema).nullable(),
+  previous_hash: z.string(),
+  entry_hash: z.string(),
+  created_at: z.coerce.date()
+});
+
+export type CustodyEntry = z.infer<typeof custodyEntrySchema>;
+
+// Result of re-verifying a case's custody chain and the evidence it covers
+export const custodyVerificationSchema = z.object({
+  case_id: z.number(),
+  valid: z.boolean(),
+  entry_count: z.number(),
+  first_invalid_entry_id: z.number().nullable(), // First entry whose link or hash does not match
+  issues: z.array(z.string()),
+  verified_at: z.coerce.date()
+});
+
+export type CustodyVerification = z.infer<typeof custodyVerificationSchema>;
+
+// Exported custody report file
+export const custodyReportSchema = z.object({
+  filename: z.string(),
+  mime_type: z.string(),
+  content: z.string()
+});
+
+export type CustodyReport = z.infer<typeof custodyReportSchema>;
+
 // Input schemas for creating users
 export const createUserInputSchema = z.object({
   username: z.string().min(3).max(50),
   email: z.string().email(),
-  role: userRoleSchema
+  role: userRoleSchema,
+  password: z.string().min(8).max(128).optional(), // Users without a password cannot log in
+  skills: z.array(transactionChannelSchema).optional()
 });
 
 export type CreateUserInput = z.infer<typeof createUserInputSchema>;
 
-// Input schemas for creating fraud cases
-export const createFraudCaseInputSchema = z.object({
+export const updateUserSkillsInputSchema = z.object({
+  id: z.number(),
+  skills: z.array(transactionChannelSchema)
+});
+
+export type UpdateUserSkillsInput = z.infer<typeof updateUserSkillsInputSchema>;
+
+// Password set by an admin, for new accounts or recovery
+export const setUserPasswordInputSchema = z.object({
+  id: z.number(),
+  password: z.string().min(8).max(128)
+});
+
+export type SetUserPasswordInput = z.infer<typeof setUserPasswordInputSchema>;
+
+// Password change by the signed-in user, who proves they know the current one
+export const changePasswordInputSchema = z.object({
+  current_password: z.string().min(1),
+  new_password: z.string().min(8).max(128)
+});
+
+export type ChangePasswordInput = z.infer<typeof changePasswordInputSchema>;
+
+// Login input schema
+export const loginInputSchema = z.object({
+  username: z.string().min(1),
+  password: z.string().min(1)
+});
+
+export type LoginInput = z.infer<typeof loginInputSchema>;
+
+// Authenticated session returned on login
+export const authSessionSchema = z.object({
+  token: z.string(),
+  expires_at: z.coerce.date(),
+  user: userSchema
+});
+
+export type AuthSession = z.infer<typeof authSessionSchema>;
+
+// Input schema for a transaction reported with a case
+export const transactionInputSchema = z.object({
   txid: z.string().min(1),
+  amount: z.number().nonnegative().nullable().optional(),
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Currency must be a three-letter ISO 4217 code').nullable().optional(),
+  occurred_at: z.coerce.date().nullable().optional(),
+  merchant: z.string().min(1).nullable().optional(),
+  channel: transactionChannelSchema.nullable().optional(),
+  account: z.string().min(1).nullable().optional(),
+  counterparty: z.string().min(1).nullable().optional()
+});
+
+export type TransactionInput = z.infer<typeof transactionInputSchema>;
+
+// Input schemas for creating fraud cases; the first transaction becomes the case's primary txid
+export const createFraudCaseInputSchema = z.object({
+  transactions: z.array(transactionInputSchema)
+    .min(1)
+    .refine(
+      transactions => new Set(transactions.map(transaction => transaction.txid)).size === transactions.length,
+      'Each transaction can only be listed once'
+    ),
   description: z.string().min(10),
   priority: casePrioritySchema.default('medium'),
   created_by: z.number()
@@ -74,14 +313,52 @@ export const createFraudCaseInputSchema = z.object({
 
 export type CreateFraudCaseInput = z.infer<typeof createFraudCaseInputSchema>;
 
+// Input schema for a bulk case import; each row is validated against createFraudCaseInputSchema
+export const importCasesInputSchema = z.object({
+  format: z.enum(['csv', 'json']),
+  content: z.string().min(1),
+  dry_run: z.boolean().default(true), // Validate and preview without creating anything
+  created_by: z.number()
+});
+
+export type ImportCasesInput = z.infer<typeof importCasesInputSchema>;
+
+export const importRowStatusSchema = z.enum(['valid', 'invalid', 'duplicate', 'created']);
+export type ImportRowStatus = z.infer<typeof importRowStatusSchema>;
+
+// Outcome of a single import row; row numbers are 1-based and exclude the CSV header
+export const importRowResultSchema = z.object({
+  row: z.number(),
+  status: importRowStatusSchema,
+  txids: z.array(z.string()),
+  case_id: z.number().nullable(), // Set once the case has been created
+  errors: z.array(z.string())
+});
+
+export type ImportRowResult = z.infer<typeof importRowResultSchema>;
+
+// Cases are only created when every row is valid, so created_count is either 0 or valid_rows
+export const importCasesResultSchema = z.object({
+  dry_run: z.boolean(),
+  total_rows: z.number(),
+  valid_rows: z.number(),
+  created_count: z.number(),
+  rows: z.array(importRowResultSchema)
+});
+
+export type ImportCasesResult = z.infer<typeof importCasesResultSchema>;
+
 // Input schemas for updating fraud cases
 export const updateFraudCaseInputSchema = z.object({
   id: z.number(),
-  txid: z.string().min(1).optional(),
+  txid: z.string().min(1).optional(), // Renames the primary transaction, or promotes another transaction of the case
   description: z.string().min(10).optional(),
   status: caseStatusSchema.optional(),
   priority: casePrioritySchema.optional(),
-  assigned_to: z.number().nullable().optional()
+  status_note: z.string().min(10).optional(), // Required by transitions that demand a note
+  disposition: caseDispositionSchema.optional(), // Required when moving to resolved
+  recovered_amount: z.number().nonnegative().nullable().optional(),
+  expected_version: z.number().int().optional() // Version the caller last saw; required from clients
 });
 
 export type UpdateFraudCaseInput = z.infer<typeof updateFraudCaseInputSchema>;
@@ -93,27 +370,456 @@ export const escalateCaseInputSchema = z.object({
   escalated_to: z.number().nullable().optional(),
   new_status: caseStatusSchema.optional(),
   new_priority: casePrioritySchema,
-  reason: z.string().min(10)
+  reason: z.string().min(10),
+  expected_version: z.number().int().optional() // Version the caller last saw; required from clients
 });
 
 export type EscalateCaseInput = z.infer<typeof escalateCaseInputSchema>;
 
+// Outcome supplied when closing a case; fields already recorded at resolution may be omitted
+export const caseOutcomeInputSchema = z.object({
+  disposition: caseDispositionSchema.optional(),
+  resolution_note: z.string().min(10).optional(),
+  recovered_amount: z.number().nonnegative().nullable().optional()
+});
+
+export type CaseOutcomeInput = z.infer<typeof caseOutcomeInputSchema>;
+
+// Cases picked for a bulk action, each with the version the caller last saw
+export const bulkCaseTargetsSchema = z.array(z.object({
+  id: z.number(),
+  expected_version: z.number().int()
+})).min(1).max(100);
+
+export const bulkAssignInputSchema = z.object({
+  cases: bulkCaseTargetsSchema,
+  assigned_to: z.number(),
+  assigned_by: z.number()
+});
+
+export type BulkAssignInput = z.infer<typeof bulkAssignInputSchema>;
+
+// Moving to closed records the outcome like closeCase; the status note is the resolution then
+export const bulkUpdateStatusInputSchema = z.object({
+  cases: bulkCaseTargetsSchema,
+  status: caseStatusSchema,
+  status_note: z.string().min(10).optional(),
+  disposition: caseDispositionSchema.optional(),
+  recovered_amount: z.number().nonnegative().nullable().optional(),
+  updated_by: z.number()
+});
+
+export type BulkUpdateStatusInput = z.infer<typeof bulkUpdateStatusInputSchema>;
+
+export const bulkEscalateInputSchema = escalateCaseInputSchema
+  .omit({ case_id: true, expected_version: true })
+  .extend({ cases: bulkCaseTargetsSchema });
+
+export type BulkEscalateInput = z.infer<typeof bulkEscalateInputSchema>;
+
+// Each case of a bulk action succeeds or fails on its own
+export const bulkCaseResultSchema = z.object({
+  case_id: z.number(),
+  success: z.boolean(),
+  error: z.string().nullable(),
+  conflict: z.boolean(), // Someone else changed the case since it was listed
+  case: fraudCaseSchema.nullable() // The case after the action, when it succeeded
+});
+
+export type BulkCaseResult = z.infer<typeof bulkCaseResultSchema>;
+
+export const bulkCaseActionResultSchema = z.object({
+  succeeded: z.number().int(),
+  failed: z.number().int(),
+  results: z.array(bulkCaseResultSchema)
+});
+
+export type BulkCaseActionResult = z.infer<typeof bulkCaseActionResultSchema>;
+
+// Input schema for adding a case note
+export const createCaseNoteInputSchema = z.object({
+  case_id: z.number(),
+  author_id: z.number(),
+  parent_id: z.number().nullable().optional(),
+  body: z.string().trim().min(1).max(10000),
+  visibility: noteVisibilitySchema.default('internal')
+});
+
+export type CreateCaseNoteInput = z.infer<typeof createCaseNoteInputSchema>;
+
+// Input schema for editing a case note
+export const updateCaseNoteInputSchema = z.object({
+  id: z.number(),
+  body: z.string().trim().min(1).max(10000).optional(),
+  visibility: noteVisibilitySchema.optional()
+});
+
+export type UpdateCaseNoteInput = z.infer<typeof updateCaseNoteInputSchema>;
+
+// Evidence types accepted as attachments
+export const attachmentMimeTypeSchema = z.enum([
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'application/json',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/zip'
+]);
+
+// Input schema for uploading an attachment; content travels base64 encoded
+export const uploadAttachmentInputSchema = z.object({
+  case_id: z.number(),
+  uploaded_by: z.number(),
+  filename: z.string().trim().min(1).max(255),
+  mime_type: attachmentMimeTypeSchema,
+  content_base64: z.string().min(1).base64()
+});
+
+export type UploadAttachmentInput = z.infer<typeof uploadAttachmentInputSchema>;
+
+// Input schema for replacing the content of an attachment
+export const replaceAttachmentInputSchema = uploadAttachmentInputSchema
+  .omit({ case_id: true, uploaded_by: true })
+  .extend({ attachment_id: z.number() });
+
+export type ReplaceAttachmentInput = z.infer<typeof replaceAttachmentInputSchema>;
+
 // Query filters for cases
 export const caseFiltersSchema = z.object({
-  status: caseStatusSchema.optional(),
+  status: z.union([caseStatusSchema, z.array(caseStatusSchema).min(1)]).optional(), // A list matches any of its statuses
   priority: casePrioritySchema.optional(),
-  assigned_to: z.number().optional(),
+  min_priority: casePrioritySchema.optional(), // This priority or higher
+  disposition: caseDispositionSchema.optional(),
+  assigned_to: z.number().nullable().optional(), // null matches unassigned cases
+  assigned_to_me: z.boolean().optional(), // Resolved per user, so shared views stay personal
   created_by: z.number().optional(),
-  txid: z.string().optional()
+  txid: z.string().optional(), // Matches any transaction of the case
+  // Inclusive date ranges; coerced so filters can also arrive as JSON
+  created_from: z.coerce.date().optional(),
+  created_to: z.coerce.date().optional(),
+  updated_from: z.coerce.date().optional(),
+  updated_to: z.coerce.date().optional(),
+  min_age_hours: z.number().positive().optional(), // Created at least this many hours ago
+  min_escalations: z.number().int().min(1).optional(), // Escalated at least this many times
+  sla_breached: z.boolean().optional() // true matches cases that missed an SLA target, false those that have not
 });
 
 export type CaseFilters = z.infer<typeof caseFiltersSchema>;
 
+// Sortable case columns; priority and status sort by their declared order (low..critical, open..closed)
+export const caseSortFieldSchema = z.enum(['created_at', 'updated_at', 'priority', 'status']);
+export type CaseSortField = z.infer<typeof caseSortFieldSchema>;
+
+export const caseSortSchema = z.object({
+  field: caseSortFieldSchema,
+  direction: z.enum(['asc', 'desc'])
+});
+
+export type CaseSort = z.infer<typeof caseSortSchema>;
+
+// Paging options for case lists; the cursor is the opaque next_cursor of the previous page
+export const caseListOptionsSchema = z.object({
+  sort: z.array(caseSortSchema)
+    .min(1)
+    .max(4)
+    .refine(sort => new Set(sort.map(s => s.field)).size === sort.length, 'Each column can only be sorted once')
+    .optional(),
+  cursor: z.string().optional(),
+  limit: z.number().int().min(1).max(200).optional(),
+  include_total: z.boolean().optional()
+});
+
+export type CaseListOptions = z.infer<typeof caseListOptionsSchema>;
+
+// One page of cases; total is only counted when include_total is requested
+export const casePageSchema = z.object({
+  cases: z.array(fraudCaseSchema),
+  next_cursor: z.string().nullable(),
+  total: z.number().int().nullable()
+});
+
+export type CasePage = z.infer<typeof casePageSchema>;
+
+// Free-text case search; words match descriptions and notes by prefix, and the query also
+// matches transaction ID prefixes and assignee or creator usernames
+export const searchCasesInputSchema = z.object({
+  query: z.string().trim().min(1).max(200),
+  filters: caseFiltersSchema.optional(),
+  limit: z.number().int().min(1).max(100).optional()
+});
+
+export type SearchCasesInput = z.infer<typeof searchCasesInputSchema>;
+
+export const searchMatchFieldSchema = z.enum(['description', 'txid', 'note', 'assignee', 'creator']);
+export type SearchMatchField = z.infer<typeof searchMatchFieldSchema>;
+
+// Piece of a snippet, highlighted where it matched the query
+export const highlightSegmentSchema = z.object({
+  text: z.string(),
+  highlighted: z.boolean()
+});
+
+export type HighlightSegment = z.infer<typeof highlightSegmentSchema>;
+
+export const caseSearchResultSchema = z.object({
+  case: fraudCaseSchema,
+  rank: z.number(),
+  matched_fields: z.array(searchMatchFieldSchema),
+  snippet: z.array(highlightSegmentSchema).nullable() // From the description, or else the best matching note
+});
+
+export type CaseSearchResult = z.infer<typeof caseSearchResultSchema>;
+
+// Optional parts of a case card in the case list
+export const caseListColumnSchema = z.enum(['txid', 'priority', 'disposition', 'sla', 'created_at', 'created_by', 'assigned_to', 'description']);
+export type CaseListColumn = z.infer<typeof caseListColumnSchema>;
+
+// Named case list setup; sort is null for the default order
+export const savedViewSchema = z.object({
+  id: z.number(),
+  owner_id: z.number(),
+  name: z.string(),
+  filters: caseFiltersSchema,
+  sort: z.array(caseSortSchema).nullable(),
+  columns: z.array(caseListColumnSchema),
+  shared: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type SavedView = z.infer<typeof savedViewSchema>;
+
+// Own and shared views, with the one the user starts from
+export const savedViewListSchema = z.object({
+  views: z.array(savedViewSchema),
+  default_view_id: z.number().nullable()
+});
+
+export type SavedViewList = z.infer<typeof savedViewListSchema>;
+
+export const createSavedViewInputSchema = z.object({
+  owner_id: z.number(),
+  name: z.string().trim().min(1).max(100),
+  filters: caseFiltersSchema,
+  sort: caseListOptionsSchema.shape.sort.unwrap().nullable().optional(),
+  columns: z.array(caseListColumnSchema).min(1).optional(), // Defaults to every column
+  shared: z.boolean().optional()
+});
+
+export type CreateSavedViewInput = z.infer<typeof createSavedViewInputSchema>;
+
+export const updateSavedViewInputSchema = createSavedViewInputSchema
+  .omit({ owner_id: true })
+  .partial()
+  .extend({ id: z.number() });
+
+export type UpdateSavedViewInput = z.infer<typeof updateSavedViewInputSchema>;
+
+// SLA targets tracked on every case
+export const slaTargetSchema = z.enum(['assignment', 'first_action', 'resolution']);
+export type SlaTarget = z.infer<typeof slaTargetSchema>;
+
+// Time allowed per target, counted from case creation; null sets no target
+export const slaPolicySchema = z.object({
+  priority: casePrioritySchema,
+  assignment_minutes: z.number().int().positive().nullable(),
+  first_action_minutes: z.number().int().positive().nullable(),
+  resolution_minutes: z.number().int().positive().nullable(),
+  updated_by: z.number().nullable(), // null while the built-in default applies
+  updated_at: z.coerce.date().nullable()
+});
+
+export type SlaPolicy = z.infer<typeof slaPolicySchema>;
+
+export const updateSlaPolicyInputSchema = slaPolicySchema
+  .omit({ updated_at: true })
+  .extend({ updated_by: z.number() });
+
+export type UpdateSlaPolicyInput = z.infer<typeof updateSlaPolicyInputSchema>;
+
+// How auto-assignment picks the assignee of a case
+export const autoAssignmentStrategySchema = z.enum(['round_robin', 'least_loaded', 'skill_based']);
+export type AutoAssignmentStrategy = z.infer<typeof autoAssignmentStrategySchema>;
+
+export const autoAssignmentRuleSchema = z.object({
+  priority: casePrioritySchema,
+  strategy: autoAssignmentStrategySchema,
+  auto_on_create: z.boolean(), // Assign new cases of the priority as soon as they are created
+  last_assigned_to: z.number().nullable(), // The round-robin rotation continues after this user
+  updated_by: z.number().nullable(), // null while the built-in default applies
+  updated_at: z.coerce.date().nullable()
+});
+
+export type AutoAssignmentRule = z.infer<typeof autoAssignmentRuleSchema>;
+
+export const updateAutoAssignmentRuleInputSchema = autoAssignmentRuleSchema
+  .pick({ priority: true, strategy: true, auto_on_create: true })
+  .extend({ updated_by: z.number() });
+
+export type UpdateAutoAssignmentRuleInput = z.infer<typeof updateAutoAssignmentRuleInputSchema>;
+
+// The assignee auto-assignment picked and why; recorded on the assignment in the case history
+export const autoAssignmentDecisionSchema = z.object({
+  strategy: autoAssignmentStrategySchema,
+  assigned_to: z.number(),
+  reason: z.string()
+});
+
+export type AutoAssignmentDecision = z.infer<typeof autoAssignmentDecisionSchema>;
+
+// In-app notification, addressed to a single user
+export const notificationTypeSchema = z.enum(['assigned', 'escalated', 'closed', 'mentioned']);
+export type NotificationType = z.infer<typeof notificationTypeSchema>;
+
+export const notificationSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  type: notificationTypeSchema,
+  case_id: z.number(),
+  actor_id: z.number().nullable(), // null for system actions
+  message: z.string(),
+  read_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type Notification = z.infer<typeof notificationSchema>;
+
+export const getNotificationsInputSchema = z.object({
+  unread_only: z.boolean().optional(),
+  limit: z.number().int().min(1).max(100).optional()
+});
+
+export type GetNotificationsInput = z.infer<typeof getNotificationsInputSchema>;
+
+// Email delivery of notifications: off, one email per notification, or a daily digest
+export const emailModeSchema = z.enum(['off', 'immediate', 'digest']);
+export type EmailMode = z.infer<typeof emailModeSchema>;
+
+export const notificationPreferencesSchema = z.object({
+  user_id: z.number(),
+  email_mode: emailModeSchema,
+  email_types: z.array(notificationTypeSchema), // Notification types that are emailed
+  min_priority: casePrioritySchema, // Cases below this priority are not emailed
+  updated_at: z.coerce.date().nullable() // null while the defaults apply
+});
+
+export type NotificationPreferences = z.infer<typeof notificationPreferencesSchema>;
+
+export const updateNotificationPreferencesInputSchema = notificationPreferencesSchema
+  .omit({ updated_at: true })
+  .partial()
+  .required({ user_id: true });
+
+export type UpdateNotificationPreferencesInput = z.infer<typeof updateNotificationPreferencesInputSchema>;
+
+// Case lifecycle events that can be sent to webhooks
+export const webhookEventSchema = z.enum(['case.created', 'case.assigned', 'case.escalated', 'case.closed']);
+export type WebhookEvent = z.infer<typeof webhookEventSchema>;
+
+// JSON body sent to webhook endpoints; the id stays the same across deliveries of one event
+export const webhookPayloadSchema = z.object({
+  id: z.string(),
+  event: webhookEventSchema,
+  occurred_at: z.coerce.date(),
+  data: z.object({
+    case: fraudCaseSchema,
+    escalation: caseEscalationSchema.nullable()
+  })
+});
+
+export type WebhookPayload = z.infer<typeof webhookPayloadSchema>;
+
+export const webhookSubscriptionSchema = z.object({
+  id: z.number(),
+  url: z.string(),
+  secret: z.string(),
+  events: z.array(webhookEventSchema),
+  active: z.boolean(),
+  created_by: z.number(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type WebhookSubscription = z.infer<typeof webhookSubscriptionSchema>;
+
+export const createWebhookSubscriptionInputSchema = z.object({
+  url: z.string().url().refine(url => /^https?:\/\//i.test(url), 'Webhook URLs must use http or https'),
+  secret: z.string().min(16).optional(), // Generated when omitted
+  events: z.array(webhookEventSchema).min(1),
+  active: z.boolean().optional(),
+  created_by: z.number()
+});
+
+export type CreateWebhookSubscriptionInput = z.infer<typeof createWebhookSubscriptionInputSchema>;
+
+export const updateWebhookSubscriptionInputSchema = createWebhookSubscriptionInputSchema
+  .omit({ created_by: true })
+  .partial()
+  .extend({ id: z.number() });
+
+export type UpdateWebhookSubscriptionInput = z.infer<typeof updateWebhookSubscriptionInputSchema>;
+
+export const webhookDeliveryStatusSchema = z.enum(['pending', 'succeeded', 'failed']);
+export type WebhookDeliveryStatus = z.infer<typeof webhookDeliveryStatusSchema>;
+
+export const webhookDeliverySchema = z.object({
+  id: z.number(),
+  subscription_id: z.number(),
+  event: webhookEventSchema,
+  event_id: z.string(),
+  payload: z.string(),
+  status: webhookDeliveryStatusSchema,
+  attempts: z.number().int(),
+  next_attempt_at: z.coerce.date(),
+  response_status: z.number().int().nullable(),
+  last_error: z.string().nullable(),
+  delivered_at: z.coerce.date().nullable(),
+  redelivery_of: z.number().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type WebhookDelivery = z.infer<typeof webhookDeliverySchema>;
+
+export const getWebhookDeliveriesInputSchema = z.object({
+  subscription_id: z.number().optional(),
+  status: webhookDeliveryStatusSchema.optional(),
+  limit: z.number().int().min(1).max(200).optional()
+});
+
+export type GetWebhookDeliveriesInput = z.infer<typeof getWebhookDeliveriesInputSchema>;
+
+// Case list export formats; excel_csv adds a byte order mark and neutralises formula-like cells
+export const caseExportFormatSchema = z.enum(['csv', 'excel_csv']);
+export type CaseExportFormat = z.infer<typeof caseExportFormatSchema>;
+
+// PDF case packet for handing a case to law enforcement
+export const casePacketSchema = z.object({
+  filename: z.string(),
+  mime_type: z.literal('application/pdf'),
+  content_base64: z.string()
+});
+
+export type CasePacket = z.infer<typeof casePacketSchema>;
+
+// Permission actions and resources used by the authorization policy
+export const permissionActionSchema = z.enum(['create', 'read', 'update', 'delete', 'escalate', 'assign']);
+export type PermissionAction = z.infer<typeof permissionActionSchema>;
+
+export const permissionResourceSchema = z.enum(['case', 'user', 'escalation', 'note', 'attachment', 'custody', 'view', 'sla', 'assignment', 'notification', 'webhook']);
+export type PermissionResource = z.infer<typeof permissionResourceSchema>;
+
 // Permission check schema
 export const permissionCheckSchema = z.object({
   user_id: z.number(),
-  action: z.enum(['create', 'read', 'update', 'delete', 'escalate', 'assign']),
-  resource: z.enum(['case', 'user', 'escalation'])
+  action: permissionActionSchema,
+  resource: permissionResourceSchema
 });
 
-export type PermissionCheck = z.infer<typeof permissionCheckSchema>;
\ No newline at end of file
+export type PermissionCheck = z.infer<typeof permissionCheckSchema>;
+
+// Actions granted per resource for a role
+export type RolePermissions = Record<PermissionResource, PermissionAction[]>;
\ No newline at end of file
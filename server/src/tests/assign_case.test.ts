@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
-import { resetDB, createDB } from '../helpers';
+import { resetDB, createDB, failInsertsInto } from '../helpers';
 import { db } from '../db';
-import { fraudCasesTable, usersTable } from '../db/schema';
+import { caseEventsTable, fraudCasesTable, notificationsTable, usersTable } from '../db/schema';
 import { assignCase } from '../handlers/assign_case';
 import { eq } from 'drizzle-orm';
 
@@ -60,6 +60,21 @@ describe('assignCase', () => {
     fraudCase = cases[0];
   });
 
+  it('should notify the assignee', async () => {
+    await assignCase(fraudCase.id, investigatorUser.id, adminUser.id);
+
+    const notifications = await db.select().from(notificationsTable).execute();
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0]).toMatchObject({
+      user_id: investigatorUser.id,
+      type: 'assigned',
+      case_id: fraudCase.id,
+      actor_id: adminUser.id,
+      message: 'Case TEST-TX-12345 was assigned to you',
+      read_at: null
+    });
+  });
+
   it('should assign case to investigator when assigned by admin', async () => {
     const result = await assignCase(fraudCase.id, investigatorUser.id, adminUser.id);
 
@@ -94,13 +109,6 @@ describe('assignCase', () => {
     expect(dbCase[0].status).toEqual('in_progress');
   });
 
-  it('should allow analyst to assign cases', async () => {
-    const result = await assignCase(fraudCase.id, investigatorUser.id, analystUser.id);
-
-    expect(result.assigned_to).toEqual(investigatorUser.id);
-    expect(result.status).toEqual('in_progress');
-  });
-
   it('should throw error when case does not exist', async () => {
     await expect(assignCase(99999, investigatorUser.id, adminUser.id))
       .rejects.toThrow(/case not found/i);
@@ -121,11 +129,6 @@ describe('assignCase', () => {
       .rejects.toThrow(/assignee must have investigator or analyst role/i);
   });
 
-  it('should throw error when assigner has viewer role', async () => {
-    await expect(assignCase(fraudCase.id, investigatorUser.id, viewerUser.id))
-      .rejects.toThrow(/assigner must have admin, investigator, or analyst role/i);
-  });
-
   it('should update existing assignment', async () => {
     // First assignment
     await assignCase(fraudCase.id, investigatorUser.id, adminUser.id);
@@ -155,4 +158,40 @@ describe('assignCase', () => {
     expect(result.created_by).toEqual(fraudCase.created_by);
     expect(result.created_at).toEqual(fraudCase.created_at);
   });
-});
\ No newline at end of file
+
+  it('should not reopen a closed case through assignment', async () => {
+    await db.update(fraudCasesTable)
+      .set({ status: 'closed' })
+      .where(eq(fraudCasesTable.id, fraudCase.id))
+      .execute();
+
+    await expect(assignCase(fraudCase.id, investigatorUser.id, adminUser.id))
+      .rejects.toThrow(/note is required/i);
+  });
+
+  it('should bump the case version and reject a stale expected version', async () => {
+    const result = await assignCase(fraudCase.id, investigatorUser.id, adminUser.id, fraudCase.version);
+    expect(result.version).toEqual(fraudCase.version + 1);
+
+    // Still working from the version before the assignment
+    const stale = assignCase(fraudCase.id, analystUser.id, adminUser.id, fraudCase.version);
+    await expect(stale).rejects.toMatchObject({ code: 'CONFLICT' });
+
+    const [stored] = await db.select().from(fraudCasesTable).where(eq(fraudCasesTable.id, fraudCase.id)).execute();
+    expect(stored.assigned_to).toEqual(investigatorUser.id);
+    expect(stored.version).toEqual(result.version);
+  });
+
+  it('should not assign the case when notifying the assignee fails', async () => {
+    await failInsertsInto(notificationsTable);
+
+    await expect(assignCase(fraudCase.id, investigatorUser.id, adminUser.id))
+      .rejects.toThrow('Injected failure writing to notifications');
+
+    const [stored] = await db.select().from(fraudCasesTable).where(eq(fraudCasesTable.id, fraudCase.id)).execute();
+    expect(stored.assigned_to).toBeNull();
+    expect(stored.status).toEqual('open');
+    expect(stored.version).toEqual(fraudCase.version);
+    expect(await db.select().from(caseEventsTable).execute()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { TRPCError } from '@trpc/server';
+import { resetDB, createDB } from '../helpers';
+import { appRouter } from '../router';
+import { createCallerFactory, type Context, type Meta } from '../trpc';
+import { hasPermission } from '../handlers/check_permissions';
+import { type User, type UserRole } from '../schema';
+
+// Procedures intentionally reachable without a permission declaration
+const PUBLIC_PROCEDURES = ['healthcheck', 'login'];
+const SESSION_ONLY_PROCEDURES = ['logout', 'getCurrentUser', 'getMyPermissions', 'changePassword'];
+
+const ROLES: UserRole[] = ['admin', 'investigator', 'analyst', 'viewer'];
+
+const createCaller = createCallerFactory(appRouter);
+
+const procedures = Object.entries(appRouter._def.procedures).map(([name, procedure]) => ({
+  name,
+  meta: (procedure as { _def: { meta?: Meta } })._def.meta
+}));
+
+const contextFor = (role: UserRole | null): Context => {
+  if (!role) {
+    return { user: null, token: null };
+  }
+
+  const user: User = {
+    id: 999999,
+    username: `${role}_caller`,
+    email: `${role}@example.com`,
+    role,
+    skills: [],
+    created_at: new Date(),
+    updated_at: new Date()
+  };
+  return { user, token: 'test-session-token' };
+};
+
+// Invoke a procedure by name with no input and capture the resulting TRPC error code
+const callProcedure = async (role: UserRole | null, name: string): Promise<string | null> => {
+  const caller = createCaller(contextFor(role)) as unknown as Record<string, (input?: unknown) => Promise<unknown>>;
+  try {
+    await caller[name](undefined);
+    return null;
+  } catch (error) {
+    return error instanceof TRPCError ? error.code : 'UNKNOWN';
+  }
+};
+
+describe('router authorization coverage', () => {
+  it('should declare a permission for every non-public, non-session procedure', () => {
+    const undeclared = procedures
+      .filter(({ name }) => !PUBLIC_PROCEDURES.includes(name) && !SESSION_ONLY_PROCEDURES.includes(name))
+      .filter(({ meta }) => !meta?.permission)
+      .map(({ name }) => name);
+
+    expect(undeclared).toEqual([]);
+  });
+
+  it('should not leave stale entries in the explicit allowlists', () => {
+    const names = procedures.map(({ name }) => name);
+
+    for (const name of [...PUBLIC_PROCEDURES, ...SESSION_ONLY_PROCEDURES]) {
+      expect(names).toContain(name);
+    }
+  });
+
+  it('should reject unauthenticated callers on every non-public procedure', async () => {
+    for (const { name } of procedures.filter(({ name }) => !PUBLIC_PROCEDURES.includes(name))) {
+      expect({ name, code: await callProcedure(null, name) }).toEqual({ name, code: 'UNAUTHORIZED' });
+    }
+  });
+
+  it('should return FORBIDDEN for every role lacking the declared permission', async () => {
+    for (const { name, meta } of procedures.filter(({ meta }) => meta?.permission)) {
+      const { resource, action } = meta!.permission!;
+
+      for (const role of ROLES.filter(role => !hasPermission(role, resource, action))) {
+        expect({ name, role, code: await callProcedure(role, name) }).toEqual({ name, role, code: 'FORBIDDEN' });
+      }
+    }
+  });
+
+  it('should forbid analysts from assigning cases', async () => {
+    expect(await callProcedure('analyst', 'assignCase')).toEqual('FORBIDDEN');
+  });
+
+  it('should forbid non-admins from creating users', async () => {
+    for (const role of ['investigator', 'analyst', 'viewer'] as const) {
+      expect(await callProcedure(role, 'createUser')).toEqual('FORBIDDEN');
+    }
+  });
+});
+
+describe('router authorization - permitted roles', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should let roles holding the declared permission past the middleware', async () => {
+    for (const { name, meta } of procedures.filter(({ meta }) => meta?.permission)) {
+      const { resource, action } = meta!.permission!;
+
+      for (const role of ROLES.filter(role => hasPermission(role, resource, action))) {
+        const code = await callProcedure(role, name);
+        expect({ name, role, forbidden: code === 'FORBIDDEN' || code === 'UNAUTHORIZED' })
+          .toEqual({ name, role, forbidden: false });
+      }
+    }
+  });
+});
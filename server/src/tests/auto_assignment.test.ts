@@ -0,0 +1,223 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { autoAssignmentRulesTable, caseEventsTable, fraudCasesTable, notificationsTable, transactionsTable, usersTable } from '../db/schema';
+import { type CasePriority, type FraudCase } from '../schema';
+import { autoAssignCase, chooseAssignee, type AssignmentCandidate } from '../handlers/auto_assignment';
+import { updateAutoAssignmentRule } from '../handlers/update_auto_assignment_rule';
+import { createFraudCase } from '../handlers/create_fraud_case';
+import { asc, eq } from 'drizzle-orm';
+
+const candidate = (id: number, workload: number, skills: AssignmentCandidate['user']['skills'] = []): AssignmentCandidate =>
+  ({ user: { id, username: `user_${id}`, skills }, workload });
+
+describe('chooseAssignee', () => {
+  const candidates = [candidate(1, 3, ['wire']), candidate(2, 1), candidate(3, 1, ['wire', 'ach']), candidate(4, 0, ['atm'])];
+
+  it('should pick the lightest workload, the first user on a tie', () => {
+    expect(chooseAssignee('least_loaded', candidates, [], null)).toEqual({
+      strategy: 'least_loaded',
+      assigned_to: 4,
+      reason: 'user_4 has the lightest workload with 0 open cases'
+    });
+    expect(chooseAssignee('least_loaded', candidates.slice(0, 3), [], null).assigned_to).toEqual(2);
+  });
+
+  it('should rotate round-robin after the last pick and wrap around', () => {
+    expect(chooseAssignee('round_robin', candidates, [], null)).toMatchObject({
+      assigned_to: 1,
+      reason: 'user_1 is first in the round-robin rotation'
+    });
+    expect(chooseAssignee('round_robin', candidates, [], 2)).toMatchObject({
+      assigned_to: 3,
+      reason: 'user_3 is next in the round-robin rotation after user_2'
+    });
+    expect(chooseAssignee('round_robin', candidates, [], 4).assigned_to).toEqual(1);
+  });
+
+  it('should prefer the users covering most of the case channels', () => {
+    expect(chooseAssignee('skill_based', candidates, ['wire', 'ach'], null)).toEqual({
+      strategy: 'skill_based',
+      assigned_to: 3,
+      reason: 'user_3 covers wire, ach and has the lightest workload of the 1 matching user with 1 open case'
+    });
+    expect(chooseAssignee('skill_based', candidates, ['wire', 'mobile'], null)).toMatchObject({
+      assigned_to: 3,
+      reason: 'user_3 covers wire of wire, mobile and has the lightest workload of the 2 matching users with 1 open case'
+    });
+  });
+
+  it('should fall back to the lightest workload when no skills match', () => {
+    expect(chooseAssignee('skill_based', candidates, ['mobile'], null)).toMatchObject({
+      assigned_to: 4,
+      reason: 'Nobody has skills for mobile; user_4 has the lightest workload with 0 open cases'
+    });
+    expect(chooseAssignee('skill_based', candidates, [], null).reason)
+      .toStartWith('The case has no transaction channels to match');
+  });
+
+  it('should fail without candidates', () => {
+    expect(() => chooseAssignee('least_loaded', [], [], null)).toThrow('No investigators or analysts to assign the case to');
+  });
+});
+
+describe('autoAssignCase', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let admin: any;
+  let investigator: any;
+  let analyst: any;
+
+  beforeEach(async () => {
+    [admin, investigator, analyst] = await db.insert(usersTable)
+      .values([
+        { username: 'admin_user', email: 'admin@test.com', role: 'admin' },
+        { username: 'investigator_user', email: 'investigator@test.com', role: 'investigator', skills: ['wire'] },
+        { username: 'analyst_user', email: 'analyst@test.com', role: 'analyst', skills: ['card_not_present'] }
+      ])
+      .returning()
+      .execute();
+  });
+
+  const createCase = async (txid: string, priority: CasePriority, assignedTo: number | null = null): Promise<FraudCase> => {
+    const [fraudCase] = await db.insert(fraudCasesTable)
+      .values({ txid, description: 'Suspicious transfer', priority, assigned_to: assignedTo, created_by: admin.id })
+      .returning()
+      .execute();
+    return fraudCase;
+  };
+
+  const assignedEvents = () => db.select()
+    .from(caseEventsTable)
+    .where(eq(caseEventsTable.event_type, 'assigned'))
+    .orderBy(asc(caseEventsTable.id))
+    .execute();
+
+  it('should assign to the least loaded user and record the reasoning', async () => {
+    await createCase('TX-BUSY', 'low', investigator.id);
+    const fraudCase = await createCase('TX-AUTO', 'medium');
+
+    const result = await autoAssignCase(fraudCase.id, admin.id, fraudCase.version);
+
+    expect(result.case).toMatchObject({ assigned_to: analyst.id, status: 'in_progress', version: fraudCase.version + 1 });
+    expect(result.decision).toEqual({
+      strategy: 'least_loaded',
+      assigned_to: analyst.id,
+      reason: 'analyst_user has the lightest workload with 0 open cases'
+    });
+
+    const [event] = await assignedEvents();
+    expect(event.actor_id).toEqual(admin.id);
+    expect(event.metadata).toEqual({ strategy: 'least_loaded', reason: result.decision.reason });
+    expect(event.changes['assigned_to']).toEqual({ from: null, to: analyst.id });
+  });
+
+  it('should continue the round-robin rotation across cases', async () => {
+    const cases = await Promise.all(['TX-RR-1', 'TX-RR-2', 'TX-RR-3'].map(txid => createCase(txid, 'low')));
+
+    const assignees = [];
+    for (const fraudCase of cases) {
+      assignees.push((await autoAssignCase(fraudCase.id, admin.id)).case.assigned_to);
+    }
+
+    expect(assignees).toEqual([investigator.id, analyst.id, investigator.id]);
+
+    const [rule] = await db.select().from(autoAssignmentRulesTable).execute();
+    expect(rule).toMatchObject({ priority: 'low', strategy: 'round_robin', last_assigned_to: investigator.id, updated_by: null });
+  });
+
+  it('should give concurrent round-robin picks separate turns', async () => {
+    const cases = await Promise.all(['TX-RR-1', 'TX-RR-2'].map(txid => createCase(txid, 'low')));
+
+    const results = await Promise.all(cases.map(fraudCase => autoAssignCase(fraudCase.id, admin.id)));
+
+    expect(results.map(result => result.case.assigned_to).sort()).toEqual([investigator.id, analyst.id].sort());
+  });
+
+  it('should match the case channels against user skills', async () => {
+    const fraudCase = await createCase('TX-CNP', 'high');
+    await db.insert(transactionsTable)
+      .values([
+        { txid: 'TX-CNP', case_id: fraudCase.id, channel: 'card_not_present' },
+        { txid: 'TX-CNP-2', case_id: fraudCase.id, channel: null }
+      ])
+      .execute();
+
+    const result = await autoAssignCase(fraudCase.id, admin.id);
+
+    expect(result.case.assigned_to).toEqual(analyst.id);
+    expect(result.decision.strategy).toEqual('skill_based');
+    expect(result.decision.reason).toContain('covers card_not_present');
+  });
+
+  it('should follow the configured rule of the priority', async () => {
+    await updateAutoAssignmentRule({ priority: 'high', strategy: 'round_robin', auto_on_create: false, updated_by: admin.id });
+    const fraudCase = await createCase('TX-RULE', 'high');
+
+    const result = await autoAssignCase(fraudCase.id, admin.id);
+
+    expect(result.decision.strategy).toEqual('round_robin');
+    expect(result.case.assigned_to).toEqual(investigator.id);
+  });
+
+  it('should reject assigned, changed and missing cases', async () => {
+    const assigned = await createCase('TX-TAKEN', 'medium', investigator.id);
+    const fraudCase = await createCase('TX-STALE', 'medium');
+    await db.update(fraudCasesTable)
+      .set({ description: 'Changed by a colleague', version: fraudCase.version + 1 })
+      .where(eq(fraudCasesTable.id, fraudCase.id))
+      .execute();
+
+    await expect(autoAssignCase(assigned.id, admin.id)).rejects.toThrow('Case is already assigned');
+    await expect(autoAssignCase(fraudCase.id, admin.id, fraudCase.version)).rejects.toThrow('was changed by someone else');
+    await expect(autoAssignCase(9999, admin.id)).rejects.toThrow('Case not found');
+
+    expect(await assignedEvents()).toHaveLength(0);
+  });
+
+  it('should assign new cases on creation when the rule says so', async () => {
+    await updateAutoAssignmentRule({ priority: 'critical', strategy: 'least_loaded', auto_on_create: true, updated_by: admin.id });
+
+    const critical = await createFraudCase({
+      transactions: [{ txid: 'TX-NEW-CRITICAL' }],
+      description: 'Account takeover in progress',
+      priority: 'critical',
+      created_by: admin.id
+    });
+    const medium = await createFraudCase({
+      transactions: [{ txid: 'TX-NEW-MEDIUM' }],
+      description: 'Small recurring charges',
+      priority: 'medium',
+      created_by: admin.id
+    });
+
+    expect(critical).toMatchObject({ assigned_to: investigator.id, status: 'in_progress' });
+    expect(medium.assigned_to).toBeNull();
+
+    // Nobody assigned the case by hand
+    const [event] = await assignedEvents();
+    expect(event).toMatchObject({ case_id: critical.id, actor_id: null });
+    expect(event.metadata?.['strategy']).toEqual('least_loaded');
+
+    const notifications = await db.select().from(notificationsTable).execute();
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0]).toMatchObject({ user_id: investigator.id, actor_id: null });
+  });
+
+  it('should still create the case when auto-assignment fails', async () => {
+    await updateAutoAssignmentRule({ priority: 'medium', strategy: 'least_loaded', auto_on_create: true, updated_by: admin.id });
+    await db.delete(usersTable).where(eq(usersTable.role, 'analyst')).execute();
+    await db.delete(usersTable).where(eq(usersTable.role, 'investigator')).execute();
+
+    const fraudCase = await createFraudCase({
+      transactions: [{ txid: 'TX-NOBODY' }],
+      description: 'Nobody to pick this up',
+      priority: 'medium',
+      created_by: admin.id
+    });
+
+    expect(fraudCase).toMatchObject({ assigned_to: null, status: 'open' });
+    expect(await db.select().from(fraudCasesTable).execute()).toHaveLength(1);
+  });
+});
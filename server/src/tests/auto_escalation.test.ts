@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { caseEscalationsTable, caseEventsTable, caseNotesTable, fraudCasesTable, usersTable } from '../db/schema';
+import {
+  AUTO_ESCALATION_RULES,
+  runAutoEscalation,
+  type AutoEscalationOutcome,
+  type AutoEscalationRule
+} from '../handlers/auto_escalation';
+import { startAutoEscalationScheduler } from '../auto_escalation_scheduler';
+import { eq } from 'drizzle-orm';
+
+const HOUR = 60 * 60_000;
+const DAY = 24 * HOUR;
+
+describe('runAutoEscalation', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let admin: any;
+  let onCall: any;
+  let analyst: any;
+  let start: Date;
+
+  beforeEach(async () => {
+    [admin, onCall, analyst] = await db.insert(usersTable)
+      .values([
+        { username: 'admin_user', email: 'admin@test.com', role: 'admin' },
+        { username: 'oncall_investigator', email: 'oncall@test.com', role: 'investigator' },
+        { username: 'analyst_user', email: 'analyst@test.com', role: 'analyst' }
+      ])
+      .returning()
+      .execute();
+    start = new Date();
+  });
+
+  const later = (ms: number) => new Date(start.getTime() + ms);
+
+  const insertCase = async (values: Partial<typeof fraudCasesTable.$inferInsert>) => {
+    const [fraudCase] = await db.insert(fraudCasesTable)
+      .values({ txid: `TX-AUTO-${Math.random()}`, description: 'Auto escalation case', created_by: admin.id, ...values })
+      .returning()
+      .execute();
+    return fraudCase;
+  };
+
+  const escalationsOf = (caseId: number) => db.select()
+    .from(caseEscalationsTable)
+    .where(eq(caseEscalationsTable.case_id, caseId))
+    .execute();
+
+  it('should escalate critical cases left unassigned to the on-call user as the system', async () => {
+    const fraudCase = await insertCase({ priority: 'critical', created_at: start });
+
+    expect(await runAutoEscalation(later(HOUR / 2), { onCallUsername: 'oncall_investigator' })).toEqual([]);
+
+    const outcomes = await runAutoEscalation(later(HOUR + 1), { onCallUsername: 'oncall_investigator' });
+    expect(outcomes).toHaveLength(1);
+    expect(outcomes[0]).toMatchObject({ case_id: fraudCase.id, rule: 'critical_unassigned', error: null });
+
+    const [escalation] = await escalationsOf(fraudCase.id);
+    expect(escalation.escalated_by).toBeNull();
+    expect(escalation.escalated_to).toEqual(onCall.id);
+    expect(escalation.rule).toEqual('critical_unassigned');
+    expect(escalation.new_status).toEqual('escalated');
+    expect(escalation.new_priority).toEqual('critical');
+
+    const [updated] = await db.select().from(fraudCasesTable).where(eq(fraudCasesTable.id, fraudCase.id)).execute();
+    expect(updated.status).toEqual('escalated');
+    expect(updated.assigned_to).toEqual(onCall.id);
+
+    const events = await db.select().from(caseEventsTable).where(eq(caseEventsTable.case_id, fraudCase.id)).execute();
+    expect(events[0].actor_id).toBeNull();
+    expect(events[0].metadata).toMatchObject({ rule: 'critical_unassigned' });
+  });
+
+  it('should escalate a case only once per rule', async () => {
+    const fraudCase = await insertCase({ priority: 'critical', created_at: start });
+
+    await runAutoEscalation(later(2 * HOUR));
+    expect(await runAutoEscalation(later(3 * HOUR))).toEqual([]);
+    expect(await escalationsOf(fraudCase.id)).toHaveLength(1);
+  });
+
+  it('should escalate without reassigning when no on-call user is set', async () => {
+    const fraudCase = await insertCase({ priority: 'critical', created_at: start });
+
+    await runAutoEscalation(later(2 * HOUR), { onCallUsername: 'nobody' });
+
+    const [escalation] = await escalationsOf(fraudCase.id);
+    expect(escalation.escalated_to).toBeNull();
+  });
+
+  it('should raise the priority of idle cases in progress', async () => {
+    const idle = await insertCase({ status: 'in_progress', priority: 'medium', assigned_to: analyst.id, created_at: start, updated_at: start });
+    const discussed = await insertCase({ status: 'in_progress', priority: 'medium', assigned_to: analyst.id, created_at: start, updated_at: start });
+    await db.insert(caseNotesTable)
+      .values({ case_id: discussed.id, author_id: analyst.id, body: 'Waiting on the bank', created_at: later(2 * DAY) })
+      .execute();
+
+    // Raising the priority moves the SLA deadlines, so keep the resolution rule out of the way
+    const rules = AUTO_ESCALATION_RULES.filter(rule => rule.key === 'stale_in_progress');
+    const outcomes = await runAutoEscalation(later(3 * DAY + HOUR), { rules });
+
+    expect(outcomes.map(outcome => outcome.case_id)).toEqual([idle.id]);
+    const [escalation] = await escalationsOf(idle.id);
+    expect(escalation.previous_priority).toEqual('medium');
+    expect(escalation.new_priority).toEqual('high');
+    expect(escalation.previous_status).toEqual('in_progress');
+    expect(escalation.new_status).toEqual('in_progress');
+
+    const [updated] = await db.select().from(fraudCasesTable).where(eq(fraudCasesTable.id, idle.id)).execute();
+    expect(updated.status).toEqual('in_progress');
+    expect(updated.priority).toEqual('high');
+  });
+
+  it('should escalate cases that missed their resolution SLA', async () => {
+    const fraudCase = await insertCase({ status: 'in_progress', priority: 'high', assigned_to: analyst.id, resolution_due_at: later(DAY) });
+
+    expect(await runAutoEscalation(later(DAY - HOUR))).toEqual([]);
+
+    const outcomes = await runAutoEscalation(later(DAY + HOUR));
+    expect(outcomes.map(outcome => outcome.rule)).toEqual(['resolution_sla_breached']);
+
+    const [updated] = await db.select().from(fraudCasesTable).where(eq(fraudCasesTable.id, fraudCase.id)).execute();
+    expect(updated.status).toEqual('escalated');
+    expect(updated.priority).toEqual('critical');
+  });
+
+  it('should carry on past cases that cannot be escalated', async () => {
+    const rules: AutoEscalationRule[] = [{
+      key: 'everything_open_or_resolved',
+      reason: 'Escalate every open or resolved case',
+      match: { statuses: ['resolved', 'open'] },
+      action: { status: 'escalated' }
+    }];
+    const resolved = await insertCase({ status: 'resolved', created_at: start });
+    const open = await insertCase({ status: 'open', created_at: later(1) });
+
+    const outcomes = await runAutoEscalation(later(HOUR), { rules });
+
+    expect(outcomes).toHaveLength(2);
+    expect(outcomes[0]).toMatchObject({ case_id: resolved.id, escalation_id: null });
+    expect(outcomes[0].error).toMatch(/cannot move case from resolved to escalated/i);
+    expect(outcomes[1]).toMatchObject({ case_id: open.id, error: null });
+  });
+
+  it('should run on a schedule with an injected clock', async () => {
+    const fraudCase = await insertCase({ priority: 'critical', created_at: start });
+
+    const firstRun = new Promise<AutoEscalationOutcome[]>(resolve => {
+      const stop = startAutoEscalationScheduler({
+        intervalMs: 10,
+        clock: () => later(2 * HOUR),
+        onRun: (outcomes) => {
+          stop();
+          resolve(outcomes);
+        }
+      });
+    });
+
+    const outcomes = await firstRun;
+    expect(outcomes.map(outcome => outcome.case_id)).toEqual([fraudCase.id]);
+  });
+});
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { verifyPassword } from '../helpers/auth';
+import { bootstrapAdmin } from '../handlers/bootstrap_admin';
+import { eq } from 'drizzle-orm';
+
+describe('bootstrapAdmin', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create an admin with a hashed password', async () => {
+    const result = await bootstrapAdmin('root_admin', 'root@test.com', 'initial-password');
+
+    expect(result.username).toEqual('root_admin');
+    expect(result.email).toEqual('root@test.com');
+    expect(result.role).toEqual('admin');
+    expect(result).not.toHaveProperty('password_hash');
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, result.id))
+      .execute();
+
+    expect(users[0].password_hash).not.toEqual('initial-password');
+    expect(await verifyPassword('initial-password', users[0].password_hash!)).toBe(true);
+  });
+
+  it('should set a password on an existing admin without one', async () => {
+    const existing = await db.insert(usersTable)
+      .values({
+        username: 'root_admin',
+        email: 'root@test.com',
+        role: 'admin'
+      })
+      .returning()
+      .execute();
+
+    const result = await bootstrapAdmin('root_admin', 'root@test.com', 'initial-password');
+
+    expect(result.id).toEqual(existing[0].id);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, result.id))
+      .execute();
+
+    expect(await verifyPassword('initial-password', users[0].password_hash!)).toBe(true);
+  });
+
+  it('should not overwrite an existing password', async () => {
+    await bootstrapAdmin('root_admin', 'root@test.com', 'initial-password');
+    await bootstrapAdmin('root_admin', 'root@test.com', 'another-password');
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.username, 'root_admin'))
+      .execute();
+
+    expect(users).toHaveLength(1);
+    expect(await verifyPassword('initial-password', users[0].password_hash!)).toBe(true);
+    expect(await verifyPassword('another-password', users[0].password_hash!)).toBe(false);
+  });
+
+  it('should refuse to promote a non-admin user', async () => {
+    await db.insert(usersTable)
+      .values({
+        username: 'root_admin',
+        email: 'root@test.com',
+        role: 'viewer'
+      })
+      .execute();
+
+    await expect(bootstrapAdmin('root_admin', 'root@test.com', 'initial-password'))
+      .rejects.toThrow(/not an admin/i);
+  });
+});
@@ -0,0 +1,174 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { caseEscalationsTable, caseEventsTable, fraudCasesTable, notificationsTable, usersTable } from '../db/schema';
+import { type FraudCase } from '../schema';
+import { bulkAssign, bulkEscalate, bulkUpdateStatus } from '../handlers/bulk_case_actions';
+import { asc, eq } from 'drizzle-orm';
+
+describe('bulk case actions', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let admin: any;
+  let investigator: any;
+  let analyst: any;
+  let cases: FraudCase[];
+
+  beforeEach(async () => {
+    [admin, investigator, analyst] = await db.insert(usersTable)
+      .values([
+        { username: 'admin_user', email: 'admin@test.com', role: 'admin' },
+        { username: 'investigator_user', email: 'investigator@test.com', role: 'investigator' },
+        { username: 'analyst_user', email: 'analyst@test.com', role: 'analyst' }
+      ])
+      .returning()
+      .execute();
+
+    cases = await db.insert(fraudCasesTable)
+      .values([
+        { txid: 'TX-BULK-1', description: 'Card used at three fuel stations', priority: 'low', created_by: admin.id },
+        { txid: 'TX-BULK-2', description: 'Unusual ATM withdrawals abroad', priority: 'medium', created_by: admin.id },
+        { txid: 'TX-BULK-3', description: 'Account takeover suspected', priority: 'high', created_by: admin.id }
+      ])
+      .returning()
+      .execute();
+  });
+
+  const targets = (fraudCases: FraudCase[]) => fraudCases.map(c => ({ id: c.id, expected_version: c.version }));
+
+  const events = () => db.select()
+    .from(caseEventsTable)
+    .orderBy(asc(caseEventsTable.id))
+    .execute();
+
+  it('should assign every case and record each assignment', async () => {
+    const result = await bulkAssign({ cases: targets(cases), assigned_to: investigator.id, assigned_by: admin.id });
+
+    expect(result.succeeded).toEqual(3);
+    expect(result.failed).toEqual(0);
+    expect(result.results.map(r => r.case?.assigned_to)).toEqual([investigator.id, investigator.id, investigator.id]);
+    expect(result.results.every(r => r.case?.status === 'in_progress')).toBe(true);
+
+    const recorded = await events();
+    expect(recorded.map(e => [e.case_id, e.event_type])).toEqual(cases.map(c => [c.id, 'assigned']));
+  });
+
+  it('should report the cases that fail and still change the others', async () => {
+    // Someone else changed the second case after it was listed
+    await db.update(fraudCasesTable)
+      .set({ description: 'Changed by a colleague', version: cases[1].version + 1 })
+      .where(eq(fraudCasesTable.id, cases[1].id))
+      .execute();
+
+    const result = await bulkAssign({
+      cases: [...targets(cases), { id: 9999, expected_version: 1 }],
+      assigned_to: analyst.id,
+      assigned_by: admin.id
+    });
+
+    expect(result.succeeded).toEqual(2);
+    expect(result.failed).toEqual(2);
+    expect(result.results[1]).toMatchObject({ case_id: cases[1].id, success: false, conflict: true, case: null });
+    expect(result.results[1].error).toContain('was changed by someone else');
+    expect(result.results[3]).toEqual({ case_id: 9999, success: false, error: 'Case not found', conflict: false, case: null });
+
+    const [unchanged] = await db.select().from(fraudCasesTable).where(eq(fraudCasesTable.id, cases[1].id)).execute();
+    expect(unchanged.assigned_to).toBeNull();
+    expect((await events()).map(e => e.case_id)).toEqual([cases[0].id, cases[2].id]);
+  });
+
+  it('should only act on cases the user can see', async () => {
+    await db.update(fraudCasesTable)
+      .set({ assigned_to: analyst.id, status: 'in_progress' })
+      .where(eq(fraudCasesTable.id, cases[0].id))
+      .execute();
+
+    // Analysts only see the cases they created or are assigned to
+    const result = await bulkEscalate({
+      cases: targets(cases),
+      escalated_by: analyst.id,
+      new_priority: 'critical',
+      reason: 'Same device fingerprint on every case'
+    });
+
+    expect(result.results.map(r => r.success)).toEqual([true, false, false]);
+    expect(result.results[1].error).toEqual('Case not found');
+    expect(await db.select().from(caseEscalationsTable).execute()).toHaveLength(1);
+  });
+
+  it('should escalate every case with its own escalation record', async () => {
+    const result = await bulkEscalate({
+      cases: targets(cases),
+      escalated_by: admin.id,
+      escalated_to: investigator.id,
+      new_priority: 'critical',
+      reason: 'Part of one coordinated attack'
+    });
+
+    expect(result.succeeded).toEqual(3);
+    expect(result.results.every(r => r.case?.priority === 'critical' && r.case.assigned_to === investigator.id)).toBe(true);
+
+    const escalations = await db.select().from(caseEscalationsTable).orderBy(asc(caseEscalationsTable.id)).execute();
+    expect(escalations.map(e => [e.case_id, e.previous_priority])).toEqual([
+      [cases[0].id, 'low'],
+      [cases[1].id, 'medium'],
+      [cases[2].id, 'high']
+    ]);
+    expect((await events()).every(e => e.event_type === 'escalated')).toBe(true);
+  });
+
+  it('should move cases through the status workflow case by case', async () => {
+    const [closedAlready, inProgress] = await Promise.all([
+      db.update(fraudCasesTable).set({ status: 'closed' }).where(eq(fraudCasesTable.id, cases[0].id)).returning().execute(),
+      db.update(fraudCasesTable).set({ status: 'in_progress' }).where(eq(fraudCasesTable.id, cases[2].id)).returning().execute()
+    ]);
+
+    const resolved = await bulkUpdateStatus({
+      cases: targets([...closedAlready, ...inProgress]),
+      status: 'resolved',
+      status_note: 'Merchant confirmed the charges as fraudulent',
+      disposition: 'confirmed_fraud',
+      updated_by: admin.id
+    });
+
+    // Closed cases have to be reopened first
+    expect(resolved.results.map(r => r.success)).toEqual([false, true]);
+    expect(resolved.results[0].error).toContain('Cannot move case from closed to resolved');
+    expect(resolved.results[1].case).toMatchObject({ status: 'resolved', disposition: 'confirmed_fraud' });
+
+    const closed = await bulkUpdateStatus({
+      cases: targets([resolved.results[1].case!]),
+      status: 'closed',
+      updated_by: admin.id
+    });
+
+    expect(closed.succeeded).toEqual(1);
+    expect(closed.results[0].case).toMatchObject({ status: 'closed', closed_by: admin.id, resolution_note: 'Merchant confirmed the charges as fraudulent' });
+    expect((await events()).map(e => e.event_type)).toEqual(['updated', 'closed']);
+  });
+
+  it('should notify like the single-case actions', async () => {
+    const assigned = await bulkAssign({ cases: targets([cases[0]]), assigned_to: investigator.id, assigned_by: admin.id });
+    const [resolved] = await db.update(fraudCasesTable)
+      .set({ status: 'resolved', disposition: 'false_positive', resolution_note: 'Customer made the purchases' })
+      .where(eq(fraudCasesTable.id, cases[0].id))
+      .returning()
+      .execute();
+
+    await bulkUpdateStatus({ cases: targets([resolved]), status: 'closed', updated_by: admin.id });
+
+    expect(assigned.succeeded).toEqual(1);
+    const notifications = await db.select().from(notificationsTable).orderBy(asc(notificationsTable.id)).execute();
+    expect(notifications.map(n => [n.user_id, n.type])).toEqual([[investigator.id, 'assigned'], [investigator.id, 'closed']]);
+  });
+
+  it('should reject the same case picked twice and unknown users', async () => {
+    await expect(bulkAssign({ cases: targets([cases[0], cases[0]]), assigned_to: analyst.id, assigned_by: admin.id }))
+      .rejects.toThrow('Each case can only be picked once');
+    await expect(bulkEscalate({ cases: targets(cases), escalated_by: 9999, new_priority: 'high', reason: 'Escalated by nobody' }))
+      .rejects.toThrow('User with ID 9999 not found');
+
+    expect(await events()).toHaveLength(0);
+  });
+});
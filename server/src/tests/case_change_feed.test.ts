@@ -0,0 +1,165 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { type AddressInfo } from 'node:net';
+import { createHTTPServer } from '@trpc/server/adapters/standalone';
+import { applyWSSHandler } from '@trpc/server/adapters/ws';
+import { WebSocket, WebSocketServer } from 'ws';
+import superjson from 'superjson';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { fraudCasesTable, usersTable } from '../db/schema';
+import { type CaseChange } from '../schema';
+import { subscribeToCaseChanges, type CaseFeedTopic } from '../handlers/case_change_feed';
+import { createFraudCase } from '../handlers/create_fraud_case';
+import { assignCase } from '../handlers/assign_case';
+import { updateFraudCase } from '../handlers/update_fraud_case';
+import { importCases } from '../handlers/import_cases';
+import { login } from '../handlers/login';
+import { hashPassword } from '../helpers/auth';
+import { appRouter } from '../router';
+import { createContext } from '../trpc';
+
+// Collects what a user's subscription yields until the returned stop function is called
+const collect = (user: { id: number; role: any }, topic: CaseFeedTopic) => {
+  const controller = new AbortController();
+  const received: CaseChange[] = [];
+  const done = (async () => {
+    for await (const change of subscribeToCaseChanges(user, topic, controller.signal)) {
+      received.push(change);
+    }
+  })();
+
+  return {
+    received,
+    stop: async () => {
+      controller.abort();
+      await done;
+    }
+  };
+};
+
+describe('case change feed', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let admin: any;
+  let investigator: any;
+  let analyst: any;
+  let viewer: any;
+
+  beforeEach(async () => {
+    [admin, investigator, analyst, viewer] = await db.insert(usersTable)
+      .values([
+        { username: 'admin_user', email: 'admin@test.com', role: 'admin' },
+        { username: 'investigator_user', email: 'investigator@test.com', role: 'investigator' },
+        { username: 'analyst_user', email: 'analyst@test.com', role: 'analyst' },
+        { username: 'viewer_user', email: 'viewer@test.com', role: 'viewer' }
+      ])
+      .returning()
+      .execute();
+  });
+
+  it('should announce new cases to the users who can see them', async () => {
+    const investigatorFeed = collect(investigator, 'created');
+    const analystFeed = collect(analyst, 'created');
+    const viewerFeed = collect(viewer, 'created');
+
+    const fraudCase = await createFraudCase({ transactions: [{ txid: 'TX-LIVE-1' }], description: 'Card used at three fuel stations', priority: 'high', created_by: admin.id });
+    await importCases({ format: 'json', content: JSON.stringify([{ txid: 'TX-LIVE-2', description: 'Imported by the analyst' }]), dry_run: false, created_by: analyst.id });
+
+    await Promise.all([investigatorFeed.stop(), analystFeed.stop(), viewerFeed.stop()]);
+
+    expect(investigatorFeed.received.map(change => change.case?.txid)).toEqual(['TX-LIVE-1', 'TX-LIVE-2']);
+    expect(investigatorFeed.received[0]).toMatchObject({ type: 'created', case_id: fraudCase.id, actor_id: admin.id });
+    expect(analystFeed.received.map(change => change.case?.txid)).toEqual(['TX-LIVE-2']);
+    expect(viewerFeed.received).toEqual([]);
+  });
+
+  it('should announce changes, including to users who lose sight of the case', async () => {
+    const fraudCase = await createFraudCase({ transactions: [{ txid: 'TX-LIVE-3' }], description: 'Account takeover suspected', priority: 'medium', created_by: admin.id });
+
+    const analystFeed = collect(analyst, 'changed');
+    const createdFeed = collect(admin, 'created');
+
+    await assignCase(fraudCase.id, analyst.id, admin.id);
+    await updateFraudCase({ id: fraudCase.id, description: 'Account takeover confirmed' }, admin.id);
+    await assignCase(fraudCase.id, investigator.id, admin.id);
+    await updateFraudCase({ id: fraudCase.id, description: 'Handed to the card team' }, admin.id);
+
+    await Promise.all([analystFeed.stop(), createdFeed.stop()]);
+
+    expect(analystFeed.received.map(change => [change.type, change.case?.assigned_to ?? null])).toEqual([
+      ['assigned', analyst.id],
+      ['updated', analyst.id],
+      ['assigned', null] // Reassigned away; the case itself is withheld
+    ]);
+    expect(analystFeed.received[2].case_id).toEqual(fraudCase.id);
+    expect(createdFeed.received).toEqual([]);
+  });
+
+  it('should not announce updates that change nothing', async () => {
+    const fraudCase = await createFraudCase({ transactions: [{ txid: 'TX-LIVE-4' }], description: 'Nothing happens', priority: 'low', created_by: admin.id });
+    const adminFeed = collect(admin, 'changed');
+
+    await updateFraudCase({ id: fraudCase.id, description: 'Nothing happens' }, admin.id);
+
+    await adminFeed.stop();
+    expect(adminFeed.received).toEqual([]);
+  });
+
+  it('should push changes to WebSocket subscribers of the router', async () => {
+    await db.update(usersTable)
+      .set({ password_hash: await hashPassword('correct-horse-battery') })
+      .execute();
+    const { token } = await login({ username: 'investigator_user', password: 'correct-horse-battery' });
+
+    const server = createHTTPServer({ router: appRouter, createContext });
+    const wss = new WebSocketServer({ server });
+    const handler = applyWSSHandler({ wss, router: appRouter, createContext });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    const { port } = server.address() as AddressInfo;
+
+    // Speaks the tRPC WebSocket protocol, with the session token as connection parameter
+    const subscribe = (sessionToken: string | null) => new Promise<{ socket: WebSocket; messages: any[] }>(resolve => {
+      const socket = new WebSocket(`ws://127.0.0.1:${port}?connectionParams=1`);
+      const messages: any[] = [];
+      socket.on('message', data => messages.push(JSON.parse(data.toString())));
+      socket.on('open', () => {
+        socket.send(JSON.stringify({ method: 'connectionParams', data: sessionToken ? { token: sessionToken } : {} }));
+        socket.send(JSON.stringify({ id: 1, method: 'subscription', params: { path: 'onCaseCreated', input: superjson.serialize(undefined) } }));
+        resolve({ socket, messages });
+      });
+    });
+
+    const waitFor = async (messages: any[], predicate: (message: any) => boolean) => {
+      for (let i = 0; i < 200 && !messages.some(predicate); i++) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+      return messages.find(predicate);
+    };
+
+    const authorized = await subscribe(token);
+    const anonymous = await subscribe(null);
+    try {
+      expect(await waitFor(authorized.messages, message => message.result?.type === 'started')).toBeDefined();
+
+      await createFraudCase({ transactions: [{ txid: 'TX-LIVE-WS' }], description: 'Pushed over the socket', priority: 'critical', created_by: admin.id });
+
+      const data = await waitFor(authorized.messages, message => message.result?.type === 'data');
+      const change = superjson.deserialize<CaseChange>(data.result.data);
+      expect(change.type).toEqual('created');
+      expect(change.case?.txid).toEqual('TX-LIVE-WS');
+      expect(change.case?.created_at).toBeInstanceOf(Date);
+
+      const rejected = await waitFor(anonymous.messages, message => message.error);
+      expect(rejected.error.json.data.code).toEqual('UNAUTHORIZED');
+    } finally {
+      authorized.socket.close();
+      anonymous.socket.close();
+      handler.broadcastReconnectNotification();
+      wss.close();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+
+    expect(await db.select().from(fraudCasesTable).execute()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { fraudCasesTable, usersTable } from '../db/schema';
+import {
+  DEFAULT_SLA_POLICIES,
+  computeSlaDueDates,
+  getSlaBreaches,
+  resolveSlaMilestones
+} from '../handlers/case_sla';
+import { createFraudCase } from '../handlers/create_fraud_case';
+import { assignCase } from '../handlers/assign_case';
+import { createCaseNote } from '../handlers/create_case_note';
+import { updateFraudCase } from '../handlers/update_fraud_case';
+import { escalateCase } from '../handlers/escalate_case';
+import { type FraudCase } from '../schema';
+import { eq } from 'drizzle-orm';
+
+const MINUTE = 60_000;
+const createdAt = new Date('2024-01-01T09:00:00Z');
+
+const baseCase: FraudCase = {
+  id: 1,
+  txid: 'TX-SLA',
+  description: 'Case used for SLA tests',
+  status: 'open',
+  priority: 'high',
+  assigned_to: null,
+  created_by: 1,
+  disposition: null,
+  resolution_note: null,
+  recovered_amount: null,
+  closed_by: null,
+  closed_at: null,
+  ...computeSlaDueDates(createdAt, { assignment_minutes: 60, first_action_minutes: 240, resolution_minutes: null }),
+  first_assigned_at: null,
+  first_action_at: null,
+  resolved_at: null,
+  version: 1,
+  created_at: createdAt,
+  updated_at: createdAt
+};
+
+const at = (minutes: number) => new Date(createdAt.getTime() + minutes * MINUTE);
+
+describe('computeSlaDueDates', () => {
+  it('should count every target from creation and skip targets without minutes', () => {
+    expect(computeSlaDueDates(createdAt, { assignment_minutes: 15, first_action_minutes: 60, resolution_minutes: null }))
+      .toEqual({ assignment_due_at: at(15), first_action_due_at: at(60), resolution_due_at: null });
+  });
+
+  it('should give critical cases tighter defaults than low ones', () => {
+    for (const minutes of ['assignment_minutes', 'first_action_minutes', 'resolution_minutes'] as const) {
+      expect(DEFAULT_SLA_POLICIES.critical[minutes]!).toBeLessThan(DEFAULT_SLA_POLICIES.low[minutes]!);
+    }
+  });
+});
+
+describe('resolveSlaMilestones', () => {
+  it('should stamp the first assignment once', () => {
+    expect(resolveSlaMilestones(baseCase, { assigned_to: 2 }, at(5))).toEqual({ first_assigned_at: at(5) });
+    expect(resolveSlaMilestones({ ...baseCase, first_assigned_at: at(5) }, { assigned_to: 3 }, at(9))).toEqual({});
+    expect(resolveSlaMilestones(baseCase, { assigned_to: null }, at(5))).toEqual({});
+  });
+
+  it('should only stamp the first action for actions', () => {
+    expect(resolveSlaMilestones(baseCase, { status: 'in_progress' }, at(5))).toEqual({});
+    expect(resolveSlaMilestones(baseCase, { status: 'in_progress', action: true }, at(5))).toEqual({ first_action_at: at(5) });
+  });
+
+  it('should stamp resolution and clear it on reopening', () => {
+    const inProgress: FraudCase = { ...baseCase, status: 'in_progress' };
+    const resolved: FraudCase = { ...baseCase, status: 'resolved', resolved_at: at(30) };
+
+    expect(resolveSlaMilestones(inProgress, { status: 'resolved' }, at(30))).toEqual({ resolved_at: at(30) });
+    expect(resolveSlaMilestones(resolved, { status: 'closed' }, at(40))).toEqual({});
+    expect(resolveSlaMilestones(resolved, { status: 'in_progress' }, at(50))).toEqual({ resolved_at: null });
+  });
+});
+
+describe('getSlaBreaches', () => {
+  it('should report unmet targets past their deadline', () => {
+    expect(getSlaBreaches(baseCase, at(30))).toEqual([]);
+    expect(getSlaBreaches(baseCase, at(90))).toEqual(['assignment']);
+    expect(getSlaBreaches(baseCase, at(300))).toEqual(['assignment', 'first_action']);
+  });
+
+  it('should judge met targets by when they were met', () => {
+    const assignedLate: FraudCase = { ...baseCase, first_assigned_at: at(61), first_action_at: at(100) };
+    expect(getSlaBreaches(assignedLate, at(1000))).toEqual(['assignment']);
+  });
+});
+
+describe('SLA tracking on cases', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let admin: any;
+  let investigator: any;
+
+  beforeEach(async () => {
+    [admin, investigator] = await db.insert(usersTable)
+      .values([
+        { username: 'admin_user', email: 'admin@test.com', role: 'admin' },
+        { username: 'investigator_user', email: 'investigator@test.com', role: 'investigator' }
+      ])
+      .returning()
+      .execute();
+  });
+
+  const createCase = (priority: 'low' | 'critical') => createFraudCase({
+    transactions: [{ txid: `TX-SLA-${priority}` }],
+    description: 'Card used abroad',
+    priority,
+    created_by: admin.id
+  });
+
+  it('should set deadlines from the priority policy on creation', async () => {
+    const fraudCase = await createCase('critical');
+
+    expect(fraudCase.assignment_due_at!.getTime() - fraudCase.created_at.getTime())
+      .toEqual(DEFAULT_SLA_POLICIES.critical.assignment_minutes! * MINUTE);
+    expect(fraudCase.resolution_due_at!.getTime() - fraudCase.created_at.getTime())
+      .toEqual(DEFAULT_SLA_POLICIES.critical.resolution_minutes! * MINUTE);
+    expect(fraudCase.first_assigned_at).toBeNull();
+  });
+
+  it('should record milestones as the case is worked', async () => {
+    const fraudCase = await createCase('critical');
+
+    const assigned = await assignCase(fraudCase.id, investigator.id, admin.id);
+    expect(assigned.first_assigned_at).toBeInstanceOf(Date);
+    expect(assigned.first_action_at).toBeNull();
+
+    await createCaseNote({ case_id: fraudCase.id, author_id: investigator.id, body: 'Called the bank', visibility: 'internal' });
+    const [noted] = await db.select().from(fraudCasesTable).where(eq(fraudCasesTable.id, fraudCase.id)).execute();
+    expect(noted.first_action_at).toBeInstanceOf(Date);
+
+    const resolved = await updateFraudCase({
+      id: fraudCase.id,
+      status: 'resolved',
+      status_note: 'Customer confirmed the purchase',
+      disposition: 'false_positive'
+    }, investigator.id);
+    expect(resolved.resolved_at).toBeInstanceOf(Date);
+    expect(resolved.first_action_at).toEqual(noted.first_action_at);
+  });
+
+  it('should move deadlines with the priority', async () => {
+    const fraudCase = await createCase('low');
+
+    const { case: escalated } = await escalateCase({
+      case_id: fraudCase.id,
+      escalated_by: admin.id,
+      new_priority: 'critical',
+      reason: 'Large amounts involved'
+    });
+
+    expect(escalated.assignment_due_at!.getTime() - fraudCase.created_at.getTime())
+      .toEqual(DEFAULT_SLA_POLICIES.critical.assignment_minutes! * MINUTE);
+    expect(escalated.first_action_at).toBeInstanceOf(Date);
+  });
+});
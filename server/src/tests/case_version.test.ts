@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { TRPCError } from '@trpc/server';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { fraudCasesTable, transactionsTable, usersTable } from '../db/schema';
+import { assertCaseVersion, caseConflictError, getConflictingCase } from '../handlers/case_version';
+import { updateFraudCase } from '../handlers/update_fraud_case';
+import { assignCase } from '../handlers/assign_case';
+import { eq } from 'drizzle-orm';
+
+describe('case versions', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let admin: any;
+  let investigator: any;
+  let fraudCase: any;
+
+  beforeEach(async () => {
+    [admin, investigator] = await db.insert(usersTable)
+      .values([
+        { username: 'admin_user', email: 'admin@test.com', role: 'admin' },
+        { username: 'investigator_user', email: 'investigator@test.com', role: 'investigator' }
+      ])
+      .returning()
+      .execute();
+
+    [fraudCase] = await db.insert(fraudCasesTable)
+      .values({ txid: 'TX-VERSION', description: 'Card used at three fuel stations', created_by: admin.id })
+      .returning()
+      .execute();
+    await db.insert(transactionsTable).values({ case_id: fraudCase.id, txid: 'TX-VERSION' }).execute();
+  });
+
+  it('should start new cases at version 1', () => {
+    expect(fraudCase.version).toEqual(1);
+  });
+
+  it('should carry the current case on conflicts', () => {
+    const current = { ...fraudCase, version: 4 };
+
+    expect(() => assertCaseVersion(current, 4)).not.toThrow();
+    expect(() => assertCaseVersion(current, undefined)).not.toThrow();
+
+    const error = caseConflictError(current);
+    expect(error.code).toEqual('CONFLICT');
+    expect(getConflictingCase(error)).toEqual(current);
+
+    expect(getConflictingCase(new TRPCError({ code: 'NOT_FOUND' }))).toBeNull();
+    expect(getConflictingCase(new Error('Case not found'))).toBeNull();
+  });
+
+  it('should let only one of two concurrent writers of the same version win', async () => {
+    const results = await Promise.allSettled([
+      updateFraudCase({ id: fraudCase.id, txid: 'TX-RENAMED', expected_version: 1 }, admin.id),
+      assignCase(fraudCase.id, investigator.id, admin.id, 1)
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    const [rejected] = results.filter(result => result.status === 'rejected');
+    expect((rejected as PromiseRejectedResult).reason.code).toEqual('CONFLICT');
+
+    // The loser left nothing behind, not even the transaction rename
+    const [stored] = await db.select().from(fraudCasesTable).where(eq(fraudCasesTable.id, fraudCase.id)).execute();
+    const [transaction] = await db.select().from(transactionsTable).where(eq(transactionsTable.case_id, fraudCase.id)).execute();
+    expect(stored.version).toEqual(2);
+    expect(transaction.txid).toEqual(stored.txid);
+    expect(stored.txid === 'TX-RENAMED').toBe(stored.assigned_to === null);
+  });
+
+  it('should keep writing without an expected version', async () => {
+    await updateFraudCase({ id: fraudCase.id, description: 'Edited twice', expected_version: 1 }, admin.id);
+    const result = await updateFraudCase({ id: fraudCase.id, priority: 'critical' }, admin.id);
+
+    expect(result.version).toEqual(3);
+    expect(result.description).toEqual('Edited twice');
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  CASE_STATUS_TRANSITIONS,
+  findTransition,
+  getTransitionsForRole,
+  resolveCaseOutcome,
+  resolveStatusChange
+} from '../handlers/case_workflow';
+import { type FraudCase } from '../schema';
+
+describe('case status workflow', () => {
+  it('should not contain duplicate transitions', () => {
+    const keys = CASE_STATUS_TRANSITIONS.map(t => `${t.from}->${t.to}`);
+    expect(new Set(keys).size).toEqual(keys.length);
+  });
+
+  it('should only allow closing from resolved', () => {
+    const sources = CASE_STATUS_TRANSITIONS.filter(t => t.to === 'closed').map(t => t.from);
+    expect(sources).toEqual(['resolved']);
+  });
+
+  it('should require a note for every transition into resolved', () => {
+    for (const transition of CASE_STATUS_TRANSITIONS.filter(t => t.to === 'resolved')) {
+      expect(transition.requires_note).toBe(true);
+    }
+  });
+
+  it('should find declared transitions only', () => {
+    expect(findTransition('open', 'in_progress')).toBeDefined();
+    expect(findTransition('open', 'closed')).toBeUndefined();
+  });
+
+  it('should list transitions available to a role', () => {
+    const viewer = getTransitionsForRole('viewer', 'open');
+    const analyst = getTransitionsForRole('analyst', 'open').map(t => t.to);
+    const admin = getTransitionsForRole('admin', 'closed');
+
+    expect(viewer).toEqual([]);
+    expect(analyst).toEqual(['in_progress', 'escalated']);
+    expect(admin).toEqual([{ to: 'in_progress', requires_note: true }]);
+  });
+});
+
+describe('resolveStatusChange', () => {
+  it('should allow a declared transition for a permitted role', () => {
+    expect(resolveStatusChange('analyst', 'open', 'in_progress')).toEqual({ status: 'in_progress' });
+  });
+
+  it('should treat an unchanged status as a no-op', () => {
+    expect(resolveStatusChange('viewer', 'closed', 'closed')).toEqual({ status: 'closed' });
+  });
+
+  it('should store the note as resolution note when resolving', () => {
+    expect(resolveStatusChange('investigator', 'in_progress', 'resolved', '  Refund issued to customer  '))
+      .toEqual({ status: 'resolved', resolution_note: 'Refund issued to customer' });
+  });
+
+  it('should reject undeclared transitions', () => {
+    expect(() => resolveStatusChange('admin', 'open', 'closed')).toThrow(/must be in resolved status to be closed/i);
+  });
+
+  it('should reject roles not listed on the transition', () => {
+    expect(() => resolveStatusChange('analyst', 'escalated', 'in_progress')).toThrow(/role analyst cannot/i);
+  });
+
+  it('should reject a missing or blank note when one is required', () => {
+    expect(() => resolveStatusChange('admin', 'resolved', 'in_progress')).toThrow(/note is required/i);
+    expect(() => resolveStatusChange('admin', 'resolved', 'in_progress', '   ')).toThrow(/note is required/i);
+  });
+
+  it('should reject a note shorter than 10 characters once trimmed', () => {
+    expect(() => resolveStatusChange('admin', 'resolved', 'in_progress', '   Reopen     ')).toThrow(/at least 10 characters/i);
+    expect(resolveStatusChange('admin', 'resolved', 'in_progress', '  New evidence  ')).toEqual({ status: 'in_progress' });
+  });
+});
+
+describe('case outcome', () => {
+  const baseCase: FraudCase = {
+    id: 1,
+    txid: 'TX-OUTCOME',
+    description: 'Case used for outcome tests',
+    status: 'in_progress',
+    priority: 'medium',
+    assigned_to: 2,
+    created_by: 1,
+    disposition: null,
+    resolution_note: null,
+    recovered_amount: null,
+    closed_by: null,
+    closed_at: null,
+    assignment_due_at: null,
+    first_action_due_at: null,
+    resolution_due_at: null,
+    first_assigned_at: null,
+    first_action_at: null,
+    resolved_at: null,
+    version: 1,
+    created_at: new Date(),
+    updated_at: new Date()
+  };
+
+  it('should record the outcome when resolving', () => {
+    expect(resolveCaseOutcome(baseCase, 'resolved', 2, {
+      disposition: 'confirmed_fraud',
+      resolution_note: 'Chargeback filed',
+      recovered_amount: 100
+    })).toEqual({ disposition: 'confirmed_fraud', resolution_note: 'Chargeback filed', recovered_amount: 100 });
+  });
+
+  it('should reuse the outcome recorded at resolution when closing', () => {
+    const resolved: FraudCase = { ...baseCase, status: 'resolved', disposition: 'false_positive', resolution_note: 'Legitimate purchase' };
+
+    const fields = resolveCaseOutcome(resolved, 'closed', 3);
+
+    expect(fields.disposition).toEqual('false_positive');
+    expect(fields.resolution_note).toEqual('Legitimate purchase');
+    expect(fields.closed_by).toEqual(3);
+    expect(fields.closed_at).toBeInstanceOf(Date);
+  });
+
+  it('should require a disposition and narrative for resolved and closed', () => {
+    expect(() => resolveCaseOutcome(baseCase, 'resolved', 2, { resolution_note: 'Chargeback filed' }))
+      .toThrow(/disposition is required/i);
+    expect(() => resolveCaseOutcome(baseCase, 'closed', 2, { disposition: 'inconclusive' }))
+      .toThrow(/resolution narrative is required/i);
+  });
+
+  it('should clear the outcome when leaving resolved or closed', () => {
+    const closed: FraudCase = {
+      ...baseCase,
+      status: 'closed',
+      disposition: 'confirmed_fraud',
+      resolution_note: 'Chargeback filed',
+      recovered_amount: 50,
+      closed_by: 2,
+      closed_at: new Date()
+    };
+
+    expect(resolveCaseOutcome(closed, 'in_progress', 1)).toEqual({
+      disposition: null,
+      resolution_note: null,
+      recovered_amount: null,
+      closed_by: null,
+      closed_at: null
+    });
+    expect(resolveCaseOutcome(baseCase, 'escalated', 1)).toEqual({});
+  });
+});
@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { hashPassword, hashSessionToken } from '../helpers/auth';
+import { changePassword } from '../handlers/change_password';
+import { login } from '../handlers/login';
+
+describe('changePassword', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let user: any;
+
+  beforeEach(async () => {
+    [user] = await db.insert(usersTable)
+      .values({
+        username: 'investigator_user',
+        email: 'investigator@test.com',
+        role: 'investigator',
+        password_hash: await hashPassword('correct-horse-battery')
+      })
+      .returning()
+      .execute();
+
+    await db.insert(sessionsTable)
+      .values({ token_hash: hashSessionToken('a'.repeat(64)), user_id: user.id, expires_at: new Date(Date.now() + 60 * 60 * 1000) })
+      .execute();
+  });
+
+  it('should replace the password and end every session', async () => {
+    const result = await changePassword(user.id, { current_password: 'correct-horse-battery', new_password: 'staple-battery-horse' });
+
+    expect(result.success).toBe(true);
+    expect(await db.select().from(sessionsTable).execute()).toHaveLength(0);
+
+    await expect(login({ username: 'investigator_user', password: 'correct-horse-battery' })).rejects.toThrow('Invalid username or password');
+    const session = await login({ username: 'investigator_user', password: 'staple-battery-horse' });
+    expect(session.user.id).toEqual(user.id);
+  });
+
+  it('should reject a wrong current password and keep the sessions', async () => {
+    await expect(changePassword(user.id, { current_password: 'wrong-password', new_password: 'staple-battery-horse' }))
+      .rejects.toThrow('Current password is incorrect');
+
+    expect(await db.select().from(sessionsTable).execute()).toHaveLength(1);
+    const session = await login({ username: 'investigator_user', password: 'correct-horse-battery' });
+    expect(session.user.id).toEqual(user.id);
+  });
+});
@@ -1,8 +1,9 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
-import { resetDB, createDB } from '../helpers';
+import { resetDB, createDB, failInsertsInto } from '../helpers';
 import { db } from '../db';
-import { fraudCasesTable, usersTable } from '../db/schema';
+import { caseEventsTable, fraudCasesTable, notificationsTable, usersTable, webhookDeliveriesTable } from '../db/schema';
 import { closeCase } from '../handlers/close_case';
+import { createWebhookSubscription } from '../handlers/create_webhook_subscription';
 import { eq } from 'drizzle-orm';
 
 describe('closeCase', () => {
@@ -28,6 +29,8 @@ describe('closeCase', () => {
         txid: 'TXN-12345',
         description: 'Suspicious transaction detected',
         status: 'resolved',
+        disposition: 'confirmed_fraud',
+        resolution_note: 'Card blocked and chargeback filed',
         priority: 'medium',
         assigned_to: investigator.id,
         created_by: investigator.id
@@ -47,6 +50,40 @@ describe('closeCase', () => {
     expect(result.updated_at > fraudCase.updated_at).toBe(true);
   });
 
+  it('should notify the assignee and creator but not the closer', async () => {
+    const [admin, investigator] = await db.insert(usersTable)
+      .values([
+        { username: 'admin1', email: 'admin@test.com', role: 'admin' },
+        { username: 'investigator1', email: 'investigator@test.com', role: 'investigator' }
+      ])
+      .returning()
+      .execute();
+
+    const [fraudCase] = await db.insert(fraudCasesTable)
+      .values({
+        txid: 'TXN-NOTIFY',
+        description: 'Suspicious transaction detected',
+        status: 'resolved',
+        disposition: 'false_positive',
+        resolution_note: 'Customer confirmed the purchase',
+        assigned_to: investigator.id,
+        created_by: admin.id
+      })
+      .returning()
+      .execute();
+
+    await closeCase(fraudCase.id, investigator.id);
+
+    const notifications = await db.select().from(notificationsTable).execute();
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0]).toMatchObject({
+      user_id: admin.id,
+      type: 'closed',
+      actor_id: investigator.id,
+      message: 'Case TXN-NOTIFY was closed'
+    });
+  });
+
   it('should close a resolved case by admin', async () => {
     // Create test users
     const adminResult = await db.insert(usersTable)
@@ -76,6 +113,8 @@ describe('closeCase', () => {
         txid: 'TXN-12345',
         description: 'Suspicious transaction detected',
         status: 'resolved',
+        disposition: 'confirmed_fraud',
+        resolution_note: 'Card blocked and chargeback filed',
         priority: 'high',
         assigned_to: investigator.id,
         created_by: investigator.id
@@ -113,6 +152,8 @@ describe('closeCase', () => {
         txid: 'TXN-67890',
         description: 'Transaction analysis completed',
         status: 'resolved',
+        disposition: 'confirmed_fraud',
+        resolution_note: 'Card blocked and chargeback filed',
         priority: 'low',
         assigned_to: analyst.id,
         created_by: analyst.id
@@ -148,6 +189,8 @@ describe('closeCase', () => {
         txid: 'TXN-12345',
         description: 'Suspicious transaction detected',
         status: 'resolved',
+        disposition: 'confirmed_fraud',
+        resolution_note: 'Card blocked and chargeback filed',
         priority: 'medium',
         assigned_to: investigator.id,
         created_by: investigator.id
@@ -169,6 +212,78 @@ describe('closeCase', () => {
     expect(updatedCases).toHaveLength(1);
     expect(updatedCases[0].status).toEqual('closed');
     expect(updatedCases[0].updated_at).toBeInstanceOf(Date);
+    expect(updatedCases[0].disposition).toEqual('confirmed_fraud');
+    expect(updatedCases[0].closed_by).toEqual(investigator.id);
+    expect(updatedCases[0].closed_at).toBeInstanceOf(Date);
+  });
+
+  it('should persist the outcome supplied at closure', async () => {
+    const userResult = await db.insert(usersTable)
+      .values({
+        username: 'investigator1',
+        email: 'investigator@test.com',
+        role: 'investigator'
+      })
+      .returning()
+      .execute();
+
+    const investigator = userResult[0];
+
+    const caseResult = await db.insert(fraudCasesTable)
+      .values({
+        txid: 'TXN-OUTCOME',
+        description: 'Suspicious transaction detected',
+        status: 'resolved',
+        disposition: 'inconclusive',
+        resolution_note: 'Awaiting response from the issuing bank',
+        priority: 'medium',
+        assigned_to: investigator.id,
+        created_by: investigator.id
+      })
+      .returning()
+      .execute();
+
+    const result = await closeCase(caseResult[0].id, investigator.id, {
+      disposition: 'confirmed_fraud',
+      resolution_note: 'Issuer confirmed the card was stolen',
+      recovered_amount: 420.75
+    });
+
+    expect(result.disposition).toEqual('confirmed_fraud');
+    expect(result.resolution_note).toEqual('Issuer confirmed the card was stolen');
+    expect(result.recovered_amount).toEqual(420.75);
+    expect(result.closed_by).toEqual(investigator.id);
+    expect(result.closed_at).toBeInstanceOf(Date);
+  });
+
+  it('should require a disposition to close a case', async () => {
+    const userResult = await db.insert(usersTable)
+      .values({
+        username: 'investigator1',
+        email: 'investigator@test.com',
+        role: 'investigator'
+      })
+      .returning()
+      .execute();
+
+    const investigator = userResult[0];
+
+    const caseResult = await db.insert(fraudCasesTable)
+      .values({
+        txid: 'TXN-NO-OUTCOME',
+        description: 'Suspicious transaction detected',
+        status: 'resolved',
+        priority: 'medium',
+        assigned_to: investigator.id,
+        created_by: investigator.id
+      })
+      .returning()
+      .execute();
+
+    await expect(closeCase(caseResult[0].id, investigator.id))
+      .rejects.toThrow(/disposition is required/i);
+    await expect(closeCase(caseResult[0].id, investigator.id, { disposition: 'customer_error' }))
+      .rejects.toThrow(/resolution narrative is required/i);
   });
 
   it('should throw error for non-existent case', async () => {
@@ -323,4 +438,54 @@ describe('closeCase', () => {
     // Investigator2 tries to close the case (not assigned)
     await expect(closeCase(fraudCase.id, investigator2.id)).rejects.toThrow(/insufficient permissions/i);
   });
-});
\ No newline at end of file
+
+  it('should reject closing a case that changed since it was read', async () => {
+    const [admin] = await db.insert(usersTable)
+      .values({ username: 'admin1', email: 'admin@test.com', role: 'admin' })
+      .returning()
+      .execute();
+    const [fraudCase] = await db.insert(fraudCasesTable)
+      .values({
+        txid: 'TXN-STALE',
+        description: 'Resolved, then reopened by a colleague',
+        status: 'in_progress',
+        priority: 'medium',
+        created_by: admin.id,
+        version: 3
+      })
+      .returning()
+      .execute();
+
+    const conflict = await closeCase(fraudCase.id, admin.id, undefined, 2).catch(error => error);
+    expect(conflict.code).toEqual('CONFLICT');
+    expect(conflict.cause.current_case).toMatchObject({ id: fraudCase.id, status: 'in_progress', version: 3 });
+  });
+
+  it('should leave the case resolved when its webhook event cannot be queued', async () => {
+    const [admin] = await db.insert(usersTable)
+      .values({ username: 'admin1', email: 'admin@test.com', role: 'admin' })
+      .returning()
+      .execute();
+    const [fraudCase] = await db.insert(fraudCasesTable)
+      .values({
+        txid: 'TXN-ATOMIC',
+        description: 'Closure that fails halfway',
+        status: 'resolved',
+        disposition: 'confirmed_fraud',
+        resolution_note: 'Card blocked and chargeback filed',
+        priority: 'medium',
+        created_by: admin.id
+      })
+      .returning()
+      .execute();
+    await createWebhookSubscription({ url: 'http://127.0.0.1:1/hooks', events: ['case.closed'], created_by: admin.id });
+    await failInsertsInto(webhookDeliveriesTable);
+
+    await expect(closeCase(fraudCase.id, admin.id)).rejects.toThrow('Injected failure writing to webhook_deliveries');
+
+    const [stored] = await db.select().from(fraudCasesTable).where(eq(fraudCasesTable.id, fraudCase.id)).execute();
+    expect(stored.status).toEqual('resolved');
+    expect(stored.closed_at).toBeNull();
+    expect(await db.select().from(caseEventsTable).execute()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,192 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { caseNoteMentionsTable, caseNotesTable, fraudCasesTable, notificationsTable, usersTable } from '../db/schema';
+import { createCaseNote } from '../handlers/create_case_note';
+import { eq } from 'drizzle-orm';
+
+describe('createCaseNote', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let investigator: any;
+  let analyst: any;
+  let viewer: any;
+  let fraudCase: any;
+
+  beforeEach(async () => {
+    [investigator, analyst, viewer] = await db.insert(usersTable)
+      .values([
+        { username: 'jane.doe', email: 'jane@test.com', role: 'investigator' },
+        { username: 'analyst_user', email: 'analyst@test.com', role: 'analyst' },
+        { username: 'viewer_user', email: 'viewer@test.com', role: 'viewer' }
+      ])
+      .returning()
+      .execute();
+
+    [fraudCase] = await db.insert(fraudCasesTable)
+      .values({
+        txid: 'TX-NOTES',
+        description: 'Case used for note tests',
+        priority: 'medium',
+        assigned_to: investigator.id,
+        created_by: investigator.id
+      })
+      .returning()
+      .execute();
+  });
+
+  it('should create an internal note by default', async () => {
+    const note = await createCaseNote({
+      case_id: fraudCase.id,
+      author_id: investigator.id,
+      body: 'Called the cardholder, no answer',
+      visibility: 'internal'
+    });
+
+    expect(note.id).toBeDefined();
+    expect(note.case_id).toEqual(fraudCase.id);
+    expect(note.author_id).toEqual(investigator.id);
+    expect(note.parent_id).toBeNull();
+    expect(note.visibility).toEqual('internal');
+    expect(note.mentions).toEqual([]);
+    expect(note.created_at).toBeInstanceOf(Date);
+
+    const stored = await db.select()
+      .from(caseNotesTable)
+      .where(eq(caseNotesTable.id, note.id))
+      .execute();
+
+    expect(stored).toHaveLength(1);
+    expect(stored[0].body).toEqual('Called the cardholder, no answer');
+  });
+
+  it('should record @mentions of existing users only', async () => {
+    const note = await createCaseNote({
+      case_id: fraudCase.id,
+      author_id: investigator.id,
+      body: '@analyst_user please pull the device logs, cc @nobody and @jane.doe. Mail ops@analyst_user',
+      visibility: 'internal'
+    });
+
+    expect(note.mentions.sort()).toEqual([investigator.id, analyst.id].sort());
+
+    const stored = await db.select()
+      .from(caseNoteMentionsTable)
+      .where(eq(caseNoteMentionsTable.note_id, note.id))
+      .execute();
+
+    expect(stored).toHaveLength(2);
+  });
+
+  it('should notify mentioned users who can read the note', async () => {
+    await db.update(fraudCasesTable)
+      .set({ assigned_to: viewer.id })
+      .where(eq(fraudCasesTable.id, fraudCase.id))
+      .execute();
+
+    // The analyst cannot see the case and the viewer cannot read internal notes
+    await createCaseNote({
+      case_id: fraudCase.id,
+      author_id: investigator.id,
+      body: '@jane.doe @analyst_user @viewer_user internal findings',
+      visibility: 'internal'
+    });
+    expect(await db.select().from(notificationsTable).execute()).toEqual([]);
+
+    await createCaseNote({
+      case_id: fraudCase.id,
+      author_id: investigator.id,
+      body: '@viewer_user we have refunded the charge',
+      visibility: 'shareable'
+    });
+
+    const notifications = await db.select().from(notificationsTable).execute();
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0]).toMatchObject({
+      user_id: viewer.id,
+      type: 'mentioned',
+      actor_id: investigator.id,
+      message: 'You were mentioned in a note on case TX-NOTES'
+    });
+  });
+
+  it('should attach replies to the top-level note of the thread', async () => {
+    const root = await createCaseNote({
+      case_id: fraudCase.id,
+      author_id: investigator.id,
+      body: 'Opened a chargeback',
+      visibility: 'internal'
+    });
+    const reply = await createCaseNote({
+      case_id: fraudCase.id,
+      author_id: investigator.id,
+      parent_id: root.id,
+      body: 'Merchant responded',
+      visibility: 'internal'
+    });
+    const nestedReply = await createCaseNote({
+      case_id: fraudCase.id,
+      author_id: investigator.id,
+      parent_id: reply.id,
+      body: 'Merchant accepted the chargeback',
+      visibility: 'internal'
+    });
+
+    expect(reply.parent_id).toEqual(root.id);
+    expect(nestedReply.parent_id).toEqual(root.id);
+  });
+
+  it('should reject a parent note from another case', async () => {
+    const [otherCase] = await db.insert(fraudCasesTable)
+      .values({ txid: 'TX-OTHER', description: 'Another case', priority: 'low', created_by: investigator.id })
+      .returning()
+      .execute();
+    const otherNote = await createCaseNote({
+      case_id: otherCase.id,
+      author_id: investigator.id,
+      body: 'Note on another case',
+      visibility: 'internal'
+    });
+
+    await expect(createCaseNote({
+      case_id: fraudCase.id,
+      author_id: investigator.id,
+      parent_id: otherNote.id,
+      body: 'Cross-case reply',
+      visibility: 'internal'
+    })).rejects.toThrow(/parent note not found/i);
+  });
+
+  it('should reject authors who cannot see the case', async () => {
+    await expect(createCaseNote({
+      case_id: fraudCase.id,
+      author_id: analyst.id,
+      body: 'Analyst without access',
+      visibility: 'internal'
+    })).rejects.toThrow(/insufficient permissions/i);
+
+    await expect(createCaseNote({
+      case_id: fraudCase.id,
+      author_id: viewer.id,
+      body: 'Viewer without access',
+      visibility: 'shareable'
+    })).rejects.toThrow(/insufficient permissions/i);
+  });
+
+  it('should throw for a non-existent case or author', async () => {
+    await expect(createCaseNote({
+      case_id: 99999,
+      author_id: investigator.id,
+      body: 'Missing case',
+      visibility: 'internal'
+    })).rejects.toThrow(/case not found/i);
+
+    await expect(createCaseNote({
+      case_id: fraudCase.id,
+      author_id: 99999,
+      body: 'Missing author',
+      visibility: 'internal'
+    })).rejects.toThrow(/not found/i);
+  });
+});
@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
-import { resetDB, createDB } from '../helpers';
+import { resetDB, createDB, failInsertsInto } from '../helpers';
 import { db } from '../db';
-import { fraudCasesTable, usersTable } from '../db/schema';
+import { caseEventsTable, fraudCasesTable, transactionsTable, usersTable } from '../db/schema';
 import { type CreateFraudCaseInput } from '../schema';
 import { createFraudCase } from '../handlers/create_fraud_case';
 import { eq } from 'drizzle-orm';
@@ -15,7 +15,7 @@ const testUser = {
 
 // Test input with all fields specified
 const testInput: CreateFraudCaseInput = {
-  txid: 'TX123456789',
+  transactions: [{ txid: 'TX123456789' }],
   description: 'Suspicious transaction detected with unusual patterns',
   priority: 'high',
   created_by: 0 // Will be set after user creation
@@ -61,7 +61,7 @@ describe('createFraudCase', () => {
     // Note: Zod's default('medium') would be applied during parsing,
     // but the TypeScript type still requires priority to be explicitly provided
     const inputWithMediumPriority: CreateFraudCaseInput = {
-      txid: 'TX987654321',
+      transactions: [{ txid: 'TX987654321' }],
       description: 'Another suspicious transaction',
       priority: 'medium',
       created_by: userId
@@ -145,7 +145,7 @@ describe('createFraudCase', () => {
 
     // Create first case
     const input1 = {
-      txid: 'TX111111111',
+      transactions: [{ txid: 'TX111111111' }],
       description: 'First suspicious transaction',
       priority: 'low' as const,
       created_by: userId
@@ -153,7 +153,7 @@ describe('createFraudCase', () => {
 
     // Create second case
     const input2 = {
-      txid: 'TX222222222',
+      transactions: [{ txid: 'TX222222222' }],
       description: 'Second suspicious transaction',
       priority: 'critical' as const,
       created_by: userId
@@ -176,4 +176,78 @@ describe('createFraudCase', () => {
 
     expect(allCases).toHaveLength(2);
   });
-});
\ No newline at end of file
+
+  it('should record every transaction of the case', async () => {
+    const userResult = await db.insert(usersTable)
+      .values(testUser)
+      .returning()
+      .execute();
+
+    const result = await createFraudCase({
+      ...testInput,
+      created_by: userResult[0].id,
+      transactions: [
+        {
+          txid: 'TX-RING-1',
+          amount: 499.99,
+          currency: 'EUR',
+          occurred_at: new Date('2024-03-01T10:15:00Z'),
+          merchant: 'Electro Outlet',
+          channel: 'card_not_present',
+          account: 'ACC-001',
+          counterparty: 'MERCH-778'
+        },
+        { txid: 'TX-RING-2' }
+      ]
+    });
+
+    // The first transaction is the primary one
+    expect(result.txid).toEqual('TX-RING-1');
+
+    const transactions = await db.select()
+      .from(transactionsTable)
+      .where(eq(transactionsTable.case_id, result.id))
+      .orderBy(transactionsTable.id)
+      .execute();
+
+    expect(transactions).toHaveLength(2);
+    expect(transactions[0].amount).toEqual(499.99);
+    expect(transactions[0].currency).toEqual('EUR');
+    expect(transactions[0].occurred_at).toEqual(new Date('2024-03-01T10:15:00Z'));
+    expect(transactions[0].merchant).toEqual('Electro Outlet');
+    expect(transactions[0].channel).toEqual('card_not_present');
+    expect(transactions[0].account).toEqual('ACC-001');
+    expect(transactions[0].counterparty).toEqual('MERCH-778');
+    expect(transactions[1].txid).toEqual('TX-RING-2');
+    expect(transactions[1].amount).toBeNull();
+  });
+
+  it('should not create a case when any transaction belongs to another case', async () => {
+    const userResult = await db.insert(usersTable)
+      .values(testUser)
+      .returning()
+      .execute();
+
+    const existing = await createFraudCase({ ...testInput, created_by: userResult[0].id });
+
+    await expect(createFraudCase({
+      ...testInput,
+      created_by: userResult[0].id,
+      transactions: [{ txid: 'TX-NEW' }, { txid: 'TX123456789' }]
+    })).rejects.toThrow(`Transaction TX123456789 is already linked to case #${existing.id}`);
+
+    expect(await db.select().from(fraudCasesTable).execute()).toHaveLength(1);
+    expect(await db.select().from(transactionsTable).execute()).toHaveLength(1);
+  });
+
+  it('should not create a case whose history cannot be written', async () => {
+    const [user] = await db.insert(usersTable).values(testUser).returning().execute();
+    await failInsertsInto(caseEventsTable);
+
+    await expect(createFraudCase({ ...testInput, created_by: user.id }))
+      .rejects.toThrow('Injected failure writing to case_events');
+
+    expect(await db.select().from(fraudCasesTable).execute()).toHaveLength(0);
+    expect(await db.select().from(transactionsTable).execute()).toHaveLength(0);
+  });
+});
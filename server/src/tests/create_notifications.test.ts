@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { fraudCasesTable, notificationsTable, usersTable } from '../db/schema';
+import { createNotifications } from '../handlers/create_notifications';
+
+describe('createNotifications', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let admin: any;
+  let investigator: any;
+  let fraudCase: any;
+
+  beforeEach(async () => {
+    [admin, investigator] = await db.insert(usersTable)
+      .values([
+        { username: 'admin_user', email: 'admin@test.com', role: 'admin' },
+        { username: 'investigator_user', email: 'investigator@test.com', role: 'investigator' }
+      ])
+      .returning()
+      .execute();
+
+    [fraudCase] = await db.insert(fraudCasesTable)
+      .values({ txid: 'TX-NOTIFY', description: 'Case used for notification tests', created_by: admin.id })
+      .returning()
+      .execute();
+  });
+
+  it('should notify each recipient once, skipping the actor and missing users', async () => {
+    const notifications = await createNotifications([investigator.id, null, admin.id, investigator.id, undefined], {
+      type: 'closed',
+      case_id: fraudCase.id,
+      actor_id: admin.id,
+      message: 'Case TX-NOTIFY was closed'
+    });
+
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].user_id).toEqual(investigator.id);
+    expect(notifications[0].read_at).toBeNull();
+    expect(notifications[0].created_at).toBeInstanceOf(Date);
+  });
+
+  it('should notify everyone of system actions', async () => {
+    await createNotifications([admin.id, investigator.id], {
+      type: 'escalated',
+      case_id: fraudCase.id,
+      actor_id: null,
+      message: 'Case TX-NOTIFY was escalated to you'
+    });
+
+    expect(await db.select().from(notificationsTable).execute()).toHaveLength(2);
+  });
+
+  it('should do nothing without recipients', async () => {
+    expect(await createNotifications([null], {
+      type: 'assigned',
+      case_id: fraudCase.id,
+      actor_id: admin.id,
+      message: 'Case TX-NOTIFY was assigned to you'
+    })).toEqual([]);
+  });
+});
@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { savedViewsTable, usersTable } from '../db/schema';
+import { createSavedView } from '../handlers/create_saved_view';
+import { caseListColumnSchema } from '../schema';
+import { eq } from 'drizzle-orm';
+
+describe('createSavedView', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let analyst: any;
+
+  beforeEach(async () => {
+    [analyst] = await db.insert(usersTable)
+      .values({ username: 'analyst_user', email: 'analyst@test.com', role: 'analyst' })
+      .returning()
+      .execute();
+  });
+
+  it('should save filters, sort and columns', async () => {
+    const view = await createSavedView({
+      owner_id: analyst.id,
+      name: 'Unassigned high+ older than a day',
+      filters: { assigned_to: null, min_priority: 'high', min_age_hours: 24, created_from: new Date('2026-01-01T00:00:00Z') },
+      sort: [{ field: 'priority', direction: 'desc' }],
+      columns: ['txid', 'priority'],
+      shared: true
+    });
+
+    expect(view.owner_id).toEqual(analyst.id);
+    expect(view.filters).toEqual({ assigned_to: null, min_priority: 'high', min_age_hours: 24, created_from: new Date('2026-01-01T00:00:00Z') });
+    expect(view.sort).toEqual([{ field: 'priority', direction: 'desc' }]);
+    expect(view.columns).toEqual(['txid', 'priority']);
+    expect(view.shared).toBe(true);
+
+    const rows = await db.select().from(savedViewsTable).where(eq(savedViewsTable.id, view.id)).execute();
+    expect(rows).toHaveLength(1);
+  });
+
+  it('should default to a private view with every column', async () => {
+    const view = await createSavedView({ owner_id: analyst.id, name: 'My open cases', filters: { status: 'open', assigned_to_me: true } });
+
+    expect(view.shared).toBe(false);
+    expect(view.sort).toBeNull();
+    expect(view.columns).toEqual(caseListColumnSchema.options);
+  });
+
+  it('should reject a duplicate name for the same owner', async () => {
+    await createSavedView({ owner_id: analyst.id, name: 'Critical', filters: { priority: 'critical' } });
+
+    await expect(createSavedView({ owner_id: analyst.id, name: 'Critical', filters: {} }))
+      .rejects.toThrow(/already have a view named "Critical"/);
+  });
+});
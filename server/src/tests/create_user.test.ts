@@ -4,6 +4,7 @@ import { db } from '../db';
 import { usersTable } from '../db/schema';
 import { type CreateUserInput } from '../schema';
 import { createUser } from '../handlers/create_user';
+import { verifyPassword } from '../helpers/auth';
 import { eq } from 'drizzle-orm';
 
 // Simple test input
@@ -24,6 +25,7 @@ describe('createUser', () => {
     expect(result.username).toEqual('testuser');
     expect(result.email).toEqual('test@example.com');
     expect(result.role).toEqual('investigator');
+    expect(result.skills).toEqual([]);
     expect(result.id).toBeDefined();
     expect(result.created_at).toBeInstanceOf(Date);
     expect(result.updated_at).toBeInstanceOf(Date);
@@ -120,4 +122,36 @@ describe('createUser', () => {
     expect(result.updated_at >= beforeCreation).toBe(true);
     expect(result.updated_at <= afterCreation).toBe(true);
   });
-});
\ No newline at end of file
+
+  it('should hash the password when provided', async () => {
+    const result = await createUser({ ...testInput, password: 'secret-password' });
+
+    expect(result).not.toHaveProperty('password_hash');
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, result.id))
+      .execute();
+
+    expect(users[0].password_hash).not.toBeNull();
+    expect(users[0].password_hash).not.toEqual('secret-password');
+    expect(await verifyPassword('secret-password', users[0].password_hash!)).toBe(true);
+  });
+
+  it('should leave the password unset when omitted', async () => {
+    const result = await createUser(testInput);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, result.id))
+      .execute();
+
+    expect(users[0].password_hash).toBeNull();
+  });
+
+  it('should store the skills given', async () => {
+    const result = await createUser({ ...testInput, skills: ['wire', 'ach'] });
+
+    expect(result.skills).toEqual(['wire', 'ach']);
+  });
+});
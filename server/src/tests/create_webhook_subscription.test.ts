@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, webhookSubscriptionsTable } from '../db/schema';
+import { createWebhookSubscriptionInputSchema } from '../schema';
+import { createWebhookSubscription } from '../handlers/create_webhook_subscription';
+
+describe('createWebhookSubscription', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let admin: any;
+
+  beforeEach(async () => {
+    [admin] = await db.insert(usersTable)
+      .values({ username: 'admin_user', email: 'admin@test.com', role: 'admin' })
+      .returning()
+      .execute();
+  });
+
+  it('should create an active subscription with the given secret', async () => {
+    const result = await createWebhookSubscription({
+      url: 'https://siem.bank.test/hooks/fraud',
+      secret: 'siem-shared-secret-0123456789',
+      events: ['case.created', 'case.closed', 'case.created'],
+      created_by: admin.id
+    });
+
+    expect(result.url).toEqual('https://siem.bank.test/hooks/fraud');
+    expect(result.secret).toEqual('siem-shared-secret-0123456789');
+    expect(result.events).toEqual(['case.created', 'case.closed']);
+    expect(result.active).toBe(true);
+    expect(result.created_by).toEqual(admin.id);
+
+    const stored = await db.select().from(webhookSubscriptionsTable).execute();
+    expect(stored).toHaveLength(1);
+  });
+
+  it('should generate a secret when none is given', async () => {
+    const first = await createWebhookSubscription({ url: 'https://tickets.bank.test/in', events: ['case.escalated'], created_by: admin.id });
+    const second = await createWebhookSubscription({ url: 'https://tickets.bank.test/in', events: ['case.escalated'], created_by: admin.id });
+
+    expect(first.secret).toMatch(/^[0-9a-f]{64}$/);
+    expect(second.secret).not.toEqual(first.secret);
+  });
+
+  it('should reject invalid input', () => {
+    const valid = { url: 'https://siem.bank.test/hooks', events: ['case.created'], created_by: admin.id };
+
+    expect(createWebhookSubscriptionInputSchema.safeParse(valid).success).toBe(true);
+    expect(createWebhookSubscriptionInputSchema.safeParse({ ...valid, url: 'ftp://siem.bank.test/hooks' }).success).toBe(false);
+    expect(createWebhookSubscriptionInputSchema.safeParse({ ...valid, events: [] }).success).toBe(false);
+    expect(createWebhookSubscriptionInputSchema.safeParse({ ...valid, events: ['case.deleted'] }).success).toBe(false);
+    expect(createWebhookSubscriptionInputSchema.safeParse({ ...valid, secret: 'short' }).success).toBe(false);
+  });
+});
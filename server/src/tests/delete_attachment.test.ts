@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { resetDB, createDB, failInsertsInto } from '../helpers';
+import { db } from '../db';
+import { caseAttachmentsTable, custodyEntriesTable, fraudCasesTable, usersTable } from '../db/schema';
+import { createLocalDiskStorage, setAttachmentStorage } from '../helpers/attachment_storage';
+import { uploadAttachment } from '../handlers/upload_attachment';
+import { deleteAttachment } from '../handlers/delete_attachment';
+
+describe('deleteAttachment', () => {
+  let storageDir: string;
+
+  beforeEach(async () => {
+    await createDB();
+    storageDir = await mkdtemp(join(tmpdir(), 'attachments-'));
+    setAttachmentStorage(createLocalDiskStorage(storageDir));
+  });
+
+  afterEach(async () => {
+    await resetDB();
+    setAttachmentStorage(null);
+    await rm(storageDir, { recursive: true, force: true });
+  });
+
+  it('should remove the record and the stored file', async () => {
+    const [admin] = await db.insert(usersTable)
+      .values({ username: 'admin_user', email: 'admin@test.com', role: 'admin' })
+      .returning()
+      .execute();
+    const [fraudCase] = await db.insert(fraudCasesTable)
+      .values({ txid: 'TX-EVIDENCE', description: 'Case used for attachment tests', priority: 'high', created_by: admin.id })
+      .returning()
+      .execute();
+    const attachment = await uploadAttachment({
+      case_id: fraudCase.id,
+      uploaded_by: admin.id,
+      filename: 'wrong-file.pdf',
+      mime_type: 'application/pdf',
+      content_base64: Buffer.from('%PDF-1.4').toString('base64')
+    });
+
+    const result = await deleteAttachment(attachment.id, admin.id);
+
+    expect(result.success).toBe(true);
+    expect(await db.select().from(caseAttachmentsTable).execute()).toHaveLength(0);
+    expect(await readdir(join(storageDir, 'cases', String(fraudCase.id)))).toHaveLength(0);
+  });
+
+  it('should throw for a non-existent attachment', async () => {
+    await expect(deleteAttachment(99999, 1)).rejects.toThrow(/attachment not found/i);
+  });
+
+  it('should keep the attachment when its custody entry cannot be written', async () => {
+    const [admin] = await db.insert(usersTable)
+      .values({ username: 'admin_user', email: 'admin@test.com', role: 'admin' })
+      .returning()
+      .execute();
+    const [fraudCase] = await db.insert(fraudCasesTable)
+      .values({ txid: 'TX-EVIDENCE', description: 'Case used for attachment tests', priority: 'high', created_by: admin.id })
+      .returning()
+      .execute();
+    const attachment = await uploadAttachment({
+      case_id: fraudCase.id,
+      uploaded_by: admin.id,
+      filename: 'statement.pdf',
+      mime_type: 'application/pdf',
+      content_base64: Buffer.from('%PDF-1.4').toString('base64')
+    });
+
+    await failInsertsInto(custodyEntriesTable);
+
+    await expect(deleteAttachment(attachment.id, admin.id)).rejects.toThrow('Injected failure writing to custody_entries');
+
+    expect(await db.select().from(caseAttachmentsTable).execute()).toHaveLength(1);
+    expect(await readdir(join(storageDir, 'cases', String(fraudCase.id)))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { caseNoteMentionsTable, caseNotesTable, fraudCasesTable, usersTable } from '../db/schema';
+import { createCaseNote } from '../handlers/create_case_note';
+import { deleteCaseNote } from '../handlers/delete_case_note';
+
+describe('deleteCaseNote', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let admin: any;
+  let investigator: any;
+  let analyst: any;
+  let fraudCase: any;
+
+  beforeEach(async () => {
+    [admin, investigator, analyst] = await db.insert(usersTable)
+      .values([
+        { username: 'admin_user', email: 'admin@test.com', role: 'admin' },
+        { username: 'investigator_user', email: 'investigator@test.com', role: 'investigator' },
+        { username: 'analyst_user', email: 'analyst@test.com', role: 'analyst' }
+      ])
+      .returning()
+      .execute();
+
+    [fraudCase] = await db.insert(fraudCasesTable)
+      .values({ txid: 'TX-NOTES', description: 'Case used for note tests', priority: 'medium', created_by: investigator.id })
+      .returning()
+      .execute();
+  });
+
+  const addNote = (authorId: number, body: string, parentId?: number) =>
+    createCaseNote({ case_id: fraudCase.id, author_id: authorId, parent_id: parentId, body, visibility: 'internal' });
+
+  it('should delete a note together with its replies and mentions', async () => {
+    const root = await addNote(investigator.id, 'Asked @analyst_user to review');
+    await addNote(investigator.id, 'Review done', root.id);
+    const unrelated = await addNote(investigator.id, 'Separate thread');
+
+    const result = await deleteCaseNote(root.id, investigator.id);
+
+    expect(result.success).toBe(true);
+
+    const remaining = await db.select().from(caseNotesTable).execute();
+    expect(remaining.map(note => note.id)).toEqual([unrelated.id]);
+
+    const mentions = await db.select().from(caseNoteMentionsTable).execute();
+    expect(mentions).toHaveLength(0);
+  });
+
+  it('should let admins delete any note', async () => {
+    const note = await addNote(investigator.id, 'Note written by an investigator');
+
+    const result = await deleteCaseNote(note.id, admin.id);
+
+    expect(result.success).toBe(true);
+  });
+
+  it('should not let other users delete a note', async () => {
+    const note = await addNote(investigator.id, 'Note written by an investigator');
+
+    await expect(deleteCaseNote(note.id, analyst.id)).rejects.toThrow(/insufficient permissions/i);
+
+    const remaining = await db.select().from(caseNotesTable).execute();
+    expect(remaining).toHaveLength(1);
+  });
+
+  it('should throw for a non-existent note', async () => {
+    await expect(deleteCaseNote(99999, admin.id)).rejects.toThrow(/note not found/i);
+  });
+});
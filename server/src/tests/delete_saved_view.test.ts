@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { defaultSavedViewsTable, savedViewsTable, usersTable } from '../db/schema';
+import { createSavedView } from '../handlers/create_saved_view';
+import { deleteSavedView } from '../handlers/delete_saved_view';
+import { setDefaultSavedView } from '../handlers/set_default_saved_view';
+
+describe('deleteSavedView', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let owner: any;
+  let colleague: any;
+  let admin: any;
+  let view: any;
+
+  beforeEach(async () => {
+    [owner, colleague, admin] = await db.insert(usersTable)
+      .values([
+        { username: 'analyst_user', email: 'analyst@test.com', role: 'analyst' },
+        { username: 'investigator_user', email: 'investigator@test.com', role: 'investigator' },
+        { username: 'admin_user', email: 'admin@test.com', role: 'admin' }
+      ])
+      .returning()
+      .execute();
+
+    view = await createSavedView({ owner_id: owner.id, name: 'Team queue', filters: { assigned_to: null }, shared: true });
+  });
+
+  it('should delete the view and any defaults pointing at it', async () => {
+    await setDefaultSavedView(view.id, colleague.id);
+
+    const result = await deleteSavedView(view.id, owner.id);
+
+    expect(result.success).toBe(true);
+    expect(await db.select().from(savedViewsTable).execute()).toHaveLength(0);
+    expect(await db.select().from(defaultSavedViewsTable).execute()).toHaveLength(0);
+  });
+
+  it('should let an admin delete another user\'s view', async () => {
+    await deleteSavedView(view.id, admin.id);
+
+    expect(await db.select().from(savedViewsTable).execute()).toHaveLength(0);
+  });
+
+  it('should not let other users delete a shared view', async () => {
+    await expect(deleteSavedView(view.id, colleague.id)).rejects.toThrow(/insufficient permissions/i);
+  });
+
+  it('should throw for a non-existent view', async () => {
+    await expect(deleteSavedView(99999, owner.id)).rejects.toThrow(/saved view not found/i);
+  });
+});
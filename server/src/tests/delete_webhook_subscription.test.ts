@@ -0,0 +1,37 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { fraudCasesTable, usersTable, webhookDeliveriesTable, webhookSubscriptionsTable } from '../db/schema';
+import { createWebhookSubscription } from '../handlers/create_webhook_subscription';
+import { deleteWebhookSubscription } from '../handlers/delete_webhook_subscription';
+import { queueWebhookEvent } from '../handlers/webhook_delivery';
+
+describe('deleteWebhookSubscription', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should delete the subscription with its delivery log', async () => {
+    const [admin] = await db.insert(usersTable)
+      .values({ username: 'admin_user', email: 'admin@test.com', role: 'admin' })
+      .returning()
+      .execute();
+    const [fraudCase] = await db.insert(fraudCasesTable)
+      .values({ txid: 'TX-HOOK-DEL', description: 'Queued before the endpoint was retired', priority: 'low', created_by: admin.id })
+      .returning()
+      .execute();
+
+    const retired = await createWebhookSubscription({ url: 'https://old.bank.test/hooks', events: ['case.created'], created_by: admin.id });
+    const kept = await createWebhookSubscription({ url: 'https://siem.bank.test/hooks', events: ['case.created'], created_by: admin.id });
+    await queueWebhookEvent('case.created', { case: fraudCase });
+
+    const result = await deleteWebhookSubscription(retired.id);
+
+    expect(result.success).toBe(true);
+    expect((await db.select().from(webhookSubscriptionsTable).execute()).map(s => s.id)).toEqual([kept.id]);
+    expect((await db.select().from(webhookDeliveriesTable).execute()).map(d => d.subscription_id)).toEqual([kept.id]);
+  });
+
+  it('should throw for an unknown subscription', async () => {
+    await expect(deleteWebhookSubscription(999)).rejects.toThrow(/Webhook subscription not found/);
+  });
+});
@@ -0,0 +1,346 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { createServer, type AddressInfo } from 'node:net';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { emailDeliveriesTable, fraudCasesTable, notificationPreferencesTable, usersTable } from '../db/schema';
+import {
+  EMAIL_RETRY_DELAYS_MINUTES,
+  processEmailOutbox,
+  queueEmailDigests
+} from '../handlers/email_delivery';
+import { assignCase } from '../handlers/assign_case';
+import { escalateCase } from '../handlers/escalate_case';
+import { updateNotificationPreferences } from '../handlers/update_notification_preferences';
+import { startEmailDeliveryScheduler } from '../email_delivery_scheduler';
+import { createSmtpTransport, setMailTransport, type MailMessage, type MailTransport } from '../helpers/mail_transport';
+import { eq } from 'drizzle-orm';
+
+const MINUTE = 60_000;
+
+interface ReceivedMail {
+  auth: string | null;
+  from: string;
+  to: string[];
+  data: string;
+}
+
+// Local SMTP stand-in that records what it receives, in the manner of MailHog
+const startSmtpStandIn = (options: { rejectRecipients?: boolean; dropOnQuit?: boolean } = {}) =>
+  new Promise<{ port: number; received: ReceivedMail[]; close: () => Promise<void> }>(resolve => {
+    const received: ReceivedMail[] = [];
+
+    const server = createServer(socket => {
+      let buffer = '';
+      let inData = false;
+      let mail: ReceivedMail = { auth: null, from: '', to: [], data: '' };
+      const reply = (line: string) => socket.write(`${line}\r\n`);
+
+      reply('220 stand-in ESMTP');
+      socket.on('data', chunk => {
+        buffer += chunk.toString('utf8');
+        let end: number;
+        while ((end = buffer.indexOf('\r\n')) !== -1) {
+          const line = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+
+          if (inData) {
+            if (line === '.') {
+              inData = false;
+              received.push(mail);
+              mail = { auth: null, from: '', to: [], data: '' };
+              reply('250 Queued');
+            } else {
+              mail.data += `${line.replace(/^\./, '')}\n`;
+            }
+            continue;
+          }
+
+          const [verb, ...args] = line.split(' ');
+          switch (verb.toUpperCase()) {
+            case 'EHLO':
+              reply('250-stand-in');
+              reply('250 AUTH PLAIN');
+              break;
+            case 'AUTH':
+              mail.auth = Buffer.from(args[1], 'base64').toString('utf8');
+              reply('235 Authenticated');
+              break;
+            case 'MAIL':
+              mail.from = line.slice('MAIL FROM:'.length);
+              reply('250 OK');
+              break;
+            case 'RCPT':
+              if (options.rejectRecipients) {
+                reply('550 No such mailbox');
+              } else {
+                mail.to.push(line.slice('RCPT TO:'.length));
+                reply('250 OK');
+              }
+              break;
+            case 'DATA':
+              inData = true;
+              reply('354 End data with <CR><LF>.<CR><LF>');
+              break;
+            case 'QUIT':
+              if (options.dropOnQuit) {
+                socket.destroy();
+                return;
+              }
+              reply('221 Bye');
+              socket.end();
+              break;
+            default:
+              reply('502 Command not implemented');
+          }
+        }
+      });
+    });
+
+    server.listen(0, '127.0.0.1', () => resolve({
+      port: (server.address() as AddressInfo).port,
+      received,
+      close: () => new Promise<void>(done => server.close(() => done()))
+    }));
+  });
+
+describe('email delivery', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+  afterEach(() => setMailTransport(undefined));
+
+  let admin: any;
+  let investigator: any;
+  let sent: MailMessage[];
+
+  const recordingTransport: MailTransport = {
+    async send(message) {
+      sent.push(message);
+    }
+  };
+
+  beforeEach(async () => {
+    sent = [];
+    setMailTransport(recordingTransport);
+
+    [admin, investigator] = await db.insert(usersTable)
+      .values([
+        { username: 'admin_user', email: 'admin@test.com', role: 'admin' },
+        { username: 'investigator_user', email: 'investigator@test.com', role: 'investigator' }
+      ])
+      .returning()
+      .execute();
+  });
+
+  const insertCase = async (priority: 'medium' | 'critical', txid = `TX-MAIL-${priority}`) => {
+    const [fraudCase] = await db.insert(fraudCasesTable)
+      .values({ txid, description: 'Card used at three fuel stations within an hour', priority, created_by: admin.id })
+      .returning()
+      .execute();
+    return fraudCase;
+  };
+
+  const deliveries = () => db.select().from(emailDeliveriesTable).execute();
+
+  it('should queue an email for critical cases assigned to the recipient by default', async () => {
+    const critical = await insertCase('critical');
+    const medium = await insertCase('medium');
+
+    await assignCase(critical.id, investigator.id, admin.id);
+    await assignCase(medium.id, investigator.id, admin.id);
+
+    const queued = await deliveries();
+    expect(queued).toHaveLength(1);
+    expect(queued[0]).toMatchObject({
+      user_id: investigator.id,
+      to_address: 'investigator@test.com',
+      subject: '[critical] Case TX-MAIL-critical assigned to you',
+      status: 'pending',
+      attempts: 0
+    });
+    expect(queued[0].body).toContain('Hello investigator_user,');
+    expect(queued[0].body).toContain('Card used at three fuel stations');
+  });
+
+  it('should follow the recipient\'s preferences', async () => {
+    const medium = await insertCase('medium');
+
+    await updateNotificationPreferences({ user_id: investigator.id, min_priority: 'medium', email_types: ['escalated'] });
+    await assignCase(medium.id, investigator.id, admin.id);
+    expect(await deliveries()).toHaveLength(0);
+
+    await escalateCase({ case_id: medium.id, escalated_by: admin.id, escalated_to: investigator.id, new_priority: 'medium', reason: 'Needs a second look' });
+    expect(await deliveries()).toHaveLength(1);
+
+    await updateNotificationPreferences({ user_id: investigator.id, email_mode: 'off' });
+    await escalateCase({ case_id: medium.id, escalated_by: admin.id, escalated_to: investigator.id, new_priority: 'high', reason: 'Needs a third look' });
+    expect(await deliveries()).toHaveLength(1);
+  });
+
+  it('should not queue emails while no transport is configured', async () => {
+    setMailTransport(null);
+    const critical = await insertCase('critical');
+
+    await assignCase(critical.id, investigator.id, admin.id);
+
+    expect(await deliveries()).toHaveLength(0);
+  });
+
+  it('should send due emails and retry failed sends with a backoff', async () => {
+    const critical = await insertCase('critical');
+    await assignCase(critical.id, investigator.id, admin.id);
+
+    const failing: MailTransport = {
+      async send() {
+        throw new Error('Connection refused');
+      }
+    };
+
+    let now = new Date();
+    expect(await processEmailOutbox(now, failing)).toEqual({ sent: 0, retrying: 1, failed: 0 });
+
+    let [delivery] = await deliveries();
+    expect(delivery.attempts).toEqual(1);
+    expect(delivery.last_error).toEqual('Connection refused');
+    expect(delivery.next_attempt_at).toEqual(new Date(now.getTime() + EMAIL_RETRY_DELAYS_MINUTES[0] * MINUTE));
+
+    // Not due yet
+    expect(await processEmailOutbox(now, recordingTransport)).toEqual({ sent: 0, retrying: 0, failed: 0 });
+
+    now = delivery.next_attempt_at;
+    expect(await processEmailOutbox(now, recordingTransport)).toEqual({ sent: 1, retrying: 0, failed: 0 });
+
+    [delivery] = await deliveries();
+    expect(delivery.status).toEqual('sent');
+    expect(delivery.attempts).toEqual(2);
+    expect(delivery.sent_at).toBeInstanceOf(Date);
+    expect(sent).toHaveLength(1);
+    expect(sent[0].to).toEqual('investigator@test.com');
+  });
+
+  it('should give up after the last retry', async () => {
+    const critical = await insertCase('critical');
+    await assignCase(critical.id, investigator.id, admin.id);
+
+    const failing: MailTransport = {
+      async send() {
+        throw new Error('Mailbox unavailable');
+      }
+    };
+
+    for (let attempt = 0; attempt <= EMAIL_RETRY_DELAYS_MINUTES.length; attempt++) {
+      const [delivery] = await deliveries();
+      await processEmailOutbox(delivery.next_attempt_at, failing);
+    }
+
+    const [delivery] = await deliveries();
+    expect(delivery.status).toEqual('failed');
+    expect(delivery.attempts).toEqual(EMAIL_RETRY_DELAYS_MINUTES.length + 1);
+  });
+
+  it('should gather notifications of digest users into one email a day', async () => {
+    await updateNotificationPreferences({ user_id: investigator.id, email_mode: 'digest', min_priority: 'low' });
+    const [preferences] = await db.select().from(notificationPreferencesTable).execute();
+    const digestStart = preferences.last_digest_at!;
+
+    const first = await insertCase('medium', 'TX-DIGEST-1');
+    const second = await insertCase('critical', 'TX-DIGEST-2');
+    await assignCase(first.id, investigator.id, admin.id);
+    await assignCase(second.id, investigator.id, admin.id);
+    expect(await deliveries()).toHaveLength(0);
+
+    expect(await queueEmailDigests(new Date(digestStart.getTime() + 60 * MINUTE))).toEqual(0);
+
+    const dayLater = new Date(digestStart.getTime() + 24 * 60 * MINUTE);
+    expect(await queueEmailDigests(dayLater)).toEqual(1);
+    expect(await queueEmailDigests(dayLater)).toEqual(0);
+
+    const [digest] = await deliveries();
+    expect(digest.notification_id).toBeNull();
+    expect(digest.subject).toEqual('2 new notifications in the Fraud Case Management System');
+    expect(digest.body.indexOf('TX-DIGEST-1')).toBeLessThan(digest.body.indexOf('TX-DIGEST-2'));
+  });
+
+  it('should deliver through SMTP to a local stand-in', async () => {
+    const standIn = await startSmtpStandIn();
+    try {
+      const transport = createSmtpTransport({
+        host: '127.0.0.1',
+        port: standIn.port,
+        username: 'mailer',
+        password: 'secret',
+        from: 'Fraud Desk <fraud@bank.test>'
+      });
+
+      const critical = await insertCase('critical');
+      await escalateCase({ case_id: critical.id, escalated_by: admin.id, escalated_to: investigator.id, new_priority: 'critical', reason: 'Café owner reports .more charges' });
+
+      expect(await processEmailOutbox(new Date(), transport)).toEqual({ sent: 1, retrying: 0, failed: 0 });
+
+      expect(standIn.received).toHaveLength(1);
+      const [mail] = standIn.received;
+      expect(mail.auth).toEqual('\0mailer\0secret');
+      expect(mail.from).toEqual('<fraud@bank.test>');
+      expect(mail.to).toEqual(['<investigator@test.com>']);
+      expect(mail.data).toContain('Subject: [critical] Case TX-MAIL-critical escalated to you');
+      expect(mail.data).toContain('Content-Transfer-Encoding: base64');
+
+      const body = Buffer.from(mail.data.split('\n\n').slice(1).join('').replace(/\s+/g, ''), 'base64').toString('utf8');
+      expect(body).toContain('Café owner reports .more charges');
+    } finally {
+      await standIn.close();
+    }
+  });
+
+  it('should count a message as sent once the server accepts the data', async () => {
+    const standIn = await startSmtpStandIn({ dropOnQuit: true });
+    try {
+      const transport = createSmtpTransport({ host: '127.0.0.1', port: standIn.port, from: 'fraud@bank.test' });
+
+      const critical = await insertCase('critical');
+      await assignCase(critical.id, investigator.id, admin.id);
+
+      expect(await processEmailOutbox(new Date(), transport)).toEqual({ sent: 1, retrying: 0, failed: 0 });
+      expect(standIn.received).toHaveLength(1);
+      const [delivery] = await deliveries();
+      expect(delivery.last_error).toBeNull();
+    } finally {
+      await standIn.close();
+    }
+  });
+
+  it('should report SMTP rejections as failed attempts', async () => {
+    const standIn = await startSmtpStandIn({ rejectRecipients: true });
+    try {
+      const transport = createSmtpTransport({ host: '127.0.0.1', port: standIn.port, from: 'fraud@bank.test' });
+
+      const critical = await insertCase('critical');
+      await assignCase(critical.id, investigator.id, admin.id);
+
+      expect(await processEmailOutbox(new Date(), transport)).toEqual({ sent: 0, retrying: 1, failed: 0 });
+      const [delivery] = await deliveries();
+      expect(delivery.last_error).toEqual('SMTP RCPT rejected: 550 No such mailbox');
+    } finally {
+      await standIn.close();
+    }
+  });
+
+  it('should send queued emails on a schedule', async () => {
+    const critical = await insertCase('critical');
+    await assignCase(critical.id, investigator.id, admin.id);
+
+    const result = await new Promise(resolve => {
+      const stop = startEmailDeliveryScheduler({
+        intervalMs: 10,
+        transport: recordingTransport,
+        onRun: (outcome) => {
+          stop();
+          resolve(outcome);
+        }
+      });
+    });
+
+    expect(result).toEqual({ sent: 1, retrying: 0, failed: 0 });
+    const [delivery] = await db.select().from(emailDeliveriesTable).where(eq(emailDeliveriesTable.user_id, investigator.id)).execute();
+    expect(delivery.status).toEqual('sent');
+  });
+});
@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
-import { resetDB, createDB } from '../helpers';
+import { resetDB, createDB, failInsertsInto } from '../helpers';
 import { db } from '../db';
-import { usersTable, fraudCasesTable, caseEscalationsTable } from '../db/schema';
+import { usersTable, fraudCasesTable, caseEscalationsTable, caseEventsTable, notificationsTable } from '../db/schema';
 import { type EscalateCaseInput } from '../schema';
 import { escalateCase } from '../handlers/escalate_case';
 import { eq } from 'drizzle-orm';
@@ -28,6 +28,11 @@ describe('escalateCase', () => {
           username: 'admin1',
           email: 'admin1@example.com',
           role: 'admin'
+        },
+        {
+          username: 'senior_investigator',
+          email: 'senior@example.com',
+          role: 'investigator'
         }
       ])
       .returning()
@@ -60,7 +65,7 @@ describe('escalateCase', () => {
     const escalationInput: EscalateCaseInput = {
       case_id: testCase.id,
       escalated_by: users[0].id,
-      escalated_to: users[2].id,
+      escalated_to: users[3].id,
       new_status: 'escalated',
       new_priority: 'high',
       reason: 'Complex fraud pattern detected requiring senior review'
@@ -72,13 +77,13 @@ describe('escalateCase', () => {
     expect(result.case.id).toEqual(testCase.id);
     expect(result.case.status).toEqual('escalated');
     expect(result.case.priority).toEqual('high');
-    expect(result.case.assigned_to).toEqual(users[2].id);
+    expect(result.case.assigned_to).toEqual(users[3].id);
     expect(result.case.updated_at).toBeInstanceOf(Date);
 
     // Verify escalation record
     expect(result.escalation.case_id).toEqual(testCase.id);
     expect(result.escalation.escalated_by).toEqual(users[0].id);
-    expect(result.escalation.escalated_to).toEqual(users[2].id);
+    expect(result.escalation.escalated_to).toEqual(users[3].id);
     expect(result.escalation.previous_status).toEqual('open');
     expect(result.escalation.new_status).toEqual('escalated');
     expect(result.escalation.previous_priority).toEqual('medium');
@@ -87,6 +92,34 @@ describe('escalateCase', () => {
     expect(result.escalation.created_at).toBeInstanceOf(Date);
   });
 
+  it('should notify the user the case is escalated to', async () => {
+    const users = await createTestUsers();
+    const testCase = await createTestCase(users[0].id);
+
+    await escalateCase({
+      case_id: testCase.id,
+      escalated_by: users[0].id,
+      escalated_to: users[3].id,
+      new_priority: 'high',
+      reason: 'Complex fraud pattern detected'
+    });
+    await escalateCase({
+      case_id: testCase.id,
+      escalated_by: users[0].id,
+      new_priority: 'critical',
+      reason: 'Amounts keep growing'
+    });
+
+    const notifications = await db.select().from(notificationsTable).execute();
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0]).toMatchObject({
+      user_id: users[3].id,
+      type: 'escalated',
+      actor_id: users[0].id,
+      message: 'Case TXN-12345 was escalated to you: Complex fraud pattern detected'
+    });
+  });
+
   it('should escalate case priority only without changing status', async () => {
     const users = await createTestUsers();
     const testCase = await createTestCase(users[0].id);
@@ -107,7 +140,7 @@ describe('escalateCase', () => {
 
     // Escalation should record the change correctly
     expect(result.escalation.previous_status).toEqual('open');
-    expect(result.escalation.new_status).toEqual('escalated'); // Default value
+    expect(result.escalation.new_status).toEqual('open'); // The status the case kept
     expect(result.escalation.previous_priority).toEqual('medium');
     expect(result.escalation.new_priority).toEqual('critical');
     expect(result.escalation.escalated_to).toBeNull();
@@ -120,7 +153,7 @@ describe('escalateCase', () => {
     const escalationInput: EscalateCaseInput = {
       case_id: testCase.id,
       escalated_by: users[1].id,
-      escalated_to: users[2].id,
+      escalated_to: users[3].id,
       new_status: 'in_progress',
       new_priority: 'high',
       reason: 'Escalating to senior investigator for immediate attention'
@@ -137,7 +170,7 @@ describe('escalateCase', () => {
     expect(savedEscalations).toHaveLength(1);
     expect(savedEscalations[0].case_id).toEqual(testCase.id);
     expect(savedEscalations[0].escalated_by).toEqual(users[1].id);
-    expect(savedEscalations[0].escalated_to).toEqual(users[2].id);
+    expect(savedEscalations[0].escalated_to).toEqual(users[3].id);
     expect(savedEscalations[0].reason).toEqual('Escalating to senior investigator for immediate attention');
 
     // Verify case was updated in database
@@ -149,7 +182,7 @@ describe('escalateCase', () => {
     expect(updatedCases).toHaveLength(1);
     expect(updatedCases[0].status).toEqual('in_progress');
     expect(updatedCases[0].priority).toEqual('high');
-    expect(updatedCases[0].assigned_to).toEqual(users[2].id);
+    expect(updatedCases[0].assigned_to).toEqual(users[3].id);
   });
 
   it('should handle escalation of already escalated case', async () => {
@@ -173,10 +206,10 @@ describe('escalateCase', () => {
     const escalationInput: EscalateCaseInput = {
       case_id: testCase.id,
       escalated_by: users[1].id,
-      escalated_to: users[2].id,
-      new_status: 'resolved',
+      escalated_to: users[3].id,
+      new_status: 'in_progress',
       new_priority: 'critical',
-      reason: 'Further escalation to admin due to complexity'
+      reason: 'Further escalation to a senior investigator due to complexity'
     };
 
     const result = await escalateCase(escalationInput);
@@ -184,12 +217,43 @@ describe('escalateCase', () => {
     // Should record the previous escalated state
     expect(result.escalation.previous_status).toEqual('escalated');
     expect(result.escalation.previous_priority).toEqual('high');
-    expect(result.escalation.new_status).toEqual('resolved');
+    expect(result.escalation.new_status).toEqual('in_progress');
     expect(result.escalation.new_priority).toEqual('critical');
     
-    expect(result.case.status).toEqual('resolved');
+    expect(result.case.status).toEqual('in_progress');
     expect(result.case.priority).toEqual('critical');
-    expect(result.case.assigned_to).toEqual(users[2].id);
+    expect(result.case.assigned_to).toEqual(users[3].id);
+  });
+
+  it('should reject resolving a case through escalation without a disposition', async () => {
+    const users = await createTestUsers();
+
+    const caseResults = await db.insert(fraudCasesTable)
+      .values({
+        txid: 'TXN-NO-DISPOSITION',
+        description: 'Escalated case without an outcome',
+        status: 'escalated',
+        priority: 'high',
+        created_by: users[0].id,
+        assigned_to: users[1].id
+      })
+      .returning()
+      .execute();
+
+    await expect(escalateCase({
+      case_id: caseResults[0].id,
+      escalated_by: users[1].id,
+      new_status: 'resolved',
+      new_priority: 'critical',
+      reason: 'Resolving while escalating the case'
+    })).rejects.toThrow(/disposition is required/i);
+
+    const escalations = await db.select()
+      .from(caseEscalationsTable)
+      .where(eq(caseEscalationsTable.case_id, caseResults[0].id))
+      .execute();
+
+    expect(escalations).toHaveLength(0);
   });
 
   it('should throw error when case does not exist', async () => {
@@ -223,4 +287,146 @@ describe('escalateCase', () => {
     expect(result.case.assigned_to).toBeNull();
     expect(result.case.priority).toEqual('high');
   });
-});
\ No newline at end of file
+
+  it('should reject a status change outside the workflow', async () => {
+    const users = await createTestUsers();
+    const testCase = await createTestCase(users[0].id);
+
+    const escalationInput: EscalateCaseInput = {
+      case_id: testCase.id,
+      escalated_by: users[2].id,
+      new_status: 'closed',
+      new_priority: 'high',
+      reason: 'Attempting to close through an escalation'
+    };
+
+    await expect(escalateCase(escalationInput)).rejects.toThrow(/cannot move case from open to closed/i);
+
+    const escalations = await db.select()
+      .from(caseEscalationsTable)
+      .where(eq(caseEscalationsTable.case_id, testCase.id))
+      .execute();
+
+    expect(escalations).toHaveLength(0);
+  });
+
+  it('should throw error when escalating user does not exist', async () => {
+    const users = await createTestUsers();
+    const testCase = await createTestCase(users[0].id);
+
+    const escalationInput: EscalateCaseInput = {
+      case_id: testCase.id,
+      escalated_by: 99999,
+      new_priority: 'high',
+      reason: 'Escalation by unknown user'
+    };
+
+    await expect(escalateCase(escalationInput)).rejects.toThrow(/User with ID 99999 not found/i);
+  });
+
+  it('should refuse escalators who cannot see the case', async () => {
+    const [analyst, investigator] = await createTestUsers();
+    const testCase = await createTestCase(investigator.id);
+
+    await expect(escalateCase({
+      case_id: testCase.id,
+      escalated_by: analyst.id,
+      new_priority: 'critical',
+      reason: 'Escalating a case I was never given'
+    })).rejects.toThrow(/insufficient permissions/i);
+
+    expect(await db.select().from(caseEscalationsTable).execute()).toHaveLength(0);
+  });
+
+  it('should only escalate to existing investigators and analysts', async () => {
+    const [analyst, , admin] = await createTestUsers();
+    const testCase = await createTestCase(analyst.id);
+    const [viewer] = await db.insert(usersTable)
+      .values({ username: 'viewer1', email: 'viewer1@example.com', role: 'viewer' })
+      .returning()
+      .execute();
+
+    const escalateTo = (escalatedTo: number) => escalateCase({
+      case_id: testCase.id,
+      escalated_by: analyst.id,
+      escalated_to: escalatedTo,
+      new_priority: 'high',
+      reason: 'Needs someone with more experience'
+    });
+
+    await expect(escalateTo(99999)).rejects.toThrow(/User with ID 99999 not found/i);
+    await expect(escalateTo(viewer.id)).rejects.toThrow(/only be escalated to investigators or analysts/i);
+    await expect(escalateTo(admin.id)).rejects.toThrow(/only be escalated to investigators or analysts/i);
+
+    const [current] = await db.select().from(fraudCasesTable).where(eq(fraudCasesTable.id, testCase.id)).execute();
+    expect(current.assigned_to).toBeNull();
+    expect(await db.select().from(caseEscalationsTable).execute()).toHaveLength(0);
+  });
+
+  it('should reject a stale expected version without recording the escalation', async () => {
+    const [analyst, , admin] = await createTestUsers();
+    const testCase = await createTestCase(admin.id);
+    await db.update(fraudCasesTable)
+      .set({ description: 'Edited by someone else', version: testCase.version + 1 })
+      .where(eq(fraudCasesTable.id, testCase.id))
+      .execute();
+
+    const input: EscalateCaseInput = {
+      case_id: testCase.id,
+      escalated_by: admin.id,
+      escalated_to: analyst.id,
+      new_priority: 'critical',
+      reason: 'Linked to a known mule account',
+      expected_version: testCase.version
+    };
+
+    await expect(escalateCase(input)).rejects.toMatchObject({ code: 'CONFLICT' });
+    expect(await db.select().from(caseEscalationsTable).execute()).toHaveLength(0);
+
+    const { case: escalated } = await escalateCase({ ...input, expected_version: testCase.version + 1 });
+    expect(escalated.priority).toEqual('critical');
+    expect(escalated.version).toEqual(testCase.version + 2);
+  });
+
+  it('should not record an escalation when the case history cannot be written', async () => {
+    const [analyst, , admin] = await createTestUsers();
+    const testCase = await createTestCase(admin.id);
+    await failInsertsInto(caseEventsTable);
+
+    await expect(escalateCase({
+      case_id: testCase.id,
+      escalated_by: admin.id,
+      escalated_to: analyst.id,
+      new_priority: 'critical',
+      reason: 'Linked to a known mule account'
+    })).rejects.toThrow('Injected failure writing to case_events');
+
+    // Neither the escalation nor the case change survive
+    expect(await db.select().from(caseEscalationsTable).execute()).toHaveLength(0);
+    expect(await db.select().from(notificationsTable).execute()).toHaveLength(0);
+    const [stored] = await db.select().from(fraudCasesTable).where(eq(fraudCasesTable.id, testCase.id)).execute();
+    expect(stored.priority).toEqual('medium');
+    expect(stored.assigned_to).toBeNull();
+    expect(stored.version).toEqual(testCase.version);
+  });
+
+  it('should apply concurrent escalations of a case one after the other', async () => {
+    const [analyst, investigator, admin] = await createTestUsers();
+    const testCase = await createTestCase(admin.id);
+
+    await Promise.all([
+      escalateCase({ case_id: testCase.id, escalated_by: admin.id, escalated_to: analyst.id, new_priority: 'high', reason: 'Second card compromised' }),
+      escalateCase({ case_id: testCase.id, escalated_by: admin.id, escalated_to: investigator.id, new_priority: 'critical', reason: 'Linked to a mule account' })
+    ]);
+
+    // Whichever ran second saw the priority the first one left
+    const escalations = await db.select().from(caseEscalationsTable).orderBy(caseEscalationsTable.id).execute();
+    expect(escalations).toHaveLength(2);
+    expect(escalations[0].previous_priority).toEqual('medium');
+    expect(escalations[1].previous_priority).toEqual(escalations[0].new_priority);
+
+    const [stored] = await db.select().from(fraudCasesTable).where(eq(fraudCasesTable.id, testCase.id)).execute();
+    expect(stored.version).toEqual(testCase.version + 2);
+    expect(stored.priority).toEqual(escalations[1].new_priority);
+  });
+});
@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { caseEscalationsTable, caseNotesTable, fraudCasesTable, transactionsTable, usersTable } from '../db/schema';
+import { exportCasePacket } from '../handlers/export_case_packet';
+
+describe('exportCasePacket', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let investigator: any;
+  let viewer: any;
+  let fraudCase: any;
+
+  beforeEach(async () => {
+    [investigator, viewer] = await db.insert(usersTable)
+      .values([
+        { username: 'investigator_user', email: 'investigator@test.com', role: 'investigator' },
+        { username: 'viewer_user', email: 'viewer@test.com', role: 'viewer' }
+      ])
+      .returning()
+      .execute();
+
+    [fraudCase] = await db.insert(fraudCasesTable)
+      .values({
+        txid: 'TX-PACKET',
+        description: 'Account takeover followed by wire transfers (two attempts)',
+        priority: 'critical',
+        status: 'resolved',
+        disposition: 'confirmed_fraud',
+        resolution_note: 'Customer reimbursed, credentials reset',
+        recovered_amount: 2500,
+        created_by: investigator.id
+      })
+      .returning()
+      .execute();
+
+    await db.insert(transactionsTable)
+      .values({ case_id: fraudCase.id, txid: 'TX-PACKET', amount: 5000, currency: 'USD', channel: 'wire', counterparty: 'ACC-MULE-9' })
+      .execute();
+
+    await db.insert(caseEscalationsTable)
+      .values({
+        case_id: fraudCase.id,
+        escalated_by: investigator.id,
+        previous_status: 'in_progress',
+        new_status: 'escalated',
+        previous_priority: 'high',
+        new_priority: 'critical',
+        reason: 'Funds still moving between mule accounts'
+      })
+      .execute();
+
+    await db.insert(caseNotesTable)
+      .values([
+        { case_id: fraudCase.id, author_id: investigator.id, body: 'Bank contacted the receiving institution', visibility: 'shareable' },
+        { case_id: fraudCase.id, author_id: investigator.id, body: 'Suspect may be an insider', visibility: 'internal' }
+      ])
+      .execute();
+  });
+
+  it('should render the case as a PDF packet', async () => {
+    const packet = await exportCasePacket(fraudCase.id, investigator.id);
+
+    expect(packet.filename).toEqual(`case-${fraudCase.id}-packet.pdf`);
+    expect(packet.mime_type).toEqual('application/pdf');
+
+    const pdf = Buffer.from(packet.content_base64, 'base64').toString('latin1');
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(pdf).toContain(`(Fraud Case Packet - Case #${fraudCase.id})`);
+    expect(pdf).toContain('\\(two attempts\\)'); // Parentheses are escaped in PDF strings
+    expect(pdf).toContain('5000.00 USD');
+    expect(pdf).toContain('Disposition: confirmed fraud');
+    expect(pdf).toContain('Funds still moving between mule accounts');
+    expect(pdf).toContain('Bank contacted the receiving institution');
+    expect(pdf).not.toContain('Suspect may be an insider');
+  });
+
+  it('should point the cross-reference table at every object', async () => {
+    const pdf = Buffer.from((await exportCasePacket(fraudCase.id, investigator.id)).content_base64, 'base64').toString('latin1');
+
+    const xrefOffset = Number(pdf.match(/startxref\n(\d+)/)![1]);
+    expect(pdf.slice(xrefOffset, xrefOffset + 4)).toEqual('xref');
+
+    const offsets = [...pdf.matchAll(/^(\d{10}) 00000 n $/gm)].map(match => Number(match[1]));
+    offsets.forEach((offset, index) => {
+      expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+    });
+  });
+
+  it('should continue on new pages for long cases', async () => {
+    await db.insert(caseNotesTable)
+      .values(Array.from({ length: 60 }, (_, index) => ({
+        case_id: fraudCase.id,
+        author_id: investigator.id,
+        body: `Shareable update number ${index + 1}`,
+        visibility: 'shareable' as const
+      })))
+      .execute();
+
+    const pdf = Buffer.from((await exportCasePacket(fraudCase.id, investigator.id)).content_base64, 'base64').toString('latin1');
+    const pageCount = Number(pdf.match(/\/Count (\d+)/)![1]);
+
+    expect(pageCount).toBeGreaterThan(1);
+    expect(pdf).toContain(`page ${pageCount} of ${pageCount}`);
+  });
+
+  it('should reject users who cannot see the case', async () => {
+    await expect(exportCasePacket(fraudCase.id, viewer.id)).rejects.toThrow(/insufficient permissions/i);
+  });
+
+  it('should throw for a non-existent case', async () => {
+    await expect(exportCasePacket(99999, investigator.id)).rejects.toThrow(/case not found/i);
+  });
+});
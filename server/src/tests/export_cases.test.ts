@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { createServer, type Server } from 'node:http';
+import { type AddressInfo } from 'node:net';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { fraudCasesTable, sessionsTable, transactionsTable, usersTable } from '../db/schema';
+import { hashSessionToken } from '../helpers/auth';
+import { parseCsv } from '../helpers/csv';
+import { CASE_EXPORT_COLUMNS, streamCaseExport } from '../handlers/export_cases';
+import { handleExportRequest } from '../export_routes';
+
+const collect = async (chunks: AsyncIterable<string>) => {
+  let output = '';
+  for await (const chunk of chunks) output += chunk;
+  return output;
+};
+
+describe('case export', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let investigator: any;
+  let analyst: any;
+
+  beforeEach(async () => {
+    [investigator, analyst] = await db.insert(usersTable)
+      .values([
+        { username: 'investigator_user', email: 'investigator@test.com', role: 'investigator' },
+        { username: 'analyst_user', email: 'analyst@test.com', role: 'analyst' }
+      ])
+      .returning()
+      .execute();
+
+    const cases = await db.insert(fraudCasesTable)
+      .values([
+        { txid: 'TX-EXPORT-1', description: 'Refund abuse, "staged" returns', priority: 'high', created_by: investigator.id, assigned_to: analyst.id },
+        { txid: 'TX-EXPORT-2', description: '=HYPERLINK("http://evil.example")', priority: 'low', created_by: investigator.id },
+        { txid: 'TX-EXPORT-3', description: 'Closed long ago', priority: 'high', status: 'closed', created_by: investigator.id }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(transactionsTable)
+      .values([
+        { case_id: cases[0].id, txid: 'TX-EXPORT-1' },
+        { case_id: cases[0].id, txid: 'TX-EXPORT-1B' },
+        { case_id: cases[1].id, txid: 'TX-EXPORT-2' }
+      ])
+      .execute();
+  });
+
+  it('should export matching cases as CSV', async () => {
+    const rows = parseCsv(await collect(streamCaseExport({ priority: 'high' }, investigator.id, 'csv')));
+
+    expect(rows[0]).toEqual(CASE_EXPORT_COLUMNS);
+    expect(rows).toHaveLength(3);
+    expect(rows[1][1]).toEqual('TX-EXPORT-1');
+    expect(rows[1][2]).toEqual('TX-EXPORT-1;TX-EXPORT-1B');
+    expect(rows[1][3]).toEqual('Refund abuse, "staged" returns');
+    expect(rows[1][6]).toEqual('analyst_user');
+    expect(rows[1][7]).toEqual('investigator_user');
+    expect(rows[2][1]).toEqual('TX-EXPORT-3');
+  });
+
+  it('should only export cases the user can see', async () => {
+    const rows = parseCsv(await collect(streamCaseExport(undefined, analyst.id, 'csv')));
+
+    expect(rows.slice(1).map(row => row[1])).toEqual(['TX-EXPORT-1']);
+  });
+
+  it('should produce spreadsheet-safe CSV in excel format', async () => {
+    const output = await collect(streamCaseExport({ priority: 'low' }, investigator.id, 'excel_csv'));
+
+    expect(output.startsWith('\uFEFF')).toBe(true);
+    const rows = parseCsv(output);
+    expect(rows[1][3]).toEqual(`'=HYPERLINK("http://evil.example")`);
+  });
+
+  it('should guard formula-like values in plain CSV too', async () => {
+    const output = await collect(streamCaseExport({ priority: 'low' }, investigator.id, 'csv'));
+
+    expect(output.startsWith('\uFEFF')).toBe(false);
+    const rows = parseCsv(output);
+    expect(rows[1][3]).toEqual(`'=HYPERLINK("http://evil.example")`);
+  });
+
+  describe('GET /exports/cases.csv', () => {
+    let server: Server;
+    let baseUrl: string;
+    const token = 'export-test-token';
+
+    beforeEach(async () => {
+      await db.insert(sessionsTable)
+        .values({ token_hash: hashSessionToken(token), user_id: investigator.id, expires_at: new Date(Date.now() + 60_000) })
+        .execute();
+
+      server = createServer((req, res) => {
+        handleExportRequest(req, res).then(handled => {
+          if (!handled) {
+            res.statusCode = 404;
+            res.end();
+          }
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should stream the export as an attachment', async () => {
+      const filters = encodeURIComponent(JSON.stringify({ status: 'closed' }));
+      const response = await fetch(`${baseUrl}/exports/cases.csv?filters=${filters}`, {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+
+      expect(response.status).toEqual(200);
+      expect(response.headers.get('content-type')).toEqual('text/csv; charset=utf-8');
+      expect(response.headers.get('content-disposition')).toMatch(/^attachment; filename="fraud-cases-\d{4}-\d{2}-\d{2}\.csv"$/);
+
+      const rows = parseCsv(await response.text());
+      expect(rows.slice(1).map(row => row[1])).toEqual(['TX-EXPORT-3']);
+    });
+
+    it('should deliver exports that outgrow the socket buffer', async () => {
+      await db.insert(fraudCasesTable)
+        .values(Array.from({ length: 1200 }, (_, i) => ({
+          txid: `TX-BULK-${i}`,
+          description: 'x'.repeat(200),
+          priority: 'medium' as const,
+          created_by: investigator.id
+        })))
+        .execute();
+
+      const filters = encodeURIComponent(JSON.stringify({ priority: 'medium' }));
+      const response = await fetch(`${baseUrl}/exports/cases.csv?filters=${filters}`, {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+
+      const rows = parseCsv(await response.text());
+      expect(rows).toHaveLength(1201);
+      expect(rows[1200][1]).toEqual('TX-BULK-1199');
+    });
+
+    it('should require a valid session', async () => {
+      const response = await fetch(`${baseUrl}/exports/cases.csv`);
+
+      expect(response.status).toEqual(401);
+    });
+
+    it('should reject invalid filters', async () => {
+      const response = await fetch(`${baseUrl}/exports/cases.csv?filters=${encodeURIComponent('{"status":"lost"}')}`, {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+
+      expect(response.status).toEqual(400);
+    });
+
+    it('should leave other paths to the API', async () => {
+      const response = await fetch(`${baseUrl}/getFraudCases`);
+
+      expect(response.status).toEqual(404);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { custodyEntriesTable, fraudCasesTable, usersTable } from '../db/schema';
+import { createLocalDiskStorage, setAttachmentStorage } from '../helpers/attachment_storage';
+import { uploadAttachment } from '../handlers/upload_attachment';
+import { exportCustodyReport } from '../handlers/export_custody_report';
+
+describe('exportCustodyReport', () => {
+  let storageDir: string;
+
+  beforeEach(async () => {
+    await createDB();
+    storageDir = await mkdtemp(join(tmpdir(), 'attachments-'));
+    setAttachmentStorage(createLocalDiskStorage(storageDir));
+  });
+
+  afterEach(async () => {
+    await resetDB();
+    setAttachmentStorage(null);
+    await rm(storageDir, { recursive: true, force: true });
+  });
+
+  let investigator: any;
+  let fraudCase: any;
+
+  beforeEach(async () => {
+    [investigator] = await db.insert(usersTable)
+      .values({ username: 'investigator_user', email: 'investigator@test.com', role: 'investigator' })
+      .returning()
+      .execute();
+
+    [fraudCase] = await db.insert(fraudCasesTable)
+      .values({ txid: 'TX-CUSTODY', description: 'Case used for custody tests', priority: 'high', created_by: investigator.id })
+      .returning()
+      .execute();
+
+    await uploadAttachment({
+      case_id: fraudCase.id,
+      uploaded_by: investigator.id,
+      filename: 'statement, march.csv',
+      mime_type: 'text/csv',
+      content_base64: Buffer.from('date,amount\n').toString('base64')
+    });
+  });
+
+  it('should export the ledger as CSV with a verification summary', async () => {
+    const report = await exportCustodyReport(fraudCase.id, investigator.id);
+
+    expect(report.filename).toEqual(`case-${fraudCase.id}-custody-report.csv`);
+    expect(report.mime_type).toEqual('text/csv');
+
+    const lines = report.content.trim().split('\r\n');
+    expect(lines[0]).toEqual(`# Chain of custody report for case #${fraudCase.id} (transaction TX-CUSTODY)`);
+    expect(lines[2]).toEqual('# Chain verification: VALID (1 entries)');
+    expect(lines[3]).toStartWith('entry_id,recorded_at,attachment_id,action,actor');
+    expect(lines).toHaveLength(5);
+    expect(lines[4]).toContain(',uploaded,investigator_user,');
+    // Details contain a comma and quotes, so the field is quoted
+    expect(lines[4]).toContain('"{""filename"":""statement, march.csv""}"');
+  });
+
+  it('should list verification issues in the summary', async () => {
+    await db.update(custodyEntriesTable).set({ action: 'viewed' }).execute();
+
+    const report = await exportCustodyReport(fraudCase.id);
+
+    expect(report.content).toContain('# Chain verification: INVALID (1 entries)');
+    expect(report.content).toMatch(/# Issue: Entry \d+ has been altered/);
+  });
+});
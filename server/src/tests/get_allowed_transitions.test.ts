@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { fraudCasesTable, usersTable } from '../db/schema';
+import { getAllowedTransitions } from '../handlers/get_allowed_transitions';
+
+describe('getAllowedTransitions', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let admin: any;
+  let investigator: any;
+  let analyst: any;
+  let viewer: any;
+
+  beforeEach(async () => {
+    [admin, investigator, analyst, viewer] = await db.insert(usersTable)
+      .values([
+        { username: 'admin_user', email: 'admin@test.com', role: 'admin' },
+        { username: 'investigator_user', email: 'investigator@test.com', role: 'investigator' },
+        { username: 'analyst_user', email: 'analyst@test.com', role: 'analyst' },
+        { username: 'viewer_user', email: 'viewer@test.com', role: 'viewer' }
+      ])
+      .returning()
+      .execute();
+  });
+
+  const createCase = async (status: 'open' | 'in_progress' | 'escalated' | 'resolved' | 'closed', assignedTo: number | null) => {
+    const result = await db.insert(fraudCasesTable)
+      .values({
+        txid: `TX-${status}-${assignedTo}`,
+        description: 'Case used for transition tests',
+        status,
+        priority: 'medium',
+        assigned_to: assignedTo,
+        created_by: admin.id
+      })
+      .returning()
+      .execute();
+    return result[0];
+  };
+
+  it('should list transitions for the assignee', async () => {
+    const fraudCase = await createCase('in_progress', analyst.id);
+
+    const result = await getAllowedTransitions(fraudCase.id, analyst.id);
+
+    expect(result.map(t => t.to)).toEqual(['escalated', 'resolved']);
+    expect(result.find(t => t.to === 'resolved')!.requires_note).toBe(true);
+  });
+
+  it('should offer closing only once a case is resolved', async () => {
+    const resolved = await createCase('resolved', investigator.id);
+    const open = await createCase('open', investigator.id);
+
+    const resolvedTransitions = await getAllowedTransitions(resolved.id, investigator.id);
+    const openTransitions = await getAllowedTransitions(open.id, investigator.id);
+
+    expect(resolvedTransitions.map(t => t.to)).toContain('closed');
+    expect(openTransitions.map(t => t.to)).not.toContain('closed');
+  });
+
+  it('should let admins act on unassigned cases', async () => {
+    const fraudCase = await createCase('closed', null);
+
+    const result = await getAllowedTransitions(fraudCase.id, admin.id);
+
+    expect(result).toEqual([{ to: 'in_progress', requires_note: true }]);
+  });
+
+  it('should return nothing for users who cannot modify the case', async () => {
+    const fraudCase = await createCase('open', investigator.id);
+
+    expect(await getAllowedTransitions(fraudCase.id, analyst.id)).toEqual([]);
+    expect(await getAllowedTransitions(fraudCase.id, viewer.id)).toEqual([]);
+  });
+
+  it('should throw for a missing case or user', async () => {
+    const fraudCase = await createCase('open', investigator.id);
+
+    await expect(getAllowedTransitions(99999, admin.id)).rejects.toThrow(/not found/i);
+    await expect(getAllowedTransitions(fraudCase.id, 99999)).rejects.toThrow(/not found/i);
+  });
+});
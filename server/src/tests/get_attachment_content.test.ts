@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { caseAttachmentsTable, fraudCasesTable, usersTable } from '../db/schema';
+import { createLocalDiskStorage, setAttachmentStorage } from '../helpers/attachment_storage';
+import { uploadAttachment } from '../handlers/upload_attachment';
+import { getAttachmentContent } from '../handlers/get_attachment_content';
+import { eq } from 'drizzle-orm';
+
+describe('getAttachmentContent', () => {
+  let storageDir: string;
+
+  beforeEach(async () => {
+    await createDB();
+    storageDir = await mkdtemp(join(tmpdir(), 'attachments-'));
+    setAttachmentStorage(createLocalDiskStorage(storageDir));
+  });
+
+  afterEach(async () => {
+    await resetDB();
+    setAttachmentStorage(null);
+    await rm(storageDir, { recursive: true, force: true });
+  });
+
+  let investigator: any;
+  let viewer: any;
+  let attachment: any;
+
+  const content = Buffer.from('chat export: please send the OTP');
+
+  beforeEach(async () => {
+    [investigator, viewer] = await db.insert(usersTable)
+      .values([
+        { username: 'investigator_user', email: 'investigator@test.com', role: 'investigator' },
+        { username: 'viewer_user', email: 'viewer@test.com', role: 'viewer' }
+      ])
+      .returning()
+      .execute();
+
+    const [fraudCase] = await db.insert(fraudCasesTable)
+      .values({ txid: 'TX-EVIDENCE', description: 'Case used for attachment tests', priority: 'high', created_by: investigator.id })
+      .returning()
+      .execute();
+
+    attachment = await uploadAttachment({
+      case_id: fraudCase.id,
+      uploaded_by: investigator.id,
+      filename: 'chat.txt',
+      mime_type: 'text/plain',
+      content_base64: content.toString('base64')
+    });
+  });
+
+  it('should return the stored content', async () => {
+    const result = await getAttachmentContent(attachment.id, investigator.id);
+
+    expect(result.attachment.id).toEqual(attachment.id);
+    expect(Buffer.from(result.content_base64, 'base64').equals(content)).toBe(true);
+  });
+
+  it('should refuse content that no longer matches its hash', async () => {
+    const [record] = await db.select()
+      .from(caseAttachmentsTable)
+      .where(eq(caseAttachmentsTable.id, attachment.id))
+      .execute();
+    await writeFile(join(storageDir, record.storage_key), 'tampered');
+
+    await expect(getAttachmentContent(attachment.id, investigator.id)).rejects.toThrow(/integrity check/i);
+  });
+
+  it('should reject users who cannot see the case', async () => {
+    await expect(getAttachmentContent(attachment.id, viewer.id)).rejects.toThrow(/insufficient permissions/i);
+  });
+
+  it('should throw for a non-existent attachment', async () => {
+    await expect(getAttachmentContent(99999, investigator.id)).rejects.toThrow(/attachment not found/i);
+  });
+});
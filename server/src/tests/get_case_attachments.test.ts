@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { fraudCasesTable, usersTable } from '../db/schema';
+import { createLocalDiskStorage, setAttachmentStorage } from '../helpers/attachment_storage';
+import { uploadAttachment } from '../handlers/upload_attachment';
+import { getCaseAttachments } from '../handlers/get_case_attachments';
+
+describe('getCaseAttachments', () => {
+  let storageDir: string;
+
+  beforeEach(async () => {
+    await createDB();
+    storageDir = await mkdtemp(join(tmpdir(), 'attachments-'));
+    setAttachmentStorage(createLocalDiskStorage(storageDir));
+  });
+
+  afterEach(async () => {
+    await resetDB();
+    setAttachmentStorage(null);
+    await rm(storageDir, { recursive: true, force: true });
+  });
+
+  let investigator: any;
+  let analyst: any;
+  let viewer: any;
+  let fraudCase: any;
+
+  beforeEach(async () => {
+    [investigator, analyst, viewer] = await db.insert(usersTable)
+      .values([
+        { username: 'investigator_user', email: 'investigator@test.com', role: 'investigator' },
+        { username: 'analyst_user', email: 'analyst@test.com', role: 'analyst' },
+        { username: 'viewer_user', email: 'viewer@test.com', role: 'viewer' }
+      ])
+      .returning()
+      .execute();
+
+    [fraudCase] = await db.insert(fraudCasesTable)
+      .values({
+        txid: 'TX-EVIDENCE',
+        description: 'Case used for attachment tests',
+        priority: 'high',
+        assigned_to: viewer.id,
+        created_by: investigator.id
+      })
+      .returning()
+      .execute();
+  });
+
+  const upload = (filename: string) => uploadAttachment({
+    case_id: fraudCase.id,
+    uploaded_by: investigator.id,
+    filename,
+    mime_type: 'image/png',
+    content_base64: Buffer.from(filename).toString('base64')
+  });
+
+  it('should list attachments in upload order without storage keys', async () => {
+    const first = await upload('screenshot-1.png');
+    const second = await upload('screenshot-2.png');
+
+    const attachments = await getCaseAttachments(fraudCase.id, investigator.id);
+
+    expect(attachments.map(a => a.id)).toEqual([first.id, second.id]);
+    expect((attachments[0] as any).storage_key).toBeUndefined();
+  });
+
+  it('should follow the case visibility rules', async () => {
+    await upload('screenshot-1.png');
+
+    // The viewer is assigned to the case; the analyst neither created nor is assigned to it
+    expect(await getCaseAttachments(fraudCase.id, viewer.id)).toHaveLength(1);
+    await expect(getCaseAttachments(fraudCase.id, analyst.id)).rejects.toThrow(/insufficient permissions/i);
+  });
+
+  it('should throw for a non-existent case', async () => {
+    await expect(getCaseAttachments(99999, investigator.id)).rejects.toThrow(/case not found/i);
+  });
+});
@@ -101,50 +101,44 @@ describe('getCaseEscalations', () => {
     expect(result[1].created_at).toBeInstanceOf(Date);
   });
 
-  it('should work without userId parameter', async () => {
-    // Create a test user
-    const user = await db.insert(usersTable)
-      .values({
-        username: 'test_user',
-        email: 'test@test.com',
-        role: 'admin'
-      })
+  it('should refuse an analyst on a case they cannot see', async () => {
+    // Create an admin who owns the case and an analyst outside it
+    const [admin, analyst] = await db.insert(usersTable)
+      .values([
+        { username: 'admin_user', email: 'admin@test.com', role: 'admin' },
+        { username: 'analyst_user', email: 'analyst@test.com', role: 'analyst' }
+      ])
       .returning()
       .execute();
 
-    // Create a fraud case
     const fraudCase = await db.insert(fraudCasesTable)
       .values({
         txid: 'TX_67890',
         description: 'Test fraud case',
         status: 'open',
         priority: 'medium',
-        created_by: user[0].id
+        created_by: admin.id
       })
       .returning()
       .execute();
 
-    // Create an escalation
     await db.insert(caseEscalationsTable)
       .values({
         case_id: fraudCase[0].id,
-        escalated_by: user[0].id,
+        escalated_by: admin.id,
         escalated_to: null,
         previous_status: 'open',
         new_status: 'in_progress',
         previous_priority: 'medium',
         new_priority: 'high',
-        reason: 'Escalation without user validation'
+        reason: 'Escalation the analyst must not see'
       })
       .returning()
       .execute();
 
-    // Test fetching escalations without userId
-    const result = await getCaseEscalations(fraudCase[0].id);
-
-    expect(result).toHaveLength(1);
-    expect(result[0].case_id).toEqual(fraudCase[0].id);
-    expect(result[0].reason).toEqual('Escalation without user validation');
+    // Analysts only see cases they created or are assigned to, and hidden cases look like missing ones
+    await expect(getCaseEscalations(fraudCase[0].id, analyst.id))
+      .rejects.toThrow(/fraud case not found/i);
   });
 
   it('should return empty array when no escalations exist', async () => {
@@ -310,7 +304,7 @@ describe('getCaseEscalations', () => {
       .rejects.toThrow(/user not found/i);
   });
 
-  it('should throw error when viewer tries to access escalations', async () => {
+  it('should only show viewers escalations of cases assigned to them', async () => {
     // Create viewer user
     const viewerUser = await db.insert(usersTable)
       .values({
@@ -343,9 +337,17 @@ describe('getCaseEscalations', () => {
       .returning()
       .execute();
 
-    // Should throw error when viewer tries to access escalations
+    // Viewers only see cases assigned to them
     await expect(getCaseEscalations(fraudCase[0].id, viewerUser[0].id))
-      .rejects.toThrow(/insufficient permissions/i);
+      .rejects.toThrow(/fraud case not found/i);
+
+    await db.update(fraudCasesTable)
+      .set({ assigned_to: viewerUser[0].id })
+      .where(eq(fraudCasesTable.id, fraudCase[0].id))
+      .execute();
+
+    const result = await getCaseEscalations(fraudCase[0].id, viewerUser[0].id);
+    expect(result).toEqual([]);
   });
 
   it('should order escalations by creation date', async () => {
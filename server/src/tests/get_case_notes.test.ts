@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { fraudCasesTable, usersTable } from '../db/schema';
+import { createCaseNote } from '../handlers/create_case_note';
+import { getCaseNotes } from '../handlers/get_case_notes';
+
+describe('getCaseNotes', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let investigator: any;
+  let analyst: any;
+  let viewer: any;
+  let fraudCase: any;
+
+  beforeEach(async () => {
+    [investigator, analyst, viewer] = await db.insert(usersTable)
+      .values([
+        { username: 'investigator_user', email: 'investigator@test.com', role: 'investigator' },
+        { username: 'analyst_user', email: 'analyst@test.com', role: 'analyst' },
+        { username: 'viewer_user', email: 'viewer@test.com', role: 'viewer' }
+      ])
+      .returning()
+      .execute();
+
+    [fraudCase] = await db.insert(fraudCasesTable)
+      .values({
+        txid: 'TX-NOTES',
+        description: 'Case used for note tests',
+        priority: 'medium',
+        assigned_to: viewer.id,
+        created_by: investigator.id
+      })
+      .returning()
+      .execute();
+  });
+
+  it('should return all notes in order for the investigation team', async () => {
+    const first = await createCaseNote({ case_id: fraudCase.id, author_id: investigator.id, body: 'First note', visibility: 'internal' });
+    const second = await createCaseNote({ case_id: fraudCase.id, author_id: investigator.id, body: 'Second note mentioning @viewer_user', visibility: 'shareable' });
+
+    const notes = await getCaseNotes(fraudCase.id, investigator.id);
+
+    expect(notes.map(note => note.id)).toEqual([first.id, second.id]);
+    expect(notes[1].mentions).toEqual([viewer.id]);
+  });
+
+  it('should only return shareable notes to viewers', async () => {
+    const internal = await createCaseNote({ case_id: fraudCase.id, author_id: investigator.id, body: 'Internal suspicion', visibility: 'internal' });
+    await createCaseNote({ case_id: fraudCase.id, author_id: investigator.id, parent_id: internal.id, body: 'Shareable reply to an internal note', visibility: 'shareable' });
+    const shareable = await createCaseNote({ case_id: fraudCase.id, author_id: investigator.id, body: 'Customer has been refunded', visibility: 'shareable' });
+
+    const notes = await getCaseNotes(fraudCase.id, viewer.id);
+
+    expect(notes.map(note => note.id)).toEqual([shareable.id]);
+  });
+
+  it('should reject users who cannot see the case', async () => {
+    await expect(getCaseNotes(fraudCase.id, analyst.id)).rejects.toThrow(/insufficient permissions/i);
+  });
+
+  it('should throw for a non-existent case', async () => {
+    await expect(getCaseNotes(99999, investigator.id)).rejects.toThrow(/case not found/i);
+  });
+});
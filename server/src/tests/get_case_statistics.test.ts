@@ -1,10 +1,10 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, fraudCasesTable } from '../db/schema';
+import { usersTable, fraudCasesTable, type NewFraudCase } from '../db/schema';
 import { getCaseStatistics } from '../handlers/get_case_statistics';
 import { eq } from 'drizzle-orm';
-import type { CreateUserInput, CreateFraudCaseInput } from '../schema';
+import type { CreateUserInput } from '../schema';
 
 describe('getCaseStatistics', () => {
   beforeEach(createDB);
@@ -51,7 +51,7 @@ describe('getCaseStatistics', () => {
     const investigatorUser = users.find(u => u.role === 'investigator')!;
     const viewerUser = users.find(u => u.role === 'viewer')!;
 
-    const testCases: CreateFraudCaseInput[] = [
+    const testCases: NewFraudCase[] = [
       {
         txid: 'TX001',
         description: 'Test fraud case 1',
@@ -112,7 +112,10 @@ describe('getCaseStatistics', () => {
         .values({
           ...testCases[3],
           status: 'resolved',
-          assigned_to: investigatorUser.id
+          assigned_to: investigatorUser.id,
+          disposition: 'confirmed_fraud',
+          resolution_note: 'Merchant refunded the customer',
+          recovered_amount: 199.99
         })
         .returning()
     ]);
@@ -141,6 +144,9 @@ describe('getCaseStatistics', () => {
     expect(statistics.unassignedCases).toBe(1);
     expect(statistics.escalatedCases).toBe(1);
     expect(typeof statistics.averageResolutionTime).toBe('number');
+    expect(statistics.casesByDisposition.confirmed_fraud).toBe(1);
+    expect(statistics.casesByDisposition.false_positive).toBe(0);
+    expect(statistics.totalRecoveredAmount).toBe(199.99);
   });
 
   it('should return all statistics for admin user', async () => {
@@ -252,6 +258,38 @@ describe('getCaseStatistics', () => {
     expect(statistics.averageResolutionTime).toBeLessThan(2.5);
   });
 
+  it('should report SLA compliance per target', async () => {
+    const users = await createTestUsers();
+    const adminUser = users.find(u => u.role === 'admin')!;
+
+    const hour = 60 * 60 * 1000;
+    const now = Date.now();
+    const hoursFromNow = (hours: number) => new Date(now + hours * hour);
+
+    await db.insert(fraudCasesTable)
+      .values([
+        // Assigned on time, resolved late
+        { txid: 'TX_SLA_1', description: 'Resolved late', priority: 'high', status: 'resolved', created_by: adminUser.id,
+          assignment_due_at: hoursFromNow(-10), first_assigned_at: hoursFromNow(-11),
+          resolution_due_at: hoursFromNow(-5), resolved_at: hoursFromNow(-2) },
+        // Unassigned past its deadline, resolution still ahead
+        { txid: 'TX_SLA_2', description: 'Waiting too long', priority: 'high', status: 'open', created_by: adminUser.id,
+          assignment_due_at: hoursFromNow(-1), resolution_due_at: hoursFromNow(24) },
+        // Unassigned within its deadline
+        { txid: 'TX_SLA_3', description: 'Just in', priority: 'high', status: 'open', created_by: adminUser.id,
+          assignment_due_at: hoursFromNow(1) },
+        // No SLA targets
+        { txid: 'TX_SLA_4', description: 'Untracked', priority: 'low', status: 'open', created_by: adminUser.id }
+      ]);
+
+    const statistics = await getCaseStatistics();
+
+    expect(statistics.slaCompliance.assignment).toEqual({ met: 1, breached: 1, pending: 1, complianceRate: 50 });
+    expect(statistics.slaCompliance.resolution).toEqual({ met: 0, breached: 1, pending: 1, complianceRate: 0 });
+    expect(statistics.slaCompliance.first_action).toEqual({ met: 0, breached: 0, pending: 0, complianceRate: null });
+    expect(statistics.casesInSlaBreach).toBe(1); // The resolved case no longer counts
+  });
+
   it('should throw error for non-existent user', async () => {
     const nonExistentUserId = 99999;
 
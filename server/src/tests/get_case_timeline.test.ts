@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { fraudCasesTable, usersTable } from '../db/schema';
+import { getCaseTimeline } from '../handlers/get_case_timeline';
+import { createFraudCase } from '../handlers/create_fraud_case';
+import { assignCase } from '../handlers/assign_case';
+import { escalateCase } from '../handlers/escalate_case';
+import { updateFraudCase } from '../handlers/update_fraud_case';
+import { closeCase } from '../handlers/close_case';
+
+describe('getCaseTimeline', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let admin: any;
+  let investigator: any;
+  let analyst: any;
+  let viewer: any;
+
+  beforeEach(async () => {
+    [admin, investigator, analyst, viewer] = await db.insert(usersTable)
+      .values([
+        { username: 'admin_user', email: 'admin@test.com', role: 'admin' },
+        { username: 'investigator_user', email: 'investigator@test.com', role: 'investigator' },
+        { username: 'analyst_user', email: 'analyst@test.com', role: 'analyst' },
+        { username: 'viewer_user', email: 'viewer@test.com', role: 'viewer' }
+      ])
+      .returning()
+      .execute();
+  });
+
+  it('should return the full history of a case in order', async () => {
+    const fraudCase = await createFraudCase({
+      transactions: [{ txid: 'TX-TIMELINE' }],
+      description: 'Case used for timeline tests',
+      priority: 'medium',
+      created_by: admin.id
+    });
+
+    await assignCase(fraudCase.id, investigator.id, admin.id);
+    await escalateCase({
+      case_id: fraudCase.id,
+      escalated_by: investigator.id,
+      new_priority: 'critical',
+      reason: 'Linked to a known fraud ring'
+    });
+    await updateFraudCase({
+      id: fraudCase.id,
+      status: 'resolved',
+      status_note: 'Chargeback filed and account frozen',
+      disposition: 'confirmed_fraud'
+    }, investigator.id);
+    await closeCase(fraudCase.id, investigator.id, { recovered_amount: 1250.5 });
+
+    const timeline = await getCaseTimeline(fraudCase.id, admin.id);
+
+    expect(timeline.map(e => e.event_type)).toEqual(['created', 'assigned', 'escalated', 'updated', 'closed']);
+    expect(timeline.map(e => e.actor_id)).toEqual([admin.id, admin.id, investigator.id, investigator.id, investigator.id]);
+
+    const [created, assigned, escalated, updated, closed] = timeline;
+    expect(created.changes['txid']).toEqual({ from: null, to: 'TX-TIMELINE' });
+    expect(assigned.changes).toEqual({
+      status: { from: 'open', to: 'in_progress' },
+      assigned_to: { from: null, to: investigator.id }
+    });
+    expect(escalated.changes).toEqual({ priority: { from: 'medium', to: 'critical' } });
+    expect(escalated.metadata!['reason']).toEqual('Linked to a known fraud ring');
+    expect(updated.changes['status']).toEqual({ from: 'in_progress', to: 'resolved' });
+    expect(updated.changes['disposition']).toEqual({ from: null, to: 'confirmed_fraud' });
+    expect(updated.metadata).toEqual({ status_note: 'Chargeback filed and account frozen' });
+    expect(closed.changes['status']).toEqual({ from: 'resolved', to: 'closed' });
+    expect(closed.changes['recovered_amount']).toEqual({ from: null, to: 1250.5 });
+    expect(closed.changes['closed_by']).toEqual({ from: null, to: investigator.id });
+  });
+
+  it('should not record an event for a no-op update', async () => {
+    const fraudCase = await createFraudCase({
+      transactions: [{ txid: 'TX-NOOP' }],
+      description: 'Case used for timeline tests',
+      priority: 'low',
+      created_by: admin.id
+    });
+
+    await updateFraudCase({ id: fraudCase.id, priority: 'low' }, admin.id);
+
+    const timeline = await getCaseTimeline(fraudCase.id, admin.id);
+    expect(timeline.map(e => e.event_type)).toEqual(['created']);
+  });
+
+  it('should not record events for rejected changes', async () => {
+    const fraudCase = await createFraudCase({
+      transactions: [{ txid: 'TX-REJECTED' }],
+      description: 'Case used for timeline tests',
+      priority: 'low',
+      created_by: admin.id
+    });
+
+    await expect(closeCase(fraudCase.id, admin.id)).rejects.toThrow();
+
+    const timeline = await getCaseTimeline(fraudCase.id, admin.id);
+    expect(timeline).toHaveLength(1);
+  });
+
+  it('should throw for a non-existent case', async () => {
+    await expect(getCaseTimeline(99999, admin.id)).rejects.toThrow(/not found/i);
+  });
+
+  it('should refuse users who cannot see the case', async () => {
+    const fraudCase = await createFraudCase({
+      transactions: [{ txid: 'TX-HIDDEN' }],
+      description: 'Case assigned to somebody else',
+      priority: 'high',
+      created_by: admin.id
+    });
+    await assignCase(fraudCase.id, investigator.id, admin.id);
+
+    // Analysts see the cases they created or are assigned to, viewers only those assigned to them
+    await expect(getCaseTimeline(fraudCase.id, analyst.id)).rejects.toThrow('Case not found');
+    await expect(getCaseTimeline(fraudCase.id, viewer.id)).rejects.toThrow('Case not found');
+    expect(await getCaseTimeline(fraudCase.id, investigator.id)).toHaveLength(2);
+
+    await db.update(fraudCasesTable)
+      .set({ assigned_to: viewer.id })
+      .execute();
+
+    expect(await getCaseTimeline(fraudCase.id, viewer.id)).toHaveLength(2);
+  });
+
+  it('should throw for an unknown user', async () => {
+    const fraudCase = await createFraudCase({
+      transactions: [{ txid: 'TX-NOBODY' }],
+      description: 'Case used for timeline tests',
+      priority: 'low',
+      created_by: admin.id
+    });
+
+    await expect(getCaseTimeline(fraudCase.id, 99999)).rejects.toThrow('User not found');
+  });
+});
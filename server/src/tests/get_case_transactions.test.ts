@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { createFraudCase } from '../handlers/create_fraud_case';
+import { getCaseTransactions } from '../handlers/get_case_transactions';
+
+describe('getCaseTransactions', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let investigator: any;
+  let viewer: any;
+
+  beforeEach(async () => {
+    [investigator, viewer] = await db.insert(usersTable)
+      .values([
+        { username: 'investigator_user', email: 'investigator@test.com', role: 'investigator' },
+        { username: 'viewer_user', email: 'viewer@test.com', role: 'viewer' }
+      ])
+      .returning()
+      .execute();
+  });
+
+  it('should return the transactions of a case in the order they happened', async () => {
+    const fraudCase = await createFraudCase({
+      description: 'Card testing across several merchants',
+      priority: 'high',
+      created_by: investigator.id,
+      transactions: [
+        { txid: 'TX-LATE', amount: 950, currency: 'USD', occurred_at: new Date('2024-05-02T09:00:00Z'), channel: 'online_banking' },
+        { txid: 'TX-UNDATED' },
+        { txid: 'TX-EARLY', amount: 1, currency: 'USD', occurred_at: new Date('2024-05-01T23:59:00Z'), merchant: 'Coffee Cart' }
+      ]
+    });
+
+    const transactions = await getCaseTransactions(fraudCase.id, investigator.id);
+
+    expect(transactions.map(t => t.txid)).toEqual(['TX-EARLY', 'TX-LATE', 'TX-UNDATED']);
+    expect(transactions[0].merchant).toEqual('Coffee Cart');
+    expect(transactions[1].amount).toEqual(950);
+    expect(transactions[1].channel).toEqual('online_banking');
+    expect(transactions.every(t => t.case_id === fraudCase.id)).toBe(true);
+  });
+
+  it('should reject users who cannot see the case', async () => {
+    const fraudCase = await createFraudCase({
+      description: 'Case the viewer is not assigned to',
+      priority: 'low',
+      created_by: investigator.id,
+      transactions: [{ txid: 'TX-HIDDEN' }]
+    });
+
+    await expect(getCaseTransactions(fraudCase.id, viewer.id)).rejects.toThrow(/insufficient permissions/i);
+  });
+
+  it('should throw for a non-existent case', async () => {
+    await expect(getCaseTransactions(99999)).rejects.toThrow(/case not found/i);
+  });
+});
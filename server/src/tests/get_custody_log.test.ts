@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { fraudCasesTable, usersTable } from '../db/schema';
+import { createLocalDiskStorage, setAttachmentStorage } from '../helpers/attachment_storage';
+import { uploadAttachment } from '../handlers/upload_attachment';
+import { getCaseAttachments } from '../handlers/get_case_attachments';
+import { getAttachmentContent } from '../handlers/get_attachment_content';
+import { deleteAttachment } from '../handlers/delete_attachment';
+import { getCustodyLog } from '../handlers/get_custody_log';
+
+describe('getCustodyLog', () => {
+  let storageDir: string;
+
+  beforeEach(async () => {
+    await createDB();
+    storageDir = await mkdtemp(join(tmpdir(), 'attachments-'));
+    setAttachmentStorage(createLocalDiskStorage(storageDir));
+  });
+
+  afterEach(async () => {
+    await resetDB();
+    setAttachmentStorage(null);
+    await rm(storageDir, { recursive: true, force: true });
+  });
+
+  let admin: any;
+  let viewer: any;
+  let fraudCase: any;
+
+  beforeEach(async () => {
+    [admin, viewer] = await db.insert(usersTable)
+      .values([
+        { username: 'admin_user', email: 'admin@test.com', role: 'admin' },
+        { username: 'viewer_user', email: 'viewer@test.com', role: 'viewer' }
+      ])
+      .returning()
+      .execute();
+
+    [fraudCase] = await db.insert(fraudCasesTable)
+      .values({ txid: 'TX-CUSTODY', description: 'Case used for custody tests', priority: 'high', created_by: admin.id })
+      .returning()
+      .execute();
+  });
+
+  it('should record every access to evidence in order', async () => {
+    const attachment = await uploadAttachment({
+      case_id: fraudCase.id,
+      uploaded_by: admin.id,
+      filename: 'receipt.png',
+      mime_type: 'image/png',
+      content_base64: Buffer.from('png-bytes').toString('base64')
+    });
+    await getCaseAttachments(fraudCase.id, admin.id);
+    await getAttachmentContent(attachment.id, admin.id);
+    await deleteAttachment(attachment.id, admin.id);
+
+    const log = await getCustodyLog(fraudCase.id, admin.id);
+
+    expect(log.map(entry => entry.action)).toEqual(['uploaded', 'viewed', 'downloaded', 'deleted']);
+    expect(log.every(entry => entry.attachment_id === attachment.id && entry.actor_id === admin.id)).toBe(true);
+    expect(log.every(entry => entry.attachment_sha256 === attachment.sha256)).toBe(true);
+    expect(log[0].details).toEqual({ filename: 'receipt.png' });
+  });
+
+  it('should reject users who cannot see the case', async () => {
+    await expect(getCustodyLog(fraudCase.id, viewer.id)).rejects.toThrow(/insufficient permissions/i);
+  });
+
+  it('should throw for a non-existent case', async () => {
+    await expect(getCustodyLog(99999, admin.id)).rejects.toThrow(/case not found/i);
+  });
+});
@@ -1,9 +1,10 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, fraudCasesTable } from '../db/schema';
-import { type CreateUserInput, type CreateFraudCaseInput } from '../schema';
+import { usersTable, fraudCasesTable, type NewFraudCase } from '../db/schema';
+import { type CreateUserInput } from '../schema';
 import { getFraudCaseById } from '../handlers/get_fraud_case_by_id';
+import { eq } from 'drizzle-orm';
 
 // Test user data
 const adminUser: CreateUserInput = {
@@ -31,7 +32,7 @@ const viewerUser: CreateUserInput = {
 };
 
 // Test case data
-const testCase: CreateFraudCaseInput = {
+const testCase: NewFraudCase = {
   txid: 'TXN-123456789',
   description: 'Suspicious transaction detected involving multiple accounts',
   priority: 'high',
@@ -116,12 +117,18 @@ describe('getFraudCaseById', () => {
     expect(result!.txid).toEqual('TXN-123456789');
   });
 
-  it('should allow viewer to view any case', async () => {
+  it('should only show viewers cases assigned to them', async () => {
+    expect(await getFraudCaseById(caseId, viewerId)).toBeNull();
+
+    await db.update(fraudCasesTable)
+      .set({ assigned_to: viewerId })
+      .where(eq(fraudCasesTable.id, caseId))
+      .execute();
+
     const result = await getFraudCaseById(caseId, viewerId);
 
     expect(result).not.toBeNull();
     expect(result!.id).toEqual(caseId);
-    expect(result!.txid).toEqual('TXN-123456789');
   });
 
   it('should allow case creator to view their own case', async () => {
@@ -140,7 +147,7 @@ describe('getFraudCaseById', () => {
     expect(result!.assigned_to).toEqual(analystId);
   });
 
-  it('should deny access to investigator not involved with the case', async () => {
+  it('should allow investigators to view cases they are not involved with', async () => {
     // Create another investigator not involved with the case
     const otherInvestigator = await db.insert(usersTable)
       .values({
@@ -153,7 +160,8 @@ describe('getFraudCaseById', () => {
 
     const result = await getFraudCaseById(caseId, otherInvestigator[0].id);
 
-    expect(result).toBeNull();
+    expect(result).not.toBeNull();
+    expect(result!.id).toEqual(caseId);
   });
 
   it('should deny access to analyst not involved with the case', async () => {
@@ -198,18 +206,9 @@ describe('getFraudCaseById', () => {
     expect(result!.assigned_to).toBeNull();
     expect(result!.txid).toEqual('TXN-UNASSIGNED');
 
-    // Other investigator should not be able to view it
-    const otherInvestigator = await db.insert(usersTable)
-      .values({
-        username: 'other_inv_2',
-        email: 'other_inv_2@test.com',
-        role: 'investigator'
-      })
-      .returning()
-      .execute();
-
-    const deniedResult = await getFraudCaseById(unassignedCase[0].id, otherInvestigator[0].id);
-    expect(deniedResult).toBeNull();
+    // Analysts and viewers not involved with it should not be able to view it
+    expect(await getFraudCaseById(unassignedCase[0].id, analystId)).toBeNull();
+    expect(await getFraudCaseById(unassignedCase[0].id, viewerId)).toBeNull();
   });
 
   it('should handle invalid case ID gracefully', async () => {
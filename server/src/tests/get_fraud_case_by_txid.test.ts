@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, fraudCasesTable } from '../db/schema';
+import { usersTable, fraudCasesTable, transactionsTable, type NewFraudCase } from '../db/schema';
 import { getFraudCaseByTxid } from '../handlers/get_fraud_case_by_txid';
 
 describe('getFraudCaseByTxid', () => {
@@ -11,6 +11,20 @@ describe('getFraudCaseByTxid', () => {
   let testAdmin: any;
   let testCase: any;
 
+  // Cases are found through their transactions, so each test case gets one for its txid
+  const insertCase = async (values: NewFraudCase) => {
+    const [fraudCase] = await db.insert(fraudCasesTable)
+      .values(values)
+      .returning()
+      .execute();
+
+    await db.insert(transactionsTable)
+      .values({ case_id: fraudCase.id, txid: fraudCase.txid })
+      .execute();
+
+    return fraudCase;
+  };
+
   beforeEach(async () => {
     await createDB();
 
@@ -44,19 +58,14 @@ describe('getFraudCaseByTxid', () => {
     [testUser, testInvestigator, testViewer, testAdmin] = userResults;
 
     // Create a test fraud case
-    const caseResults = await db.insert(fraudCasesTable)
-      .values({
-        txid: 'TX123456789',
-        description: 'Suspicious transaction involving large amount',
-        status: 'open',
-        priority: 'high',
-        created_by: testUser.id,
-        assigned_to: testInvestigator.id
-      })
-      .returning()
-      .execute();
-
-    testCase = caseResults[0];
+    testCase = await insertCase({
+      txid: 'TX123456789',
+      description: 'Suspicious transaction involving large amount',
+      status: 'open',
+      priority: 'high',
+      created_by: testUser.id,
+      assigned_to: testInvestigator.id
+    });
   });
 
   afterEach(resetDB);
@@ -96,44 +105,53 @@ describe('getFraudCaseByTxid', () => {
     expect(result!.txid).toEqual('TX123456789');
   });
 
-  it('should allow analyst to access any case', async () => {
+  it('should allow analyst to access case they created', async () => {
     const result = await getFraudCaseByTxid('TX123456789', testUser.id);
 
     expect(result).not.toBeNull();
     expect(result!.txid).toEqual('TX123456789');
   });
 
-  it('should allow viewer to access case they created', async () => {
-    // Create a case created by the viewer
-    await db.insert(fraudCasesTable)
-      .values({
-        txid: 'TX_VIEWER_CREATED',
-        description: 'Case created by viewer',
-        status: 'open',
-        priority: 'medium',
-        created_by: testViewer.id
-      })
-      .execute();
+  it('should deny analyst access to case they neither created nor are assigned to', async () => {
+    await insertCase({
+      txid: 'TX_OTHER',
+      description: 'Case handled by the investigator',
+      status: 'open',
+      priority: 'medium',
+      created_by: testInvestigator.id,
+      assigned_to: testInvestigator.id
+    });
+
+    await expect(
+      getFraudCaseByTxid('TX_OTHER', testUser.id)
+    ).rejects.toThrow(/insufficient permissions/i);
+  });
 
-    const result = await getFraudCaseByTxid('TX_VIEWER_CREATED', testViewer.id);
+  it('should deny viewer access to case they created but are not assigned to', async () => {
+    // Create a case created by the viewer
+    await insertCase({
+      txid: 'TX_VIEWER_CREATED',
+      description: 'Case created by viewer',
+      status: 'open',
+      priority: 'medium',
+      created_by: testViewer.id
+    });
 
-    expect(result).not.toBeNull();
-    expect(result!.txid).toEqual('TX_VIEWER_CREATED');
-    expect(result!.created_by).toEqual(testViewer.id);
+    await expect(
+      getFraudCaseByTxid('TX_VIEWER_CREATED', testViewer.id)
+    ).rejects.toThrow(/insufficient permissions/i);
   });
 
   it('should allow viewer to access case assigned to them', async () => {
     // Create a case assigned to the viewer
-    await db.insert(fraudCasesTable)
-      .values({
-        txid: 'TX_VIEWER_ASSIGNED',
-        description: 'Case assigned to viewer',
-        status: 'open',
-        priority: 'medium',
-        created_by: testUser.id,
-        assigned_to: testViewer.id
-      })
-      .execute();
+    await insertCase({
+      txid: 'TX_VIEWER_ASSIGNED',
+      description: 'Case assigned to viewer',
+      status: 'open',
+      priority: 'medium',
+      created_by: testUser.id,
+      assigned_to: testViewer.id
+    });
 
     const result = await getFraudCaseByTxid('TX_VIEWER_ASSIGNED', testViewer.id);
 
@@ -170,16 +188,14 @@ describe('getFraudCaseByTxid', () => {
 
   it('should handle case with null assigned_to field', async () => {
     // Create a case with no assignee
-    await db.insert(fraudCasesTable)
-      .values({
-        txid: 'TX_NO_ASSIGNEE',
-        description: 'Case with no assignee',
-        status: 'open',
-        priority: 'low',
-        created_by: testUser.id,
-        assigned_to: null
-      })
-      .execute();
+    await insertCase({
+      txid: 'TX_NO_ASSIGNEE',
+      description: 'Case with no assignee',
+      status: 'open',
+      priority: 'low',
+      created_by: testUser.id,
+      assigned_to: null
+    });
 
     const result = await getFraudCaseByTxid('TX_NO_ASSIGNEE', testAdmin.id);
 
@@ -187,4 +203,16 @@ describe('getFraudCaseByTxid', () => {
     expect(result!.txid).toEqual('TX_NO_ASSIGNEE');
     expect(result!.assigned_to).toBeNull();
   });
+
+  it('should find a case by any of its transactions', async () => {
+    await db.insert(transactionsTable)
+      .values({ case_id: testCase.id, txid: 'TX-LINKED-2', amount: 120, currency: 'USD' })
+      .execute();
+
+    const result = await getFraudCaseByTxid('TX-LINKED-2', testAdmin.id);
+
+    expect(result).not.toBeNull();
+    expect(result!.id).toEqual(testCase.id);
+    expect(result!.txid).toEqual('TX123456789');
+  });
 });
\ No newline at end of file
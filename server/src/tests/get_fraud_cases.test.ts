@@ -1,9 +1,10 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, fraudCasesTable } from '../db/schema';
-import { type CreateUserInput, type CreateFraudCaseInput, type CaseFilters } from '../schema';
+import { usersTable, fraudCasesTable, transactionsTable, caseEscalationsTable, type NewFraudCase } from '../db/schema';
+import { caseFiltersSchema, type CreateUserInput, type CaseFilters } from '../schema';
 import { getFraudCases } from '../handlers/get_fraud_cases';
+import { eq, sql } from 'drizzle-orm';
 
 // Test data
 const adminUser: CreateUserInput = {
@@ -45,7 +46,7 @@ describe('getFraudCases', () => {
     const investigator = createdUsers[1];
 
     // Create test fraud cases
-    const testCases: CreateFraudCaseInput[] = [
+    const testCases: NewFraudCase[] = [
       {
         txid: 'TXN001',
         description: 'Suspicious payment transaction',
@@ -67,14 +68,15 @@ describe('getFraudCases', () => {
       })))
       .execute();
 
-    const results = await getFraudCases();
+    const { cases: results } = await getFraudCases();
 
+    // Newest first, and cases created together fall back to the newest id
     expect(results).toHaveLength(2);
-    expect(results[0].txid).toEqual('TXN001');
-    expect(results[0].description).toEqual('Suspicious payment transaction');
-    expect(results[0].priority).toEqual('high');
-    expect(results[0].status).toEqual('open');
-    expect(results[0].created_at).toBeInstanceOf(Date);
+    expect(results[1].txid).toEqual('TXN001');
+    expect(results[1].description).toEqual('Suspicious payment transaction');
+    expect(results[1].priority).toEqual('high');
+    expect(results[1].status).toEqual('open');
+    expect(results[1].created_at).toBeInstanceOf(Date);
   });
 
   it('should filter cases by status', async () => {
@@ -114,7 +116,7 @@ describe('getFraudCases', () => {
       .execute();
 
     const filters: CaseFilters = { status: 'in_progress' };
-    const results = await getFraudCases(filters);
+    const { cases: results } = await getFraudCases(filters);
 
     expect(results).toHaveLength(1);
     expect(results[0].status).toEqual('in_progress');
@@ -151,13 +153,55 @@ describe('getFraudCases', () => {
       .execute();
 
     const filters: CaseFilters = { priority: 'critical' };
-    const results = await getFraudCases(filters);
+    const { cases: results } = await getFraudCases(filters);
 
     expect(results).toHaveLength(1);
     expect(results[0].priority).toEqual('critical');
     expect(results[0].txid).toEqual('TXN001');
   });
 
+  it('should filter cases by disposition', async () => {
+    const createdUsers = await db.insert(usersTable)
+      .values([adminUser])
+      .returning()
+      .execute();
+
+    const admin = createdUsers[0];
+
+    await db.insert(fraudCasesTable)
+      .values([
+        {
+          txid: 'TXN001',
+          description: 'Confirmed fraud case',
+          status: 'closed',
+          disposition: 'confirmed_fraud',
+          resolution_note: 'Card skimming confirmed',
+          created_by: admin.id
+        },
+        {
+          txid: 'TXN002',
+          description: 'False positive case',
+          status: 'resolved',
+          disposition: 'false_positive',
+          resolution_note: 'Customer recognised the purchase',
+          created_by: admin.id
+        },
+        {
+          txid: 'TXN003',
+          description: 'Open case without an outcome',
+          status: 'open',
+          created_by: admin.id
+        }
+      ])
+      .execute();
+
+    const { cases: results } = await getFraudCases({ disposition: 'false_positive' });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].txid).toEqual('TXN002');
+    expect(results[0].disposition).toEqual('false_positive');
+  });
+
   it('should filter cases by assigned_to', async () => {
     // Create test users
     const createdUsers = await db.insert(usersTable)
@@ -191,7 +235,7 @@ describe('getFraudCases', () => {
       .execute();
 
     const filters: CaseFilters = { assigned_to: investigator.id };
-    const results = await getFraudCases(filters);
+    const { cases: results } = await getFraudCases(filters);
 
     expect(results).toHaveLength(1);
     expect(results[0].assigned_to).toEqual(investigator.id);
@@ -229,7 +273,7 @@ describe('getFraudCases', () => {
       .execute();
 
     const filters: CaseFilters = { created_by: investigator.id };
-    const results = await getFraudCases(filters);
+    const { cases: results } = await getFraudCases(filters);
 
     expect(results).toHaveLength(1);
     expect(results[0].created_by).toEqual(investigator.id);
@@ -265,12 +309,25 @@ describe('getFraudCases', () => {
       ])
       .execute();
 
+    const cases = await db.select().from(fraudCasesTable).orderBy(fraudCasesTable.id).execute();
+    await db.insert(transactionsTable)
+      .values([
+        { case_id: cases[0].id, txid: 'TXN001' },
+        { case_id: cases[1].id, txid: 'TXN002' },
+        { case_id: cases[1].id, txid: 'TXN002-B' }
+      ])
+      .execute();
+
     const filters: CaseFilters = { txid: 'TXN001' };
-    const results = await getFraudCases(filters);
+    const { cases: results } = await getFraudCases(filters);
 
     expect(results).toHaveLength(1);
     expect(results[0].txid).toEqual('TXN001');
     expect(results[0].description).toEqual('First case');
+
+    // Secondary transactions match too
+    const { cases: linked } = await getFraudCases({ txid: 'TXN002-B' });
+    expect(linked.map(c => c.description)).toEqual(['Second case']);
   });
 
   it('should apply multiple filters together', async () => {
@@ -322,7 +379,7 @@ describe('getFraudCases', () => {
       status: 'open', 
       created_by: investigator.id 
     };
-    const results = await getFraudCases(filters);
+    const { cases: results } = await getFraudCases(filters);
 
     expect(results).toHaveLength(1);
     expect(results[0].txid).toEqual('TXN001');
@@ -371,7 +428,7 @@ describe('getFraudCases', () => {
       ])
       .execute();
 
-    const results = await getFraudCases(undefined, viewer.id);
+    const { cases: results } = await getFraudCases(undefined, viewer.id);
 
     expect(results).toHaveLength(1);
     expect(results[0].txid).toEqual('TXN001');
@@ -419,7 +476,7 @@ describe('getFraudCases', () => {
       ])
       .execute();
 
-    const results = await getFraudCases(undefined, analyst.id);
+    const { cases: results } = await getFraudCases(undefined, analyst.id);
 
     expect(results).toHaveLength(2);
     const txids = results.map(r => r.txid).sort();
@@ -458,11 +515,11 @@ describe('getFraudCases', () => {
       .execute();
 
     // Admin should see all cases
-    const adminResults = await getFraudCases(undefined, admin.id);
+    const { cases: adminResults } = await getFraudCases(undefined, admin.id);
     expect(adminResults).toHaveLength(2);
 
     // Investigator should see all cases
-    const investigatorResults = await getFraudCases(undefined, investigator.id);
+    const { cases: investigatorResults } = await getFraudCases(undefined, investigator.id);
     expect(investigatorResults).toHaveLength(2);
   });
 
@@ -491,7 +548,205 @@ describe('getFraudCases', () => {
   });
 
   it('should work with empty database', async () => {
-    const results = await getFraudCases();
+    const { cases: results } = await getFraudCases();
     expect(results).toHaveLength(0);
   });
+
+  describe('pagination and sorting', () => {
+    let investigator: any;
+
+    beforeEach(async () => {
+      [investigator] = await db.insert(usersTable)
+        .values(investigatorUser)
+        .returning()
+        .execute();
+
+      // Microsecond timestamps, so cursors must not round them to milliseconds
+      await db.insert(fraudCasesTable)
+        .values([
+          { txid: 'PAGE-1', description: 'First', priority: 'low', status: 'open', created_by: investigator.id, created_at: sql`'2026-01-01 10:00:00.000100'` },
+          { txid: 'PAGE-2', description: 'Second', priority: 'critical', status: 'closed', created_by: investigator.id, created_at: sql`'2026-01-01 10:00:00.000200'` },
+          { txid: 'PAGE-3', description: 'Third', priority: 'high', status: 'escalated', created_by: investigator.id, created_at: sql`'2026-01-01 10:00:00.000300'` },
+          { txid: 'PAGE-4', description: 'Fourth', priority: 'critical', status: 'open', created_by: investigator.id, created_at: sql`'2026-01-02 09:00:00'` },
+          { txid: 'PAGE-5', description: 'Fifth', priority: 'low', status: 'in_progress', created_by: investigator.id, created_at: sql`'2026-01-02 09:00:00'` }
+        ])
+        .execute();
+    });
+
+    const collectPages = async (filters: CaseFilters | undefined, options: Parameters<typeof getFraudCases>[2]) => {
+      const txids: string[][] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await getFraudCases(filters, investigator.id, { ...options, cursor });
+        txids.push(page.cases.map(c => c.txid));
+        cursor = page.next_cursor ?? undefined;
+      } while (cursor);
+      return txids;
+    };
+
+    it('should page through cases newest first', async () => {
+      const pages = await collectPages(undefined, { limit: 2 });
+
+      expect(pages).toEqual([['PAGE-5', 'PAGE-4'], ['PAGE-3', 'PAGE-2'], ['PAGE-1']]);
+    });
+
+    it('should sort by several columns', async () => {
+      const pages = await collectPages(undefined, {
+        limit: 2,
+        sort: [{ field: 'priority', direction: 'desc' }, { field: 'created_at', direction: 'asc' }]
+      });
+
+      expect(pages.flat()).toEqual(['PAGE-2', 'PAGE-4', 'PAGE-3', 'PAGE-1', 'PAGE-5']);
+    });
+
+    it('should sort status by its workflow order', async () => {
+      const { cases } = await getFraudCases(undefined, investigator.id, {
+        sort: [{ field: 'status', direction: 'asc' }]
+      });
+
+      expect(cases.map(c => c.status)).toEqual(['open', 'open', 'in_progress', 'escalated', 'closed']);
+    });
+
+    it('should apply filters across pages', async () => {
+      const pages = await collectPages({ priority: 'critical' }, { limit: 1 });
+
+      expect(pages).toEqual([['PAGE-4'], ['PAGE-2']]);
+    });
+
+    it('should count matching cases only when asked', async () => {
+      const withTotal = await getFraudCases({ priority: 'low' }, investigator.id, { limit: 1, include_total: true });
+      expect(withTotal.cases).toHaveLength(1);
+      expect(withTotal.total).toEqual(2);
+
+      const withoutTotal = await getFraudCases(undefined, investigator.id, { limit: 1 });
+      expect(withoutTotal.total).toBeNull();
+    });
+
+    it('should reject cursors from another sort or that are malformed', async () => {
+      const { next_cursor } = await getFraudCases(undefined, investigator.id, { limit: 2 });
+
+      await expect(getFraudCases(undefined, investigator.id, {
+        cursor: next_cursor!,
+        sort: [{ field: 'updated_at', direction: 'desc' }]
+      })).rejects.toThrow(/invalid cursor/i);
+      await expect(getFraudCases(undefined, investigator.id, { cursor: 'not-a-cursor' })).rejects.toThrow(/invalid cursor/i);
+    });
+  });
+
+  describe('rich filters', () => {
+    let investigator: any;
+    let analyst: any;
+    let cases: any[];
+
+    beforeEach(async () => {
+      [investigator, analyst] = await db.insert(usersTable)
+        .values([investigatorUser, analystUser])
+        .returning()
+        .execute();
+
+      cases = await db.insert(fraudCasesTable)
+        .values([
+          { txid: 'RICH-1', description: 'Open and unassigned', priority: 'low', status: 'open', created_by: investigator.id, created_at: new Date('2026-03-01T10:00:00Z'), updated_at: new Date('2026-03-02T10:00:00Z') },
+          { txid: 'RICH-2', description: 'Escalated twice', priority: 'critical', status: 'escalated', created_by: investigator.id, assigned_to: analyst.id, created_at: new Date('2026-03-05T10:00:00Z'), updated_at: new Date('2026-03-20T10:00:00Z') },
+          { txid: 'RICH-3', description: 'Escalated once', priority: 'high', status: 'in_progress', created_by: investigator.id, assigned_to: analyst.id, created_at: new Date('2026-03-10T10:00:00Z'), updated_at: new Date('2026-03-11T10:00:00Z') },
+          { txid: 'RICH-4', description: 'Closed medium', priority: 'medium', status: 'closed', created_by: investigator.id, created_at: new Date('2026-03-15T10:00:00Z'), updated_at: new Date('2026-03-16T10:00:00Z') }
+        ])
+        .returning()
+        .execute();
+
+      const escalation = {
+        escalated_by: investigator.id,
+        previous_status: 'in_progress' as const,
+        new_status: 'escalated' as const,
+        previous_priority: 'high' as const,
+        new_priority: 'critical' as const,
+        reason: 'Needs senior review'
+      };
+      await db.insert(caseEscalationsTable)
+        .values([
+          { ...escalation, case_id: cases[1].id },
+          { ...escalation, case_id: cases[1].id },
+          { ...escalation, case_id: cases[2].id }
+        ])
+        .execute();
+    });
+
+    const txidsFor = async (filters: CaseFilters) => {
+      const { cases: results } = await getFraudCases(filters, investigator.id, {
+        sort: [{ field: 'created_at', direction: 'asc' }]
+      });
+      return results.map(c => c.txid);
+    };
+
+    it('should match any of several statuses', async () => {
+      expect(await txidsFor({ status: ['open', 'closed'] })).toEqual(['RICH-1', 'RICH-4']);
+      expect(await txidsFor({ status: 'escalated' })).toEqual(['RICH-2']);
+    });
+
+    it('should filter by minimum priority', async () => {
+      expect(await txidsFor({ min_priority: 'high' })).toEqual(['RICH-2', 'RICH-3']);
+      expect(await txidsFor({ min_priority: 'low' })).toHaveLength(4);
+    });
+
+    it('should filter unassigned cases', async () => {
+      expect(await txidsFor({ assigned_to: null })).toEqual(['RICH-1', 'RICH-4']);
+      expect(await txidsFor({ assigned_to: analyst.id })).toEqual(['RICH-2', 'RICH-3']);
+    });
+
+    it('should filter by inclusive date ranges', async () => {
+      expect(await txidsFor({
+        created_from: new Date('2026-03-05T10:00:00Z'),
+        created_to: new Date('2026-03-10T10:00:00Z')
+      })).toEqual(['RICH-2', 'RICH-3']);
+      expect(await txidsFor({ updated_from: new Date('2026-03-12T00:00:00Z') })).toEqual(['RICH-2', 'RICH-4']);
+      expect(await txidsFor({ updated_to: new Date('2026-03-02T10:00:00Z') })).toEqual(['RICH-1']);
+    });
+
+    it('should filter by escalation count', async () => {
+      expect(await txidsFor({ min_escalations: 1 })).toEqual(['RICH-2', 'RICH-3']);
+      expect(await txidsFor({ min_escalations: 2 })).toEqual(['RICH-2']);
+      expect(await txidsFor({ min_escalations: 3 })).toEqual([]);
+    });
+
+    it('should resolve assigned_to_me for the requesting user', async () => {
+      const { cases: mine } = await getFraudCases({ assigned_to_me: true }, analyst.id);
+      expect(mine.map(c => c.txid).sort()).toEqual(['RICH-2', 'RICH-3']);
+
+      expect(await txidsFor({ assigned_to_me: true })).toEqual([]);
+      await expect(getFraudCases({ assigned_to_me: true })).rejects.toThrow(/needs a user/i);
+    });
+
+    it('should filter by minimum age', async () => {
+      const [recent] = await db.insert(fraudCasesTable)
+        .values({ txid: 'RICH-NEW', description: 'Just reported', created_by: investigator.id })
+        .returning()
+        .execute();
+
+      const txids = await txidsFor({ min_age_hours: 24 });
+      expect(txids).toHaveLength(4);
+      expect(txids).not.toContain(recent.txid);
+    });
+
+    it('should filter by SLA breach', async () => {
+      const due = new Date('2026-03-10T12:00:00Z');
+      await db.update(fraudCasesTable).set({ assignment_due_at: new Date('2026-03-01T11:00:00Z') }).where(eq(fraudCasesTable.id, cases[0].id)).execute();
+      await db.update(fraudCasesTable).set({ assignment_due_at: due, first_assigned_at: new Date('2026-03-10T11:00:00Z') }).where(eq(fraudCasesTable.id, cases[2].id)).execute();
+      await db.update(fraudCasesTable).set({ resolution_due_at: due, resolved_at: new Date('2026-03-16T10:00:00Z') }).where(eq(fraudCasesTable.id, cases[3].id)).execute();
+
+      expect(await txidsFor({ sla_breached: true })).toEqual(['RICH-1', 'RICH-4']);
+      expect(await txidsFor({ sla_breached: false })).toEqual(['RICH-2', 'RICH-3']);
+    });
+
+    it('should combine rich filters', async () => {
+      expect(await txidsFor({ status: ['escalated', 'in_progress'], min_priority: 'critical', min_escalations: 1 }))
+        .toEqual(['RICH-2']);
+    });
+
+    it('should accept dates encoded as JSON strings', () => {
+      const filters = caseFiltersSchema.parse(JSON.parse(JSON.stringify({ created_from: new Date('2026-03-05T10:00:00Z'), assigned_to: null })));
+
+      expect(filters.created_from).toEqual(new Date('2026-03-05T10:00:00Z'));
+      expect(filters.assigned_to).toBeNull();
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,39 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { notificationPreferencesTable, usersTable } from '../db/schema';
+import { getNotificationPreferences } from '../handlers/get_notification_preferences';
+import { DEFAULT_NOTIFICATION_PREFERENCES } from '../handlers/email_delivery';
+
+describe('getNotificationPreferences', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let investigator: any;
+
+  beforeEach(async () => {
+    [investigator] = await db.insert(usersTable)
+      .values({ username: 'investigator_user', email: 'investigator@test.com', role: 'investigator' })
+      .returning()
+      .execute();
+  });
+
+  it('should return the defaults for users without settings', async () => {
+    expect(await getNotificationPreferences(investigator.id)).toEqual({
+      user_id: investigator.id,
+      ...DEFAULT_NOTIFICATION_PREFERENCES,
+      updated_at: null
+    });
+  });
+
+  it('should return saved settings', async () => {
+    await db.insert(notificationPreferencesTable)
+      .values({ user_id: investigator.id, email_mode: 'digest', email_types: ['mentioned'], min_priority: 'low' })
+      .execute();
+
+    const preferences = await getNotificationPreferences(investigator.id);
+
+    expect(preferences).toMatchObject({ email_mode: 'digest', email_types: ['mentioned'], min_priority: 'low' });
+    expect(preferences.updated_at).toBeInstanceOf(Date);
+  });
+});
@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { fraudCasesTable, notificationsTable, usersTable } from '../db/schema';
+import { getNotifications } from '../handlers/get_notifications';
+
+describe('getNotifications', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let admin: any;
+  let investigator: any;
+
+  beforeEach(async () => {
+    [admin, investigator] = await db.insert(usersTable)
+      .values([
+        { username: 'admin_user', email: 'admin@test.com', role: 'admin' },
+        { username: 'investigator_user', email: 'investigator@test.com', role: 'investigator' }
+      ])
+      .returning()
+      .execute();
+
+    const [fraudCase] = await db.insert(fraudCasesTable)
+      .values({ txid: 'TX-NOTIFY', description: 'Case used for notification tests', created_by: admin.id })
+      .returning()
+      .execute();
+
+    const base = { type: 'assigned' as const, case_id: fraudCase.id, actor_id: admin.id };
+    await db.insert(notificationsTable)
+      .values([
+        { ...base, user_id: investigator.id, message: 'Oldest', created_at: new Date('2024-01-01T09:00:00Z'), read_at: new Date('2024-01-01T10:00:00Z') },
+        { ...base, user_id: investigator.id, message: 'Middle', created_at: new Date('2024-01-02T09:00:00Z') },
+        { ...base, user_id: investigator.id, message: 'Newest', created_at: new Date('2024-01-03T09:00:00Z') },
+        { ...base, user_id: admin.id, message: 'Someone else', created_at: new Date('2024-01-03T09:00:00Z') }
+      ])
+      .execute();
+  });
+
+  it('should list the user\'s own notifications newest first', async () => {
+    const notifications = await getNotifications(investigator.id);
+
+    expect(notifications.map(notification => notification.message)).toEqual(['Newest', 'Middle', 'Oldest']);
+    expect(notifications[2].read_at).toBeInstanceOf(Date);
+  });
+
+  it('should filter unread notifications and apply the limit', async () => {
+    expect((await getNotifications(investigator.id, { unread_only: true })).map(n => n.message)).toEqual(['Newest', 'Middle']);
+    expect((await getNotifications(investigator.id, { limit: 1 })).map(n => n.message)).toEqual(['Newest']);
+  });
+});
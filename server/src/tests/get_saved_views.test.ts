@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { createSavedView } from '../handlers/create_saved_view';
+import { getSavedViews } from '../handlers/get_saved_views';
+import { setDefaultSavedView } from '../handlers/set_default_saved_view';
+import { updateSavedView } from '../handlers/update_saved_view';
+
+describe('getSavedViews', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let analyst: any;
+  let investigator: any;
+
+  beforeEach(async () => {
+    [analyst, investigator] = await db.insert(usersTable)
+      .values([
+        { username: 'analyst_user', email: 'analyst@test.com', role: 'analyst' },
+        { username: 'investigator_user', email: 'investigator@test.com', role: 'investigator' }
+      ])
+      .returning()
+      .execute();
+  });
+
+  it('should return own and shared views by name', async () => {
+    await createSavedView({ owner_id: analyst.id, name: 'My critical open', filters: { assigned_to_me: true, priority: 'critical' } });
+    await createSavedView({ owner_id: investigator.id, name: 'Escalated twice', filters: { min_escalations: 2 }, shared: true });
+    await createSavedView({ owner_id: investigator.id, name: 'Private notes', filters: {} });
+
+    const { views, default_view_id } = await getSavedViews(analyst.id);
+
+    expect(views.map(view => view.name)).toEqual(['Escalated twice', 'My critical open']);
+    expect(default_view_id).toBeNull();
+  });
+
+  it('should restore dates in stored filters', async () => {
+    await createSavedView({ owner_id: analyst.id, name: 'March', filters: { created_from: new Date('2026-03-01T00:00:00Z') } });
+
+    const { views } = await getSavedViews(analyst.id);
+
+    expect(views[0].filters.created_from).toEqual(new Date('2026-03-01T00:00:00Z'));
+  });
+
+  it('should drop a default that is no longer shared', async () => {
+    const shared = await createSavedView({ owner_id: investigator.id, name: 'Queue', filters: {}, shared: true });
+    await setDefaultSavedView(shared.id, analyst.id);
+
+    expect((await getSavedViews(analyst.id)).default_view_id).toEqual(shared.id);
+
+    await updateSavedView({ id: shared.id, shared: false }, investigator.id);
+
+    expect((await getSavedViews(analyst.id)).default_view_id).toBeNull();
+  });
+});
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { hashSessionToken } from '../helpers/auth';
+import { getSessionUser } from '../handlers/get_session_user';
+import { eq } from 'drizzle-orm';
+
+describe('getSessionUser', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const validToken = 'c'.repeat(64);
+  const expiredToken = 'd'.repeat(64);
+  let userId: number;
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable)
+      .values({
+        username: 'admin_user',
+        email: 'admin@test.com',
+        role: 'admin',
+        password_hash: 'scrypt$00$00'
+      })
+      .returning()
+      .execute();
+
+    userId = users[0].id;
+
+    await db.insert(sessionsTable)
+      .values([
+        {
+          token_hash: hashSessionToken(validToken),
+          user_id: userId,
+          expires_at: new Date(Date.now() + 60 * 60 * 1000)
+        },
+        {
+          token_hash: hashSessionToken(expiredToken),
+          user_id: userId,
+          expires_at: new Date(Date.now() - 60 * 1000)
+        }
+      ])
+      .execute();
+  });
+
+  it('should return the user for a valid token', async () => {
+    const result = await getSessionUser(validToken);
+
+    expect(result).not.toBeNull();
+    expect(result!.id).toEqual(userId);
+    expect(result!.username).toEqual('admin_user');
+    expect(result!.role).toEqual('admin');
+    expect(result).not.toHaveProperty('password_hash');
+  });
+
+  it('should return null for an unknown token', async () => {
+    const result = await getSessionUser('e'.repeat(64));
+
+    expect(result).toBeNull();
+  });
+
+  it('should return null and remove the session for an expired token', async () => {
+    const result = await getSessionUser(expiredToken);
+
+    expect(result).toBeNull();
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.token_hash, hashSessionToken(expiredToken)))
+      .execute();
+
+    expect(sessions).toHaveLength(0);
+  });
+});
@@ -0,0 +1,37 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { slaPoliciesTable, usersTable } from '../db/schema';
+import { getSlaPolicies } from '../handlers/get_sla_policies';
+import { DEFAULT_SLA_POLICIES } from '../handlers/case_sla';
+
+describe('getSlaPolicies', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return the defaults for every priority when none are configured', async () => {
+    const policies = await getSlaPolicies();
+
+    expect(policies.map(policy => policy.priority)).toEqual(['critical', 'high', 'medium', 'low']);
+    expect(policies[0]).toEqual({ priority: 'critical', ...DEFAULT_SLA_POLICIES.critical, updated_by: null, updated_at: null });
+  });
+
+  it('should return configured policies in place of the defaults', async () => {
+    const [admin] = await db.insert(usersTable)
+      .values({ username: 'admin_user', email: 'admin@test.com', role: 'admin' })
+      .returning()
+      .execute();
+
+    await db.insert(slaPoliciesTable)
+      .values({ priority: 'high', assignment_minutes: 30, first_action_minutes: null, resolution_minutes: 2880, updated_by: admin.id })
+      .execute();
+
+    const policies = await getSlaPolicies();
+    const high = policies.find(policy => policy.priority === 'high')!;
+
+    expect(high.assignment_minutes).toEqual(30);
+    expect(high.first_action_minutes).toBeNull();
+    expect(high.updated_by).toEqual(admin.id);
+    expect(policies.find(policy => policy.priority === 'low')!.updated_by).toBeNull();
+  });
+});
@@ -0,0 +1,39 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { fraudCasesTable, notificationsTable, usersTable } from '../db/schema';
+import { getUnreadNotificationCount } from '../handlers/get_unread_notification_count';
+
+describe('getUnreadNotificationCount', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should count only the user\'s unread notifications', async () => {
+    const [admin, investigator] = await db.insert(usersTable)
+      .values([
+        { username: 'admin_user', email: 'admin@test.com', role: 'admin' },
+        { username: 'investigator_user', email: 'investigator@test.com', role: 'investigator' }
+      ])
+      .returning()
+      .execute();
+
+    const [fraudCase] = await db.insert(fraudCasesTable)
+      .values({ txid: 'TX-NOTIFY', description: 'Case used for notification tests', created_by: admin.id })
+      .returning()
+      .execute();
+
+    expect(await getUnreadNotificationCount(investigator.id)).toEqual(0);
+
+    const base = { type: 'assigned' as const, case_id: fraudCase.id, actor_id: admin.id, message: 'Case TX-NOTIFY was assigned to you' };
+    await db.insert(notificationsTable)
+      .values([
+        { ...base, user_id: investigator.id },
+        { ...base, user_id: investigator.id },
+        { ...base, user_id: investigator.id, read_at: new Date() },
+        { ...base, user_id: admin.id }
+      ])
+      .execute();
+
+    expect(await getUnreadNotificationCount(investigator.id)).toEqual(2);
+  });
+});
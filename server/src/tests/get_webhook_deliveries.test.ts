@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { fraudCasesTable, usersTable, webhookDeliveriesTable } from '../db/schema';
+import { createWebhookSubscription } from '../handlers/create_webhook_subscription';
+import { getWebhookDeliveries } from '../handlers/get_webhook_deliveries';
+import { queueWebhookEvent } from '../handlers/webhook_delivery';
+import { eq } from 'drizzle-orm';
+
+describe('getWebhookDeliveries', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let siem: any;
+  let tickets: any;
+
+  beforeEach(async () => {
+    const [admin] = await db.insert(usersTable)
+      .values({ username: 'admin_user', email: 'admin@test.com', role: 'admin' })
+      .returning()
+      .execute();
+    const [fraudCase] = await db.insert(fraudCasesTable)
+      .values({ txid: 'TX-HOOK-LOG', description: 'Card skimmed at a petrol station', priority: 'high', created_by: admin.id })
+      .returning()
+      .execute();
+
+    siem = await createWebhookSubscription({ url: 'https://siem.bank.test/hooks', events: ['case.created', 'case.closed'], created_by: admin.id });
+    tickets = await createWebhookSubscription({ url: 'https://tickets.bank.test/in', events: ['case.created'], created_by: admin.id });
+
+    await queueWebhookEvent('case.created', { case: fraudCase });
+    await queueWebhookEvent('case.closed', { case: fraudCase });
+  });
+
+  it('should return the log newest first', async () => {
+    const result = await getWebhookDeliveries();
+
+    expect(result.map(delivery => delivery.event)).toEqual(['case.closed', 'case.created', 'case.created']);
+  });
+
+  it('should filter by subscription and status', async () => {
+    expect((await getWebhookDeliveries({ subscription_id: tickets.id })).map(d => d.event)).toEqual(['case.created']);
+
+    await db.update(webhookDeliveriesTable)
+      .set({ status: 'failed', attempts: 8, last_error: 'Endpoint answered with HTTP 500' })
+      .where(eq(webhookDeliveriesTable.event, 'case.closed'))
+      .execute();
+
+    const failed = await getWebhookDeliveries({ status: 'failed' });
+    expect(failed).toHaveLength(1);
+    expect(failed[0].subscription_id).toEqual(siem.id);
+    expect(failed[0].last_error).toEqual('Endpoint answered with HTTP 500');
+  });
+
+  it('should limit the number of deliveries', async () => {
+    expect(await getWebhookDeliveries({ limit: 2 })).toHaveLength(2);
+  });
+});
@@ -0,0 +1,32 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { createWebhookSubscription } from '../handlers/create_webhook_subscription';
+import { getWebhookSubscriptions } from '../handlers/get_webhook_subscriptions';
+
+describe('getWebhookSubscriptions', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return nothing without subscriptions', async () => {
+    expect(await getWebhookSubscriptions()).toEqual([]);
+  });
+
+  it('should return active and paused subscriptions in creation order', async () => {
+    const [admin] = await db.insert(usersTable)
+      .values({ username: 'admin_user', email: 'admin@test.com', role: 'admin' })
+      .returning()
+      .execute();
+
+    await createWebhookSubscription({ url: 'https://siem.bank.test/hooks', events: ['case.created'], created_by: admin.id });
+    await createWebhookSubscription({ url: 'https://tickets.bank.test/in', events: ['case.escalated'], active: false, created_by: admin.id });
+
+    const result = await getWebhookSubscriptions();
+
+    expect(result.map(subscription => [subscription.url, subscription.active])).toEqual([
+      ['https://siem.bank.test/hooks', true],
+      ['https://tickets.bank.test/in', false]
+    ]);
+  });
+});
@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, failInsertsInto } from '../helpers';
+import { db } from '../db';
+import { caseEventsTable, fraudCasesTable, transactionsTable, usersTable, webhookDeliveriesTable } from '../db/schema';
+import { parseCsv } from '../helpers/csv';
+import { createFraudCase } from '../handlers/create_fraud_case';
+import { importCases } from '../handlers/import_cases';
+import { createWebhookSubscription } from '../handlers/create_webhook_subscription';
+import { updateAutoAssignmentRule } from '../handlers/update_auto_assignment_rule';
+
+describe('importCases', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let analyst: any;
+
+  beforeEach(async () => {
+    [analyst] = await db.insert(usersTable)
+      .values({ username: 'analyst_user', email: 'analyst@test.com', role: 'analyst' })
+      .returning()
+      .execute();
+  });
+
+  const csv = [
+    'txid,description,priority,amount,currency,occurred_at,merchant,channel',
+    'TX-ALERT-1,Card used in two countries within an hour,high,129.90,EUR,2024-06-01T08:00:00Z,"Shop, Inc.",card_not_present',
+    'TX-ALERT-2,Unusual ATM withdrawal pattern detected,,400,USD,,,atm'
+  ].join('\n');
+
+  it('should preview a CSV import without creating cases', async () => {
+    const result = await importCases({ format: 'csv', content: csv, dry_run: true, created_by: analyst.id });
+
+    expect(result.dry_run).toBe(true);
+    expect(result.total_rows).toEqual(2);
+    expect(result.valid_rows).toEqual(2);
+    expect(result.created_count).toEqual(0);
+    expect(result.rows.map(row => row.status)).toEqual(['valid', 'valid']);
+    expect(result.rows[0].txids).toEqual(['TX-ALERT-1']);
+    expect(await db.select().from(fraudCasesTable).execute()).toHaveLength(0);
+  });
+
+  it('should create every case of a valid CSV import', async () => {
+    const result = await importCases({ format: 'csv', content: csv, dry_run: false, created_by: analyst.id });
+
+    expect(result.created_count).toEqual(2);
+    expect(result.rows.every(row => row.status === 'created' && row.case_id !== null)).toBe(true);
+
+    const cases = await db.select().from(fraudCasesTable).orderBy(fraudCasesTable.id).execute();
+    expect(cases.map(c => c.txid)).toEqual(['TX-ALERT-1', 'TX-ALERT-2']);
+    expect(cases[0].priority).toEqual('high');
+    expect(cases[1].priority).toEqual('medium'); // Blank cells fall back to the schema default
+    expect(cases.every(c => c.created_by === analyst.id && c.status === 'open')).toBe(true);
+
+    const transactions = await db.select().from(transactionsTable).orderBy(transactionsTable.id).execute();
+    expect(transactions[0].amount).toEqual(129.9);
+    expect(transactions[0].merchant).toEqual('Shop, Inc.');
+    expect(transactions[0].occurred_at).toEqual(new Date('2024-06-01T08:00:00Z'));
+    expect(transactions[1].channel).toEqual('atm');
+    expect(transactions[1].occurred_at).toBeNull();
+
+    const events = await db.select().from(caseEventsTable).execute();
+    expect(events.map(e => e.event_type)).toEqual(['created', 'created']);
+  });
+
+  it('should auto-assign imported cases when the rule of their priority says so', async () => {
+    await updateAutoAssignmentRule({ priority: 'high', strategy: 'least_loaded', auto_on_create: true, updated_by: analyst.id });
+
+    const result = await importCases({ format: 'csv', content: csv, dry_run: false, created_by: analyst.id });
+
+    const cases = await db.select().from(fraudCasesTable).orderBy(fraudCasesTable.id).execute();
+    expect(cases.map(fraudCase => fraudCase.id)).toEqual(result.rows.map(row => row.case_id!));
+    expect(cases[0]).toMatchObject({ priority: 'high', assigned_to: analyst.id, status: 'in_progress' });
+    expect(cases[1].assigned_to).toBeNull();
+  });
+
+  it('should import JSON rows with several transactions per case', async () => {
+    const content = JSON.stringify([
+      {
+        description: 'Mule account receiving several transfers',
+        priority: 'critical',
+        transactions: [
+          { txid: 'TX-MULE-1', amount: 900, currency: 'GBP', channel: 'wire' },
+          { txid: 'TX-MULE-2', amount: 950, currency: 'GBP', channel: 'wire' }
+        ]
+      },
+      { txid: 'TX-SINGLE', description: 'Single flagged payment from alerting', amount: 12 }
+    ]);
+
+    const result = await importCases({ format: 'json', content, dry_run: false, created_by: analyst.id });
+
+    expect(result.created_count).toEqual(2);
+    expect(result.rows[0].txids).toEqual(['TX-MULE-1', 'TX-MULE-2']);
+    expect(await db.select().from(transactionsTable).execute()).toHaveLength(3);
+  });
+
+  it('should report per-row validation errors and create nothing', async () => {
+    const content = [
+      'txid,description,priority,amount',
+      'TX-OK,A perfectly valid flagged payment,low,10',
+      ',Missing its transaction id,low,10',
+      'TX-BAD,Too short,urgent,abc'
+    ].join('\n');
+
+    const result = await importCases({ format: 'csv', content, dry_run: false, created_by: analyst.id });
+
+    expect(result.created_count).toEqual(0);
+    expect(result.valid_rows).toEqual(1);
+    expect(result.rows.map(row => row.status)).toEqual(['valid', 'invalid', 'invalid']);
+    expect(result.rows[1].errors.join(' ')).toContain('transactions.0.txid');
+    expect(result.rows[2].errors.some(error => error.startsWith('description:'))).toBe(true);
+    expect(result.rows[2].errors.some(error => error.startsWith('priority:'))).toBe(true);
+    expect(result.rows[2].errors.some(error => error.startsWith('transactions.0.amount:'))).toBe(true);
+    expect(await db.select().from(fraudCasesTable).execute()).toHaveLength(0);
+  });
+
+  it('should flag transactions that already exist or repeat within the file', async () => {
+    const existing = await createFraudCase({
+      description: 'Case opened before the import',
+      priority: 'medium',
+      created_by: analyst.id,
+      transactions: [{ txid: 'TX-ALERT-2' }]
+    });
+
+    const content = csv + '\nTX-ALERT-1,The same alert exported a second time,high';
+    const result = await importCases({ format: 'csv', content, dry_run: true, created_by: analyst.id });
+
+    expect(result.rows.map(row => row.status)).toEqual(['valid', 'duplicate', 'duplicate']);
+    expect(result.rows[1].errors).toEqual([`Transaction TX-ALERT-2 is already linked to case #${existing.id}`]);
+    expect(result.rows[2].errors).toEqual(['Transaction TX-ALERT-1 is also listed in row 1']);
+  });
+
+  it('should reject files that cannot be parsed', async () => {
+    await expect(importCases({ format: 'json', content: '{"txid":', dry_run: true, created_by: analyst.id }))
+      .rejects.toThrow(/not valid JSON/);
+    await expect(importCases({ format: 'json', content: '{"txid":"TX"}', dry_run: true, created_by: analyst.id }))
+      .rejects.toThrow(/array of case objects/);
+    await expect(importCases({ format: 'csv', content: 'txid,description\n', dry_run: true, created_by: analyst.id }))
+      .rejects.toThrow(/no rows/);
+  });
+
+  it('should parse quoted CSV fields', () => {
+    expect(parseCsv('\uFEFFa,b\r\n"x, ""y""","multi\nline"\n\n')).toEqual([
+      ['a', 'b'],
+      ['x, "y"', 'multi\nline']
+    ]);
+    expect(() => parseCsv('a,"open')).toThrow(/quoted field/);
+  });
+
+  it('should import nothing when a webhook event cannot be queued', async () => {
+    await createWebhookSubscription({ url: 'http://127.0.0.1:1/hooks', events: ['case.created'], created_by: analyst.id });
+    await failInsertsInto(webhookDeliveriesTable);
+
+    await expect(importCases({ format: 'csv', content: csv, dry_run: false, created_by: analyst.id }))
+      .rejects.toThrow('Injected failure writing to webhook_deliveries');
+
+    expect(await db.select().from(fraudCasesTable).execute()).toHaveLength(0);
+    expect(await db.select().from(caseEventsTable).execute()).toHaveLength(0);
+  });
+});
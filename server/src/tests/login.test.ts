@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { type LoginInput } from '../schema';
+import { hashPassword, hashSessionToken } from '../helpers/auth';
+import { login } from '../handlers/login';
+import { eq } from 'drizzle-orm';
+
+const testInput: LoginInput = {
+  username: 'investigator_user',
+  password: 'correct-horse-battery'
+};
+
+describe('login', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable)
+      .values({
+        username: 'investigator_user',
+        email: 'investigator@test.com',
+        role: 'investigator',
+        password_hash: await hashPassword(testInput.password)
+      })
+      .returning()
+      .execute();
+
+    userId = users[0].id;
+  });
+
+  it('should return a session for valid credentials', async () => {
+    const result = await login(testInput);
+
+    expect(result.token).toMatch(/^[0-9a-f]{64}$/);
+    expect(result.expires_at).toBeInstanceOf(Date);
+    expect(result.expires_at > new Date()).toBe(true);
+    expect(result.user.id).toEqual(userId);
+    expect(result.user.username).toEqual('investigator_user');
+    expect(result.user.role).toEqual('investigator');
+  });
+
+  it('should not expose the password hash', async () => {
+    const result = await login(testInput);
+
+    expect(result.user).not.toHaveProperty('password_hash');
+  });
+
+  it('should store only the token hash in the database', async () => {
+    const result = await login(testInput);
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.user_id, userId))
+      .execute();
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].token_hash).toEqual(hashSessionToken(result.token));
+    expect(sessions[0].token_hash).not.toEqual(result.token);
+    expect(sessions[0].expires_at).toBeInstanceOf(Date);
+  });
+
+  it('should issue a new token on each login', async () => {
+    const first = await login(testInput);
+    const second = await login(testInput);
+
+    expect(first.token).not.toEqual(second.token);
+  });
+
+  it('should reject a wrong password', async () => {
+    await expect(login({ ...testInput, password: 'wrong-password' }))
+      .rejects.toThrow(/invalid username or password/i);
+  });
+
+  it('should reject an unknown username', async () => {
+    await expect(login({ ...testInput, username: 'nobody' }))
+      .rejects.toThrow(/invalid username or password/i);
+  });
+
+  it('should reject users without a password', async () => {
+    await db.insert(usersTable)
+      .values({
+        username: 'no_password_user',
+        email: 'nopass@test.com',
+        role: 'analyst'
+      })
+      .execute();
+
+    await expect(login({ username: 'no_password_user', password: 'anything' }))
+      .rejects.toThrow(/invalid username or password/i);
+  });
+});
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { hashSessionToken } from '../helpers/auth';
+import { logout } from '../handlers/logout';
+import { eq } from 'drizzle-orm';
+
+describe('logout', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const token = 'a'.repeat(64);
+  let userId: number;
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable)
+      .values({
+        username: 'analyst_user',
+        email: 'analyst@test.com',
+        role: 'analyst'
+      })
+      .returning()
+      .execute();
+
+    userId = users[0].id;
+
+    await db.insert(sessionsTable)
+      .values({
+        token_hash: hashSessionToken(token),
+        user_id: userId,
+        expires_at: new Date(Date.now() + 60 * 60 * 1000)
+      })
+      .execute();
+  });
+
+  it('should delete the session for the token', async () => {
+    const result = await logout(token);
+
+    expect(result.success).toBe(true);
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.user_id, userId))
+      .execute();
+
+    expect(sessions).toHaveLength(0);
+  });
+
+  it('should report failure for an unknown token', async () => {
+    const result = await logout('b'.repeat(64));
+
+    expect(result.success).toBe(false);
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .execute();
+
+    expect(sessions).toHaveLength(1);
+  });
+});
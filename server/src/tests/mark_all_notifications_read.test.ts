@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { fraudCasesTable, notificationsTable, usersTable } from '../db/schema';
+import { markAllNotificationsRead } from '../handlers/mark_all_notifications_read';
+import { eq } from 'drizzle-orm';
+
+describe('markAllNotificationsRead', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should mark only the user\'s unread notifications read', async () => {
+    const [admin, investigator] = await db.insert(usersTable)
+      .values([
+        { username: 'admin_user', email: 'admin@test.com', role: 'admin' },
+        { username: 'investigator_user', email: 'investigator@test.com', role: 'investigator' }
+      ])
+      .returning()
+      .execute();
+
+    const [fraudCase] = await db.insert(fraudCasesTable)
+      .values({ txid: 'TX-NOTIFY', description: 'Case used for notification tests', created_by: admin.id })
+      .returning()
+      .execute();
+
+    const readAt = new Date('2024-01-01T09:00:00Z');
+    const base = { type: 'assigned' as const, case_id: fraudCase.id, actor_id: admin.id, message: 'Case TX-NOTIFY was assigned to you' };
+    await db.insert(notificationsTable)
+      .values([
+        { ...base, user_id: investigator.id },
+        { ...base, user_id: investigator.id },
+        { ...base, user_id: investigator.id, read_at: readAt },
+        { ...base, user_id: admin.id }
+      ])
+      .execute();
+
+    expect(await markAllNotificationsRead(investigator.id)).toEqual({ updated: 2 });
+
+    const own = await db.select().from(notificationsTable).where(eq(notificationsTable.user_id, investigator.id)).execute();
+    expect(own.every(notification => notification.read_at !== null)).toBe(true);
+    expect(own.some(notification => notification.read_at!.getTime() === readAt.getTime())).toBe(true);
+
+    const [others] = await db.select().from(notificationsTable).where(eq(notificationsTable.user_id, admin.id)).execute();
+    expect(others.read_at).toBeNull();
+  });
+});
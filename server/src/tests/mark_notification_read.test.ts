@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { fraudCasesTable, notificationsTable, usersTable } from '../db/schema';
+import { markNotificationRead } from '../handlers/mark_notification_read';
+
+describe('markNotificationRead', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let admin: any;
+  let investigator: any;
+  let notification: any;
+
+  beforeEach(async () => {
+    [admin, investigator] = await db.insert(usersTable)
+      .values([
+        { username: 'admin_user', email: 'admin@test.com', role: 'admin' },
+        { username: 'investigator_user', email: 'investigator@test.com', role: 'investigator' }
+      ])
+      .returning()
+      .execute();
+
+    const [fraudCase] = await db.insert(fraudCasesTable)
+      .values({ txid: 'TX-NOTIFY', description: 'Case used for notification tests', created_by: admin.id })
+      .returning()
+      .execute();
+
+    [notification] = await db.insert(notificationsTable)
+      .values({ user_id: investigator.id, type: 'assigned', case_id: fraudCase.id, actor_id: admin.id, message: 'Case TX-NOTIFY was assigned to you' })
+      .returning()
+      .execute();
+  });
+
+  it('should mark the notification read once', async () => {
+    const read = await markNotificationRead(notification.id, investigator.id);
+    expect(read.read_at).toBeInstanceOf(Date);
+
+    const again = await markNotificationRead(notification.id, investigator.id);
+    expect(again.read_at).toEqual(read.read_at);
+  });
+
+  it('should not reveal notifications of other users', async () => {
+    await expect(markNotificationRead(notification.id, admin.id)).rejects.toThrow(/notification not found/i);
+    await expect(markNotificationRead(99999, investigator.id)).rejects.toThrow(/notification not found/i);
+  });
+});
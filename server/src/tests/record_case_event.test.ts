@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { caseEventsTable, fraudCasesTable, usersTable } from '../db/schema';
+import { diffCaseFields, recordCaseEvent } from '../handlers/record_case_event';
+import { type FraudCase } from '../schema';
+import { eq } from 'drizzle-orm';
+
+const baseCase: FraudCase = {
+  id: 1,
+  txid: 'TX-DIFF',
+  description: 'Case used for diff tests',
+  status: 'open',
+  priority: 'medium',
+  assigned_to: null,
+  created_by: 1,
+  disposition: null,
+  resolution_note: null,
+  recovered_amount: null,
+  closed_by: null,
+  closed_at: null,
+  assignment_due_at: null,
+  first_action_due_at: null,
+  resolution_due_at: null,
+  first_assigned_at: null,
+  first_action_at: null,
+  resolved_at: null,
+  version: 1,
+  created_at: new Date('2024-01-01T00:00:00Z'),
+  updated_at: new Date('2024-01-01T00:00:00Z')
+};
+
+describe('diffCaseFields', () => {
+  it('should list every populated field for a new case', () => {
+    const changes = diffCaseFields(null, baseCase);
+
+    expect(changes).toEqual({
+      txid: { from: null, to: 'TX-DIFF' },
+      description: { from: null, to: 'Case used for diff tests' },
+      status: { from: null, to: 'open' },
+      priority: { from: null, to: 'medium' },
+      created_by: { from: null, to: 1 }
+    });
+  });
+
+  it('should only include fields that changed', () => {
+    const changes = diffCaseFields(baseCase, {
+      ...baseCase,
+      status: 'in_progress',
+      assigned_to: 7,
+      updated_at: new Date('2024-02-01T00:00:00Z')
+    });
+
+    expect(changes).toEqual({
+      status: { from: 'open', to: 'in_progress' },
+      assigned_to: { from: null, to: 7 }
+    });
+  });
+
+  it('should return an empty diff for an unchanged case', () => {
+    expect(diffCaseFields(baseCase, { ...baseCase, updated_at: new Date() })).toEqual({});
+  });
+});
+
+describe('recordCaseEvent', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should persist an event with its changes and metadata', async () => {
+    const [user] = await db.insert(usersTable)
+      .values({ username: 'auditor', email: 'auditor@test.com', role: 'investigator' })
+      .returning()
+      .execute();
+    const [fraudCase] = await db.insert(fraudCasesTable)
+      .values({ txid: 'TX-EVENT', description: 'Case used for event tests', priority: 'low', created_by: user.id })
+      .returning()
+      .execute();
+
+    const event = await recordCaseEvent({
+      case_id: fraudCase.id,
+      actor_id: user.id,
+      event_type: 'escalated',
+      changes: { priority: { from: 'low', to: 'high' } },
+      metadata: { escalation_id: 3, reason: 'Suspicious pattern' }
+    });
+
+    expect(event.id).toBeDefined();
+    expect(event.created_at).toBeInstanceOf(Date);
+
+    const stored = await db.select()
+      .from(caseEventsTable)
+      .where(eq(caseEventsTable.id, event.id))
+      .execute();
+
+    expect(stored).toHaveLength(1);
+    expect(stored[0].event_type).toEqual('escalated');
+    expect(stored[0].changes).toEqual({ priority: { from: 'low', to: 'high' } });
+    expect(stored[0].metadata).toEqual({ escalation_id: 3, reason: 'Suspicious pattern' });
+  });
+});
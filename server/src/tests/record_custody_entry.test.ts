@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { custodyEntriesTable, fraudCasesTable, usersTable } from '../db/schema';
+import { computeCustodyHash, GENESIS_HASH, recordCustodyEntries, recordCustodyEntry } from '../handlers/record_custody_entry';
+
+describe('recordCustodyEntry', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let investigator: any;
+  let caseA: any;
+  let caseB: any;
+
+  beforeEach(async () => {
+    [investigator] = await db.insert(usersTable)
+      .values({ username: 'investigator_user', email: 'investigator@test.com', role: 'investigator' })
+      .returning()
+      .execute();
+
+    [caseA, caseB] = await db.insert(fraudCasesTable)
+      .values([
+        { txid: 'TX-CUSTODY-A', description: 'First custody case', priority: 'high', created_by: investigator.id },
+        { txid: 'TX-CUSTODY-B', description: 'Second custody case', priority: 'low', created_by: investigator.id }
+      ])
+      .returning()
+      .execute();
+  });
+
+  const entry = (attachmentId: number, action: 'uploaded' | 'viewed' = 'uploaded') => ({
+    attachment_id: attachmentId,
+    actor_id: investigator.id,
+    action,
+    attachment_sha256: 'a'.repeat(64),
+    details: { filename: 'statement.csv' }
+  });
+
+  it('should start each case chain from the genesis hash', async () => {
+    const first = await recordCustodyEntry(caseA.id, entry(1));
+    const other = await recordCustodyEntry(caseB.id, entry(2));
+
+    expect(first.previous_hash).toEqual(GENESIS_HASH);
+    expect(other.previous_hash).toEqual(GENESIS_HASH);
+    expect(first.entry_hash).toEqual(computeCustodyHash(first));
+  });
+
+  it('should link every entry to the hash of the one before it', async () => {
+    const [first, second] = await recordCustodyEntries(caseA.id, [entry(1), entry(1, 'viewed')]);
+    const third = await recordCustodyEntry(caseA.id, entry(1, 'viewed'));
+
+    expect(second.previous_hash).toEqual(first.entry_hash);
+    expect(third.previous_hash).toEqual(second.entry_hash);
+    expect(new Set([first.entry_hash, second.entry_hash, third.entry_hash]).size).toEqual(3);
+  });
+
+  it('should keep the chain linear under concurrent appends', async () => {
+    await Promise.all(Array.from({ length: 5 }, () => recordCustodyEntry(caseA.id, entry(1, 'viewed'))));
+
+    const entries = await db.select().from(custodyEntriesTable).orderBy(custodyEntriesTable.id).execute();
+
+    expect(entries).toHaveLength(5);
+    entries.forEach((recorded, index) => {
+      expect(recorded.previous_hash).toEqual(index === 0 ? GENESIS_HASH : entries[index - 1].entry_hash);
+    });
+  });
+
+  it('should hash details independently of key order', () => {
+    const fields = {
+      case_id: 1,
+      attachment_id: 1,
+      actor_id: 1,
+      action: 'replaced' as const,
+      attachment_sha256: 'b'.repeat(64),
+      previous_hash: GENESIS_HASH,
+      created_at: new Date('2024-01-01T00:00:00Z')
+    };
+
+    expect(computeCustodyHash({ ...fields, details: { filename: 'a.pdf', previous_sha256: 'c' } }))
+      .toEqual(computeCustodyHash({ ...fields, details: { previous_sha256: 'c', filename: 'a.pdf' } }));
+    expect(computeCustodyHash({ ...fields, details: null }))
+      .not.toEqual(computeCustodyHash({ ...fields, actor_id: 2, details: null }));
+  });
+});
@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { fraudCasesTable, usersTable, webhookDeliveriesTable } from '../db/schema';
+import { createWebhookSubscription } from '../handlers/create_webhook_subscription';
+import { updateWebhookSubscription } from '../handlers/update_webhook_subscription';
+import { redeliverWebhook } from '../handlers/redeliver_webhook';
+import { queueWebhookEvent } from '../handlers/webhook_delivery';
+import { eq } from 'drizzle-orm';
+
+describe('redeliverWebhook', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let subscription: any;
+  let original: any;
+
+  beforeEach(async () => {
+    const [admin] = await db.insert(usersTable)
+      .values({ username: 'admin_user', email: 'admin@test.com', role: 'admin' })
+      .returning()
+      .execute();
+    const [fraudCase] = await db.insert(fraudCasesTable)
+      .values({ txid: 'TX-HOOK-AGAIN', description: 'Ticket was lost by the receiver', priority: 'medium', created_by: admin.id })
+      .returning()
+      .execute();
+
+    subscription = await createWebhookSubscription({ url: 'https://tickets.bank.test/in', events: ['case.created'], created_by: admin.id });
+    await queueWebhookEvent('case.created', { case: fraudCase });
+
+    [original] = await db.update(webhookDeliveriesTable)
+      .set({ status: 'failed', attempts: 8, response_status: 500, last_error: 'Endpoint answered with HTTP 500' })
+      .returning()
+      .execute();
+  });
+
+  it('should queue the same payload as a new delivery', async () => {
+    const result = await redeliverWebhook(original.id);
+
+    expect(result.id).not.toEqual(original.id);
+    expect(result.redelivery_of).toEqual(original.id);
+    expect(result.subscription_id).toEqual(subscription.id);
+    expect(result.event).toEqual('case.created');
+    expect(result.event_id).toEqual(original.event_id);
+    expect(result.payload).toEqual(original.payload);
+    expect(result.status).toEqual('pending');
+    expect(result.attempts).toEqual(0);
+    expect(result.last_error).toBeNull();
+
+    // The original stays in the log as it was
+    const [unchanged] = await db.select().from(webhookDeliveriesTable).where(eq(webhookDeliveriesTable.id, original.id)).execute();
+    expect(unchanged.status).toEqual('failed');
+  });
+
+  it('should refuse to redeliver to a paused subscription', async () => {
+    await updateWebhookSubscription({ id: subscription.id, active: false });
+
+    await expect(redeliverWebhook(original.id)).rejects.toThrow(/inactive webhook subscription/);
+  });
+
+  it('should throw for an unknown delivery', async () => {
+    await expect(redeliverWebhook(original.id + 100)).rejects.toThrow(/Webhook delivery not found/);
+  });
+});
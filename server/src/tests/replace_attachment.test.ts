@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { createHash } from 'node:crypto';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { resetDB, createDB, failInsertsInto } from '../helpers';
+import { db } from '../db';
+import { caseAttachmentsTable, custodyEntriesTable, fraudCasesTable, usersTable } from '../db/schema';
+import { createLocalDiskStorage, setAttachmentStorage } from '../helpers/attachment_storage';
+import { uploadAttachment } from '../handlers/upload_attachment';
+import { replaceAttachment } from '../handlers/replace_attachment';
+import { getAttachmentContent } from '../handlers/get_attachment_content';
+import { getCustodyLog } from '../handlers/get_custody_log';
+import { verifyCustodyChain } from '../handlers/verify_custody_chain';
+
+describe('replaceAttachment', () => {
+  let storageDir: string;
+
+  beforeEach(async () => {
+    await createDB();
+    storageDir = await mkdtemp(join(tmpdir(), 'attachments-'));
+    setAttachmentStorage(createLocalDiskStorage(storageDir));
+  });
+
+  afterEach(async () => {
+    await resetDB();
+    setAttachmentStorage(null);
+    await rm(storageDir, { recursive: true, force: true });
+  });
+
+  let investigator: any;
+  let analyst: any;
+  let fraudCase: any;
+  let attachment: any;
+
+  beforeEach(async () => {
+    [investigator, analyst] = await db.insert(usersTable)
+      .values([
+        { username: 'investigator_user', email: 'investigator@test.com', role: 'investigator' },
+        { username: 'analyst_user', email: 'analyst@test.com', role: 'analyst' }
+      ])
+      .returning()
+      .execute();
+
+    [fraudCase] = await db.insert(fraudCasesTable)
+      .values({ txid: 'TX-EVIDENCE', description: 'Case used for attachment tests', priority: 'high', created_by: investigator.id })
+      .returning()
+      .execute();
+
+    attachment = await uploadAttachment({
+      case_id: fraudCase.id,
+      uploaded_by: investigator.id,
+      filename: 'statement.csv',
+      mime_type: 'text/csv',
+      content_base64: Buffer.from('date,amount\n').toString('base64')
+    });
+  });
+
+  const corrected = Buffer.from('date,amount\n2024-01-01,250.00\n');
+
+  it('should swap the stored content and record the previous hash', async () => {
+    const replaced = await replaceAttachment({
+      attachment_id: attachment.id,
+      filename: 'statement-corrected.csv',
+      mime_type: 'text/csv',
+      content_base64: corrected.toString('base64')
+    }, investigator.id);
+
+    expect(replaced.id).toEqual(attachment.id);
+    expect(replaced.filename).toEqual('statement-corrected.csv');
+    expect(replaced.size_bytes).toEqual(corrected.length);
+    expect(replaced.sha256).toEqual(createHash('sha256').update(corrected).digest('hex'));
+
+    const content = await getAttachmentContent(attachment.id, investigator.id);
+    expect(Buffer.from(content.content_base64, 'base64').equals(corrected)).toBe(true);
+
+    const log = await getCustodyLog(fraudCase.id);
+    const replacement = log.find(entry => entry.action === 'replaced');
+    expect(replacement?.actor_id).toEqual(investigator.id);
+    expect(replacement?.attachment_sha256).toEqual(replaced.sha256);
+    expect(replacement?.details?.['previous_sha256']).toEqual(attachment.sha256);
+  });
+
+  it('should keep the superseded file and record where it is stored', async () => {
+    await replaceAttachment({
+      attachment_id: attachment.id,
+      filename: 'statement-corrected.csv',
+      mime_type: 'text/csv',
+      content_base64: corrected.toString('base64')
+    }, investigator.id);
+
+    expect(await readdir(join(storageDir, 'cases', String(fraudCase.id)))).toHaveLength(2);
+
+    const log = await getCustodyLog(fraudCase.id);
+    expect(log.map(entry => entry.action)).toEqual(['uploaded', 'superseded', 'replaced']);
+
+    const superseded = log[1];
+    expect(superseded.attachment_sha256).toEqual(attachment.sha256);
+    expect(superseded.details?.['filename']).toEqual('statement.csv');
+
+    const original = await readFile(join(storageDir, String(superseded.details?.['storage_key'])));
+    expect(original.toString()).toEqual('date,amount\n');
+
+    expect((await verifyCustodyChain(fraudCase.id)).valid).toBe(true);
+  });
+
+  it('should reject users who cannot see the case', async () => {
+    await expect(replaceAttachment({
+      attachment_id: attachment.id,
+      filename: 'statement.csv',
+      mime_type: 'text/csv',
+      content_base64: corrected.toString('base64')
+    }, analyst.id)).rejects.toThrow(/insufficient permissions/i);
+  });
+
+  it('should throw for a non-existent attachment', async () => {
+    await expect(replaceAttachment({
+      attachment_id: 99999,
+      filename: 'statement.csv',
+      mime_type: 'text/csv',
+      content_base64: corrected.toString('base64')
+    }, investigator.id)).rejects.toThrow(/attachment not found/i);
+  });
+
+  it('should keep the original when the custody entry cannot be written', async () => {
+    await failInsertsInto(custodyEntriesTable);
+
+    await expect(replaceAttachment({
+      attachment_id: attachment.id,
+      filename: 'statement-corrected.csv',
+      mime_type: 'text/csv',
+      content_base64: corrected.toString('base64')
+    }, investigator.id)).rejects.toThrow('Injected failure writing to custody_entries');
+
+    const [stored] = await db.select().from(caseAttachmentsTable).execute();
+    expect(stored).toMatchObject({ filename: 'statement.csv', sha256: attachment.sha256 });
+    expect(await readdir(join(storageDir, 'cases', String(fraudCase.id)))).toHaveLength(1);
+  });
+
+  it('should apply concurrent replacements one after the other', async () => {
+    const versions = ['first', 'second'].map(name => Buffer.from(`date,amount,${name}\n`));
+
+    await Promise.all(versions.map(version => replaceAttachment({
+      attachment_id: attachment.id,
+      filename: 'statement.csv',
+      mime_type: 'text/csv',
+      content_base64: version.toString('base64')
+    }, investigator.id)));
+
+    // Each replacement names the content it actually replaced
+    const replacements = (await getCustodyLog(fraudCase.id)).filter(entry => entry.action === 'replaced');
+    expect(replacements).toHaveLength(2);
+    expect(replacements[0].details?.['previous_sha256']).toEqual(attachment.sha256);
+    expect(replacements[1].details?.['previous_sha256']).toEqual(replacements[0].attachment_sha256);
+
+    expect((await verifyCustodyChain(fraudCase.id)).valid).toBe(true);
+  });
+});
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { caseNotesTable, fraudCasesTable, transactionsTable, usersTable } from '../db/schema';
+import { searchCases, toPrefixTsQuery } from '../handlers/search_cases';
+
+describe('searchCases', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let investigator: any;
+  let analyst: any;
+  let viewer: any;
+  let cardCase: any;
+  let wireCase: any;
+  let phishingCase: any;
+
+  beforeEach(async () => {
+    [investigator, analyst, viewer] = await db.insert(usersTable)
+      .values([
+        { username: 'investigator_user', email: 'investigator@test.com', role: 'investigator' },
+        { username: 'maria_analyst', email: 'analyst@test.com', role: 'analyst' },
+        { username: 'viewer_user', email: 'viewer@test.com', role: 'viewer' }
+      ])
+      .returning()
+      .execute();
+
+    [cardCase, wireCase, phishingCase] = await db.insert(fraudCasesTable)
+      .values([
+        { txid: 'CARD-1001', description: 'Stolen card used for refunded electronics purchases', created_by: investigator.id, assigned_to: analyst.id },
+        { txid: 'WIRE-2002', description: 'Unusual international wire transfer', created_by: investigator.id, assigned_to: viewer.id },
+        { txid: 'PHISH-3003', description: 'Customer reported a phishing email', created_by: investigator.id }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(transactionsTable)
+      .values([
+        { case_id: cardCase.id, txid: 'CARD-1001' },
+        { case_id: wireCase.id, txid: 'WIRE-2002' },
+        { case_id: wireCase.id, txid: 'WIRE-2002-B' },
+        { case_id: phishingCase.id, txid: 'PHISH-3003' }
+      ])
+      .execute();
+
+    await db.insert(caseNotesTable)
+      .values([
+        { case_id: wireCase.id, author_id: investigator.id, body: 'Beneficiary bank confirmed the mule account', visibility: 'internal' },
+        { case_id: wireCase.id, author_id: investigator.id, body: 'Customer was coached over the phone', visibility: 'shareable' }
+      ])
+      .execute();
+  });
+
+  it('should match description words by prefix and highlight them', async () => {
+    const results = await searchCases({ query: 'refund electr' }, investigator.id);
+
+    expect(results).toHaveLength(1);
+    expect(results[0].case.id).toEqual(cardCase.id);
+    expect(results[0].matched_fields).toEqual(['description']);
+    expect(results[0].snippet!.filter(segment => segment.highlighted).map(segment => segment.text))
+      .toEqual(['refunded', 'electronics']);
+    expect(results[0].snippet!.map(segment => segment.text).join('')).toEqual(cardCase.description);
+  });
+
+  it('should match transaction ID prefixes, ranking exact matches first', async () => {
+    const results = await searchCases({ query: 'wire-2002' }, investigator.id);
+
+    expect(results.map(result => result.case.id)).toEqual([wireCase.id]);
+    expect(results[0].matched_fields).toContain('txid');
+
+    const prefixResults = await searchCases({ query: 'card-10' }, investigator.id);
+    expect(prefixResults.map(result => result.case.id)).toEqual([cardCase.id]);
+  });
+
+  it('should rank an exact transaction ID above a word match', async () => {
+    await db.insert(fraudCasesTable)
+      .values({ txid: 'OTHER-1', description: 'Mentions card 1001 in passing', created_by: investigator.id })
+      .execute();
+
+    const results = await searchCases({ query: 'CARD-1001' }, investigator.id);
+
+    expect(results[0].case.id).toEqual(cardCase.id);
+    expect(results[0].rank).toBeGreaterThan(results[1].rank);
+  });
+
+  it('should match notes and use them for the snippet', async () => {
+    const results = await searchCases({ query: 'mule' }, investigator.id);
+
+    expect(results.map(result => result.case.id)).toEqual([wireCase.id]);
+    expect(results[0].matched_fields).toEqual(['note']);
+    expect(results[0].snippet!.find(segment => segment.highlighted)!.text).toEqual('mule');
+  });
+
+  it('should match assignee and creator usernames', async () => {
+    const results = await searchCases({ query: 'maria' }, investigator.id);
+
+    expect(results.map(result => result.case.id)).toEqual([cardCase.id]);
+    expect(results[0].matched_fields).toEqual(['assignee']);
+    expect(results[0].snippet).toBeNull();
+
+    const created = await searchCases({ query: 'investigator_' }, investigator.id);
+    expect(created).toHaveLength(3);
+    expect(created.every(result => result.matched_fields.includes('creator'))).toBe(true);
+  });
+
+  it('should only search cases and notes the user can see', async () => {
+    const analystResults = await searchCases({ query: 'wire' }, analyst.id);
+    expect(analystResults).toHaveLength(0);
+
+    // The viewer is assigned the wire case but cannot see its internal notes
+    expect(await searchCases({ query: 'mule' }, viewer.id)).toHaveLength(0);
+    const coached = await searchCases({ query: 'coached' }, viewer.id);
+    expect(coached.map(result => result.case.id)).toEqual([wireCase.id]);
+  });
+
+  it('should apply filters and the limit', async () => {
+    const filtered = await searchCases({ query: 'customer', filters: { txid: 'PHISH-3003' } }, investigator.id);
+    expect(filtered.map(result => result.case.id)).toEqual([phishingCase.id]);
+
+    const limited = await searchCases({ query: 'investigator', limit: 2 }, investigator.id);
+    expect(limited).toHaveLength(2);
+  });
+
+  it('should treat LIKE wildcards literally', async () => {
+    expect(await searchCases({ query: '%' }, investigator.id)).toHaveLength(0);
+    expect(await searchCases({ query: '_ARD' }, investigator.id)).toHaveLength(0);
+  });
+
+  it('should throw for a non-existent user', async () => {
+    await expect(searchCases({ query: 'card' }, 99999)).rejects.toThrow(/user not found/i);
+  });
+
+  it('should build prefix queries from words only', () => {
+    expect(toPrefixTsQuery('Card-1001 & refund!')).toEqual('card:* & 1001:* & refund:*');
+    expect(toPrefixTsQuery('%%')).toBeNull();
+  });
+});
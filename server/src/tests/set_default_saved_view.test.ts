@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { defaultSavedViewsTable, usersTable } from '../db/schema';
+import { createSavedView } from '../handlers/create_saved_view';
+import { setDefaultSavedView } from '../handlers/set_default_saved_view';
+
+describe('setDefaultSavedView', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let analyst: any;
+  let investigator: any;
+
+  beforeEach(async () => {
+    [analyst, investigator] = await db.insert(usersTable)
+      .values([
+        { username: 'analyst_user', email: 'analyst@test.com', role: 'analyst' },
+        { username: 'investigator_user', email: 'investigator@test.com', role: 'investigator' }
+      ])
+      .returning()
+      .execute();
+  });
+
+  it('should set, replace and clear the default view', async () => {
+    const first = await createSavedView({ owner_id: analyst.id, name: 'First', filters: {} });
+    const second = await createSavedView({ owner_id: investigator.id, name: 'Second', filters: {}, shared: true });
+
+    expect(await setDefaultSavedView(first.id, analyst.id)).toEqual({ default_view_id: first.id });
+    expect(await setDefaultSavedView(second.id, analyst.id)).toEqual({ default_view_id: second.id });
+
+    const rows = await db.select().from(defaultSavedViewsTable).execute();
+    expect(rows).toEqual([{ user_id: analyst.id, view_id: second.id }]);
+
+    expect(await setDefaultSavedView(null, analyst.id)).toEqual({ default_view_id: null });
+    expect(await db.select().from(defaultSavedViewsTable).execute()).toHaveLength(0);
+  });
+
+  it('should not allow another user\'s private view', async () => {
+    const privateView = await createSavedView({ owner_id: investigator.id, name: 'Mine', filters: {} });
+
+    await expect(setDefaultSavedView(privateView.id, analyst.id)).rejects.toThrow(/saved view not found/i);
+  });
+});
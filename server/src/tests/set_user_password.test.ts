@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { hashSessionToken } from '../helpers/auth';
+import { setUserPassword } from '../handlers/set_user_password';
+import { login } from '../handlers/login';
+import { eq } from 'drizzle-orm';
+
+describe('setUserPassword', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let user: any;
+  let other: any;
+
+  beforeEach(async () => {
+    // Created before passwords existed, so neither can log in yet
+    [user, other] = await db.insert(usersTable)
+      .values([
+        { username: 'analyst_user', email: 'analyst@test.com', role: 'analyst' },
+        { username: 'viewer_user', email: 'viewer@test.com', role: 'viewer' }
+      ])
+      .returning()
+      .execute();
+  });
+
+  const insertSession = (userId: number, token: string) => db.insert(sessionsTable)
+    .values({ token_hash: hashSessionToken(token), user_id: userId, expires_at: new Date(Date.now() + 60 * 60 * 1000) })
+    .execute();
+
+  it('should let a user without a password log in', async () => {
+    await expect(login({ username: 'analyst_user', password: 'correct-horse-battery' })).rejects.toThrow('Invalid username or password');
+
+    const result = await setUserPassword({ id: user.id, password: 'correct-horse-battery' });
+
+    expect(result.id).toEqual(user.id);
+    expect(result).not.toHaveProperty('password_hash');
+
+    const session = await login({ username: 'analyst_user', password: 'correct-horse-battery' });
+    expect(session.user.id).toEqual(user.id);
+  });
+
+  it('should revoke the sessions of that user only', async () => {
+    await insertSession(user.id, 'a'.repeat(64));
+    await insertSession(user.id, 'b'.repeat(64));
+    await insertSession(other.id, 'c'.repeat(64));
+
+    await setUserPassword({ id: user.id, password: 'correct-horse-battery' });
+
+    expect(await db.select().from(sessionsTable).where(eq(sessionsTable.user_id, user.id)).execute()).toHaveLength(0);
+    expect(await db.select().from(sessionsTable).where(eq(sessionsTable.user_id, other.id)).execute()).toHaveLength(1);
+  });
+
+  it('should throw for an unknown user', async () => {
+    await expect(setUserPassword({ id: 9999, password: 'correct-horse-battery' })).rejects.toThrow('User with ID 9999 not found');
+  });
+});
@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { autoAssignmentRulesTable, usersTable } from '../db/schema';
+import { updateAutoAssignmentRule } from '../handlers/update_auto_assignment_rule';
+import { getAutoAssignmentRules } from '../handlers/get_auto_assignment_rules';
+
+describe('updateAutoAssignmentRule', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let admin: any;
+  let investigator: any;
+
+  beforeEach(async () => {
+    [admin, investigator] = await db.insert(usersTable)
+      .values([
+        { username: 'admin_user', email: 'admin@test.com', role: 'admin' },
+        { username: 'investigator_user', email: 'investigator@test.com', role: 'investigator' }
+      ])
+      .returning()
+      .execute();
+  });
+
+  it('should create and then replace the rule of a priority', async () => {
+    const created = await updateAutoAssignmentRule({ priority: 'high', strategy: 'least_loaded', auto_on_create: true, updated_by: admin.id });
+
+    expect(created).toMatchObject({ priority: 'high', strategy: 'least_loaded', auto_on_create: true, updated_by: admin.id });
+    expect(created.updated_at).toBeInstanceOf(Date);
+
+    const replaced = await updateAutoAssignmentRule({ priority: 'high', strategy: 'round_robin', auto_on_create: false, updated_by: admin.id });
+
+    expect(replaced).toMatchObject({ strategy: 'round_robin', auto_on_create: false });
+    expect(await db.select().from(autoAssignmentRulesTable).execute()).toHaveLength(1);
+  });
+
+  it('should keep the round-robin rotation', async () => {
+    await db.insert(autoAssignmentRulesTable)
+      .values({ priority: 'low', strategy: 'round_robin', auto_on_create: false, last_assigned_to: investigator.id })
+      .execute();
+
+    const updated = await updateAutoAssignmentRule({ priority: 'low', strategy: 'round_robin', auto_on_create: true, updated_by: admin.id });
+
+    expect(updated.last_assigned_to).toEqual(investigator.id);
+  });
+
+  it('should show configured rules next to the defaults', async () => {
+    await updateAutoAssignmentRule({ priority: 'medium', strategy: 'skill_based', auto_on_create: true, updated_by: admin.id });
+
+    const rules = await getAutoAssignmentRules();
+
+    expect(rules.map(rule => [rule.priority, rule.strategy, rule.auto_on_create, rule.updated_by])).toEqual([
+      ['critical', 'skill_based', false, null],
+      ['high', 'skill_based', false, null],
+      ['medium', 'skill_based', true, admin.id],
+      ['low', 'round_robin', false, null]
+    ]);
+  });
+});
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { fraudCasesTable, notificationsTable, usersTable } from '../db/schema';
+import { createCaseNote } from '../handlers/create_case_note';
+import { updateCaseNote } from '../handlers/update_case_note';
+
+describe('updateCaseNote', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let admin: any;
+  let investigator: any;
+  let analyst: any;
+  let note: any;
+
+  beforeEach(async () => {
+    [admin, investigator, analyst] = await db.insert(usersTable)
+      .values([
+        { username: 'admin_user', email: 'admin@test.com', role: 'admin' },
+        { username: 'investigator_user', email: 'investigator@test.com', role: 'investigator' },
+        { username: 'analyst_user', email: 'analyst@test.com', role: 'analyst' }
+      ])
+      .returning()
+      .execute();
+
+    const [fraudCase] = await db.insert(fraudCasesTable)
+      .values({ txid: 'TX-NOTES', description: 'Case used for note tests', priority: 'medium', created_by: investigator.id })
+      .returning()
+      .execute();
+
+    note = await createCaseNote({
+      case_id: fraudCase.id,
+      author_id: investigator.id,
+      body: 'Waiting on @analyst_user for the device report',
+      visibility: 'internal'
+    });
+  });
+
+  it('should let the author edit the body and re-parse mentions', async () => {
+    expect(note.mentions).toEqual([analyst.id]);
+
+    const updated = await updateCaseNote({ id: note.id, body: 'Device report received from @admin_user' }, investigator.id);
+
+    expect(updated.body).toEqual('Device report received from @admin_user');
+    expect(updated.mentions).toEqual([admin.id]);
+    expect(updated.updated_at > note.updated_at).toBe(true);
+  });
+
+  it('should only notify users newly mentioned by the edit', async () => {
+    await updateCaseNote({ id: note.id, body: 'Waiting on @analyst_user, cc @admin_user' }, investigator.id);
+    await updateCaseNote({ id: note.id, body: 'Still waiting on @analyst_user, cc @admin_user' }, investigator.id);
+
+    const notifications = await db.select().from(notificationsTable).execute();
+    expect(notifications.map(notification => notification.user_id)).toEqual([admin.id]);
+  });
+
+  it('should keep mentions when only the visibility changes', async () => {
+    const updated = await updateCaseNote({ id: note.id, visibility: 'shareable' }, investigator.id);
+
+    expect(updated.visibility).toEqual('shareable');
+    expect(updated.mentions).toEqual([analyst.id]);
+  });
+
+  it('should not let anyone but the author edit a note', async () => {
+    await expect(updateCaseNote({ id: note.id, body: 'Rewritten by an admin' }, admin.id))
+      .rejects.toThrow(/only the author/i);
+    await expect(updateCaseNote({ id: note.id, body: 'Rewritten by an analyst' }, analyst.id))
+      .rejects.toThrow(/only the author/i);
+  });
+
+  it('should throw for a non-existent note', async () => {
+    await expect(updateCaseNote({ id: 99999, body: 'Missing' }, investigator.id))
+      .rejects.toThrow(/note not found/i);
+  });
+});
@@ -1,8 +1,8 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
-import { resetDB, createDB } from '../helpers';
+import { resetDB, createDB, failInsertsInto } from '../helpers';
 import { db } from '../db';
-import { fraudCasesTable, usersTable } from '../db/schema';
-import { type UpdateFraudCaseInput } from '../schema';
+import { caseEventsTable, fraudCasesTable, notificationsTable, transactionsTable, usersTable } from '../db/schema';
+import { type UpdateFraudCaseInput, updateFraudCaseInputSchema } from '../schema';
 import { updateFraudCase } from '../handlers/update_fraud_case';
 import { eq } from 'drizzle-orm';
 
@@ -11,11 +11,14 @@ describe('updateFraudCase', () => {
   afterEach(resetDB);
 
   // Helper function to create test user
+  // Tests create several users within the same millisecond, so names also carry a counter
+  let userCount = 0;
   const createTestUser = async (role: 'admin' | 'investigator' | 'analyst' | 'viewer' = 'investigator') => {
+    userCount += 1;
     const userResult = await db.insert(usersTable)
       .values({
-        username: `testuser_${Date.now()}`,
-        email: `test_${Date.now()}@example.com`,
+        username: `testuser_${Date.now()}_${userCount}`,
+        email: `test_${Date.now()}_${userCount}@example.com`,
         role: role
       })
       .returning()
@@ -83,21 +86,19 @@ describe('updateFraudCase', () => {
     expect(result.txid).toEqual(fraudCase.txid);
   });
 
-  it('should update assignment to another user', async () => {
-    // Create test users and case
-    const user1 = await createTestUser('investigator');
-    const user2 = await createTestUser('analyst');
-    const admin = await createTestUser('admin');
-    const fraudCase = await createTestCase(user1.id, user1.id);
+  it('should leave reassignment to assignCase', async () => {
+    const analyst = await createTestUser('analyst');
+    const other = await createTestUser('analyst');
+    const fraudCase = await createTestCase(analyst.id, analyst.id);
 
-    const updateInput: UpdateFraudCaseInput = {
-      id: fraudCase.id,
-      assigned_to: user2.id
-    };
+    // The API input drops assigned_to, so an assignee cannot hand the case on without case:assign
+    const updateInput = updateFraudCaseInputSchema.parse({ id: fraudCase.id, assigned_to: other.id, priority: 'low' });
+    expect(updateInput).not.toHaveProperty('assigned_to');
 
-    const result = await updateFraudCase(updateInput, admin.id);
+    const result = await updateFraudCase(updateInput, analyst.id);
 
-    expect(result.assigned_to).toEqual(user2.id);
+    expect(result.assigned_to).toEqual(analyst.id);
+    expect(result.priority).toEqual('low');
   });
 
   it('should allow admin to update any case', async () => {
@@ -109,13 +110,17 @@ describe('updateFraudCase', () => {
     const updateInput: UpdateFraudCaseInput = {
       id: fraudCase.id,
       status: 'resolved',
-      priority: 'low'
+      priority: 'low',
+      status_note: 'Confirmed false positive during triage',
+      disposition: 'false_positive'
     };
 
     const result = await updateFraudCase(updateInput, admin.id);
 
     expect(result.status).toEqual('resolved');
     expect(result.priority).toEqual('low');
+    expect(result.disposition).toEqual('false_positive');
+    expect(result.resolution_note).toEqual('Confirmed false positive during triage');
   });
 
   it('should allow assigned investigator to update their case', async () => {
@@ -203,19 +208,6 @@ describe('updateFraudCase', () => {
       .rejects.toThrow(/Insufficient permissions to update this fraud case/i);
   });
 
-  it('should throw error when assigning to non-existent user', async () => {
-    const admin = await createTestUser('admin');
-    const fraudCase = await createTestCase(admin.id);
-
-    const updateInput: UpdateFraudCaseInput = {
-      id: fraudCase.id,
-      assigned_to: 99999
-    };
-
-    await expect(updateFraudCase(updateInput, admin.id))
-      .rejects.toThrow(/User with id 99999 not found/i);
-  });
-
   it('should update case in database', async () => {
     const user = await createTestUser('admin');
     const fraudCase = await createTestCase(user.id);
@@ -223,7 +215,7 @@ describe('updateFraudCase', () => {
     const updateInput: UpdateFraudCaseInput = {
       id: fraudCase.id,
       txid: 'UPDATED_TX123',
-      status: 'closed'
+      status: 'in_progress'
     };
 
     await updateFraudCase(updateInput, user.id);
@@ -236,23 +228,187 @@ describe('updateFraudCase', () => {
 
     expect(updatedCase).toHaveLength(1);
     expect(updatedCase[0].txid).toEqual('UPDATED_TX123');
-    expect(updatedCase[0].status).toEqual('closed');
+    expect(updatedCase[0].status).toEqual('in_progress');
     expect(updatedCase[0].updated_at).toBeInstanceOf(Date);
     expect(updatedCase[0].updated_at > fraudCase.updated_at).toBe(true);
   });
 
-  it('should handle setting assigned_to to null', async () => {
+  it('should notify the assignee and the creator when closing the case', async () => {
     const admin = await createTestUser('admin');
-    const assignee = await createTestUser('investigator');
-    const fraudCase = await createTestCase(admin.id, assignee.id);
+    const investigator = await createTestUser('investigator');
+    const analyst = await createTestUser('analyst');
+    const [fraudCase] = await db.insert(fraudCasesTable)
+      .values({
+        txid: 'TX-CLOSE-BY-UPDATE',
+        description: 'Resolved case waiting to be closed',
+        status: 'resolved',
+        priority: 'medium',
+        disposition: 'confirmed_fraud',
+        resolution_note: 'Chargeback filed',
+        created_by: analyst.id,
+        assigned_to: investigator.id
+      })
+      .returning()
+      .execute();
 
-    const updateInput: UpdateFraudCaseInput = {
+    await updateFraudCase({ id: fraudCase.id, status: 'closed' }, admin.id);
+
+    const notifications = await db.select().from(notificationsTable).orderBy(notificationsTable.user_id).execute();
+    expect(notifications.map(n => n.user_id)).toEqual([investigator.id, analyst.id].sort((a, b) => a - b));
+    expect(notifications.every(n => n.type === 'closed' && n.actor_id === admin.id && n.case_id === fraudCase.id)).toBe(true);
+  });
+
+  it('should reject jumping from open straight to closed', async () => {
+    const admin = await createTestUser('admin');
+    const fraudCase = await createTestCase(admin.id);
+
+    await expect(updateFraudCase({ id: fraudCase.id, status: 'closed' }, admin.id))
+      .rejects.toThrow(/must be in resolved status to be closed/i);
+
+    const dbCase = await db.select()
+      .from(fraudCasesTable)
+      .where(eq(fraudCasesTable.id, fraudCase.id))
+      .execute();
+
+    expect(dbCase[0].status).toEqual('open');
+  });
+
+  it('should require a note when resolving a case', async () => {
+    const investigator = await createTestUser('investigator');
+    const fraudCase = await createTestCase(investigator.id, investigator.id);
+
+    await updateFraudCase({ id: fraudCase.id, status: 'in_progress' }, investigator.id);
+
+    await expect(updateFraudCase({ id: fraudCase.id, status: 'resolved' }, investigator.id))
+      .rejects.toThrow(/note is required/i);
+  });
+
+  it('should reject transitions not allowed for the role', async () => {
+    const analyst = await createTestUser('analyst');
+    const fraudCase = await createTestCase(analyst.id, analyst.id);
+
+    // Only admins and investigators may resolve straight from open
+    await expect(updateFraudCase({
       id: fraudCase.id,
-      assigned_to: null
-    };
+      status: 'resolved',
+      status_note: 'Analyst attempting to resolve from triage'
+    }, analyst.id)).rejects.toThrow(/role analyst cannot move a case from open to resolved/i);
+  });
 
-    const result = await updateFraudCase(updateInput, admin.id);
+  it('should require a disposition when resolving a case', async () => {
+    const investigator = await createTestUser('investigator');
+    const fraudCase = await createTestCase(investigator.id, investigator.id);
+
+    await expect(updateFraudCase({
+      id: fraudCase.id,
+      status: 'resolved',
+      status_note: 'Customer confirmed the purchase'
+    }, investigator.id)).rejects.toThrow(/disposition is required/i);
+  });
+
+  it('should reject an outcome on a case that is not resolved', async () => {
+    const investigator = await createTestUser('investigator');
+    const fraudCase = await createTestCase(investigator.id, investigator.id);
+
+    await expect(updateFraudCase({ id: fraudCase.id, disposition: 'false_positive' }, investigator.id))
+      .rejects.toThrow(/only be recorded on a resolved or closed case/i);
+  });
+
+  it('should clear the outcome when a resolved case is reopened', async () => {
+    const investigator = await createTestUser('investigator');
+    const fraudCase = await createTestCase(investigator.id, investigator.id);
+
+    const resolved = await updateFraudCase({
+      id: fraudCase.id,
+      status: 'resolved',
+      status_note: 'Customer confirmed the purchase',
+      disposition: 'customer_error',
+      recovered_amount: 0
+    }, investigator.id);
+
+    expect(resolved.disposition).toEqual('customer_error');
+    expect(resolved.recovered_amount).toEqual(0);
+
+    const reopened = await updateFraudCase({
+      id: fraudCase.id,
+      status: 'in_progress',
+      status_note: 'Customer withdrew the confirmation'
+    }, investigator.id);
+
+    expect(reopened.status).toEqual('in_progress');
+    expect(reopened.disposition).toBeNull();
+    expect(reopened.resolution_note).toBeNull();
+    expect(reopened.recovered_amount).toBeNull();
+  });
+
+  it('should rename the primary transaction along with the case txid', async () => {
+    const user = await createTestUser('admin');
+    const fraudCase = await createTestCase(user.id);
+    await db.insert(transactionsTable)
+      .values([
+        { case_id: fraudCase.id, txid: fraudCase.txid },
+        { case_id: fraudCase.id, txid: 'TX-SECONDARY' }
+      ])
+      .execute();
+
+    await updateFraudCase({ id: fraudCase.id, txid: 'TX-CORRECTED' }, user.id);
+
+    const transactions = await db.select()
+      .from(transactionsTable)
+      .where(eq(transactionsTable.case_id, fraudCase.id))
+      .orderBy(transactionsTable.id)
+      .execute();
+    expect(transactions.map(t => t.txid)).toEqual(['TX-CORRECTED', 'TX-SECONDARY']);
+
+    // Choosing another transaction of the case promotes it without renaming anything
+    const promoted = await updateFraudCase({ id: fraudCase.id, txid: 'TX-SECONDARY' }, user.id);
+    expect(promoted.txid).toEqual('TX-SECONDARY');
+    expect(await db.select().from(transactionsTable).execute()).toHaveLength(2);
+  });
+
+  it('should reject a txid that belongs to another case', async () => {
+    const user = await createTestUser('admin');
+    const fraudCase = await createTestCase(user.id);
+    const [other] = await db.insert(fraudCasesTable)
+      .values({ txid: 'TX-OTHER', description: 'Another fraud case', created_by: user.id })
+      .returning()
+      .execute();
+    await db.insert(transactionsTable).values({ case_id: other.id, txid: 'TX-OTHER' }).execute();
+
+    await expect(updateFraudCase({ id: fraudCase.id, txid: 'TX-OTHER' }, user.id))
+      .rejects.toThrow(`Transaction TX-OTHER is already linked to case #${other.id}`);
+  });
+
+  it('should reject an update against a stale version and leave the case untouched', async () => {
+    const user = await createTestUser('admin');
+    const fraudCase = await createTestCase(user.id);
+    await db.insert(transactionsTable).values({ case_id: fraudCase.id, txid: fraudCase.txid }).execute();
+
+    const first = await updateFraudCase({ id: fraudCase.id, priority: 'high', expected_version: fraudCase.version }, user.id);
+    expect(first.version).toEqual(fraudCase.version + 1);
+
+    await expect(updateFraudCase({ id: fraudCase.id, txid: 'TX-LOST-UPDATE', expected_version: fraudCase.version }, user.id))
+      .rejects.toThrow('was changed by someone else in the meantime');
+
+    const [stored] = await db.select().from(fraudCasesTable).where(eq(fraudCasesTable.id, fraudCase.id)).execute();
+    expect(stored.txid).toEqual(fraudCase.txid);
+    expect(stored.priority).toEqual('high');
+    const [transaction] = await db.select().from(transactionsTable).where(eq(transactionsTable.case_id, fraudCase.id)).execute();
+    expect(transaction.txid).toEqual(fraudCase.txid);
+  });
+
+  it('should roll back the transaction rename when the case history cannot be written', async () => {
+    const user = await createTestUser('admin');
+    const fraudCase = await createTestCase(user.id);
+    await db.insert(transactionsTable).values({ case_id: fraudCase.id, txid: fraudCase.txid }).execute();
+    await failInsertsInto(caseEventsTable);
+
+    await expect(updateFraudCase({ id: fraudCase.id, txid: 'TX-CORRECTED' }, user.id))
+      .rejects.toThrow('Injected failure writing to case_events');
 
-    expect(result.assigned_to).toBeNull();
+    const [stored] = await db.select().from(fraudCasesTable).where(eq(fraudCasesTable.id, fraudCase.id)).execute();
+    const [transaction] = await db.select().from(transactionsTable).where(eq(transactionsTable.case_id, fraudCase.id)).execute();
+    expect(stored.txid).toEqual(fraudCase.txid);
+    expect(transaction.txid).toEqual(fraudCase.txid);
   });
-});
\ No newline at end of file
+});
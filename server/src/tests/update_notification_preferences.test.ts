@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { notificationPreferencesTable, usersTable } from '../db/schema';
+import { updateNotificationPreferences } from '../handlers/update_notification_preferences';
+import { DEFAULT_NOTIFICATION_PREFERENCES } from '../handlers/email_delivery';
+
+describe('updateNotificationPreferences', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let investigator: any;
+
+  beforeEach(async () => {
+    [investigator] = await db.insert(usersTable)
+      .values({ username: 'investigator_user', email: 'investigator@test.com', role: 'investigator' })
+      .returning()
+      .execute();
+  });
+
+  it('should fill omitted settings from the defaults, then keep them', async () => {
+    const first = await updateNotificationPreferences({ user_id: investigator.id, min_priority: 'high' });
+    expect(first).toMatchObject({
+      email_mode: DEFAULT_NOTIFICATION_PREFERENCES.email_mode,
+      email_types: DEFAULT_NOTIFICATION_PREFERENCES.email_types,
+      min_priority: 'high'
+    });
+    expect(first.updated_at).toBeInstanceOf(Date);
+
+    const second = await updateNotificationPreferences({ user_id: investigator.id, email_types: ['closed', 'closed', 'mentioned'] });
+    expect(second).toMatchObject({ min_priority: 'high', email_types: ['closed', 'mentioned'] });
+
+    expect(await db.select().from(notificationPreferencesTable).execute()).toHaveLength(1);
+  });
+
+  it('should start the digest period when switching to digests', async () => {
+    await updateNotificationPreferences({ user_id: investigator.id, email_mode: 'digest' });
+    const [switched] = await db.select().from(notificationPreferencesTable).execute();
+    expect(switched.last_digest_at).toBeInstanceOf(Date);
+
+    await updateNotificationPreferences({ user_id: investigator.id, min_priority: 'low' });
+    const [kept] = await db.select().from(notificationPreferencesTable).execute();
+    expect(kept.last_digest_at).toEqual(switched.last_digest_at);
+  });
+});
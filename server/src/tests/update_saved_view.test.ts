@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { createSavedView } from '../handlers/create_saved_view';
+import { updateSavedView } from '../handlers/update_saved_view';
+
+describe('updateSavedView', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let owner: any;
+  let admin: any;
+  let view: any;
+
+  beforeEach(async () => {
+    [owner, admin] = await db.insert(usersTable)
+      .values([
+        { username: 'analyst_user', email: 'analyst@test.com', role: 'analyst' },
+        { username: 'admin_user', email: 'admin@test.com', role: 'admin' }
+      ])
+      .returning()
+      .execute();
+
+    view = await createSavedView({ owner_id: owner.id, name: 'Critical', filters: { priority: 'critical' } });
+  });
+
+  it('should update only the given fields', async () => {
+    const updated = await updateSavedView({ id: view.id, filters: { status: ['open', 'escalated'] }, shared: true }, owner.id);
+
+    expect(updated.name).toEqual('Critical');
+    expect(updated.filters).toEqual({ status: ['open', 'escalated'] });
+    expect(updated.shared).toBe(true);
+    expect(updated.updated_at.getTime()).toBeGreaterThanOrEqual(view.updated_at.getTime());
+  });
+
+  it('should clear the sort with null', async () => {
+    await updateSavedView({ id: view.id, sort: [{ field: 'updated_at', direction: 'asc' }] }, owner.id);
+    const updated = await updateSavedView({ id: view.id, sort: null }, owner.id);
+
+    expect(updated.sort).toBeNull();
+  });
+
+  it('should only let the owner change a view', async () => {
+    await expect(updateSavedView({ id: view.id, name: 'Taken over' }, admin.id))
+      .rejects.toThrow(/only the owner/i);
+  });
+
+  it('should reject renaming onto another of the owner\'s views', async () => {
+    await createSavedView({ owner_id: owner.id, name: 'Unassigned', filters: { assigned_to: null } });
+
+    await expect(updateSavedView({ id: view.id, name: 'Unassigned' }, owner.id))
+      .rejects.toThrow(/already have a view named/i);
+    expect((await updateSavedView({ id: view.id, name: 'Critical' }, owner.id)).name).toEqual('Critical');
+  });
+
+  it('should throw for a non-existent view', async () => {
+    await expect(updateSavedView({ id: 99999, name: 'Missing' }, owner.id)).rejects.toThrow(/saved view not found/i);
+  });
+});
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { fraudCasesTable, usersTable } from '../db/schema';
+import { updateSlaPolicy } from '../handlers/update_sla_policy';
+import { getSlaPolicies } from '../handlers/get_sla_policies';
+import { eq } from 'drizzle-orm';
+
+const HOUR = 60 * 60_000;
+
+describe('updateSlaPolicy', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let admin: any;
+
+  beforeEach(async () => {
+    [admin] = await db.insert(usersTable)
+      .values({ username: 'admin_user', email: 'admin@test.com', role: 'admin' })
+      .returning()
+      .execute();
+  });
+
+  it('should create and then replace the policy of a priority', async () => {
+    const created = await updateSlaPolicy({
+      priority: 'medium',
+      assignment_minutes: 120,
+      first_action_minutes: 480,
+      resolution_minutes: 10080,
+      updated_by: admin.id
+    });
+
+    expect(created.assignment_minutes).toEqual(120);
+    expect(created.updated_by).toEqual(admin.id);
+
+    const replaced = await updateSlaPolicy({
+      priority: 'medium',
+      assignment_minutes: 60,
+      first_action_minutes: null,
+      resolution_minutes: 10080,
+      updated_by: admin.id
+    });
+
+    expect(replaced.assignment_minutes).toEqual(60);
+    expect(replaced.first_action_minutes).toBeNull();
+
+    const medium = (await getSlaPolicies()).find(policy => policy.priority === 'medium')!;
+    expect(medium).toEqual(replaced);
+  });
+
+  it('should move the deadlines of unresolved cases only', async () => {
+    const createdAt = new Date('2024-01-01T09:00:00Z');
+    const [openCase, resolvedCase] = await db.insert(fraudCasesTable)
+      .values([
+        { txid: 'TX-OPEN', description: 'Open case', priority: 'high', created_by: admin.id, created_at: createdAt },
+        {
+          txid: 'TX-RESOLVED',
+          description: 'Resolved case',
+          status: 'resolved',
+          priority: 'high',
+          created_by: admin.id,
+          created_at: createdAt,
+          assignment_due_at: new Date(createdAt.getTime() + HOUR),
+          resolved_at: new Date(createdAt.getTime() + 5 * HOUR)
+        }
+      ])
+      .returning()
+      .execute();
+
+    await updateSlaPolicy({
+      priority: 'high',
+      assignment_minutes: 30,
+      first_action_minutes: null,
+      resolution_minutes: 48 * 60,
+      updated_by: admin.id
+    });
+
+    const [open] = await db.select().from(fraudCasesTable).where(eq(fraudCasesTable.id, openCase.id)).execute();
+    expect(open.assignment_due_at).toEqual(new Date(createdAt.getTime() + HOUR / 2));
+    expect(open.first_action_due_at).toBeNull();
+    expect(open.resolution_due_at).toEqual(new Date(createdAt.getTime() + 48 * HOUR));
+
+    const [resolved] = await db.select().from(fraudCasesTable).where(eq(fraudCasesTable.id, resolvedCase.id)).execute();
+    expect(resolved.assignment_due_at).toEqual(new Date(createdAt.getTime() + HOUR));
+  });
+});
@@ -0,0 +1,31 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { updateUserSkills } from '../handlers/update_user_skills';
+import { eq } from 'drizzle-orm';
+
+describe('updateUserSkills', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should replace the skills of the user', async () => {
+    const [user] = await db.insert(usersTable)
+      .values({ username: 'wire_specialist', email: 'wire@test.com', role: 'investigator', skills: ['atm'] })
+      .returning()
+      .execute();
+
+    const result = await updateUserSkills({ id: user.id, skills: ['wire', 'ach', 'wire'] });
+
+    expect(result.skills).toEqual(['wire', 'ach']);
+    expect(result).not.toHaveProperty('password_hash');
+
+    const [stored] = await db.select().from(usersTable).where(eq(usersTable.id, user.id)).execute();
+    expect(stored.skills).toEqual(['wire', 'ach']);
+    expect(stored.updated_at.getTime()).toBeGreaterThanOrEqual(user.updated_at.getTime());
+  });
+
+  it('should reject unknown users', async () => {
+    await expect(updateUserSkills({ id: 9999, skills: ['mobile'] })).rejects.toThrow('User with ID 9999 not found');
+  });
+});
@@ -0,0 +1,48 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { createWebhookSubscription } from '../handlers/create_webhook_subscription';
+import { updateWebhookSubscription } from '../handlers/update_webhook_subscription';
+
+describe('updateWebhookSubscription', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let subscription: any;
+
+  beforeEach(async () => {
+    const [admin] = await db.insert(usersTable)
+      .values({ username: 'admin_user', email: 'admin@test.com', role: 'admin' })
+      .returning()
+      .execute();
+
+    subscription = await createWebhookSubscription({
+      url: 'https://siem.bank.test/hooks',
+      secret: 'siem-shared-secret-0123456789',
+      events: ['case.created'],
+      created_by: admin.id
+    });
+  });
+
+  it('should change only the given fields', async () => {
+    const result = await updateWebhookSubscription({ id: subscription.id, events: ['case.assigned', 'case.closed'], active: false });
+
+    expect(result.events).toEqual(['case.assigned', 'case.closed']);
+    expect(result.active).toBe(false);
+    expect(result.url).toEqual('https://siem.bank.test/hooks');
+    expect(result.secret).toEqual('siem-shared-secret-0123456789');
+    expect(result.updated_at > subscription.updated_at).toBe(true);
+  });
+
+  it('should rotate the secret', async () => {
+    const result = await updateWebhookSubscription({ id: subscription.id, secret: 'rotated-secret-9876543210' });
+
+    expect(result.secret).toEqual('rotated-secret-9876543210');
+  });
+
+  it('should throw for an unknown subscription', async () => {
+    await expect(updateWebhookSubscription({ id: subscription.id + 1, active: false }))
+      .rejects.toThrow(/Webhook subscription not found/);
+  });
+});
@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { createHash } from 'node:crypto';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { resetDB, createDB, failInsertsInto } from '../helpers';
+import { db } from '../db';
+import { caseAttachmentsTable, custodyEntriesTable, fraudCasesTable, usersTable } from '../db/schema';
+import { createLocalDiskStorage, setAttachmentStorage } from '../helpers/attachment_storage';
+import { uploadAttachment } from '../handlers/upload_attachment';
+import { eq } from 'drizzle-orm';
+
+describe('uploadAttachment', () => {
+  let storageDir: string;
+
+  beforeEach(async () => {
+    await createDB();
+    storageDir = await mkdtemp(join(tmpdir(), 'attachments-'));
+    setAttachmentStorage(createLocalDiskStorage(storageDir));
+  });
+
+  afterEach(async () => {
+    await resetDB();
+    setAttachmentStorage(null);
+    await rm(storageDir, { recursive: true, force: true });
+  });
+
+  let investigator: any;
+  let analyst: any;
+  let fraudCase: any;
+
+  beforeEach(async () => {
+    [investigator, analyst] = await db.insert(usersTable)
+      .values([
+        { username: 'investigator_user', email: 'investigator@test.com', role: 'investigator' },
+        { username: 'analyst_user', email: 'analyst@test.com', role: 'analyst' }
+      ])
+      .returning()
+      .execute();
+
+    [fraudCase] = await db.insert(fraudCasesTable)
+      .values({ txid: 'TX-EVIDENCE', description: 'Case used for attachment tests', priority: 'high', created_by: investigator.id })
+      .returning()
+      .execute();
+  });
+
+  const content = Buffer.from('date,amount\n2024-01-01,250.00\n');
+
+  it('should store the file and record its hash, size and uploader', async () => {
+    const attachment = await uploadAttachment({
+      case_id: fraudCase.id,
+      uploaded_by: investigator.id,
+      filename: 'statement.csv',
+      mime_type: 'text/csv',
+      content_base64: content.toString('base64')
+    });
+
+    expect(attachment.case_id).toEqual(fraudCase.id);
+    expect(attachment.uploaded_by).toEqual(investigator.id);
+    expect(attachment.filename).toEqual('statement.csv');
+    expect(attachment.mime_type).toEqual('text/csv');
+    expect(attachment.size_bytes).toEqual(content.length);
+    expect(attachment.sha256).toEqual(createHash('sha256').update(content).digest('hex'));
+    expect((attachment as any).storage_key).toBeUndefined();
+
+    const [record] = await db.select()
+      .from(caseAttachmentsTable)
+      .where(eq(caseAttachmentsTable.id, attachment.id))
+      .execute();
+
+    const stored = await readFile(join(storageDir, record.storage_key));
+    expect(stored.equals(content)).toBe(true);
+  });
+
+  it('should strip directories from the uploaded filename', async () => {
+    const attachment = await uploadAttachment({
+      case_id: fraudCase.id,
+      uploaded_by: investigator.id,
+      filename: '../../etc/chat-export.txt',
+      mime_type: 'text/plain',
+      content_base64: content.toString('base64')
+    });
+
+    expect(attachment.filename).toEqual('chat-export.txt');
+  });
+
+  it('should reject files above the configured size limit', async () => {
+    process.env['ATTACHMENT_MAX_BYTES'] = '8';
+    try {
+      await expect(uploadAttachment({
+        case_id: fraudCase.id,
+        uploaded_by: investigator.id,
+        filename: 'statement.csv',
+        mime_type: 'text/csv',
+        content_base64: content.toString('base64')
+      })).rejects.toThrow(/maximum size/i);
+    } finally {
+      delete process.env['ATTACHMENT_MAX_BYTES'];
+    }
+
+    expect(await readdir(storageDir)).toHaveLength(0);
+  });
+
+  it('should reject uploaders who cannot see the case', async () => {
+    await expect(uploadAttachment({
+      case_id: fraudCase.id,
+      uploaded_by: analyst.id,
+      filename: 'statement.csv',
+      mime_type: 'text/csv',
+      content_base64: content.toString('base64')
+    })).rejects.toThrow(/insufficient permissions/i);
+  });
+
+  it('should throw for a non-existent case', async () => {
+    await expect(uploadAttachment({
+      case_id: 99999,
+      uploaded_by: investigator.id,
+      filename: 'statement.csv',
+      mime_type: 'text/csv',
+      content_base64: content.toString('base64')
+    })).rejects.toThrow(/case not found/i);
+  });
+
+  it('should refuse storage keys outside the storage root', async () => {
+    const storage = createLocalDiskStorage(storageDir);
+
+    await expect(storage.put('../outside', content)).rejects.toThrow(/invalid storage key/i);
+  });
+
+  it('should not keep the attachment when its custody entry cannot be written', async () => {
+    await failInsertsInto(custodyEntriesTable);
+
+    await expect(uploadAttachment({
+      case_id: fraudCase.id,
+      uploaded_by: investigator.id,
+      filename: 'statement.csv',
+      mime_type: 'text/csv',
+      content_base64: content.toString('base64')
+    })).rejects.toThrow('Injected failure writing to custody_entries');
+
+    expect(await db.select().from(caseAttachmentsTable).execute()).toHaveLength(0);
+    expect(await readdir(join(storageDir, 'cases', String(fraudCase.id)))).toHaveLength(0);
+  });
+});
@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { caseAttachmentsTable, custodyEntriesTable, fraudCasesTable, usersTable } from '../db/schema';
+import { createLocalDiskStorage, setAttachmentStorage } from '../helpers/attachment_storage';
+import { uploadAttachment } from '../handlers/upload_attachment';
+import { getCaseAttachments } from '../handlers/get_case_attachments';
+import { deleteAttachment } from '../handlers/delete_attachment';
+import { replaceAttachment } from '../handlers/replace_attachment';
+import { verifyCustodyChain } from '../handlers/verify_custody_chain';
+import { eq } from 'drizzle-orm';
+
+describe('verifyCustodyChain', () => {
+  let storageDir: string;
+
+  beforeEach(async () => {
+    await createDB();
+    storageDir = await mkdtemp(join(tmpdir(), 'attachments-'));
+    setAttachmentStorage(createLocalDiskStorage(storageDir));
+  });
+
+  afterEach(async () => {
+    await resetDB();
+    setAttachmentStorage(null);
+    await rm(storageDir, { recursive: true, force: true });
+  });
+
+  let admin: any;
+  let analyst: any;
+  let fraudCase: any;
+  let attachment: any;
+
+  beforeEach(async () => {
+    [admin, analyst] = await db.insert(usersTable)
+      .values([
+        { username: 'admin_user', email: 'admin@test.com', role: 'admin' },
+        { username: 'analyst_user', email: 'analyst@test.com', role: 'analyst' }
+      ])
+      .returning()
+      .execute();
+
+    [fraudCase] = await db.insert(fraudCasesTable)
+      .values({ txid: 'TX-CUSTODY', description: 'Case used for custody tests', priority: 'high', created_by: admin.id })
+      .returning()
+      .execute();
+
+    attachment = await uploadAttachment({
+      case_id: fraudCase.id,
+      uploaded_by: admin.id,
+      filename: 'statement.csv',
+      mime_type: 'text/csv',
+      content_base64: Buffer.from('date,amount\n2024-01-01,250.00\n').toString('base64')
+    });
+    await getCaseAttachments(fraudCase.id, admin.id);
+  });
+
+  it('should accept an untouched chain', async () => {
+    const result = await verifyCustodyChain(fraudCase.id, admin.id);
+
+    expect(result.valid).toBe(true);
+    expect(result.entry_count).toEqual(2);
+    expect(result.first_invalid_entry_id).toBeNull();
+    expect(result.issues).toEqual([]);
+  });
+
+  it('should accept evidence deleted through the server', async () => {
+    await deleteAttachment(attachment.id, admin.id);
+
+    const result = await verifyCustodyChain(fraudCase.id);
+
+    expect(result.valid).toBe(true);
+    expect(result.entry_count).toEqual(3);
+  });
+
+  it('should detect an entry altered in the database', async () => {
+    const [first] = await db.select().from(custodyEntriesTable).orderBy(custodyEntriesTable.id).limit(1).execute();
+    await db.update(custodyEntriesTable)
+      .set({ actor_id: analyst.id })
+      .where(eq(custodyEntriesTable.id, first.id))
+      .execute();
+
+    const result = await verifyCustodyChain(fraudCase.id);
+
+    expect(result.valid).toBe(false);
+    expect(result.first_invalid_entry_id).toEqual(first.id);
+    expect(result.issues.join(' ')).toMatch(/has been altered/);
+  });
+
+  it('should detect an entry removed from the middle of the chain', async () => {
+    const [first] = await db.select().from(custodyEntriesTable).orderBy(custodyEntriesTable.id).limit(1).execute();
+    await db.delete(custodyEntriesTable).where(eq(custodyEntriesTable.id, first.id)).execute();
+
+    const result = await verifyCustodyChain(fraudCase.id);
+
+    expect(result.valid).toBe(false);
+    expect(result.issues.join(' ')).toMatch(/does not link/);
+  });
+
+  it('should detect stored content that no longer matches its hash', async () => {
+    const [record] = await db.select().from(caseAttachmentsTable).execute();
+    await rm(join(storageDir, record.storage_key), { force: true });
+    await writeFile(join(storageDir, record.storage_key), 'date,amount\n2024-01-01,25.00\n');
+
+    const result = await verifyCustodyChain(fraudCase.id);
+
+    expect(result.valid).toBe(false);
+    expect(result.first_invalid_entry_id).toBeNull();
+    expect(result.issues).toEqual([`Attachment ${attachment.id} content does not match its recorded hash`]);
+  });
+
+  it('should detect a superseded version altered in storage', async () => {
+    const [original] = await db.select().from(caseAttachmentsTable).execute();
+    await replaceAttachment({
+      attachment_id: attachment.id,
+      filename: 'statement.csv',
+      mime_type: 'text/csv',
+      content_base64: Buffer.from('date,amount\n2024-01-01,260.00\n').toString('base64')
+    }, admin.id);
+    await rm(join(storageDir, original.storage_key), { force: true });
+    await writeFile(join(storageDir, original.storage_key), 'date,amount\n2024-01-01,25.00\n');
+
+    const result = await verifyCustodyChain(fraudCase.id);
+    const [superseded] = await db.select().from(custodyEntriesTable).where(eq(custodyEntriesTable.action, 'superseded')).execute();
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([
+      `Superseded version of attachment ${attachment.id} recorded in entry ${superseded.id} does not match its recorded hash`
+    ]);
+  });
+
+  it('should detect evidence removed outside the server', async () => {
+    await db.delete(caseAttachmentsTable).where(eq(caseAttachmentsTable.id, attachment.id)).execute();
+
+    const result = await verifyCustodyChain(fraudCase.id);
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([`Attachment ${attachment.id} was removed without a custody record`]);
+  });
+
+  it('should reject users who cannot see the case', async () => {
+    await expect(verifyCustodyChain(fraudCase.id, analyst.id)).rejects.toThrow(/insufficient permissions/i);
+  });
+});
@@ -0,0 +1,247 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { createServer, type IncomingHttpHeaders } from 'node:http';
+import { type AddressInfo } from 'node:net';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { fraudCasesTable, usersTable, webhookDeliveriesTable } from '../db/schema';
+import { type WebhookPayload } from '../schema';
+import {
+  WEBHOOK_MAX_ATTEMPTS,
+  processWebhookDeliveries,
+  queueWebhookEvent,
+  signWebhookPayload,
+  webhookRetryDelayMinutes
+} from '../handlers/webhook_delivery';
+import { createWebhookSubscription } from '../handlers/create_webhook_subscription';
+import { createFraudCase } from '../handlers/create_fraud_case';
+import { assignCase } from '../handlers/assign_case';
+import { escalateCase } from '../handlers/escalate_case';
+import { closeCase } from '../handlers/close_case';
+import { updateFraudCase } from '../handlers/update_fraud_case';
+import { importCases } from '../handlers/import_cases';
+import { startWebhookDeliveryScheduler } from '../webhook_delivery_scheduler';
+import { asc } from 'drizzle-orm';
+
+const MINUTE = 60_000;
+const SECRET = 'siem-shared-secret-0123456789';
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+// Local HTTP endpoint that records what it receives and answers with the given status codes in turn
+const startReceiver = (statuses: number[] = [200]) =>
+  new Promise<{ url: string; received: ReceivedRequest[]; close: () => Promise<void> }>(resolve => {
+    const received: ReceivedRequest[] = [];
+
+    const server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = statuses[Math.min(received.length, statuses.length) - 1];
+        res.end('ok');
+      });
+    });
+
+    server.listen(0, '127.0.0.1', () => resolve({
+      url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks/fraud`,
+      received,
+      close: () => new Promise<void>(done => server.close(() => done()))
+    }));
+  });
+
+describe('webhook delivery', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let admin: any;
+  let investigator: any;
+
+  beforeEach(async () => {
+    [admin, investigator] = await db.insert(usersTable)
+      .values([
+        { username: 'admin_user', email: 'admin@test.com', role: 'admin' },
+        { username: 'investigator_user', email: 'investigator@test.com', role: 'investigator' }
+      ])
+      .returning()
+      .execute();
+  });
+
+  const deliveries = () => db.select()
+    .from(webhookDeliveriesTable)
+    .orderBy(asc(webhookDeliveriesTable.id))
+    .execute();
+
+  const subscribe = (events: WebhookPayload['event'][], url = 'http://127.0.0.1:1/hooks') =>
+    createWebhookSubscription({ url, secret: SECRET, events, created_by: admin.id });
+
+  it('should queue each lifecycle event for the subscriptions listening to it', async () => {
+    const everything = await subscribe(['case.created', 'case.assigned', 'case.escalated', 'case.closed']);
+    const closures = await subscribe(['case.closed']);
+    await createWebhookSubscription({ url: 'http://127.0.0.1:1/paused', events: ['case.created'], active: false, created_by: admin.id });
+
+    const fraudCase = await createFraudCase({ transactions: [{ txid: 'TX-HOOK-1' }], description: 'Card used at three fuel stations', priority: 'high', created_by: admin.id });
+    await assignCase(fraudCase.id, investigator.id, admin.id);
+    await escalateCase({ case_id: fraudCase.id, escalated_by: admin.id, escalated_to: investigator.id, new_priority: 'critical', reason: 'Linked to a known mule account' });
+    await db.update(fraudCasesTable).set({ status: 'resolved', disposition: 'confirmed_fraud', resolution_note: 'Card blocked' }).execute();
+    await closeCase(fraudCase.id, admin.id);
+
+    const queued = await deliveries();
+    expect(queued.filter(d => d.subscription_id === everything.id).map(d => d.event))
+      .toEqual(['case.created', 'case.assigned', 'case.escalated', 'case.closed']);
+    expect(queued.filter(d => d.subscription_id === closures.id).map(d => d.event)).toEqual(['case.closed']);
+    expect(queued.every(d => d.status === 'pending' && d.attempts === 0)).toBe(true);
+
+    // Both subscriptions receive the same event
+    const closedEvents = queued.filter(d => d.event === 'case.closed');
+    expect(closedEvents[0].event_id).toEqual(closedEvents[1].event_id);
+    expect(closedEvents[0].payload).toEqual(closedEvents[1].payload);
+  });
+
+  it('should build payloads from the case and escalation', async () => {
+    await subscribe(['case.escalated']);
+    const fraudCase = await createFraudCase({ transactions: [{ txid: 'TX-HOOK-2' }], description: 'Unusual ATM withdrawals', priority: 'medium', created_by: admin.id });
+
+    const { escalation } = await escalateCase({ case_id: fraudCase.id, escalated_by: admin.id, escalated_to: investigator.id, new_priority: 'high', reason: 'Pattern matches a skimming ring' });
+
+    const [delivery] = await deliveries();
+    const payload = JSON.parse(delivery.payload);
+    expect(payload).toMatchObject({
+      id: delivery.event_id,
+      event: 'case.escalated',
+      data: {
+        case: { id: fraudCase.id, txid: 'TX-HOOK-2', priority: 'high' },
+        escalation: { id: escalation.id, reason: 'Pattern matches a skimming ring', escalated_to: investigator.id }
+      }
+    });
+    expect(new Date(payload.occurred_at)).toBeInstanceOf(Date);
+  });
+
+  it('should queue events for changes made through case updates and imports', async () => {
+    await subscribe(['case.created', 'case.assigned', 'case.escalated']);
+    const fraudCase = await createFraudCase({ transactions: [{ txid: 'TX-HOOK-3' }], description: 'Account takeover suspected', priority: 'low', created_by: admin.id });
+
+    await assignCase(fraudCase.id, investigator.id, admin.id);
+    await updateFraudCase({ id: fraudCase.id, description: 'Account takeover confirmed' }, admin.id);
+    await updateFraudCase({ id: fraudCase.id, status: 'escalated' }, admin.id);
+
+    await importCases({ format: 'json', content: JSON.stringify([{ txid: 'TX-HOOK-4', description: 'Imported alert from the card scheme' }]), dry_run: false, created_by: admin.id });
+
+    const queued = await deliveries();
+    expect(queued.map(d => d.event)).toEqual(['case.created', 'case.assigned', 'case.escalated', 'case.created']);
+    expect(JSON.parse(queued[2].payload).data.escalation).toBeNull();
+    expect(JSON.parse(queued[3].payload).data.case.txid).toEqual('TX-HOOK-4');
+  });
+
+  it('should not queue anything without subscriptions', async () => {
+    const fraudCase = await createFraudCase({ transactions: [{ txid: 'TX-HOOK-5' }], description: 'Nobody is listening', priority: 'low', created_by: admin.id });
+
+    expect(await queueWebhookEvent('case.created', { case: fraudCase })).toEqual(0);
+    expect(await deliveries()).toHaveLength(0);
+  });
+
+  it('should post signed payloads to the endpoint', async () => {
+    const receiver = await startReceiver();
+    try {
+      await subscribe(['case.created'], receiver.url);
+      await createFraudCase({ transactions: [{ txid: 'TX-HOOK-6' }], description: 'Card testing at a small merchant', priority: 'high', created_by: admin.id });
+
+      expect(await processWebhookDeliveries(new Date())).toEqual({ succeeded: 1, retrying: 0, failed: 0 });
+
+      const [delivery] = await deliveries();
+      expect(delivery.status).toEqual('succeeded');
+      expect(delivery.attempts).toEqual(1);
+      expect(delivery.response_status).toEqual(200);
+      expect(delivery.delivered_at).toBeInstanceOf(Date);
+
+      expect(receiver.received).toHaveLength(1);
+      const [request] = receiver.received;
+      expect(request.body).toEqual(delivery.payload);
+      expect(request.headers['content-type']).toEqual('application/json');
+      expect(request.headers['x-webhook-event']).toEqual('case.created');
+      expect(request.headers['x-webhook-delivery']).toEqual(String(delivery.id));
+
+      const timestamp = Number(request.headers['x-webhook-timestamp']);
+      expect(request.headers['x-webhook-signature']).toEqual(signWebhookPayload(SECRET, timestamp, request.body));
+      expect(request.headers['x-webhook-signature']).not.toEqual(signWebhookPayload('another-secret', timestamp, request.body));
+    } finally {
+      await receiver.close();
+    }
+  });
+
+  it('should retry failed deliveries with an exponential backoff', async () => {
+    const receiver = await startReceiver([503, 500, 204]);
+    try {
+      await subscribe(['case.created'], receiver.url);
+      await createFraudCase({ transactions: [{ txid: 'TX-HOOK-7' }], description: 'Endpoint is flaky', priority: 'high', created_by: admin.id });
+
+      let now = new Date();
+      expect(await processWebhookDeliveries(now)).toEqual({ succeeded: 0, retrying: 1, failed: 0 });
+
+      let [delivery] = await deliveries();
+      expect(delivery.attempts).toEqual(1);
+      expect(delivery.response_status).toEqual(503);
+      expect(delivery.last_error).toEqual('Endpoint answered with HTTP 503');
+      expect(delivery.next_attempt_at).toEqual(new Date(now.getTime() + webhookRetryDelayMinutes(1) * MINUTE));
+
+      // Not due yet
+      expect(await processWebhookDeliveries(now)).toEqual({ succeeded: 0, retrying: 0, failed: 0 });
+
+      now = delivery.next_attempt_at;
+      await processWebhookDeliveries(now);
+      [delivery] = await deliveries();
+      expect(delivery.next_attempt_at).toEqual(new Date(now.getTime() + webhookRetryDelayMinutes(2) * MINUTE));
+      expect(webhookRetryDelayMinutes(2)).toEqual(2 * webhookRetryDelayMinutes(1));
+
+      expect(await processWebhookDeliveries(delivery.next_attempt_at)).toEqual({ succeeded: 1, retrying: 0, failed: 0 });
+      [delivery] = await deliveries();
+      expect(delivery.status).toEqual('succeeded');
+      expect(delivery.attempts).toEqual(3);
+      expect(delivery.last_error).toBeNull();
+    } finally {
+      await receiver.close();
+    }
+  });
+
+  it('should give up after the last attempt', async () => {
+    // Nothing listens on port 1
+    await subscribe(['case.created']);
+    await createFraudCase({ transactions: [{ txid: 'TX-HOOK-8' }], description: 'Endpoint is gone', priority: 'high', created_by: admin.id });
+
+    for (let attempt = 0; attempt < WEBHOOK_MAX_ATTEMPTS; attempt++) {
+      const [delivery] = await deliveries();
+      await processWebhookDeliveries(delivery.next_attempt_at);
+    }
+
+    const [delivery] = await deliveries();
+    expect(delivery.status).toEqual('failed');
+    expect(delivery.attempts).toEqual(WEBHOOK_MAX_ATTEMPTS);
+    expect(delivery.response_status).toBeNull();
+    expect(delivery.last_error).toBeTruthy();
+  });
+
+  it('should deliver queued events on a schedule', async () => {
+    const receiver = await startReceiver();
+    try {
+      await subscribe(['case.created'], receiver.url);
+      await createFraudCase({ transactions: [{ txid: 'TX-HOOK-9' }], description: 'Delivered in the background', priority: 'low', created_by: admin.id });
+
+      const result = await new Promise(resolve => {
+        const stop = startWebhookDeliveryScheduler({
+          intervalMs: 10,
+          onRun: (outcome) => {
+            stop();
+            resolve(outcome);
+          }
+        });
+      });
+
+      expect(result).toEqual({ succeeded: 1, retrying: 0, failed: 0 });
+      expect(receiver.received).toHaveLength(1);
+    } finally {
+      await receiver.close();
+    }
+  });
+});
@@ -0,0 +1,83 @@
+import { initTRPC, TRPCError } from '@trpc/server';
+import { type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import { type CreateWSSContextFnOptions } from '@trpc/server/adapters/ws';
+import superjson from 'superjson';
+import { type PermissionAction, type PermissionResource, type User } from './schema';
+import { getSessionUser } from './handlers/get_session_user';
+import { hasPermission } from './handlers/check_permissions';
+import { getConflictingCase } from './handlers/case_version';
+
+export interface Context {
+  user: User | null;
+  token: string | null;
+}
+
+export interface Meta {
+  // Required (resource, action) pair, declared through `authorizedProcedure`
+  permission?: {
+    resource: PermissionResource;
+    action: PermissionAction;
+  };
+}
+
+// Reads the `Authorization: Bearer <token>` header and resolves the session user. Browsers cannot
+// set headers on WebSocket connections, so subscriptions pass the token as a connection parameter.
+export async function createContext({ req, info }: CreateHTTPContextOptions | CreateWSSContextFnOptions): Promise<Context> {
+  const header = req.headers['authorization'];
+  const token = header?.startsWith('Bearer ')
+    ? header.slice('Bearer '.length).trim()
+    : info.connectionParams?.['token'] || null;
+
+  if (!token) {
+    return { user: null, token: null };
+  }
+
+  return { user: await getSessionUser(token), token };
+}
+
+const t = initTRPC.context<Context>().meta<Meta>().create({
+  transformer: superjson,
+  // Version conflicts carry the current case so clients can merge their change into it
+  errorFormatter({ shape, error }) {
+    return {
+      ...shape,
+      data: {
+        ...shape.data,
+        current_case: getConflictingCase(error)
+      }
+    };
+  },
+});
+
+export const router = t.router;
+export const createCallerFactory = t.createCallerFactory;
+export const publicProcedure = t.procedure;
+
+// Procedures that require a valid session; `ctx.user` is the authenticated actor
+export const protectedProcedure = t.procedure.use(({ ctx, next }) => {
+  if (!ctx.user || !ctx.token) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+  }
+
+  return next({
+    ctx: {
+      user: ctx.user,
+      token: ctx.token
+    }
+  });
+});
+
+// Procedures gated by the role permission matrix; denied roles receive FORBIDDEN
+export const authorizedProcedure = (resource: PermissionResource, action: PermissionAction) =>
+  protectedProcedure
+    .meta({ permission: { resource, action } })
+    .use(({ ctx, next }) => {
+      if (!hasPermission(ctx.user.role, resource, action)) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: `Role ${ctx.user.role} is not allowed to ${action} ${resource}`
+        });
+      }
+
+      return next();
+    });
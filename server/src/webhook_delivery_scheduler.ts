@@ -0,0 +1,34 @@
+import { processWebhookDeliveries, type WebhookDeliveryResult, type WebhookFetch } from './handlers/webhook_delivery';
+
+export interface WebhookDeliverySchedulerOptions {
+  intervalMs: number;
+  send?: WebhookFetch; // Injectable for tests
+  clock?: () => Date; // Injectable for tests
+  onRun?: (result: WebhookDeliveryResult) => void;
+}
+
+// Works through the webhook delivery queue every intervalMs without overlapping runs.
+// Returns a stop function.
+export function startWebhookDeliveryScheduler(options: WebhookDeliverySchedulerOptions): () => void {
+  const clock = options.clock ?? (() => new Date());
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const result = await processWebhookDeliveries(clock(), options.send);
+      if (result.succeeded + result.retrying + result.failed > 0) {
+        console.log(`Webhook delivery succeeded ${result.succeeded}, will retry ${result.retrying}, gave up on ${result.failed}`);
+      }
+      options.onRun?.(result);
+    } catch {
+      // Already logged by the webhook delivery handler; the next tick tries again
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, options.intervalMs);
+  return () => clearInterval(timer);
+}